@@ -21,6 +21,7 @@ import { LearningModule } from './learning/learning.module';
 import { AiModule } from './ai/ai.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { PrivacyModule } from './privacy/privacy.module';
 
 // 通用服务模块
 import { CommonModule } from './common/common.module';
@@ -113,6 +114,7 @@ import { MetricsInterceptor } from './common/interceptors/metrics.interceptor';
     AiModule,
     AnalyticsModule,
     NotificationsModule,
+    PrivacyModule,
   ],
   providers: [
     // 全局守卫
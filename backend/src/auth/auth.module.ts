@@ -1,48 +1,75 @@
 import { Module, forwardRef } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { PassportModule } from '@nestjs/passport';
-import { ConfigService } from '@nestjs/config';
 import { BullModule } from '@nestjs/bull';
 
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { MfaController } from './controllers/mfa.controller';
+import { WebAuthnController } from './controllers/webauthn.controller';
+import { AccountStatusController } from './controllers/account-status.controller';
+import { SessionsController } from './controllers/sessions.controller';
+import { RolesController } from './controllers/roles.controller';
+import { OrganizationsController } from './controllers/organizations.controller';
+import { OrganizationRolesController } from './controllers/organization-roles.controller';
+import { OidcController } from './controllers/oidc.controller';
+import { PasswordlessController } from './controllers/passwordless.controller';
+import { PasswordPolicyController } from './controllers/password-policy.controller';
+import { ApiKeysController } from './controllers/api-keys.controller';
+import { ServiceAccountsController } from './controllers/service-accounts.controller';
+import { ParentalConsentController } from './controllers/parental-consent.controller';
+import { PhoneController } from './controllers/phone.controller';
+import { EmailChangeController } from './controllers/email-change.controller';
+import { ImpersonationController } from './controllers/impersonation.controller';
+import { LoginRiskController } from './controllers/login-risk.controller';
 import { UsersModule } from '../users/users.module';
 import { RedisModule } from '../redis/redis.module';
 import { EmailModule } from '../email/email.module';
+import { SmsModule } from '../sms/sms.module';
 
 // 策略
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { RefreshTokenStrategy } from './strategies/refresh-token.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 
 // 守卫
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { ApiKeyAuthGuard } from './guards/api-key-auth.guard';
+import { ImpersonationInterceptor } from './interceptors/impersonation.interceptor';
 
 // 服务
 import { PasswordService } from './services/password.service';
 import { TokenService } from './services/token.service';
 import { MfaService } from './services/mfa.service';
+import { AuditService } from './services/audit.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { AccountStatusService } from './services/account-status.service';
+import { SessionService } from './services/session.service';
+import { SecurityNotificationService } from './services/security-notification.service';
+import { EncryptionService } from './services/encryption.service';
+import { KeyRingService } from './services/key-ring.service';
+import { PermissionService } from './services/permission.service';
+import { RoleService } from './services/role.service';
+import { OidcService } from './services/oidc.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { BreachedPasswordService } from './services/breached-password.service';
+import { ApiKeyService } from './services/api-key.service';
+import { ParentalConsentService } from './services/parental-consent.service';
+import { PhoneVerificationService } from './services/phone-verification.service';
+import { ReauthenticationService } from './services/reauthentication.service';
+import { EmailChangeService } from './services/email-change.service';
+import { ImpersonationService } from './services/impersonation.service';
+import { LoginRiskService } from './services/login-risk.service';
 
 // 队列处理器
 import { AuthQueueProcessor } from './processors/auth-queue.processor';
 
 @Module({
   imports: [
-    // JWT模块配置
-    JwtModule.registerAsync({
-      inject: [ConfigService],
-      useFactory: (configService: ConfigService) => ({
-        secret: configService.get<string>('jwt.secret'),
-        signOptions: {
-          expiresIn: configService.get<string>('jwt.accessTokenExpiry'),
-          issuer: configService.get<string>('jwt.issuer'),
-          audience: configService.get<string>('jwt.audience'),
-        },
-      }),
-    }),
-    
     // Passport模块
     PassportModule.register({ defaultStrategy: 'jwt' }),
     
@@ -64,9 +91,29 @@ import { AuthQueueProcessor } from './processors/auth-queue.processor';
     forwardRef(() => UsersModule),
     RedisModule,
     EmailModule,
+    SmsModule,
   ],
   
-  controllers: [AuthController],
+  controllers: [
+    AuthController,
+    MfaController,
+    WebAuthnController,
+    AccountStatusController,
+    SessionsController,
+    RolesController,
+    OrganizationsController,
+    OrganizationRolesController,
+    OidcController,
+    PasswordlessController,
+    PasswordPolicyController,
+    ApiKeysController,
+    ServiceAccountsController,
+    ParentalConsentController,
+    PhoneController,
+    EmailChangeController,
+    ImpersonationController,
+    LoginRiskController,
+  ],
   
   providers: [
     // 核心服务
@@ -74,16 +121,44 @@ import { AuthQueueProcessor } from './processors/auth-queue.processor';
     PasswordService,
     TokenService,
     MfaService,
+    AuditService,
+    WebAuthnService,
+    AccountStatusService,
+    SessionService,
+    SecurityNotificationService,
+    EncryptionService,
+    KeyRingService,
+    PermissionService,
+    RoleService,
+    OidcService,
+    PasswordPolicyService,
+    BreachedPasswordService,
+    ApiKeyService,
+    ParentalConsentService,
+    PhoneVerificationService,
+    ReauthenticationService,
+    EmailChangeService,
+    ImpersonationService,
+    LoginRiskService,
     
     // 认证策略
     LocalStrategy,
     JwtStrategy,
     RefreshTokenStrategy,
+    ApiKeyStrategy,
     
     // 守卫
     JwtAuthGuard,
     LocalAuthGuard,
     RolesGuard,
+    PermissionsGuard,
+    ApiKeyAuthGuard,
+    
+    // 拦截器（代入会话的敏感操作拦截与请求审计）
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ImpersonationInterceptor,
+    },
     
     // 队列处理器
     AuthQueueProcessor,
@@ -93,8 +168,18 @@ import { AuthQueueProcessor } from './processors/auth-queue.processor';
     AuthService,
     JwtAuthGuard,
     RolesGuard,
+    PermissionsGuard,
+    ApiKeyAuthGuard,
     TokenService,
     PasswordService,
+    MfaService,
+    AuditService,
+    AccountStatusService,
+    EncryptionService,
+    KeyRingService,
+    PermissionService,
+    ApiKeyService,
+    ParentalConsentService,
   ],
 })
 export class AuthModule {}
@@ -0,0 +1,464 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { AuthService } from './auth.service';
+import { PrismaService } from '../database/database.module';
+import { RedisService } from '../redis/redis.service';
+import { EmailService } from '../email/email.service';
+import { PasswordService } from './services/password.service';
+import { TokenService } from './services/token.service';
+import { MfaService } from './services/mfa.service';
+import { AuditService } from './services/audit.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { AccountStatusService } from './services/account-status.service';
+import { OidcService } from './services/oidc.service';
+import { ParentalConsentService } from './services/parental-consent.service';
+import { PhoneVerificationService } from './services/phone-verification.service';
+import { LoginRiskService } from './services/login-risk.service';
+import { AccountRestrictedError, ImpersonationForbiddenError } from '../../shared/types';
+
+jest.mock('../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const TOKENS = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 900, tokenType: 'Bearer' };
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let user: Record<string, any>;
+  let prisma: { user: { findUnique: jest.Mock; update: jest.Mock; create: jest.Mock } };
+  let tokenService: {
+    generateTokenPair: jest.Mock;
+    verifyRefreshToken: jest.Mock;
+    claimRefreshTokenRotation: jest.Mock;
+    recordRotationSuccessor: jest.Mock;
+  };
+  let mfaService: {
+    generateMfaToken: jest.Mock;
+    verifyMfaToken: jest.Mock;
+    isMfaMethodAllowed: jest.Mock;
+    invalidateMfaToken: jest.Mock;
+  };
+  let passwordService: {
+    verifyPassword: jest.Mock;
+    needsRehash: jest.Mock;
+    hashPassword: jest.Mock;
+    isPasswordExpired: jest.Mock;
+    checkPasswordBreach: jest.Mock;
+  };
+  let oidcService: { completeAuthorization: jest.Mock; findLinkedUserId: jest.Mock; linkIdentity: jest.Mock };
+  let webAuthnService: { verifyAuthentication: jest.Mock; hasPasskeys: jest.Mock; generateAuthenticationOptions: jest.Mock };
+  let parentalConsentService: { assessAge: jest.Mock; requestConsent: jest.Mock };
+  let accountStatusService: { assertCanAuthenticate: jest.Mock; recordFailedLogin: jest.Mock };
+  let loginRiskService: {
+    recordAttempt: jest.Mock;
+    recordFailure: jest.Mock;
+    recordSuccessfulLogin: jest.Mock;
+    assess: jest.Mock;
+    createStepUpChallenge: jest.Mock;
+  };
+  let checkRateLimit: jest.Mock;
+  let redisStore: Map<string, string>;
+
+  beforeEach(async () => {
+    user = {
+      id: 'user-1',
+      email: 'learner@example.com',
+      status: 'ACTIVE',
+      mfaEnabled: false,
+      smsMfaEnabled: false,
+      phoneVerified: false,
+      passwordHash: 'hash',
+      mfaSecret: null,
+    };
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockImplementation(async () => user),
+        update: jest.fn(),
+        create: jest.fn().mockImplementation(async ({ data }) => ({ id: 'user-new', status: 'ACTIVE', ...data })),
+      },
+    };
+    tokenService = {
+      generateTokenPair: jest.fn().mockResolvedValue(TOKENS),
+      verifyRefreshToken: jest.fn().mockResolvedValue({ userId: 'user-1', type: 'refresh', jti: 'refresh-1', sessionId: 'session-1' }),
+      claimRefreshTokenRotation: jest.fn().mockResolvedValue(true),
+      recordRotationSuccessor: jest.fn(),
+    };
+    mfaService = {
+      generateMfaToken: jest.fn().mockResolvedValue('mfa-token'),
+      verifyMfaToken: jest.fn().mockResolvedValue('user-1'),
+      isMfaMethodAllowed: jest.fn().mockResolvedValue(true),
+      invalidateMfaToken: jest.fn(),
+    };
+    webAuthnService = {
+      verifyAuthentication: jest.fn(),
+      hasPasskeys: jest.fn().mockResolvedValue(true),
+      generateAuthenticationOptions: jest.fn(),
+    };
+
+    passwordService = {
+      verifyPassword: jest.fn().mockResolvedValue(true),
+      needsRehash: jest.fn().mockReturnValue(false),
+      hashPassword: jest.fn().mockResolvedValue('$argon2id$new-hash'),
+      isPasswordExpired: jest.fn().mockResolvedValue(false),
+      checkPasswordBreach: jest.fn().mockResolvedValue(false),
+    };
+    parentalConsentService = {
+      assessAge: jest.fn().mockReturnValue({ dateOfBirth: new Date('1990-01-01T00:00:00Z'), requiresConsent: false }),
+      requestConsent: jest.fn(),
+    };
+    accountStatusService = { assertCanAuthenticate: jest.fn(), recordFailedLogin: jest.fn() };
+    loginRiskService = {
+      recordAttempt: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccessfulLogin: jest.fn(),
+      assess: jest.fn().mockResolvedValue({ score: 0, signals: [], requiresStepUp: false }),
+      createStepUpChallenge: jest.fn().mockResolvedValue('step-up-token'),
+    };
+    checkRateLimit = jest.fn().mockResolvedValue(true);
+    redisStore = new Map();
+    oidcService = {
+      completeAuthorization: jest.fn(),
+      findLinkedUserId: jest.fn().mockResolvedValue(null),
+      linkIdentity: jest.fn(),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            checkRateLimit,
+            get: jest.fn(async (key: string) => redisStore.get(key) ?? null),
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => redisStore.set(key, value)),
+            del: jest.fn(async (key: string) => redisStore.delete(key)),
+          },
+        },
+        { provide: EmailService, useValue: {} },
+        { provide: PasswordService, useValue: passwordService },
+        { provide: TokenService, useValue: tokenService },
+        { provide: MfaService, useValue: mfaService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: WebAuthnService, useValue: webAuthnService },
+        { provide: AccountStatusService, useValue: accountStatusService },
+        { provide: OidcService, useValue: oidcService },
+        { provide: ParentalConsentService, useValue: parentalConsentService },
+        { provide: PhoneVerificationService, useValue: {} },
+        { provide: LoginRiskService, useValue: loginRiskService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: getQueueToken('auth'), useValue: { add: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(AuthService);
+  });
+
+  describe('login', () => {
+    const dto = { email: 'learner@example.com', password: 'correct horse battery staple' };
+
+    it('refuses a password past its maximum age', async () => {
+      passwordService.isPasswordExpired.mockResolvedValue(true);
+
+      await expect(service.login(dto)).rejects.toMatchObject({ code: 'PASSWORD_EXPIRED' });
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('refuses an expired password before offering a second factor', async () => {
+      user.mfaEnabled = true;
+      passwordService.isPasswordExpired.mockResolvedValue(true);
+
+      await expect(service.login(dto)).rejects.toMatchObject({ code: 'PASSWORD_EXPIRED' });
+      expect(mfaService.generateMfaToken).not.toHaveBeenCalled();
+    });
+
+    it('signs in with a current password', async () => {
+      const result = await service.login(dto);
+
+      expect(result.tokens).toEqual(TOKENS);
+    });
+
+    it('answers a locked account without checking the password', async () => {
+      user.status = 'LOCKED';
+      accountStatusService.assertCanAuthenticate.mockRejectedValue(new AccountRestrictedError('LOCKED'));
+
+      await expect(service.login(dto)).rejects.toBeInstanceOf(AccountRestrictedError);
+      passwordService.verifyPassword.mockResolvedValue(false);
+      await expect(service.login(dto)).rejects.toBeInstanceOf(AccountRestrictedError);
+
+      expect(passwordService.verifyPassword).not.toHaveBeenCalled();
+      expect(accountStatusService.recordFailedLogin).not.toHaveBeenCalled();
+    });
+
+    it('rehashes a legacy password hash after a successful sign-in', async () => {
+      user.passwordHash = '$2b$12$legacy-bcrypt-hash';
+      passwordService.needsRehash.mockReturnValue(true);
+
+      await service.login(dto);
+
+      expect(passwordService.needsRehash).toHaveBeenCalledWith('$2b$12$legacy-bcrypt-hash');
+      expect(passwordService.hashPassword).toHaveBeenCalledWith(dto.password);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { passwordHash: '$argon2id$new-hash' },
+      });
+    });
+
+    it('does not rehash after a wrong password', async () => {
+      passwordService.needsRehash.mockReturnValue(true);
+      passwordService.verifyPassword.mockResolvedValue(false);
+
+      await expect(service.login(dto)).rejects.toThrow('Invalid credentials');
+      expect(passwordService.hashPassword).not.toHaveBeenCalled();
+    });
+
+    it('stops checking passwords once the account is rate limited', async () => {
+      checkRateLimit.mockResolvedValue(false);
+
+      await expect(service.login(dto)).rejects.toThrow('Too many login attempts');
+      expect(passwordService.verifyPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    it('issues tokens for a user-verified passkey even when MFA is enabled', async () => {
+      user.mfaEnabled = true;
+      webAuthnService.verifyAuthentication.mockResolvedValue({ userId: 'user-1', userVerified: true });
+
+      const result = await service.loginWithPasskey('challenge-1', {});
+
+      expect(result.tokens).toEqual(TOKENS);
+      expect(result.requiresMfa).toBeUndefined();
+    });
+
+    it('requires a second factor other than the passkey when user verification was skipped', async () => {
+      user.mfaEnabled = true;
+      webAuthnService.verifyAuthentication.mockResolvedValue({ userId: 'user-1', userVerified: false });
+
+      const result = await service.loginWithPasskey('challenge-1', {});
+
+      expect(result).toEqual({ requiresMfa: true, mfaToken: 'mfa-token', mfaMethods: ['totp'] });
+      expect(mfaService.generateMfaToken).toHaveBeenCalledWith('user-1', ['passkey']);
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('logs in without user verification when MFA is not enabled', async () => {
+      webAuthnService.verifyAuthentication.mockResolvedValue({ userId: 'user-1', userVerified: false });
+
+      const result = await service.loginWithPasskey('challenge-1', {});
+
+      expect(result.tokens).toEqual(TOKENS);
+    });
+
+    it('requires a step-up for a risky sign-in without user verification', async () => {
+      loginRiskService.assess.mockResolvedValue({ score: 60, signals: ['new_device', 'new_ip'], requiresStepUp: true });
+      webAuthnService.verifyAuthentication.mockResolvedValue({ userId: 'user-1', userVerified: false });
+
+      const result = await service.loginWithPasskey('challenge-1', {});
+
+      expect(result).toEqual({ stepUpRequired: true, stepUpToken: 'step-up-token' });
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordlessLogin', () => {
+    it('rate-limits by email before looking up the account', async () => {
+      checkRateLimit.mockResolvedValue(false);
+
+      await expect(service.requestPasswordlessLogin(' Nobody@Example.com ', 'code', { ip: '203.0.113.7' }))
+        .rejects.toThrow('Too many login emails sent');
+      expect(checkRateLimit).toHaveBeenCalledWith('passwordless_login:nobody@example.com', 3, 300);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('answers an unknown email the same way as a known one', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.requestPasswordlessLogin('nobody@example.com', 'code', { ip: '203.0.113.7' }))
+        .resolves.toBeUndefined();
+      expect(checkRateLimit).toHaveBeenCalledWith('passwordless_login_ip:203.0.113.7', 20, 300);
+    });
+  });
+
+  describe('refreshTokens', () => {
+    it('rotates the refresh token within the same session', async () => {
+      await expect(service.refreshTokens('refresh')).resolves.toEqual(TOKENS);
+      expect(tokenService.generateTokenPair).toHaveBeenCalledWith(user, expect.objectContaining({ sessionId: 'session-1' }));
+      expect(tokenService.recordRotationSuccessor).toHaveBeenCalledWith('refresh-1', TOKENS, undefined);
+    });
+
+    it('returns the already-issued successor instead of forking the token family', async () => {
+      const successor = { ...TOKENS, refreshToken: 'successor' };
+      tokenService.verifyRefreshToken.mockResolvedValue({ userId: 'user-1', jti: 'refresh-1', sessionId: 'session-1', successor });
+
+      await expect(service.refreshTokens('refresh')).resolves.toBe(successor);
+      expect(tokenService.claimRefreshTokenRotation).not.toHaveBeenCalled();
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('rejects a concurrent request that lost the rotation', async () => {
+      tokenService.claimRefreshTokenRotation.mockResolvedValue(false);
+
+      await expect(service.refreshTokens('refresh')).rejects.toThrow('Invalid or expired refresh token');
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithOidc account linking', () => {
+    const claims = {
+      provider: 'google',
+      subject: 'google-123',
+      email: 'learner@example.com',
+      emailVerified: true,
+      name: 'Learner',
+    };
+
+    beforeEach(() => {
+      user.emailVerified = true;
+    });
+
+    it('links the identity when both the provider and the account verified the email', async () => {
+      oidcService.completeAuthorization.mockResolvedValue(claims);
+
+      const result = await service.loginWithOidc('google', 'code', 'state');
+
+      expect(oidcService.linkIdentity).toHaveBeenCalledWith('user-1', claims, undefined);
+      expect(result.tokens).toEqual(TOKENS);
+    });
+
+    it('refuses to link when the provider did not verify the email', async () => {
+      oidcService.completeAuthorization.mockResolvedValue({ ...claims, emailVerified: false });
+
+      await expect(service.loginWithOidc('google', 'code', 'state')).rejects.toThrow('An account with this email already exists');
+      expect(oidcService.linkIdentity).not.toHaveBeenCalled();
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('refuses to link when the local account never verified its email', async () => {
+      user.emailVerified = false;
+      oidcService.completeAuthorization.mockResolvedValue(claims);
+
+      await expect(service.loginWithOidc('google', 'code', 'state')).rejects.toThrow('An account with this email already exists');
+      expect(oidcService.linkIdentity).not.toHaveBeenCalled();
+    });
+
+    it('signs in an already-linked identity without matching emails', async () => {
+      oidcService.completeAuthorization.mockResolvedValue({ ...claims, email: 'other@example.com', emailVerified: false });
+      oidcService.findLinkedUserId.mockResolvedValue('user-1');
+
+      const result = await service.loginWithOidc('google', 'code', 'state');
+
+      expect(result.tokens).toEqual(TOKENS);
+      expect(oidcService.linkIdentity).not.toHaveBeenCalled();
+    });
+
+    it('requires a step-up for a risky sign-in', async () => {
+      loginRiskService.assess.mockResolvedValue({ score: 60, signals: ['new_device', 'new_ip'], requiresStepUp: true });
+      oidcService.completeAuthorization.mockResolvedValue(claims);
+      oidcService.findLinkedUserId.mockResolvedValue('user-1');
+
+      const result = await service.loginWithOidc('google', 'code', 'state');
+
+      expect(result).toEqual({ stepUpRequired: true, stepUpToken: 'step-up-token' });
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('asks for a date of birth before creating an account for a new identity', async () => {
+      oidcService.completeAuthorization.mockResolvedValue({ ...claims, email: 'new@example.com' });
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      const result = await service.loginWithOidc('google', 'code', 'state');
+
+      expect(result).toEqual({ signupRequired: true, signupToken: expect.any(String) });
+      expect(prisma.user.create).not.toHaveBeenCalled();
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeOidcSignup', () => {
+    let signupToken: string;
+
+    beforeEach(async () => {
+      oidcService.completeAuthorization.mockResolvedValue({
+        provider: 'google',
+        subject: 'google-123',
+        email: 'new@example.com',
+        emailVerified: true,
+      });
+      prisma.user.findUnique.mockResolvedValue(null);
+      ({ signupToken } = await service.loginWithOidc('google', 'code', 'state'));
+    });
+
+    it('creates and signs in an adult account', async () => {
+      const result = await service.completeOidcSignup({ signupToken, dateOfBirth: '1990-01-01' });
+
+      expect(parentalConsentService.assessAge).toHaveBeenCalledWith('1990-01-01');
+      expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ email: 'new@example.com', emailVerified: true, isMinor: false }),
+      }));
+      expect(oidcService.linkIdentity).toHaveBeenCalledWith('user-new', expect.objectContaining({ subject: 'google-123' }), undefined);
+      expect(result.tokens).toEqual(TOKENS);
+    });
+
+    it('keeps a minor restricted until the guardian consents', async () => {
+      parentalConsentService.assessAge.mockReturnValue({ dateOfBirth: new Date('2014-01-01T00:00:00Z'), requiresConsent: true });
+      prisma.user.create.mockImplementation(async ({ data }) => ({ id: 'user-new', ...data }));
+
+      const result = await service.completeOidcSignup({
+        signupToken,
+        dateOfBirth: '2014-01-01',
+        guardianEmail: 'Parent@Example.com',
+      });
+
+      expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          isMinor: true,
+          status: 'PENDING_CONSENT',
+          userPreferences: {
+            create: expect.objectContaining({ publicProfile: false, openGameRooms: false, chatEnabled: false }),
+          },
+        }),
+      }));
+      expect(parentalConsentService.requestConsent).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-new' }),
+        'parent@example.com',
+      );
+      expect(result).toEqual({ user: expect.any(Object), consentRequired: true });
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('requires a guardian email for a minor and keeps the sign-up token usable', async () => {
+      parentalConsentService.assessAge.mockReturnValue({ dateOfBirth: new Date('2014-01-01T00:00:00Z'), requiresConsent: true });
+
+      await expect(service.completeOidcSignup({ signupToken, dateOfBirth: '2014-01-01' })).rejects.toThrow(
+        'A guardian email address is required',
+      );
+      expect(prisma.user.create).not.toHaveBeenCalled();
+      expect(redisStore.has(`oidc_signup:${signupToken}`)).toBe(true);
+    });
+
+    it('rejects a sign-up token that was already used', async () => {
+      await service.completeOidcSignup({ signupToken, dateOfBirth: '1990-01-01' });
+
+      await expect(service.completeOidcSignup({ signupToken, dateOfBirth: '1990-01-01' })).rejects.toThrow(
+        'Invalid or expired sign-up request',
+      );
+    });
+  });
+
+  it('refuses to change the password from an impersonation session', async () => {
+    await expect(service.changePassword('user-1', 'old', 'new-password', { sub: 'admin-1' })).rejects.toBeInstanceOf(
+      ImpersonationForbiddenError,
+    );
+    expect(passwordService.verifyPassword).not.toHaveBeenCalled();
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a passkey second factor on an MFA token that excludes it', async () => {
+    mfaService.isMfaMethodAllowed.mockResolvedValue(false);
+
+    await expect(service.verifyPasskeyMfaAndLogin('mfa-token', 'challenge-1', {})).rejects.toThrow(
+      'Passkey cannot be used as the second factor',
+    );
+    expect(webAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+  });
+});
@@ -6,18 +6,48 @@ import { PrismaService } from '../database/database.module';
 import { RedisService } from '../redis/redis.service';
 import { EmailService } from '../email/email.service';
 import { PasswordService } from './services/password.service';
-import { TokenService } from './services/token.service';
+import { TokenService, JwtPayload } from './services/token.service';
 import { MfaService } from './services/mfa.service';
-import { User, UserRole } from '@prisma/client';
+import { AuditService } from './services/audit.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { AccountStatusService } from './services/account-status.service';
+import { OidcService, OidcClaims } from './services/oidc.service';
+import { ParentalConsentService, MINOR_PREFERENCE_RESTRICTIONS } from './services/parental-consent.service';
+import { PhoneVerificationService } from './services/phone-verification.service';
+import { LoginRiskService, LoginRiskAssessment } from './services/login-risk.service';
+import { AccountStatus, User, UserRole } from '@prisma/client';
 import { 
   RegisterDto, 
   LoginDto, 
   AuthResult, 
   AuthTokens,
+  CompleteOidcSignupDto,
+  ImpersonationForbiddenError,
+  MfaMethod,
+  PasswordExpiredError,
+  PasswordlessMethod,
+  SmsCodeSent,
   UnauthorizedError,
   ValidationError 
 } from '../../shared/types';
 import { v4 as uuidv4 } from 'uuid';
+import * as crypto from 'crypto';
+
+// 新用户的默认偏好设置
+const DEFAULT_USER_PREFERENCES = {
+  language: 'en',
+  theme: 'light',
+  emailNotifications: true,
+  pushNotifications: true,
+};
+
+/**
+ * 返回给客户端的用户信息（去除密码哈希与MFA密钥）
+ */
+export function sanitizeUser(user: User): Partial<User> {
+  const { passwordHash, mfaSecret, ...sanitizedUser } = user;
+  return sanitizedUser;
+}
 
 @Injectable()
 export class AuthService {
@@ -28,6 +58,13 @@ export class AuthService {
     private readonly passwordService: PasswordService,
     private readonly tokenService: TokenService,
     private readonly mfaService: MfaService,
+    private readonly auditService: AuditService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly accountStatusService: AccountStatusService,
+    private readonly oidcService: OidcService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly phoneVerificationService: PhoneVerificationService,
+    private readonly loginRiskService: LoginRiskService,
     private readonly configService: ConfigService,
     @InjectQueue('auth') private readonly authQueue: Queue,
   ) {}
@@ -39,26 +76,35 @@ export class AuthService {
     // 1. 验证用户唯一性
     await this.validateUniqueUser(dto.email);
 
-    // 2. 密码强度验证和加密
-    this.passwordService.validatePasswordStrength(dto.password);
+    // 2. 年龄校验，未满同意年龄须提供监护人邮箱
+    const { dateOfBirth, requiresConsent } = this.parentalConsentService.assessAge(dto.dateOfBirth);
+    const guardianEmail = this.validateGuardianEmail(dto.email, requiresConsent, dto.guardianEmail);
+
+    // 3. 密码策略验证和加密
+    await this.passwordService.assertPasswordAllowed(dto.password);
     const passwordHash = await this.passwordService.hashPassword(dto.password);
 
-    // 3. 创建用户
+    // 4. 创建用户（未成年人在监护人确认前处于受限状态）
     const user = await this.prisma.user.create({
       data: {
         email: dto.email.toLowerCase().trim(),
         passwordHash,
+        passwordChangedAt: new Date(),
         nickname: dto.nickname?.trim(),
         uuid: uuidv4(),
+        dateOfBirth,
+        isMinor: requiresConsent,
         roles: [UserRole.STUDENT], // 默认角色
+        ...(requiresConsent && {
+          status: AccountStatus.PENDING_CONSENT,
+          statusReason: 'parental_consent_required',
+          statusChangedAt: new Date(),
+        }),
         // 创建默认用户偏好
         userPreferences: {
-          create: {
-            language: 'en',
-            theme: 'light',
-            emailNotifications: true,
-            pushNotifications: true,
-          },
+          create: requiresConsent
+            ? { ...DEFAULT_USER_PREFERENCES, ...MINOR_PREFERENCE_RESTRICTIONS }
+            : DEFAULT_USER_PREFERENCES,
         },
       },
       include: {
@@ -66,8 +112,7 @@ export class AuthService {
       },
     });
 
-    // 4. 生成Token对
-    const tokens = await this.tokenService.generateTokenPair(user);
+    await this.passwordService.recordPasswordHistory(user.id, passwordHash);
 
     // 5. 异步发送验证邮件
     await this.authQueue.add('send-verification-email', {
@@ -78,15 +123,32 @@ export class AuthService {
       delay: 1000, // 1秒后发送
     });
 
-    // 6. 记录注册事件
+    // 6. 未成年人：通知监护人
+    if (requiresConsent) {
+      await this.parentalConsentService.requestConsent(user, guardianEmail);
+    }
+
+    // 7. 记录注册事件
     await this.logAuthEvent(user.id, 'REGISTER', {
       email: user.email,
+      minor: requiresConsent || undefined,
       ip: dto.clientInfo?.ip,
       userAgent: dto.clientInfo?.userAgent,
     });
 
+    // 监护人确认前不签发令牌
+    if (requiresConsent) {
+      return {
+        user: sanitizeUser(user),
+        consentRequired: true,
+      };
+    }
+
+    // 8. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo: dto.clientInfo });
+
     return {
-      user: this.sanitizeUser(user),
+      user: sanitizeUser(user),
       tokens,
     };
   }
@@ -95,54 +157,78 @@ export class AuthService {
    * 用户登录
    */
   async login(dto: LoginDto): Promise<AuthResult> {
-    // 1. 验证用户凭据
-    const user = await this.validateUserCredentials(dto.email, dto.password);
+    // 1. 记录登录尝试（IP频率）
+    await this.loginRiskService.recordAttempt(dto.clientInfo);
 
-    // 2. 检查账户状态
-    await this.checkAccountStatus(user);
+    // 2. 验证用户凭据（校验密码前先检查账户维度的频率限制）
+    const user = await this.validateUserCredentials(dto.email, dto.password, dto.clientInfo);
 
-    // 3. 检查登录频率限制
-    await this.checkLoginRateLimit(user.id, dto.clientInfo?.ip);
+    // 3. 检查账户状态
+    await this.checkAccountStatus(user);
 
-    // 4. 多因素认证检查
-    if (user.mfaEnabled) {
-      const mfaToken = await this.mfaService.generateMfaToken(user.id);
-      
-      // 记录MFA请求
-      await this.logAuthEvent(user.id, 'MFA_REQUIRED', {
+    // 4. 超过最长使用期限的密码不能再用于登录，须通过密码重置设置新密码
+    const passwordExpired = await this.passwordService.isPasswordExpired(
+      user.id,
+      user.passwordChangedAt ?? user.createdAt,
+    );
+    if (passwordExpired) {
+      await this.logAuthEvent(user.id, 'LOGIN_FAILED', {
+        reason: 'password_expired',
         ip: dto.clientInfo?.ip,
         userAgent: dto.clientInfo?.userAgent,
       });
+      throw new PasswordExpiredError();
+    }
+
+    // 已泄露的密码仍允许登录，由客户端引导修改
+    const passwordCompromised = await this.checkPasswordCompromised(user, dto.password);
 
+    // 5. 登录风险评估
+    const risk = await this.loginRiskService.assess(user, dto.clientInfo, { passwordCompromised });
+
+    // 6. 多因素认证检查（已开启MFA的账户无需额外的邮箱验证）
+    if (user.mfaEnabled) {
       return {
-        requiresMfa: true,
-        mfaToken,
+        ...(await this.createMfaChallenge(user, dto.clientInfo)),
+        passwordCompromised,
       };
     }
 
-    // 5. 生成Token对
-    const tokens = await this.tokenService.generateTokenPair(user);
+    // 7. 高风险登录要求邮箱验证码二次验证
+    if (risk.requiresStepUp) {
+      return {
+        ...(await this.createStepUpChallenge(user, risk, dto.clientInfo)),
+        passwordCompromised,
+      };
+    }
 
-    // 6. 更新用户最后登录信息
+    // 8. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo: dto.clientInfo });
+
+    // 9. 更新用户最后登录信息
     await this.updateUserLoginInfo(user.id, dto.clientInfo);
 
-    // 7. 记录登录事件
+    // 10. 记录登录事件
     await this.logAuthEvent(user.id, 'LOGIN_SUCCESS', {
       ip: dto.clientInfo?.ip,
       userAgent: dto.clientInfo?.userAgent,
       rememberMe: dto.rememberMe,
+      passwordCompromised,
+      riskScore: risk.score,
+      riskSignals: risk.signals,
     });
 
     return {
-      user: this.sanitizeUser(user),
+      user: sanitizeUser(user),
       tokens,
+      passwordCompromised,
     };
   }
 
   /**
-   * MFA验证登录
+   * MFA验证登录（默认TOTP/备用恢复码，也可使用短信验证码）
    */
-  async verifyMfaAndLogin(mfaToken: string, mfaCode: string, clientInfo?: any): Promise<AuthResult> {
+  async verifyMfaAndLogin(mfaToken: string, mfaCode: string, clientInfo?: any, method: MfaMethod = 'totp'): Promise<AuthResult> {
     // 1. 验证MFA令牌
     const userId = await this.mfaService.verifyMfaToken(mfaToken);
     if (!userId) {
@@ -155,57 +241,394 @@ export class AuthService {
       throw new UnauthorizedError('User not found');
     }
 
-    // 3. 验证MFA代码
-    const isValidMfaCode = await this.mfaService.verifyMfaCode(user.id, mfaCode);
+    // 4. 检查账户状态（MFA期间账户可能已被限制）
+    await this.checkAccountStatus(user);
+
+    // 5. 验证MFA代码
+    const isValidMfaCode = await this.mfaService.verifyMfaCode(user.id, mfaCode, clientInfo, method);
     if (!isValidMfaCode) {
-      await this.logAuthEvent(user.id, 'MFA_FAILED', { ip: clientInfo?.ip });
+      await this.logAuthEvent(user.id, 'MFA_FAILED', { ip: clientInfo?.ip, method });
       throw new UnauthorizedError('Invalid MFA code');
     }
 
-    // 4. 生成Token对
-    const tokens = await this.tokenService.generateTokenPair(user);
+    // MFA令牌一次性使用
+    await this.mfaService.invalidateMfaToken(mfaToken);
+
+    // 6. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 7. 更新用户登录信息
+    await this.updateUserLoginInfo(user.id, clientInfo);
+
+    // 8. 记录成功登录
+    await this.logAuthEvent(user.id, 'MFA_LOGIN_SUCCESS', {
+      method,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return {
+      user: sanitizeUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * 提交高风险登录的邮箱验证码，完成登录
+   */
+  async verifyStepUpAndLogin(stepUpToken: string, code: string, clientInfo?: any): Promise<AuthResult> {
+    // 2. 验证临时令牌与邮箱验证码
+    const userId = await this.loginRiskService.verifyStepUp(stepUpToken, code);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired verification code');
+    }
+
+    // 3. 获取用户信息
+    let user = await this.findUserById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    // 4. 检查账户状态（验证期间账户可能已被限制）
+    await this.checkAccountStatus(user);
+
+    // 5. 能收到邮件即证明邮箱归属
+    if (!user.emailVerified) {
+      user = await this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        },
+        include: {
+          userPreferences: true,
+        },
+      });
+    }
+
+    // 6. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 7. 更新用户登录信息
+    await this.updateUserLoginInfo(user.id, clientInfo);
+
+    // 8. 记录成功登录
+    await this.logAuthEvent(user.id, 'STEP_UP_LOGIN_SUCCESS', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return {
+      user: sanitizeUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * 通行密钥登录（无需密码）
+   */
+  async loginWithPasskey(challengeId: string, response: any, clientInfo?: any): Promise<AuthResult> {
+    // 2. 验证通行密钥断言
+    const { userId, userVerified } = await this.webAuthnService.verifyAuthentication(challengeId, response, clientInfo);
+
+    // 3. 获取用户信息
+    const user = await this.findUserById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    // 4. 检查账户状态
+    await this.checkAccountStatus(user);
+
+    // 5. 登录风险评估
+    const risk = await this.loginRiskService.assess(user, clientInfo);
+
+    // 6. 未经用户验证的断言仅证明持有设备，已开启MFA的账户须另行完成第二因素
+    if (user.mfaEnabled && !userVerified) {
+      return this.createMfaChallenge(user, clientInfo, ['passkey']);
+    }
+
+    // 7. 高风险登录且断言未经用户验证时要求邮箱验证码二次验证
+    if (risk.requiresStepUp && !userVerified) {
+      return this.createStepUpChallenge(user, risk, clientInfo);
+    }
+
+    // 8. 生成Token对（经用户验证的通行密钥本身满足多因素要求）
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 9. 更新用户登录信息
+    await this.updateUserLoginInfo(user.id, clientInfo);
+
+    // 10. 记录登录事件
+    await this.logAuthEvent(user.id, 'PASSKEY_LOGIN_SUCCESS', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+      riskScore: risk.score,
+      riskSignals: risk.signals,
+    });
+
+    return {
+      user: sanitizeUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * 生成MFA步骤的通行密钥挑战
+   */
+  async createPasskeyMfaChallenge(mfaToken: string) {
+    const userId = await this.mfaService.verifyMfaToken(mfaToken);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired MFA token');
+    }
+    if (!(await this.mfaService.isMfaMethodAllowed(mfaToken, 'passkey'))) {
+      throw new UnauthorizedError('Passkey cannot be used as the second factor');
+    }
+
+    return this.webAuthnService.generateAuthenticationOptions(userId);
+  }
+
+  /**
+   * MFA步骤：向已验证手机号发送短信验证码
+   */
+  async createSmsMfaChallenge(mfaToken: string, clientInfo?: any): Promise<SmsCodeSent> {
+    const userId = await this.mfaService.verifyMfaToken(mfaToken);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired MFA token');
+    }
+
+    return this.phoneVerificationService.sendMfaCode(userId, clientInfo);
+  }
+
+  /**
+   * 使用通行密钥完成MFA验证登录
+   */
+  async verifyPasskeyMfaAndLogin(
+    mfaToken: string,
+    challengeId: string,
+    response: any,
+    clientInfo?: any,
+  ): Promise<AuthResult> {
+    // 2. 验证MFA令牌
+    const userId = await this.mfaService.verifyMfaToken(mfaToken);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired MFA token');
+    }
+
+    if (!(await this.mfaService.isMfaMethodAllowed(mfaToken, 'passkey'))) {
+      throw new UnauthorizedError('Passkey cannot be used as the second factor');
+    }
+
+    // 3. 验证通行密钥断言（挑战已绑定到该用户）
+    const assertion = await this.webAuthnService.verifyAuthentication(challengeId, response, clientInfo);
+    if (assertion.userId !== userId) {
+      await this.logAuthEvent(userId, 'MFA_FAILED', { ip: clientInfo?.ip, method: 'passkey' });
+      throw new UnauthorizedError('Invalid passkey');
+    }
 
-    // 5. 更新用户登录信息
+    // 4. 获取用户信息
+    const user = await this.findUserById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+    await this.checkAccountStatus(user);
+
+    // MFA令牌一次性使用
+    await this.mfaService.invalidateMfaToken(mfaToken);
+
+    // 5. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 6. 更新用户登录信息
     await this.updateUserLoginInfo(user.id, clientInfo);
 
-    // 6. 记录成功登录
+    // 7. 记录成功登录
     await this.logAuthEvent(user.id, 'MFA_LOGIN_SUCCESS', {
+      method: 'passkey',
       ip: clientInfo?.ip,
       userAgent: clientInfo?.userAgent,
     });
 
     return {
-      user: this.sanitizeUser(user),
+      user: sanitizeUser(user),
       tokens,
     };
   }
 
+  /**
+   * 请求无密码登录（魔法链接或邮箱验证码）
+   */
+  async requestPasswordlessLogin(email: string, method: PasswordlessMethod, clientInfo?: any): Promise<void> {
+    // 1. 先按规范化邮箱和IP限制频率，再查询用户：账户存在与否的响应完全一致，无法借此枚举
+    const normalizedEmail = email.toLowerCase().trim();
+    const canSendToEmail = await this.redisService.checkRateLimit(`passwordless_login:${normalizedEmail}`, 3, 300); // 5分钟内最多3次
+    const canSendFromIp = canSendToEmail && await this.redisService.checkRateLimit(
+      `passwordless_login_ip:${clientInfo?.ip || 'unknown'}`,
+      20,
+      300,
+    );
+    if (!canSendToEmail || !canSendFromIp) {
+      throw new BadRequestException('Too many login emails sent. Please try again later.');
+    }
+
+    // 2. 查询用户
+    const user = await this.findUserByEmail(normalizedEmail);
+    if (!user) {
+      // 为了安全，不暴露用户是否存在
+      return;
+    }
+
+    // 3. 生成验证码或魔法链接
+    const job = method === 'code'
+      ? { code: await this.tokenService.generateLoginCode(user.id) }
+      : { token: await this.tokenService.generateMagicLinkToken(user.id, user.email) };
+
+    // 4. 异步发送登录邮件
+    await this.authQueue.add('send-passwordless-login-email', {
+      userId: user.id,
+      email: user.email,
+      nickname: user.nickname,
+      ...job,
+    });
+
+    await this.logAuthEvent(user.id, 'PASSWORDLESS_LOGIN_REQUESTED', {
+      method,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 魔法链接登录
+   */
+  async loginWithMagicLink(token: string, clientInfo?: any): Promise<AuthResult> {
+    const tokenData = await this.tokenService.verifyMagicLinkToken(token);
+    if (!tokenData) {
+      throw new UnauthorizedError('Invalid or expired login link');
+    }
+
+    const user = await this.findUserById(tokenData.userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    return this.completePasswordlessLogin(user, 'link', clientInfo);
+  }
+
+  /**
+   * 邮箱验证码登录
+   */
+  async loginWithEmailCode(email: string, code: string, clientInfo?: any): Promise<AuthResult> {
+    const user = await this.findUserByEmail(email);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired code');
+    }
+
+    const isValidCode = await this.tokenService.verifyLoginCode(user.id, code);
+    if (!isValidCode) {
+      await this.logAuthEvent(user.id, 'LOGIN_FAILED', {
+        reason: 'invalid_email_code',
+        ip: clientInfo?.ip,
+      });
+      throw new UnauthorizedError('Invalid or expired code');
+    }
+
+    return this.completePasswordlessLogin(user, 'code', clientInfo);
+  }
+
+  /**
+   * OIDC单点登录：已关联的身份直接登录，已验证邮箱匹配的账户自动关联，否则须补充出生日期后创建账户
+   */
+  async loginWithOidc(providerId: string, code: string, state: string, clientInfo?: any): Promise<AuthResult> {
+    // 2. 校验授权码并获取身份声明
+    const claims = await this.oidcService.completeAuthorization(providerId, code, state, 'login');
+
+    // 3. 解析本地用户，首次登录须先补充出生日期才能创建账户
+    const user = await this.resolveOidcUser(claims, clientInfo);
+    if (!user) {
+      return this.createOidcSignupChallenge(claims);
+    }
+
+    return this.completeOidcLogin(user, providerId, clientInfo);
+  }
+
+  /**
+   * 完成首次单点登录：年龄校验通过后创建账户，未成年人须等待监护人同意
+   */
+  async completeOidcSignup(dto: CompleteOidcSignupDto, clientInfo?: any): Promise<AuthResult> {
+    // 2. 取回首次登录时的身份声明
+    const signupKey = `oidc_signup:${dto.signupToken}`;
+    const storedClaims = await this.redisService.get(signupKey);
+    if (!storedClaims) {
+      throw new UnauthorizedError('Invalid or expired sign-up request');
+    }
+    const claims: OidcClaims = JSON.parse(storedClaims);
+
+    // 3. 年龄校验，未满同意年龄须提供监护人邮箱
+    const age = this.parentalConsentService.assessAge(dto.dateOfBirth);
+    const guardianEmail = this.validateGuardianEmail(claims.email, age.requiresConsent, dto.guardianEmail);
+
+    // 4. 令牌一次性使用；期间同邮箱可能已注册
+    await this.redisService.del(signupKey);
+    await this.validateUniqueUser(claims.email);
+
+    // 5. 创建账户（未成年人在监护人确认前处于受限状态）
+    const user = await this.provisionOidcUser(claims, age, clientInfo);
+
+    if (age.requiresConsent) {
+      await this.parentalConsentService.requestConsent(user, guardianEmail);
+
+      return {
+        user: sanitizeUser(user),
+        consentRequired: true,
+      };
+    }
+
+    // 6. 成年用户直接登录
+    return this.completeOidcLogin(user, claims.provider, clientInfo);
+  }
+
   /**
    * 刷新访问令牌
    */
-  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
-    // 1. 验证刷新令牌
-    const tokenData = await this.tokenService.verifyRefreshToken(refreshToken);
+  async refreshTokens(refreshToken: string, clientInfo?: any): Promise<AuthTokens> {
+    // 2. 验证刷新令牌
+    const tokenData = await this.tokenService.verifyRefreshToken(refreshToken, clientInfo);
     if (!tokenData) {
       throw new UnauthorizedError('Invalid or expired refresh token');
     }
 
-    // 2. 获取用户信息
+    // 3. 获取用户信息
     const user = await this.findUserById(tokenData.userId);
     if (!user) {
       throw new UnauthorizedError('User not found');
     }
 
-    // 3. 检查用户账户状态
-    await this.checkAccountStatus(user);
+    // 4. 检查用户账户状态（登录失败锁定不影响已有会话）
+    await this.checkAccountStatus(user, { allowLocked: true });
 
-    // 4. 生成新的Token对
-    const tokens = await this.tokenService.generateTokenPair(user);
+    // 5. 宽限期内的并发刷新直接返回已签发的后继令牌
+    if (tokenData.successor) {
+      return tokenData.successor;
+    }
 
-    // 5. 撤销旧的刷新令牌
-    await this.tokenService.revokeRefreshToken(refreshToken);
+    // 6. 标记旧的刷新令牌已轮换（并发请求只有一个能成功，再次使用将触发重用检测）
+    if (!(await this.tokenService.claimRefreshTokenRotation(tokenData.jti, clientInfo))) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
 
-    // 6. 记录令牌刷新事件
+    // 7. 生成新的Token对（沿用原会话及设备名）
+    const tokens = await this.tokenService.generateTokenPair(user, {
+      sessionId: tokenData.sessionId,
+      clientInfo: {
+        ...clientInfo,
+        device: clientInfo?.device ?? tokenData.deviceName,
+      },
+      impersonatorId: tokenData.impersonatorId,
+    });
+    await this.tokenService.recordRotationSuccessor(tokenData.jti, tokens, clientInfo);
+
+    // 8. 记录令牌刷新事件
     await this.logAuthEvent(user.id, 'TOKEN_REFRESH', {});
 
     return tokens;
@@ -214,20 +637,32 @@ export class AuthService {
   /**
    * 用户登出
    */
-  async logout(userId: string, refreshToken?: string): Promise<void> {
-    // 1. 撤销刷新令牌
-    if (refreshToken) {
-      await this.tokenService.revokeRefreshToken(refreshToken);
+  async logout(userId: string, refreshToken?: string, sessionId?: string): Promise<void> {
+    // 2. 确定当前会话（优先使用访问令牌中的会话ID）
+    const currentSessionId = sessionId
+      || (refreshToken ? await this.tokenService.getSessionIdFromRefreshToken(refreshToken) : null);
+
+    // 3. 仅撤销当前会话，其他设备保持登录
+    if (currentSessionId) {
+      await this.tokenService.revokeSession(userId, currentSessionId, 'logout');
     }
 
-    // 2. 撤销用户所有刷新令牌（可选，用于全设备登出）
+    // 4. 记录登出事件
+    await this.logAuthEvent(userId, 'LOGOUT', { sessionId: currentSessionId });
+  }
+
+  /**
+   * 全设备登出
+   */
+  async logoutAll(userId: string): Promise<void> {
+    // 2. 撤销用户所有刷新令牌
     await this.tokenService.revokeAllUserTokens(userId);
 
     // 3. 清除用户相关缓存
     await this.clearUserCache(userId);
 
     // 4. 记录登出事件
-    await this.logAuthEvent(userId, 'LOGOUT', {});
+    await this.logAuthEvent(userId, 'LOGOUT_ALL', {});
   }
 
   /**
@@ -262,13 +697,13 @@ export class AuthService {
    * 验证邮箱
    */
   async verifyEmail(token: string): Promise<void> {
-    // 1. 验证邮箱验证令牌
+    // 2. 验证邮箱验证令牌
     const tokenData = await this.tokenService.verifyEmailToken(token);
     if (!tokenData) {
       throw new BadRequestException('Invalid or expired verification token');
     }
 
-    // 2. 更新用户邮箱验证状态
+    // 3. 更新用户邮箱验证状态
     await this.prisma.user.update({
       where: { id: tokenData.userId },
       data: { 
@@ -277,7 +712,7 @@ export class AuthService {
       },
     });
 
-    // 3. 记录验证事件
+    // 4. 记录验证事件
     await this.logAuthEvent(tokenData.userId, 'EMAIL_VERIFIED', {});
   }
 
@@ -310,67 +745,360 @@ export class AuthService {
    * 重置密码
    */
   async resetPassword(token: string, newPassword: string): Promise<void> {
-    // 1. 验证重置令牌
+    // 2. 验证重置令牌
     const tokenData = await this.tokenService.verifyPasswordResetToken(token);
     if (!tokenData) {
       throw new BadRequestException('Invalid or expired reset token');
     }
 
-    // 2. 验证新密码强度
-    this.passwordService.validatePasswordStrength(newPassword);
+    // 3. 验证新密码（策略与历史密码）
+    await this.passwordService.assertPasswordAllowed(newPassword, tokenData.userId);
 
-    // 3. 加密新密码
+    // 4. 加密新密码
     const passwordHash = await this.passwordService.hashPassword(newPassword);
 
-    // 4. 更新用户密码
+    // 5. 更新用户密码
     await this.prisma.user.update({
       where: { id: tokenData.userId },
-      data: { passwordHash },
+      data: { passwordHash, passwordChangedAt: new Date(), passwordCompromisedAt: null },
     });
+    await this.passwordService.recordPasswordHistory(tokenData.userId, passwordHash);
 
-    // 5. 撤销用户所有刷新令牌（强制重新登录）
+    // 6. 撤销用户所有刷新令牌（强制重新登录）
     await this.tokenService.revokeAllUserTokens(tokenData.userId);
 
-    // 6. 记录密码重置事件
+    // 7. 记录密码重置事件
     await this.logAuthEvent(tokenData.userId, 'PASSWORD_RESET', {});
   }
 
   /**
    * 修改密码
    */
-  async changePassword(userId: string, oldPassword: string, newPassword: string): Promise<void> {
-    // 1. 获取用户信息
+  async changePassword(
+    userId: string,
+    oldPassword: string,
+    newPassword: string,
+    actor?: JwtPayload['act'],
+  ): Promise<void> {
+    // 1. 代入会话不能修改被代入用户的密码（不依赖控制器上的拦截器）
+    if (actor) {
+      throw new ImpersonationForbiddenError();
+    }
+
+    // 2. 获取用户信息
     const user = await this.findUserById(userId);
     if (!user) {
       throw new UnauthorizedError('User not found');
     }
 
-    // 2. 验证旧密码
+    // 3. 验证旧密码（仅单点登录的账户需先通过密码重置设置密码）
+    if (!user.passwordHash) {
+      throw new BadRequestException('No password is set for this account. Use password reset to set one.');
+    }
     const isOldPasswordValid = await this.passwordService.verifyPassword(oldPassword, user.passwordHash);
     if (!isOldPasswordValid) {
       throw new UnauthorizedError('Invalid current password');
     }
 
-    // 3. 验证新密码强度
-    this.passwordService.validatePasswordStrength(newPassword);
+    // 4. 验证新密码（策略与历史密码）
+    await this.passwordService.assertPasswordAllowed(newPassword, userId);
 
-    // 4. 加密新密码
+    // 5. 加密新密码
     const passwordHash = await this.passwordService.hashPassword(newPassword);
 
-    // 5. 更新用户密码
+    // 6. 更新用户密码
     await this.prisma.user.update({
       where: { id: userId },
-      data: { passwordHash },
+      data: { passwordHash, passwordChangedAt: new Date(), passwordCompromisedAt: null },
     });
+    await this.passwordService.recordPasswordHistory(userId, passwordHash);
 
-    // 6. 撤销其他设备的刷新令牌
+    // 7. 撤销其他设备的刷新令牌
     await this.tokenService.revokeAllUserTokens(userId);
 
-    // 7. 记录密码修改事件
+    // 8. 记录密码修改事件
     await this.logAuthEvent(userId, 'PASSWORD_CHANGE', {});
   }
 
   // 私有辅助方法
+
+  private async createMfaChallenge(user: User, clientInfo?: any, excludedMethods: MfaMethod[] = []): Promise<AuthResult> {
+    const mfaToken = await this.mfaService.generateMfaToken(user.id, excludedMethods);
+
+    // 记录MFA请求
+    await this.logAuthEvent(user.id, 'MFA_REQUIRED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    // 已注册通行密钥或开启短信验证的用户可以选择其他方式完成MFA
+    const mfaMethods: MfaMethod[] = ['totp'];
+    if (!excludedMethods.includes('passkey') && (await this.webAuthnService.hasPasskeys(user.id))) {
+      mfaMethods.push('passkey');
+    }
+    if (user.smsMfaEnabled && user.phoneVerified) {
+      mfaMethods.push('sms');
+    }
+
+    return {
+      requiresMfa: true,
+      mfaToken,
+      mfaMethods,
+    };
+  }
+
+  private async createStepUpChallenge(user: User, risk: LoginRiskAssessment, clientInfo?: any): Promise<AuthResult> {
+    const stepUpToken = await this.loginRiskService.createStepUpChallenge(user, risk, clientInfo);
+
+    return {
+      stepUpRequired: true,
+      stepUpToken,
+    };
+  }
+
+  /**
+   * 无密码登录的后续步骤，与密码登录保持相同的状态检查、MFA和审计
+   */
+  private async completePasswordlessLogin(user: User, method: PasswordlessMethod, clientInfo?: any): Promise<AuthResult> {
+    // 1. 检查账户状态
+    await this.checkAccountStatus(user);
+
+    // 2. 检查登录频率限制
+    await this.checkLoginRateLimit(user.id, clientInfo?.ip);
+
+    // 3. 能收到邮件即证明邮箱归属
+    if (!user.emailVerified) {
+      user = await this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        },
+        include: {
+          userPreferences: true,
+        },
+      });
+    }
+
+    // 4. 登录风险评估（邮箱验证码二次验证与本次登录走同一渠道，只记录不拦截）
+    const risk = await this.loginRiskService.assess(user, clientInfo);
+
+    // 5. 多因素认证检查
+    if (user.mfaEnabled) {
+      return this.createMfaChallenge(user, clientInfo);
+    }
+
+    // 6. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 7. 更新用户最后登录信息
+    await this.updateUserLoginInfo(user.id, clientInfo);
+
+    // 8. 记录登录事件
+    await this.logAuthEvent(user.id, 'PASSWORDLESS_LOGIN_SUCCESS', {
+      method,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+      riskScore: risk.score,
+      riskSignals: risk.signals,
+    });
+
+    return {
+      user: sanitizeUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * 登录时筛查现有密码是否出现在泄露语料中，命中则标记账户
+   */
+  private async checkPasswordCompromised(user: User, password: string): Promise<boolean> {
+    if (user.passwordCompromisedAt) {
+      return true;
+    }
+
+    const isBreached = await this.passwordService.checkPasswordBreach(password);
+    if (!isBreached) {
+      return false;
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { passwordCompromisedAt: new Date() },
+    });
+
+    await this.logAuthEvent(user.id, 'PASSWORD_BREACH_DETECTED', {});
+
+    return true;
+  }
+
+  /**
+   * 解析单点登录对应的本地用户，需要新建账户时返回 null
+   */
+  private async resolveOidcUser(claims: OidcClaims, clientInfo?: any): Promise<User | null> {
+    const linkedUserId = await this.oidcService.findLinkedUserId(claims);
+    if (linkedUserId) {
+      const linkedUser = await this.findUserById(linkedUserId);
+      if (!linkedUser) {
+        throw new UnauthorizedError('User not found');
+      }
+      return linkedUser;
+    }
+
+    if (!claims.email) {
+      throw new ValidationError('Identity provider did not share an email address', 'email');
+    }
+
+    const existingUser = await this.findUserByEmail(claims.email);
+    if (existingUser) {
+      // 双方都验证过邮箱才自动关联，防止通过未验证邮箱抢占账户
+      if (!claims.emailVerified || !existingUser.emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists. Sign in with your password and link this provider from your account settings.',
+        );
+      }
+
+      await this.oidcService.linkIdentity(existingUser.id, claims, clientInfo);
+      return existingUser;
+    }
+
+    return null;
+  }
+
+  /**
+   * 首次单点登录：暂存身份声明，待用户补充出生日期（及监护人邮箱）后再创建账户
+   */
+  private async createOidcSignupChallenge(claims: OidcClaims): Promise<AuthResult> {
+    const signupToken = crypto.randomBytes(32).toString('hex');
+    await this.redisService.setex(
+      `oidc_signup:${signupToken}`,
+      this.configService.get<number>('oidc.signupTokenTtl', 900),
+      JSON.stringify(claims),
+    );
+
+    return {
+      signupRequired: true,
+      signupToken,
+    };
+  }
+
+  private async completeOidcLogin(user: User, providerId: string, clientInfo?: any): Promise<AuthResult> {
+    // 1. 检查账户状态
+    await this.checkAccountStatus(user);
+
+    // 2. 登录风险评估
+    const risk = await this.loginRiskService.assess(user, clientInfo);
+
+    // 3. 多因素认证检查
+    if (user.mfaEnabled) {
+      return this.createMfaChallenge(user, clientInfo);
+    }
+
+    // 4. 高风险登录要求邮箱验证码二次验证
+    if (risk.requiresStepUp) {
+      return this.createStepUpChallenge(user, risk, clientInfo);
+    }
+
+    // 5. 生成Token对
+    const tokens = await this.tokenService.generateTokenPair(user, { clientInfo });
+
+    // 6. 更新用户登录信息
+    await this.updateUserLoginInfo(user.id, clientInfo);
+
+    // 7. 记录登录事件
+    await this.logAuthEvent(user.id, 'OIDC_LOGIN_SUCCESS', {
+      provider: providerId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+      riskScore: risk.score,
+      riskSignals: risk.signals,
+    });
+
+    return {
+      user: sanitizeUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * 为单点登录创建账户（无密码），年龄规则与密码注册一致
+   */
+  private async provisionOidcUser(
+    claims: OidcClaims,
+    age: { dateOfBirth: Date; requiresConsent: boolean },
+    clientInfo?: any,
+  ): Promise<User> {
+    const user = await this.prisma.user.create({
+      data: {
+        email: claims.email,
+        emailVerified: claims.emailVerified,
+        emailVerifiedAt: claims.emailVerified ? new Date() : null,
+        nickname: claims.name?.trim() || claims.givenName?.trim(),
+        firstName: claims.givenName,
+        lastName: claims.familyName,
+        avatarUrl: claims.picture,
+        uuid: uuidv4(),
+        dateOfBirth: age.dateOfBirth,
+        isMinor: age.requiresConsent,
+        roles: [UserRole.STUDENT], // 默认角色
+        ...(age.requiresConsent && {
+          status: AccountStatus.PENDING_CONSENT,
+          statusReason: 'parental_consent_required',
+          statusChangedAt: new Date(),
+        }),
+        userPreferences: {
+          create: age.requiresConsent
+            ? { ...DEFAULT_USER_PREFERENCES, ...MINOR_PREFERENCE_RESTRICTIONS }
+            : DEFAULT_USER_PREFERENCES,
+        },
+      },
+      include: {
+        userPreferences: true,
+      },
+    });
+
+    await this.oidcService.linkIdentity(user.id, claims, clientInfo);
+
+    if (!claims.emailVerified) {
+      await this.authQueue.add('send-verification-email', {
+        userId: user.id,
+        email: user.email,
+        nickname: user.nickname,
+      }, {
+        delay: 1000,
+      });
+    }
+
+    await this.logAuthEvent(user.id, 'REGISTER', {
+      email: user.email,
+      provider: claims.provider,
+      minor: age.requiresConsent || undefined,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return user;
+  }
+
+  /**
+   * 未满同意年龄时校验监护人邮箱，返回规范化后的邮箱
+   */
+  private validateGuardianEmail(email: string, requiresConsent: boolean, guardianEmail?: string): string | undefined {
+    if (!requiresConsent) {
+      return undefined;
+    }
+
+    const normalized = guardianEmail?.toLowerCase().trim();
+    if (!normalized || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+      throw new ValidationError('A guardian email address is required for learners under the age of consent', 'guardianEmail');
+    }
+
+    if (normalized === email.toLowerCase().trim()) {
+      throw new ValidationError('The guardian email must differ from your own', 'guardianEmail');
+    }
+
+    return normalized;
+  }
   
   private async validateUniqueUser(email: string): Promise<void> {
     const existingUser = await this.findUserByEmail(email);
@@ -379,34 +1107,62 @@ export class AuthService {
     }
   }
 
-  private async validateUserCredentials(email: string, password: string): Promise<User> {
+  private async validateUserCredentials(email: string, password: string, clientInfo?: any): Promise<User> {
     const user = await this.findUserByEmail(email);
-    if (!user) {
+    if (!user || !user.passwordHash) {
+      // 不存在的账户同样计入IP维度，撞库通常包含大量无效邮箱
+      await this.loginRiskService.recordFailure(null, clientInfo);
       throw new UnauthorizedError('Invalid credentials');
     }
 
+    // 锁定期间不校验密码：否则密码正确时返回锁定、错误时返回凭据无效，可借此在锁定期间继续猜测
+    if (user.status === AccountStatus.LOCKED) {
+      await this.checkAccountStatus(user);
+    }
+
+    // 频率限制必须在校验密码之前，超限后即使密码正确也不再给出判断
+    await this.checkLoginRateLimit(user.id, clientInfo?.ip);
+
     const isPasswordValid = await this.passwordService.verifyPassword(password, user.passwordHash);
     if (!isPasswordValid) {
-      // 记录失败的登录尝试
-      await this.logAuthEvent(user.id, 'LOGIN_FAILED', { reason: 'invalid_password' });
+      // 记录失败的登录尝试（达到阈值自动锁定）
+      await this.logAuthEvent(user.id, 'LOGIN_FAILED', {
+        reason: 'invalid_password',
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      await this.accountStatusService.recordFailedLogin(user.id);
+      await this.loginRiskService.recordFailure(user.id, clientInfo);
       throw new UnauthorizedError('Invalid credentials');
     }
 
+    // 哈希算法或参数已升级时，借助本次明文透明地重新计算
+    if (this.passwordService.needsRehash(user.passwordHash)) {
+      user.passwordHash = await this.passwordService.hashPassword(password);
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { passwordHash: user.passwordHash },
+      });
+    }
+
     return user;
   }
 
-  private async checkAccountStatus(user: User): Promise<void> {
-    // 这里可以添加账户状态检查，如封禁、锁定等
-    // 目前简单实现
+  private async checkAccountStatus(user: User, options: { allowLocked?: boolean } = {}): Promise<void> {
     if (!user) {
       throw new UnauthorizedError('Account not found');
     }
+
+    // 锁定、暂停、封禁、待删除的账户不能认证
+    await this.accountStatusService.assertCanAuthenticate(user, options);
   }
 
   private async checkLoginRateLimit(userId: string, ip?: string): Promise<void> {
     const rateLimitKey = `login_attempts:${userId}:${ip || 'unknown'}`;
     const canLogin = await this.redisService.checkRateLimit(rateLimitKey, 5, 300); // 5分钟内最多5次
-    if (!canLogin) {
+    // 账户维度不区分IP，防止轮换IP绕过
+    const canLoginAccount = canLogin && await this.redisService.checkRateLimit(`login_attempts:${userId}`, 20, 300);
+    if (!canLogin || !canLoginAccount) {
       throw new BadRequestException('Too many login attempts. Please try again later.');
     }
   }
@@ -416,9 +1172,14 @@ export class AuthService {
       where: { id: userId },
       data: { 
         lastLoginAt: new Date(),
+        lastLoginIp: clientInfo?.ip,
         lastActivityAt: new Date(),
+        failedLoginAttempts: 0,
       },
     });
+
+    // 记住设备并在新设备登录时提醒
+    await this.loginRiskService.recordSuccessfulLogin(userId, clientInfo);
   }
 
   private async findUserById(id: string): Promise<User | null> {
@@ -452,20 +1213,6 @@ export class AuthService {
   }
 
   private async logAuthEvent(userId: string, action: string, details: any): Promise<void> {
-    await this.prisma.auditLog.create({
-      data: {
-        userId,
-        action,
-        resource: 'auth',
-        details,
-        ip: details.ip,
-        userAgent: details.userAgent,
-      },
-    });
-  }
-
-  private sanitizeUser(user: User): Partial<User> {
-    const { passwordHash, mfaSecret, ...sanitizedUser } = user;
-    return sanitizedUser;
+    await this.auditService.log(userId, action, details);
   }
 }
@@ -0,0 +1,43 @@
+import { Controller, Get, Put, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { AccountStatusService } from '../services/account-status.service';
+import { ApplyAccountStatusDto, LiftAccountStatusDto } from '../../../shared/types';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('users:moderate')
+@Controller('admin/users/:userId/status')
+export class AccountStatusController {
+  constructor(private readonly accountStatusService: AccountStatusService) {}
+
+  @Get()
+  @ApiOperation({ summary: '查看账户状态' })
+  async getStatus(@Param('userId') userId: string) {
+    return this.accountStatusService.getStatus(userId);
+  }
+
+  @Put()
+  @ApiOperation({ summary: '锁定、暂停、封禁或标记删除账户' })
+  async apply(
+    @CurrentUser('sub') actorId: string,
+    @Param('userId') userId: string,
+    @Body() dto: ApplyAccountStatusDto,
+  ) {
+    return this.accountStatusService.applyStatus(actorId, userId, dto);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: '解除账户限制' })
+  async lift(
+    @CurrentUser('sub') actorId: string,
+    @Param('userId') userId: string,
+    @Body() dto: LiftAccountStatusDto,
+  ) {
+    return this.accountStatusService.liftStatus(actorId, userId, dto.reason);
+  }
+}
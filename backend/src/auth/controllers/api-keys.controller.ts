@@ -0,0 +1,36 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ApiKeyService } from '../services/api-key.service';
+import { CreateApiKeyDto } from '../../../shared/types';
+
+// 密钥管理只接受JWT，避免用密钥签发新密钥
+@ApiTags('auth')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@NoImpersonation()
+@Controller('auth/api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Get()
+  @ApiOperation({ summary: '列出我的API密钥' })
+  async list(@CurrentUser('sub') userId: string) {
+    return this.apiKeyService.listKeys(userId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: '创建API密钥（明文只返回一次）' })
+  async create(@CurrentUser('sub') userId: string, @Body() dto: CreateApiKeyDto) {
+    return this.apiKeyService.createKey(userId, userId, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '吊销API密钥' })
+  async revoke(@CurrentUser('sub') userId: string, @Param('id') keyId: string) {
+    await this.apiKeyService.revokeKey(userId, userId, keyId);
+    return { success: true };
+  }
+}
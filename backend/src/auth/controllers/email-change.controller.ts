@@ -0,0 +1,69 @@
+import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { ReauthenticationService } from '../services/reauthentication.service';
+import { EmailChangeService } from '../services/email-change.service';
+import {
+  ChangeEmailDto,
+  ClientInfo,
+  EmailChangeTokenDto,
+  ReauthenticateDto,
+} from '../../../shared/types';
+
+@ApiTags('auth')
+@NoImpersonation()
+@Controller('auth')
+export class EmailChangeController {
+  constructor(
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly emailChangeService: EmailChangeService,
+  ) {}
+
+  @Post('reauthenticate')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '敏感操作前重新验证身份' })
+  async reauthenticate(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Body() dto: ReauthenticateDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.reauthenticationService.reauthenticate(userId, sessionId, dto, clientInfo);
+  }
+
+  @Post('email-change')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '申请变更登录邮箱' })
+  async requestChange(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Body() dto: ChangeEmailDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.emailChangeService.requestChange(userId, sessionId, dto.newEmail, clientInfo);
+    return { success: true };
+  }
+
+  @Post('email-change/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '通过新邮箱链接确认变更' })
+  async confirmChange(@Body() dto: EmailChangeTokenDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    await this.emailChangeService.confirmChange(dto.token, clientInfo);
+    return { success: true };
+  }
+
+  @Post('email-change/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '通过旧邮箱链接撤销变更' })
+  async cancelChange(@Body() dto: EmailChangeTokenDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    await this.emailChangeService.cancelChange(dto.token, clientInfo);
+    return { success: true };
+  }
+}
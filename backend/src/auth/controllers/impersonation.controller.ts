@@ -0,0 +1,52 @@
+import { Controller, Get, Post, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { ImpersonationService } from '../services/impersonation.service';
+import { ClientInfo, StartImpersonationDto } from '../../../shared/types';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@Controller()
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  @Post('admin/users/:userId/impersonate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @NoImpersonation()
+  @ApiOperation({ summary: '以指定用户身份登录（管理员代入）' })
+  async start(
+    @CurrentUser('sub') actorId: string,
+    @Param('userId') userId: string,
+    @Body() dto: StartImpersonationDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.impersonationService.start(actorId, userId, dto.reason, clientInfo);
+  }
+
+  @Get('auth/impersonation')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '查看当前会话的代入状态' })
+  async current(@CurrentUser() user: { act?: { sub: string }; sid: string }) {
+    const impersonation = user.act ? await this.impersonationService.getContext(user.sid) : null;
+    return { impersonation };
+  }
+
+  @Post('auth/impersonation/end')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '结束代入会话' })
+  async end(
+    @CurrentUser() user: { sub: string; sid: string; act?: { sub: string } },
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.impersonationService.end(user.act?.sub, user.sub, user.sid, clientInfo);
+    return { success: true };
+  }
+}
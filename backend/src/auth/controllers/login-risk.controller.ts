@@ -0,0 +1,45 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { AuthService } from '../auth.service';
+import { LoginRiskService } from '../services/login-risk.service';
+import { ClientInfo, StepUpVerifyDto } from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller()
+export class LoginRiskController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly loginRiskService: LoginRiskService,
+  ) {}
+
+  @Post('auth/login/step-up')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '提交高风险登录的邮箱验证码' })
+  async verifyStepUp(@Body() dto: StepUpVerifyDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.verifyStepUpAndLogin(dto.stepUpToken, dto.code, clientInfo);
+  }
+
+  @Get('auth/devices')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '列出已知登录设备' })
+  async listDevices(@CurrentUser('sub') userId: string) {
+    return this.loginRiskService.listDevices(userId);
+  }
+
+  @Delete('auth/devices/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '移除已知设备' })
+  async forgetDevice(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.loginRiskService.forgetDevice(userId, id, clientInfo);
+    return { success: true };
+  }
+}
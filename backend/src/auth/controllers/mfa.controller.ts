@@ -0,0 +1,93 @@
+import { Controller, Get, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { MfaService } from '../services/mfa.service';
+import { PhoneVerificationService } from '../services/phone-verification.service';
+import { ClientInfo, ConfirmMfaDto, PasswordConfirmDto } from '../../../shared/types';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@NoImpersonation()
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private readonly mfaService: MfaService,
+    private readonly phoneVerificationService: PhoneVerificationService,
+  ) {}
+
+  @Get('status')
+  @ApiOperation({ summary: '获取MFA状态' })
+  async getStatus(@CurrentUser('sub') userId: string) {
+    return this.mfaService.getStatus(userId);
+  }
+
+  @Post('enroll')
+  @ApiOperation({ summary: '开始MFA注册，返回密钥和二维码' })
+  async enroll(@CurrentUser('sub') userId: string, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.mfaService.beginEnrollment(userId, clientInfo);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用首个验证码确认MFA注册' })
+  async confirm(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: ConfirmMfaDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    const backupCodes = await this.mfaService.confirmEnrollment(userId, dto.code, clientInfo);
+    return { backupCodes };
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '关闭MFA（需要密码）' })
+  async disable(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: PasswordConfirmDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.mfaService.disable(userId, dto.password, clientInfo);
+    return { success: true };
+  }
+
+  @Post('backup-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '重新生成备用恢复码（需要密码）' })
+  async regenerateBackupCodes(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: PasswordConfirmDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    const backupCodes = await this.mfaService.regenerateBackupCodes(userId, dto.password, clientInfo);
+    return { backupCodes };
+  }
+
+  @Post('sms/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '开启短信作为备选MFA方式（需近期重新验证）' })
+  async enableSms(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.phoneVerificationService.enableSmsMfa(userId, sessionId, clientInfo);
+    return { success: true };
+  }
+
+  @Post('sms/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '关闭短信MFA（需近期重新验证）' })
+  async disableSms(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.phoneVerificationService.disableSmsMfa(userId, sessionId, clientInfo);
+    return { success: true };
+  }
+}
@@ -0,0 +1,101 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { AuthService } from '../auth.service';
+import { OidcService } from '../services/oidc.service';
+import { ClientInfo, CompleteOidcSignupDto, OidcCallbackDto } from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oidcService: OidcService,
+  ) {}
+
+  @Get('providers')
+  @ApiOperation({ summary: '列出可用的单点登录提供方' })
+  listProviders() {
+    return this.oidcService.listProviders();
+  }
+
+  @Post(':provider/authorize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '获取单点登录授权地址' })
+  async authorize(@Param('provider') provider: string) {
+    return this.oidcService.createAuthorizationUrl(provider, 'login');
+  }
+
+  @Post(':provider/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用授权码完成单点登录' })
+  async callback(
+    @Param('provider') provider: string,
+    @Body() dto: OidcCallbackDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.authService.loginWithOidc(provider, dto.code, dto.state, clientInfo);
+  }
+
+  @Post('signup/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '首次单点登录：补充出生日期（及监护人邮箱）后创建账户' })
+  async completeSignup(@Body() dto: CompleteOidcSignupDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.completeOidcSignup(dto, clientInfo);
+  }
+
+  @Get('identities')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '列出已关联的外部账号' })
+  async listIdentities(@CurrentUser('sub') userId: string) {
+    return this.oidcService.listIdentities(userId);
+  }
+
+  @Post(':provider/link/authorize')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiOperation({ summary: '获取关联外部账号的授权地址（需先重新验证身份）' })
+  async authorizeLink(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Param('provider') provider: string,
+  ) {
+    return this.oidcService.createLinkAuthorizationUrl(userId, sessionId, provider);
+  }
+
+  @Post(':provider/link/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiOperation({ summary: '完成外部账号关联' })
+  async linkCallback(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Param('provider') provider: string,
+    @Body() dto: OidcCallbackDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.oidcService.completeLink(userId, sessionId, provider, dto.code, dto.state, clientInfo);
+  }
+
+  @Delete('identities/:identityId')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiOperation({ summary: '解除外部账号关联' })
+  async unlink(
+    @CurrentUser('sub') userId: string,
+    @Param('identityId') identityId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.oidcService.unlinkIdentity(userId, identityId, clientInfo);
+    return { success: true };
+  }
+}
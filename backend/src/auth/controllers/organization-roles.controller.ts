@@ -0,0 +1,87 @@
+import { Controller, Get, Post, Patch, Put, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { RoleService } from '../services/role.service';
+import { CreateRoleDto, UpdateRoleDto } from '../../../shared/types';
+
+/**
+ * 组织内的角色管理；权限按路由参数 organizationId 解析，组织自定义角色在此生效
+ */
+@ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('admin/organizations/:organizationId/roles')
+export class OrganizationRolesController {
+  constructor(private readonly roleService: RoleService) {}
+
+  @Get()
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '列出组织可用的角色' })
+  async list(@Param('organizationId') organizationId: string) {
+    return this.roleService.listRoles(organizationId);
+  }
+
+  @Post()
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '创建组织自定义角色' })
+  async create(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Body() dto: CreateRoleDto,
+  ) {
+    return this.roleService.createRole(actorId, { ...dto, organizationId });
+  }
+
+  @Patch(':roleId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '修改组织角色及其权限' })
+  async update(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('roleId') roleId: string,
+    @Body() dto: UpdateRoleDto,
+  ) {
+    return this.roleService.updateRole(actorId, roleId, dto, organizationId);
+  }
+
+  @Delete(':roleId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '删除组织角色' })
+  async remove(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('roleId') roleId: string,
+  ) {
+    await this.roleService.deleteRole(actorId, roleId, organizationId);
+    return { success: true };
+  }
+
+  @Put(':roleId/users/:userId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '为用户分配组织角色' })
+  async assign(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.roleService.assignRole(actorId, roleId, userId, organizationId);
+    return { success: true };
+  }
+
+  @Delete(':roleId/users/:userId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '撤销用户的组织角色' })
+  async unassign(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.roleService.unassignRole(actorId, roleId, userId, organizationId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { RoleService } from '../services/role.service';
+import { CreateOrganizationDto } from '../../../shared/types';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('admin/organizations')
+export class OrganizationsController {
+  constructor(private readonly roleService: RoleService) {}
+
+  @Get()
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '列出组织' })
+  async list() {
+    return this.roleService.listOrganizations();
+  }
+
+  @Post()
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '创建组织' })
+  async create(@CurrentUser('sub') actorId: string, @Body() dto: CreateOrganizationDto) {
+    return this.roleService.createOrganization(actorId, dto);
+  }
+}
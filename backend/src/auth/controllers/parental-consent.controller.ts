@@ -0,0 +1,67 @@
+import { Controller, Get, Post, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { ParentalConsentService } from '../services/parental-consent.service';
+import { ClientInfo, ParentalConsentDto, ResendParentalConsentDto } from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller()
+export class ParentalConsentController {
+  constructor(private readonly parentalConsentService: ParentalConsentService) {}
+
+  @Post('auth/parental-consent/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '监护人确认同意（邮件链接）' })
+  async confirm(@Body() dto: ParentalConsentDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    await this.parentalConsentService.confirmConsent(dto.token, clientInfo);
+    return { success: true };
+  }
+
+  @Post('auth/parental-consent/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '重新发送监护人同意邮件' })
+  async resend(@Body() dto: ResendParentalConsentDto) {
+    await this.parentalConsentService.resendConsent(dto.email);
+    return { success: true };
+  }
+
+  @Get('auth/social-settings')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '当前用户生效的社交功能开关（未成年人受限）' })
+  async getSocialSettings(@CurrentUser('sub') userId: string) {
+    return this.parentalConsentService.getSocialSettings(userId);
+  }
+
+  @Get('guardian/children')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '监护人面板：列出监护的学习者' })
+  async listChildren(@CurrentUser('sub') guardianId: string) {
+    return this.parentalConsentService.listChildren(guardianId);
+  }
+
+  @Get('guardian/children/:childId/progress')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '监护人面板：查看学习进度' })
+  async getProgress(@CurrentUser('sub') guardianId: string, @Param('childId') childId: string) {
+    return this.parentalConsentService.getChildProgress(guardianId, childId);
+  }
+
+  @Post('guardian/children/:childId/revoke-consent')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '监护人撤回同意' })
+  async revoke(
+    @CurrentUser('sub') guardianId: string,
+    @Param('childId') childId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.parentalConsentService.revokeConsent(guardianId, childId, clientInfo);
+    return { success: true };
+  }
+}
@@ -0,0 +1,46 @@
+import { Controller, Get, Put, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { PasswordService } from '../services/password.service';
+import { PasswordPolicyService } from '../services/password-policy.service';
+import { UpdatePasswordPolicyDto } from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller()
+export class PasswordPolicyController {
+  constructor(
+    private readonly passwordService: PasswordService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+  ) {}
+
+  @Get('auth/password-policy')
+  @ApiOperation({ summary: '获取密码策略' })
+  async getPolicy(@Query('organizationId') organizationId?: string) {
+    return this.passwordService.getPasswordPolicy(organizationId);
+  }
+
+  @Put('admin/password-policy')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('system:write')
+  @ApiOperation({ summary: '修改全局密码策略' })
+  async updateGlobal(@CurrentUser('sub') actorId: string, @Body() dto: UpdatePasswordPolicyDto) {
+    return this.passwordPolicyService.updatePolicy(actorId, dto);
+  }
+
+  @Put('admin/organizations/:organizationId/password-policy')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('system:write')
+  @ApiOperation({ summary: '修改组织密码策略' })
+  async updateForOrganization(
+    @CurrentUser('sub') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Body() dto: UpdatePasswordPolicyDto,
+  ) {
+    return this.passwordPolicyService.updatePolicy(actorId, dto, organizationId);
+  }
+}
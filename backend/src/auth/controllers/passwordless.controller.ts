@@ -0,0 +1,38 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { AuthService } from '../auth.service';
+import {
+  ClientInfo,
+  EmailCodeLoginDto,
+  MagicLinkLoginDto,
+  PasswordlessLoginRequestDto,
+} from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller('auth/passwordless')
+export class PasswordlessController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('request')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: '发送登录链接或邮箱验证码' })
+  async request(@Body() dto: PasswordlessLoginRequestDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    await this.authService.requestPasswordlessLogin(dto.email, dto.method, clientInfo);
+    return { success: true };
+  }
+
+  @Post('link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用登录链接登录' })
+  async loginWithLink(@Body() dto: MagicLinkLoginDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.loginWithMagicLink(dto.token, clientInfo);
+  }
+
+  @Post('code')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用邮箱验证码登录' })
+  async loginWithCode(@Body() dto: EmailCodeLoginDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.loginWithEmailCode(dto.email, dto.code, clientInfo);
+  }
+}
@@ -0,0 +1,80 @@
+import { Controller, Post, Delete, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { AuthService } from '../auth.service';
+import { PhoneVerificationService } from '../services/phone-verification.service';
+import {
+  ClientInfo,
+  ConfirmPhoneVerificationDto,
+  SmsMfaChallengeDto,
+  SmsMfaVerifyDto,
+  StartPhoneVerificationDto,
+} from '../../../shared/types';
+
+@ApiTags('auth')
+@NoImpersonation()
+@Controller('auth/phone')
+export class PhoneController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly phoneVerificationService: PhoneVerificationService,
+  ) {}
+
+  @Post('verification')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '发送手机号验证码（需近期重新验证）' })
+  async startVerification(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Body() dto: StartPhoneVerificationDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.phoneVerificationService.startVerification(userId, sessionId, dto.phone, clientInfo);
+  }
+
+  @Post('verification/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '确认验证码并绑定手机号' })
+  async confirmVerification(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: ConfirmPhoneVerificationDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.phoneVerificationService.confirmVerification(userId, dto.code, clientInfo);
+    return { success: true };
+  }
+
+  @Delete()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '解绑手机号（需近期重新验证）' })
+  async remove(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.phoneVerificationService.removePhone(userId, sessionId, clientInfo);
+    return { success: true };
+  }
+
+  @Post('mfa/send')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '发送MFA步骤的短信验证码' })
+  async sendMfaCode(@Body() dto: SmsMfaChallengeDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.createSmsMfaChallenge(dto.mfaToken, clientInfo);
+  }
+
+  @Post('mfa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用短信验证码完成MFA验证' })
+  async verifyMfa(@Body() dto: SmsMfaVerifyDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.verifyMfaAndLogin(dto.mfaToken, dto.code, clientInfo, 'sms');
+  }
+}
@@ -0,0 +1,84 @@
+import { Controller, Get, Post, Patch, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { RoleService } from '../services/role.service';
+import { PermissionService } from '../services/permission.service';
+import { CreateRoleDto, UpdateRoleDto } from '../../../shared/types';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('admin/roles')
+export class RolesController {
+  constructor(
+    private readonly roleService: RoleService,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  @Get('permissions')
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '列出所有可用权限' })
+  async listPermissions() {
+    return this.permissionService.listPermissions();
+  }
+
+  @Get()
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '列出角色（可按组织过滤）' })
+  async list(@Query('organizationId') organizationId?: string) {
+    return this.roleService.listRoles(organizationId);
+  }
+
+  @Post()
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '创建自定义角色' })
+  async create(@CurrentUser('sub') actorId: string, @Body() dto: CreateRoleDto) {
+    return this.roleService.createRole(actorId, dto);
+  }
+
+  @Patch(':roleId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '修改角色及其权限' })
+  async update(
+    @CurrentUser('sub') actorId: string,
+    @Param('roleId') roleId: string,
+    @Body() dto: UpdateRoleDto,
+  ) {
+    return this.roleService.updateRole(actorId, roleId, dto);
+  }
+
+  @Delete(':roleId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '删除自定义角色' })
+  async remove(@CurrentUser('sub') actorId: string, @Param('roleId') roleId: string) {
+    await this.roleService.deleteRole(actorId, roleId);
+    return { success: true };
+  }
+
+  @Put(':roleId/users/:userId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '为用户分配角色' })
+  async assign(
+    @CurrentUser('sub') actorId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.roleService.assignRole(actorId, roleId, userId);
+    return { success: true };
+  }
+
+  @Delete(':roleId/users/:userId')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '撤销用户的角色' })
+  async unassign(
+    @CurrentUser('sub') actorId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.roleService.unassignRole(actorId, roleId, userId);
+    return { success: true };
+  }
+}
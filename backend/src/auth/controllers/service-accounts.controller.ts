@@ -0,0 +1,59 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ApiKeyService } from '../services/api-key.service';
+import { CreateApiKeyDto, CreateServiceAccountDto } from '../../../shared/types';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('users:write')
+@Controller('admin/service-accounts')
+export class ServiceAccountsController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Get()
+  @ApiOperation({ summary: '列出服务账户' })
+  async list() {
+    return this.apiKeyService.listServiceAccounts();
+  }
+
+  @Post()
+  @ApiOperation({ summary: '创建服务账户' })
+  async create(@CurrentUser('sub') actorId: string, @Body() dto: CreateServiceAccountDto) {
+    return this.apiKeyService.createServiceAccount(actorId, dto);
+  }
+
+  @Get(':id/api-keys')
+  @ApiOperation({ summary: '列出服务账户的API密钥' })
+  async listKeys(@Param('id') accountId: string) {
+    await this.apiKeyService.assertServiceAccount(accountId);
+    return this.apiKeyService.listKeys(accountId);
+  }
+
+  @Post(':id/api-keys')
+  @ApiOperation({ summary: '为服务账户创建API密钥（明文只返回一次）' })
+  async createKey(
+    @CurrentUser('sub') actorId: string,
+    @Param('id') accountId: string,
+    @Body() dto: CreateApiKeyDto,
+  ) {
+    await this.apiKeyService.assertServiceAccount(accountId);
+    return this.apiKeyService.createKey(actorId, accountId, dto);
+  }
+
+  @Delete(':id/api-keys/:keyId')
+  @ApiOperation({ summary: '吊销服务账户的API密钥' })
+  async revokeKey(
+    @CurrentUser('sub') actorId: string,
+    @Param('id') accountId: string,
+    @Param('keyId') keyId: string,
+  ) {
+    await this.apiKeyService.assertServiceAccount(accountId);
+    await this.apiKeyService.revokeKey(actorId, accountId, keyId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,44 @@
+import { Controller, Get, Post, Delete, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { SessionService } from '../services/session.service';
+import { ClientInfo } from '../../../shared/types';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('auth/sessions')
+export class SessionsController {
+  constructor(private readonly sessionService: SessionService) {}
+
+  @Get()
+  @ApiOperation({ summary: '列出我的登录会话' })
+  async list(@CurrentUser('sub') userId: string, @CurrentUser('sid') sessionId: string) {
+    return this.sessionService.listSessions(userId, sessionId);
+  }
+
+  @Post('revoke-others')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '退出除当前设备外的所有会话' })
+  async revokeOthers(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    const revokedCount = await this.sessionService.revokeOtherSessions(userId, sessionId, clientInfo);
+    return { revokedCount };
+  }
+
+  @Delete(':sessionId')
+  @ApiOperation({ summary: '退出指定会话' })
+  async revoke(
+    @CurrentUser('sub') userId: string,
+    @Param('sessionId') sessionId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.sessionService.revokeSession(userId, sessionId, clientInfo);
+    return { success: true };
+  }
+}
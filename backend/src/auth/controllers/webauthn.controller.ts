@@ -0,0 +1,97 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { ClientInfoParam } from '../decorators/client-info.decorator';
+import { AuthService } from '../auth.service';
+import { WebAuthnService } from '../services/webauthn.service';
+import {
+  ClientInfo,
+  PasskeyLoginDto,
+  PasskeyMfaDto,
+  RegisterPasskeyDto,
+} from '../../../shared/types';
+
+@ApiTags('auth')
+@Controller('auth/passkeys')
+export class WebAuthnController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly webAuthnService: WebAuthnService,
+  ) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '列出已注册的通行密钥' })
+  async list(@CurrentUser('sub') userId: string) {
+    return this.webAuthnService.listCredentials(userId);
+  }
+
+  @Post('register/options')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '生成通行密钥注册选项（需先重新验证身份）' })
+  async registrationOptions(@CurrentUser('sub') userId: string, @CurrentUser('sid') sessionId: string) {
+    return this.webAuthnService.generateRegistrationOptions(userId, sessionId);
+  }
+
+  @Post('register')
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '验证并保存通行密钥' })
+  async register(
+    @CurrentUser('sub') userId: string,
+    @CurrentUser('sid') sessionId: string,
+    @Body() dto: RegisterPasskeyDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.webAuthnService.verifyRegistration(userId, sessionId, dto.response, dto.name, clientInfo);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '删除通行密钥' })
+  async remove(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    await this.webAuthnService.removeCredential(userId, id, clientInfo);
+    return { success: true };
+  }
+
+  @Post('login/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '生成通行密钥登录挑战' })
+  async loginOptions() {
+    return this.webAuthnService.generateAuthenticationOptions();
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '通行密钥登录' })
+  async login(@Body() dto: PasskeyLoginDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.loginWithPasskey(dto.challengeId, dto.response, clientInfo);
+  }
+
+  @Post('mfa/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '生成MFA步骤的通行密钥挑战' })
+  async mfaOptions(@Body('mfaToken') mfaToken: string) {
+    return this.authService.createPasskeyMfaChallenge(mfaToken);
+  }
+
+  @Post('mfa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '使用通行密钥完成MFA验证' })
+  async verifyMfa(@Body() dto: PasskeyMfaDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.authService.verifyPasskeyMfaAndLogin(dto.mfaToken, dto.challengeId, dto.response, clientInfo);
+  }
+}
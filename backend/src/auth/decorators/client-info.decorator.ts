@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ClientInfo } from '../../../shared/types';
+
+/**
+ * 从请求中提取客户端信息（IP、User-Agent）
+ */
+export const ClientInfoParam = createParamDecorator(
+  (_: unknown, context: ExecutionContext): ClientInfo => {
+    const request = context.switchToHttp().getRequest();
+    return {
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+      device: request.headers['x-device-name'],
+      deviceId: request.headers['x-device-id'],
+    };
+  },
+);
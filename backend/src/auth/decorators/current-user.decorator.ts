@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * 获取当前认证用户（JWT payload），可指定字段，如 @CurrentUser('sub')
+ */
+export const CurrentUser = createParamDecorator(
+  (field: string | undefined, context: ExecutionContext) => {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+    return field ? user?.[field] : user;
+  },
+);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const NO_IMPERSONATION_KEY = 'noImpersonation';
+
+/**
+ * 标记敏感操作，代入会话中调用将被拒绝，配合 ImpersonationInterceptor 使用
+ */
+export const NoImpersonation = () => SetMetadata(NO_IMPERSONATION_KEY, true);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * 限制路由可访问的角色，配合 RolesGuard 使用
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
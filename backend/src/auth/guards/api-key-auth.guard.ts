@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * 同时接受JWT与API密钥，供集成方调用的接口使用
+ * 使用API密钥时须配合 PermissionsGuard，权限限定在密钥范围内
+ */
+@Injectable()
+export class ApiKeyAuthGuard extends AuthGuard(['jwt', 'api-key']) {}
@@ -0,0 +1,8 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * 要求有效的访问令牌（见 JwtStrategy），request.user 为令牌 payload
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {}
@@ -0,0 +1,52 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { PermissionService } from '../services/permission.service';
+import { ForbiddenError, UnauthorizedError } from '../../../shared/types';
+
+/**
+ * 按权限注册表实时校验，不依赖令牌中签发时的权限快照
+ * 组织范围仅取自路由参数 organizationId，其余路由只认全局权限
+ * API密钥认证时只认密钥范围内的权限（已在认证时与用户当前权限取交集）
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!required || required.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    if (request.user.apiKeyId) {
+      const granted: string[] = request.user.permissions ?? [];
+      if (!required.every(permission => granted.includes(permission))) {
+        throw new ForbiddenError('API key scope does not cover this operation');
+      }
+      return true;
+    }
+
+    const organizationId = request.params?.organizationId;
+
+    const allowed = await this.permissionService.hasPermissions(userId, required, organizationId);
+    if (!allowed) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
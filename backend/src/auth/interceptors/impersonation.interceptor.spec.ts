@@ -0,0 +1,93 @@
+import { Test } from '@nestjs/testing';
+import { Reflector } from '@nestjs/core';
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { ImpersonationInterceptor } from './impersonation.interceptor';
+import { ImpersonationService } from '../services/impersonation.service';
+import { NoImpersonation } from '../decorators/no-impersonation.decorator';
+import { ForbiddenError, ImpersonationForbiddenError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+class AccountController {
+  profile() {}
+
+  @NoImpersonation()
+  changePassword() {}
+}
+
+describe('ImpersonationInterceptor', () => {
+  let interceptor: ImpersonationInterceptor;
+  let impersonationService: { logRequest: jest.Mock };
+  let request: Record<string, any>;
+
+  const contextFor = (handler: keyof AccountController) => ({
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => AccountController.prototype[handler],
+    getClass: () => AccountController,
+  }) as unknown as ExecutionContext;
+
+  const handlerReturning = (result: ReturnType<CallHandler['handle']>): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn().mockReturnValue(result),
+  });
+
+  beforeEach(async () => {
+    impersonationService = { logRequest: jest.fn() };
+    request = {
+      method: 'POST',
+      url: '/api/v1/auth/password/change',
+      ip: '203.0.113.7',
+      headers: { 'user-agent': 'Mozilla/5.0' },
+      user: { sub: 'learner', sid: 'session-1', act: { sub: 'admin' } },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ImpersonationInterceptor,
+        Reflector,
+        { provide: ImpersonationService, useValue: impersonationService },
+      ],
+    }).compile();
+
+    interceptor = moduleRef.get(ImpersonationInterceptor);
+  });
+
+  it('leaves ordinary sessions alone', async () => {
+    delete request.user.act;
+    const next = handlerReturning(of('ok'));
+
+    await expect(lastValueFrom(await interceptor.intercept(contextFor('changePassword'), next))).resolves.toBe('ok');
+    expect(impersonationService.logRequest).not.toHaveBeenCalled();
+  });
+
+  it('blocks @NoImpersonation routes and records the attempt', async () => {
+    const next = handlerReturning(of('ok'));
+
+    await expect(interceptor.intercept(contextFor('changePassword'), next)).rejects.toBeInstanceOf(ImpersonationForbiddenError);
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(impersonationService.logRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ actorId: 'admin', subjectId: 'learner', blocked: true, statusCode: 403 }),
+      { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' },
+    );
+  });
+
+  it('audits every impersonated request before responding', async () => {
+    const next = handlerReturning(of({ id: 'learner' }));
+
+    await expect(lastValueFrom(await interceptor.intercept(contextFor('profile'), next))).resolves.toEqual({ id: 'learner' });
+    expect(impersonationService.logRequest).toHaveBeenCalledWith(
+      { actorId: 'admin', subjectId: 'learner', sessionId: 'session-1', method: 'POST', path: '/api/v1/auth/password/change' },
+      { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' },
+    );
+  });
+
+  it('audits failed requests with their status code', async () => {
+    const next = handlerReturning(throwError(() => new ForbiddenError('Insufficient permissions')));
+
+    await expect(lastValueFrom(await interceptor.intercept(contextFor('profile'), next))).rejects.toBeInstanceOf(ForbiddenError);
+    expect(impersonationService.logRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 403 }),
+      expect.any(Object),
+    );
+  });
+});
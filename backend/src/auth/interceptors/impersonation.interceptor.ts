@@ -0,0 +1,63 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, catchError, mergeMap } from 'rxjs';
+import { NO_IMPERSONATION_KEY } from '../decorators/no-impersonation.decorator';
+import { ImpersonationService, ImpersonatedRequest } from '../services/impersonation.service';
+import { ClientInfo, ImpersonationForbiddenError } from '../../../shared/types';
+
+/**
+ * 代入会话中：拒绝标记为 @NoImpersonation 的敏感操作，并将每个请求写入审计日志
+ * 全局注册；拦截器在守卫之后执行，此时 request.user 已由认证守卫填充
+ */
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly impersonationService: ImpersonationService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const request = context.switchToHttp().getRequest();
+    const actorId: string | undefined = request.user?.act?.sub;
+    if (!actorId) {
+      return next.handle();
+    }
+
+    const impersonated: ImpersonatedRequest = {
+      actorId,
+      subjectId: request.user.sub,
+      sessionId: request.user.sid,
+      method: request.method,
+      path: request.url,
+    };
+    const clientInfo: ClientInfo = {
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+    };
+
+    const blocked = this.reflector.getAllAndOverride<boolean>(NO_IMPERSONATION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (blocked) {
+      await this.impersonationService.logRequest({ ...impersonated, blocked: true, statusCode: 403 }, clientInfo);
+      throw new ImpersonationForbiddenError();
+    }
+
+    // 先写审计再返回响应，确保不会遗漏
+    return next.handle().pipe(
+      mergeMap(async data => {
+        await this.impersonationService.logRequest(impersonated, clientInfo);
+        return data;
+      }),
+      catchError(async error => {
+        await this.impersonationService.logRequest(
+          { ...impersonated, statusCode: error?.statusCode ?? error?.getStatus?.() ?? 500 },
+          clientInfo,
+        );
+        throw error;
+      }),
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AccountStatus } from '@prisma/client';
+import { AccountStatusService } from './account-status.service';
+import { PrismaService } from '../../database/database.module';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { PermissionService } from './permission.service';
+import { ForbiddenError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('AccountStatusService', () => {
+  let service: AccountStatusService;
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let grants: Record<string, string[]>;
+  let tokenService: { revokeAllUserTokens: jest.Mock };
+
+  beforeEach(async () => {
+    grants = {
+      moderator: ['users:read', 'users:moderate'],
+      admin: ['users:read', 'users:moderate', 'users:delete'],
+      support: ['users:read'],
+      target: [],
+    };
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockImplementation(async ({ where }) => ({
+          id: where.id,
+          status: AccountStatus.ACTIVE,
+          statusReason: null,
+          statusExpiresAt: null,
+        })),
+        update: jest.fn().mockImplementation(async ({ where, data }) => ({ id: where.id, ...data })),
+      },
+    };
+    tokenService = { revokeAllUserTokens: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AccountStatusService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        {
+          provide: PermissionService,
+          useValue: {
+            hasPermissions: jest.fn().mockImplementation(async (userId: string, required: string[]) =>
+              required.every(permission => (grants[userId] ?? []).includes(permission))),
+          },
+        },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(AccountStatusService);
+  });
+
+  describe('applyStatus', () => {
+    it('lets any holder of users:moderate suspend an account', async () => {
+      grants.support.push('users:moderate');
+
+      await service.applyStatus('support', 'target', { status: 'SUSPENDED', reason: 'spam' });
+
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('target');
+    });
+
+    it('refuses actors without users:moderate', async () => {
+      await expect(
+        service.applyStatus('support', 'target', { status: 'SUSPENDED', reason: 'spam' }),
+      ).rejects.toBeInstanceOf(ForbiddenError);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('reserves bans for elevated moderators', async () => {
+      await expect(
+        service.applyStatus('moderator', 'target', { status: 'BANNED', reason: 'abuse' }),
+      ).rejects.toBeInstanceOf(ForbiddenError);
+
+      await service.applyStatus('admin', 'target', { status: 'BANNED', reason: 'abuse' });
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('target');
+    });
+
+    it('stops moderators from restricting other staff', async () => {
+      grants.target = ['users:moderate'];
+
+      await expect(
+        service.applyStatus('moderator', 'target', { status: 'SUSPENDED', reason: 'spam' }),
+      ).rejects.toThrow('Moderators cannot restrict staff accounts');
+    });
+
+    it('refuses to change the actor\'s own status', async () => {
+      await expect(
+        service.applyStatus('admin', 'admin', { status: 'SUSPENDED', reason: 'test' }),
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AccountStatus, User } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { PermissionService } from './permission.service';
+import {
+  AccountRestrictedError,
+  ApplyAccountStatusDto,
+  ForbiddenError,
+  NotFoundError,
+  RestrictedAccountStatus,
+} from '../../../shared/types';
+
+// 施加或解除账户状态所需的权限
+const MODERATE_PERMISSION = 'users:moderate';
+
+// 封禁、待删除以及限制其他版主需要额外持有删除用户的权限（默认仅管理员）
+const ELEVATED_PERMISSION = 'users:delete';
+
+// 仅管理员可以施加的状态
+const ADMIN_ONLY_STATUSES: AccountStatus[] = [AccountStatus.BANNED, AccountStatus.PENDING_DELETION];
+
+// 只能由对应流程（账户擦除、监护人同意）写入和解除的状态
+const SYSTEM_MANAGED_STATUSES: AccountStatus[] = [AccountStatus.DELETED, AccountStatus.PENDING_CONSENT];
+
+// 支持到期自动恢复的状态
+const EXPIRING_STATUSES: AccountStatus[] = [AccountStatus.LOCKED, AccountStatus.SUSPENDED];
+
+@Injectable()
+export class AccountStatusService {
+  private readonly logger = new Logger(AccountStatusService.name);
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutDuration: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxFailedAttempts = this.configService.get<number>('security.maxFailedLoginAttempts', 5);
+    this.lockoutDuration = this.configService.get<number>('security.lockoutDuration', 900);
+  }
+
+  /**
+   * 确认账户可以认证，否则抛出 AccountRestrictedError
+   * 已到期的锁定/暂停会在此处被顺带解除
+   */
+  async assertCanAuthenticate(user: User, options: { allowLocked?: boolean } = {}): Promise<void> {
+    if (user.status === AccountStatus.ACTIVE) {
+      return;
+    }
+
+    if (user.status === AccountStatus.LOCKED && options.allowLocked) {
+      return;
+    }
+
+    if (this.isExpired(user)) {
+      await this.restore(user.id, null, 'expired');
+      return;
+    }
+
+    throw new AccountRestrictedError(
+      user.status as RestrictedAccountStatus,
+      user.statusReason ?? undefined,
+      user.statusExpiresAt ?? undefined,
+    );
+  }
+
+  /**
+   * 记录一次失败登录，达到阈值后自动锁定账户
+   */
+  async recordFailedLogin(userId: string): Promise<void> {
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+    });
+
+    if (user.status !== AccountStatus.ACTIVE || user.failedLoginAttempts < this.maxFailedAttempts) {
+      return;
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        status: AccountStatus.LOCKED,
+        statusReason: 'too_many_failed_attempts',
+        statusChangedAt: new Date(),
+        statusChangedById: null,
+        statusExpiresAt: new Date(Date.now() + this.lockoutDuration * 1000),
+      },
+    });
+
+    // 自动锁定只阻止新的密码登录，不踢出已有会话，避免被他人恶意触发
+    await this.auditService.log(userId, 'ACCOUNT_LOCKED', {
+      reason: 'too_many_failed_attempts',
+      failedAttempts: user.failedLoginAttempts,
+    });
+  }
+
+  /**
+   * 获取账户状态详情
+   */
+  async getStatus(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        status: true,
+        statusReason: true,
+        statusChangedAt: true,
+        statusChangedById: true,
+        statusExpiresAt: true,
+        failedLoginAttempts: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    return user;
+  }
+
+  /**
+   * 管理员/版主施加账户状态
+   */
+  async applyStatus(actorId: string, userId: string, dto: ApplyAccountStatusDto) {
+    const status = dto.status as AccountStatus;
+    if (!Object.values(AccountStatus).includes(status) || status === AccountStatus.ACTIVE || SYSTEM_MANAGED_STATUSES.includes(status)) {
+      throw new BadRequestException('Invalid account status');
+    }
+
+    if (!dto.reason?.trim()) {
+      throw new BadRequestException('A reason is required');
+    }
+
+    let expiresAt: Date | null = null;
+    if (dto.expiresAt) {
+      if (!EXPIRING_STATUSES.includes(status)) {
+        throw new BadRequestException(`${status} cannot have an expiry date`);
+      }
+
+      expiresAt = new Date(dto.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new BadRequestException('Expiry date must be in the future');
+      }
+    }
+
+    await this.assertCanModerate(actorId, userId, status);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        status,
+        statusReason: dto.reason.trim(),
+        statusChangedAt: new Date(),
+        statusChangedById: actorId,
+        statusExpiresAt: expiresAt,
+      },
+    });
+
+    // 立即切断所有会话（推进令牌纪元，已签发的访问令牌同时失效）
+    await this.tokenService.revokeAllUserTokens(userId);
+
+    await this.auditService.log(actorId, 'ACCOUNT_STATUS_APPLIED', {
+      resourceId: userId,
+      status,
+      reason: user.statusReason,
+      expiresAt,
+    }, 'user');
+
+    return this.getStatus(userId);
+  }
+
+  /**
+   * 管理员/版主解除账户限制
+   */
+  async liftStatus(actorId: string, userId: string, reason: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.status === AccountStatus.ACTIVE) {
+      throw new BadRequestException('Account is not restricted');
+    }
+
+    if (SYSTEM_MANAGED_STATUSES.includes(user.status)) {
+      throw new BadRequestException(`${user.status} cannot be lifted manually`);
+    }
+
+    await this.assertCanModerate(actorId, userId, user.status);
+    await this.restore(userId, actorId, reason?.trim() || 'lifted');
+
+    return this.getStatus(userId);
+  }
+
+  /**
+   * 定时恢复已到期的锁定和暂停
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredStatuses(): Promise<void> {
+    const expired = await this.prisma.user.findMany({
+      where: {
+        status: { in: EXPIRING_STATUSES },
+        statusExpiresAt: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of expired) {
+      try {
+        await this.restore(id, null, 'expired');
+      } catch (error) {
+        this.logger.error(`Failed to release account status for ${id}: ${error.message}`);
+      }
+    }
+  }
+
+  // 私有辅助方法
+
+  private async restore(userId: string, actorId: string | null, reason: string): Promise<void> {
+    const previous = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { status: true },
+    });
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        status: AccountStatus.ACTIVE,
+        statusReason: null,
+        statusChangedAt: new Date(),
+        statusChangedById: actorId,
+        statusExpiresAt: null,
+        failedLoginAttempts: 0,
+        // 恢复等待删除的账户即撤销删除
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      },
+    });
+
+    await this.auditService.log(actorId ?? userId, 'ACCOUNT_STATUS_LIFTED', {
+      resourceId: userId,
+      previousStatus: previous?.status,
+      reason,
+    }, 'user');
+  }
+
+  private async assertCanModerate(actorId: string, userId: string, status: AccountStatus): Promise<void> {
+    if (actorId === userId) {
+      throw new ForbiddenError('You cannot change your own account status');
+    }
+
+    const target = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!target) {
+      throw new NotFoundError('User');
+    }
+
+    // 与控制器的权限守卫保持一致：以权限而不是写死的角色判断
+    const [canModerate, actorIsElevated] = await Promise.all([
+      this.permissionService.hasPermissions(actorId, [MODERATE_PERMISSION]),
+      this.permissionService.hasPermissions(actorId, [ELEVATED_PERMISSION]),
+    ]);
+
+    if (!canModerate) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+
+    if (actorIsElevated) {
+      return;
+    }
+
+    if (ADMIN_ONLY_STATUSES.includes(status)) {
+      throw new ForbiddenError(`Only administrators can manage ${status} accounts`);
+    }
+
+    if (await this.permissionService.hasPermissions(userId, [MODERATE_PERMISSION])) {
+      throw new ForbiddenError('Moderators cannot restrict staff accounts');
+    }
+  }
+
+  private isExpired(user: User): boolean {
+    return (
+      EXPIRING_STATUSES.includes(user.status) &&
+      !!user.statusExpiresAt &&
+      user.statusExpiresAt <= new Date()
+    );
+  }
+}
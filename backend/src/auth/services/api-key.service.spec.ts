@@ -0,0 +1,106 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { ApiKeyService } from './api-key.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { PermissionService } from './permission.service';
+import { AccountStatusService } from './account-status.service';
+import { AuditService } from './audit.service';
+import { RoleService } from './role.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const PREFIX = 'abcdefABCDEF';
+const SECRET = 'a'.repeat(43);
+const RAW_KEY = `egh_${PREFIX}_${SECRET}`;
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let prisma: {
+    apiKey: { findUnique: jest.Mock; update: jest.Mock; count: jest.Mock; create: jest.Mock };
+    user: { create: jest.Mock };
+  };
+  let redis: { checkRateLimit: jest.Mock };
+  let audit: { log: jest.Mock };
+  let permissionService: { getUserPermissions: jest.Mock; invalidate: jest.Mock };
+  let roleService: { assertCanAssign: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      apiKey: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'key-1',
+          userId: 'user-1',
+          prefix: PREFIX,
+          keyHash: crypto.createHash('sha256').update(SECRET).digest('hex'),
+          scopes: ['questions:read'],
+          revokedAt: null,
+          expiresAt: null,
+          user: { id: 'user-1', email: 'a@example.com', roles: [] },
+        }),
+        update: jest.fn().mockResolvedValue({}),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockImplementation(async ({ data }) => ({ id: 'key-2', createdAt: new Date(), ...data })),
+      },
+      user: {
+        create: jest.fn().mockResolvedValue({ id: 'svc-1', nickname: 'LMS', createdAt: new Date(), roleAssignments: [] }),
+      },
+    };
+    redis = { checkRateLimit: jest.fn().mockResolvedValue(true) };
+    audit = { log: jest.fn() };
+    permissionService = { getUserPermissions: jest.fn().mockResolvedValue(['questions:read']), invalidate: jest.fn() };
+    roleService = { assertCanAssign: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: redis },
+        { provide: PermissionService, useValue: permissionService },
+        { provide: AccountStatusService, useValue: { assertCanAuthenticate: jest.fn() } },
+        { provide: AuditService, useValue: audit },
+        { provide: RoleService, useValue: roleService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ApiKeyService);
+  });
+
+  it('audits every use while throttling the lastUsedAt update', async () => {
+    await service.validateKey(RAW_KEY, { ip: '10.0.0.1', userAgent: 'client' });
+    redis.checkRateLimit.mockResolvedValue(false);
+    await service.validateKey(RAW_KEY, { ip: '10.0.0.2', userAgent: 'client' });
+
+    expect(audit.log).toHaveBeenCalledTimes(2);
+    expect(audit.log).toHaveBeenLastCalledWith('user-1', 'API_KEY_USED', expect.objectContaining({ ip: '10.0.0.2' }), 'api_key');
+    expect(prisma.apiKey.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not audit keys that fail verification', async () => {
+    await expect(service.validateKey(`egh_${PREFIX}_${'b'.repeat(43)}`)).resolves.toBeNull();
+
+    expect(audit.log).not.toHaveBeenCalled();
+  });
+
+  describe('service accounts', () => {
+    it('checks attached roles against the creator before creating the account', async () => {
+      roleService.assertCanAssign.mockRejectedValue(new Error('Cannot grant permissions you do not have: roles:write'));
+
+      await expect(service.createServiceAccount('admin', { name: 'LMS', roleIds: ['role-1'] })).rejects.toThrow('roles:write');
+      expect(roleService.assertCanAssign).toHaveBeenCalledWith('admin', ['role-1'], undefined);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses key scopes the creator does not hold', async () => {
+      permissionService.getUserPermissions.mockImplementation(async (userId: string) =>
+        userId === 'svc-1' ? ['questions:read', 'users:moderate'] : ['questions:read']);
+
+      await expect(service.createKey('admin', 'svc-1', { name: 'sync', scopes: ['users:moderate'] }))
+        .rejects.toThrow('Cannot grant scopes you do not have: users:moderate');
+      await expect(service.createKey('admin', 'svc-1', { name: 'sync', scopes: ['questions:read'] }))
+        .resolves.toMatchObject({ scopes: ['questions:read'] });
+    });
+  });
+});
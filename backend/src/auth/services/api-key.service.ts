@@ -0,0 +1,304 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { PermissionService } from './permission.service';
+import { AccountStatusService } from './account-status.service';
+import { AuditService } from './audit.service';
+import { RoleService } from './role.service';
+import {
+  ApiKeyInfo,
+  ClientInfo,
+  CreateApiKeyDto,
+  CreatedApiKey,
+  CreateServiceAccountDto,
+  ForbiddenError,
+  NotFoundError,
+  ServiceAccountInfo,
+  ValidationError,
+} from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+import * as crypto from 'crypto';
+
+// 明文格式：egh_<prefix>_<secret>
+const KEY_PATTERN = /^egh_([A-Za-z0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * API密钥认证后的 request.user，与JWT payload字段保持一致
+ */
+export interface ApiKeyPrincipal {
+  sub: string;
+  email: string;
+  roles: string[];
+  permissions: string[]; // 密钥范围与用户当前权限的交集
+  apiKeyId: string;
+  authType: 'api_key';
+}
+
+@Injectable()
+export class ApiKeyService {
+  private readonly maxPerUser: number;
+  private readonly maxLifetimeDays: number;
+  private readonly usageRecordInterval: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly permissionService: PermissionService,
+    private readonly accountStatusService: AccountStatusService,
+    private readonly auditService: AuditService,
+    private readonly roleService: RoleService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxPerUser = this.configService.get<number>('apiKeys.maxPerUser', 10);
+    this.maxLifetimeDays = this.configService.get<number>('apiKeys.maxLifetimeDays', 365);
+    this.usageRecordInterval = this.configService.get<number>('apiKeys.usageRecordInterval', 60);
+  }
+
+  /**
+   * 创建API密钥，范围不能超出密钥所属用户的权限；为其他账户（服务账户）创建时也不能超出操作者的权限
+   */
+  async createKey(actorId: string, userId: string, dto: CreateApiKeyDto): Promise<CreatedApiKey> {
+    const activeCount = await this.prisma.apiKey.count({
+      where: { userId, revokedAt: null },
+    });
+    if (activeCount >= this.maxPerUser) {
+      throw new BadRequestException(`A maximum of ${this.maxPerUser} active API keys is allowed`);
+    }
+
+    if (!dto.scopes?.length) {
+      throw new ValidationError('At least one scope is required', 'scopes');
+    }
+
+    const granted = await this.permissionService.getUserPermissions(userId);
+    const excess = dto.scopes.filter(scope => !granted.includes(scope));
+    if (excess.length > 0) {
+      throw new ValidationError(`Scopes exceed the account's permissions: ${excess.join(', ')}`, 'scopes');
+    }
+
+    if (actorId !== userId) {
+      const actorGranted = await this.permissionService.getUserPermissions(actorId);
+      const notHeld = dto.scopes.filter(scope => !actorGranted.includes(scope));
+      if (notHeld.length > 0) {
+        throw new ForbiddenError(`Cannot grant scopes you do not have: ${notHeld.join(', ')}`);
+      }
+    }
+
+    const lifetimeDays = dto.expiresInDays ?? this.maxLifetimeDays;
+    if (lifetimeDays < 1 || lifetimeDays > this.maxLifetimeDays) {
+      throw new ValidationError(`expiresInDays must be between 1 and ${this.maxLifetimeDays}`, 'expiresInDays');
+    }
+
+    const prefix = crypto.randomBytes(9).toString('base64url').replace(/[-_]/g, 'x').slice(0, 12);
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: dto.name,
+        prefix,
+        keyHash: this.hashSecret(secret),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt: new Date(Date.now() + lifetimeDays * 86400 * 1000),
+        createdById: actorId,
+      },
+    });
+
+    await this.auditService.log(actorId, 'API_KEY_CREATED', {
+      resourceId: apiKey.id,
+      ownerId: userId,
+      prefix,
+      scopes: apiKey.scopes,
+    }, 'api_key');
+
+    return {
+      ...this.toApiKeyInfo(apiKey),
+      key: `egh_${prefix}_${secret}`,
+    };
+  }
+
+  async listKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const keys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map(key => this.toApiKeyInfo(key));
+  }
+
+  async revokeKey(actorId: string, userId: string, keyId: string): Promise<void> {
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('API key not found');
+    }
+
+    await this.auditService.log(actorId, 'API_KEY_REVOKED', {
+      resourceId: keyId,
+      ownerId: userId,
+    }, 'api_key');
+  }
+
+  /**
+   * 验证明文密钥并解析出调用方身份，无效时返回null
+   */
+  async validateKey(rawKey: string, clientInfo?: ClientInfo): Promise<ApiKeyPrincipal | null> {
+    const match = KEY_PATTERN.exec(rawKey);
+    if (!match) {
+      return null;
+    }
+
+    const [, prefix, secret] = match;
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { prefix },
+      include: { user: true },
+    });
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    // 所属账户被限制时密钥同样失效
+    await this.accountStatusService.assertCanAuthenticate(apiKey.user);
+
+    // 用户权限被收回后，密钥范围随之收缩
+    const granted = await this.permissionService.getUserPermissions(apiKey.userId);
+    const permissions = apiKey.scopes.filter(scope => granted.includes(scope));
+
+    await this.recordUsage(apiKey, clientInfo);
+
+    return {
+      sub: apiKey.userId,
+      email: apiKey.user.email,
+      roles: apiKey.user.roles,
+      permissions,
+      apiKeyId: apiKey.id,
+      authType: 'api_key',
+    };
+  }
+
+  /**
+   * 创建服务账户（不能通过密码、单点登录或通行密钥登录）
+   * 附带的角色按普通分配规则校验，操作者不能借服务账户获得自己没有的权限
+   */
+  async createServiceAccount(actorId: string, dto: CreateServiceAccountDto): Promise<ServiceAccountInfo> {
+    const roleIds = [...new Set(dto.roleIds ?? [])];
+    if (roleIds.length > 0) {
+      await this.roleService.assertCanAssign(actorId, roleIds, dto.organizationId);
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: `svc-${uuidv4()}@service-accounts.invalid`,
+        nickname: dto.name,
+        uuid: uuidv4(),
+        roles: [],
+        isServiceAccount: true,
+        serviceAccountOwnerId: actorId,
+        roleAssignments: {
+          create: roleIds.map(roleId => ({ roleId, assignedById: actorId })),
+        },
+      },
+      include: { roleAssignments: { include: { role: true } } },
+    });
+
+    await this.permissionService.invalidate();
+
+    await this.auditService.log(actorId, 'SERVICE_ACCOUNT_CREATED', {
+      resourceId: user.id,
+      name: dto.name,
+      roleIds,
+      organizationId: dto.organizationId,
+    }, 'user');
+
+    return {
+      id: user.id,
+      name: user.nickname,
+      roles: user.roleAssignments.map(assignment => assignment.role.name),
+      ownerId: actorId,
+      createdAt: user.createdAt,
+    };
+  }
+
+  async listServiceAccounts(): Promise<ServiceAccountInfo[]> {
+    const accounts = await this.prisma.user.findMany({
+      where: { isServiceAccount: true },
+      include: { roleAssignments: { include: { role: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return accounts.map(account => ({
+      id: account.id,
+      name: account.nickname,
+      roles: account.roleAssignments.map(assignment => assignment.role.name),
+      ownerId: account.serviceAccountOwnerId ?? undefined,
+      createdAt: account.createdAt,
+    }));
+  }
+
+  async assertServiceAccount(userId: string): Promise<void> {
+    const account = await this.prisma.user.findFirst({
+      where: { id: userId, isServiceAccount: true },
+      select: { id: true },
+    });
+
+    if (!account) {
+      throw new NotFoundError('Service account');
+    }
+  }
+
+  // 私有辅助方法
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * 记录使用情况：每次使用都写审计日志，lastUsedAt 在节流间隔内只更新一次
+   */
+  private async recordUsage(apiKey: ApiKey, clientInfo?: ClientInfo): Promise<void> {
+    await this.auditService.log(apiKey.userId, 'API_KEY_USED', {
+      resourceId: apiKey.id,
+      prefix: apiKey.prefix,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'api_key');
+
+    const shouldTouch = await this.redisService.checkRateLimit(
+      `api_key_usage:${apiKey.id}`,
+      1,
+      this.usageRecordInterval,
+    );
+    if (!shouldTouch) {
+      return;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: clientInfo?.ip },
+    });
+  }
+
+  private toApiKeyInfo(apiKey: ApiKey): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt ?? undefined,
+      lastUsedAt: apiKey.lastUsedAt ?? undefined,
+      revokedAt: apiKey.revokedAt ?? undefined,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
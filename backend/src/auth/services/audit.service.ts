@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/database.module';
+
+@Injectable()
+export class AuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 记录审计事件
+   */
+  async log(userId: string | null, action: string, details: any = {}, resource: string = 'auth'): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource,
+        resourceId: details.resourceId,
+        details,
+        ip: details.ip,
+        userAgent: details.userAgent,
+      },
+    });
+  }
+}
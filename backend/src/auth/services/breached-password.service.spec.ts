@@ -0,0 +1,119 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { BreachedPasswordService } from './breached-password.service';
+
+function sha1(password: string): string {
+  return crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+}
+
+describe('BreachedPasswordService', () => {
+  let corpusPath: string;
+
+  const createService = async (config: Record<string, unknown> = {}) => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BreachedPasswordService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: unknown) => (key in config ? config[key] : fallback) },
+        },
+      ],
+    }).compile();
+
+    const service = moduleRef.get(BreachedPasswordService);
+    await service.onModuleInit();
+    return service;
+  };
+
+  const writeRange = async (password: string, count: number, fileName?: string) => {
+    const hash = sha1(password);
+    const lines = [
+      `${'0'.repeat(35)}:7`,
+      `${hash.slice(5).toLowerCase()}:${count}\r`,
+      'malformed line',
+    ];
+    await fs.writeFile(path.join(corpusPath, fileName ?? `${hash.slice(0, 5)}.txt`), lines.join('\n'));
+  };
+
+  beforeEach(async () => {
+    corpusPath = await fs.mkdtemp(path.join(os.tmpdir(), 'breach-corpus-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(corpusPath, { recursive: true, force: true });
+  });
+
+  it('reads occurrence counts from the range file for the hash prefix', async () => {
+    await writeRange('hunter2-but-longer', 42);
+    const service = await createService({ 'security.breachCorpusPath': corpusPath });
+
+    await expect(service.getBreachCount('hunter2-but-longer')).resolves.toBe(42);
+    await expect(service.getBreachCount('never-seen-before-passphrase')).resolves.toBe(0);
+  });
+
+  it('accepts range files without the .txt extension', async () => {
+    const prefix = sha1('extensionless-range').slice(0, 5);
+    await writeRange('extensionless-range', 3, prefix);
+    const service = await createService({ 'security.breachCorpusPath': corpusPath });
+
+    await expect(service.isBreached('extensionless-range')).resolves.toBe(true);
+  });
+
+  it('only reports passwords seen at least minOccurrences times', async () => {
+    await writeRange('rarely-leaked-password', 2);
+    const service = await createService({ 'security.breachCorpusPath': corpusPath, 'security.breachMinOccurrences': 3 });
+
+    await expect(service.isBreached('rarely-leaked-password')).resolves.toBe(false);
+  });
+
+  it('caches a range after the first lookup', async () => {
+    await writeRange('cached-range-password', 5);
+    const service = await createService({ 'security.breachCorpusPath': corpusPath });
+    const readFile = jest.spyOn(fs, 'readFile');
+
+    await service.getBreachCount('cached-range-password');
+    await service.getBreachCount('cached-range-password');
+
+    expect(readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the least recently used range once the cache is full', async () => {
+    const service = await createService({ 'security.breachCorpusPath': corpusPath });
+    const readFile = jest.spyOn(fs, 'readFile');
+    const passwordsByPrefix = new Map<string, string>();
+    for (let i = 0; passwordsByPrefix.size < 513; i++) {
+      const password = `password-${i}`;
+      passwordsByPrefix.set(sha1(password).slice(0, 5), password);
+    }
+    const [first, second, ...rest] = [...passwordsByPrefix.values()];
+
+    await service.getBreachCount(first);
+    await service.getBreachCount(second);
+    // 再次访问 first，使 second 成为最久未使用的分片
+    await service.getBreachCount(first);
+    for (const password of rest) {
+      await service.getBreachCount(password);
+    }
+    readFile.mockClear();
+
+    await service.getBreachCount(first);
+    expect(readFile).not.toHaveBeenCalled();
+
+    await service.getBreachCount(second);
+    expect(readFile).toHaveBeenCalled();
+  });
+
+  it('disables breach screening when the corpus is missing', async () => {
+    const service = await createService({ 'security.breachCorpusPath': path.join(corpusPath, 'missing') });
+    const readFile = jest.spyOn(fs, 'readFile');
+
+    await expect(service.isBreached('password')).resolves.toBe(false);
+    expect(readFile).not.toHaveBeenCalled();
+    expect(service.isCommonPassword('Password')).toBe(true);
+  });
+});
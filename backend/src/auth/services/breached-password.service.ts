@@ -0,0 +1,109 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { dictionary } from '@zxcvbn-ts/language-common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+const RANGE_CACHE_SIZE = 512;
+
+/**
+ * 离线泄露密码筛查
+ * 语料为 HIBP k-匿名格式：按SHA-1前5位分片的文件（如 21BD1.txt），每行 "后35位:出现次数"
+ */
+@Injectable()
+export class BreachedPasswordService implements OnModuleInit {
+  private readonly logger = new Logger(BreachedPasswordService.name);
+  private readonly corpusPath: string;
+  private readonly minOccurrences: number;
+  private readonly commonPasswords: Set<string>;
+  private readonly rangeCache = new Map<string, Map<string, number>>();
+  private corpusAvailable = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.corpusPath = this.configService.get<string>('security.breachCorpusPath', 'data/pwned-passwords');
+    this.minOccurrences = this.configService.get<number>('security.breachMinOccurrences', 1);
+    this.commonPasswords = new Set(dictionary.passwords.map(password => password.toLowerCase()));
+  }
+
+  async onModuleInit() {
+    try {
+      const stat = await fs.stat(this.corpusPath);
+      this.corpusAvailable = stat.isDirectory();
+    } catch {
+      this.corpusAvailable = false;
+    }
+
+    if (!this.corpusAvailable) {
+      // 语料缺失时不阻止用户设置密码，仅依赖常见密码字典
+      this.logger.warn(`Breached password corpus not found at ${this.corpusPath}, breach screening disabled`);
+    }
+  }
+
+  /**
+   * 是否为常见密码（内置字典，约5万条）
+   */
+  isCommonPassword(password: string): boolean {
+    return this.commonPasswords.has(password.toLowerCase());
+  }
+
+  /**
+   * 密码在泄露语料中的出现次数
+   */
+  async getBreachCount(password: string): Promise<number> {
+    if (!this.corpusAvailable) {
+      return 0;
+    }
+
+    const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    const range = await this.loadRange(hash.slice(0, 5));
+
+    return range.get(hash.slice(5)) ?? 0;
+  }
+
+  async isBreached(password: string): Promise<boolean> {
+    return (await this.getBreachCount(password)) >= this.minOccurrences;
+  }
+
+  private async loadRange(prefix: string): Promise<Map<string, number>> {
+    const cached = this.rangeCache.get(prefix);
+    if (cached) {
+      // 刷新LRU顺序
+      this.rangeCache.delete(prefix);
+      this.rangeCache.set(prefix, cached);
+      return cached;
+    }
+
+    const range = new Map<string, number>();
+    const content = await this.readRangeFile(prefix);
+
+    for (const line of content.split('\n')) {
+      const [suffix, count] = line.trim().split(':');
+      if (suffix?.length === 35) {
+        range.set(suffix.toUpperCase(), parseInt(count, 10) || 1);
+      }
+    }
+
+    this.rangeCache.set(prefix, range);
+    if (this.rangeCache.size > RANGE_CACHE_SIZE) {
+      this.rangeCache.delete(this.rangeCache.keys().next().value);
+    }
+
+    return range;
+  }
+
+  private async readRangeFile(prefix: string): Promise<string> {
+    for (const fileName of [`${prefix}.txt`, prefix]) {
+      try {
+        return await fs.readFile(path.join(this.corpusPath, fileName), 'utf8');
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          this.logger.error(`Failed to read breach corpus range ${prefix}: ${error.message}`);
+          return '';
+        }
+      }
+    }
+
+    return '';
+  }
+}
@@ -0,0 +1,177 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { EmailChangeService } from './email-change.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ReauthenticationRequiredError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('EmailChangeService', () => {
+  let service: EmailChangeService;
+  let users: Record<string, any>[];
+  let requests: Record<string, any>[];
+  let tokenService: { revokeAllUserTokens: jest.Mock };
+  let reauthenticationService: { assertRecentlyAuthenticated: jest.Mock; clear: jest.Mock };
+  let notifications: { notify: jest.Mock };
+  let queue: { add: jest.Mock };
+
+  const matches = (record: Record<string, any>, where: Record<string, any>) =>
+    Object.entries(where).every(([key, value]) => record[key] === value);
+
+  const emailed = (job: string) => queue.add.mock.calls.filter(([name]) => name === job).pop()[1];
+
+  const requestChange = async () => {
+    await service.requestChange('user-1', 'session-1', ' New@Example.com ');
+    return {
+      confirmToken: emailed('send-email-change-confirmation').confirmToken as string,
+      cancelToken: emailed('send-email-change-notice').cancelToken as string,
+    };
+  };
+
+  beforeEach(async () => {
+    users = [
+      { id: 'user-1', email: 'old@example.com', nickname: 'Learner' },
+      { id: 'user-2', email: 'taken@example.com', nickname: 'Someone else' },
+    ];
+    requests = [];
+
+    const prisma = {
+      user: {
+        findUnique: jest.fn(async ({ where }) => users.find(user => matches(user, where)) ?? null),
+        update: jest.fn(async ({ where, data }) => Object.assign(users.find(user => user.id === where.id), data)),
+      },
+      emailChangeRequest: {
+        findUnique: jest.fn(async ({ where }) => requests.find(request => matches(request, where)) ?? null),
+        create: jest.fn(async ({ data }) => {
+          const request = { id: `request-${requests.length + 1}`, completedAt: null, cancelledAt: null, ...data };
+          requests.push(request);
+          return request;
+        }),
+        update: jest.fn(async ({ where, data }) => Object.assign(requests.find(request => request.id === where.id), data)),
+        deleteMany: jest.fn(async () => {
+          requests = requests.filter(request => request.completedAt || request.cancelledAt);
+          return { count: 0 };
+        }),
+      },
+    };
+    tokenService = { revokeAllUserTokens: jest.fn() };
+    reauthenticationService = { assertRecentlyAuthenticated: jest.fn(), clear: jest.fn() };
+    notifications = { notify: jest.fn() };
+    queue = { add: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        EmailChangeService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: { checkRateLimit: jest.fn().mockResolvedValue(true) } },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: ReauthenticationService, useValue: reauthenticationService },
+        { provide: SecurityNotificationService, useValue: notifications },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: getQueueToken('auth'), useValue: queue },
+      ],
+    }).compile();
+
+    service = moduleRef.get(EmailChangeService);
+  });
+
+  describe('requestChange', () => {
+    it('requires recent reauthentication and consumes it', async () => {
+      reauthenticationService.assertRecentlyAuthenticated.mockRejectedValueOnce(new ReauthenticationRequiredError());
+      await expect(service.requestChange('user-1', 'session-1', 'new@example.com')).rejects.toBeInstanceOf(
+        ReauthenticationRequiredError,
+      );
+      expect(queue.add).not.toHaveBeenCalled();
+
+      await requestChange();
+
+      expect(reauthenticationService.clear).toHaveBeenCalledWith('user-1', 'session-1');
+      expect(emailed('send-email-change-confirmation').email).toBe('new@example.com');
+      expect(emailed('send-email-change-notice').email).toBe('old@example.com');
+    });
+
+    it('refuses an address that belongs to another account', async () => {
+      await expect(service.requestChange('user-1', 'session-1', 'taken@example.com')).rejects.toThrow('already in use');
+    });
+  });
+
+  describe('confirmChange', () => {
+    it('switches the email and signs out every session', async () => {
+      const { confirmToken } = await requestChange();
+
+      await service.confirmChange(confirmToken);
+
+      expect(users[0]).toEqual(expect.objectContaining({ email: 'new@example.com', emailVerified: true }));
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1');
+      expect(notifications.notify).toHaveBeenCalledWith('user-1', 'EMAIL_CHANGED', 'Email address changed', expect.any(String), {
+        newEmail: 'new@example.com',
+      });
+      await expect(service.confirmChange(confirmToken)).rejects.toThrow('Invalid or expired confirmation link');
+    });
+
+    it('refuses an expired link', async () => {
+      const { confirmToken } = await requestChange();
+      requests[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.confirmChange(confirmToken)).rejects.toThrow('Invalid or expired confirmation link');
+      expect(users[0].email).toBe('old@example.com');
+    });
+
+    it('fails when the new address was taken after the request', async () => {
+      const { confirmToken } = await requestChange();
+      users.push({ id: 'user-3', email: 'new@example.com' });
+
+      await expect(service.confirmChange(confirmToken)).rejects.toThrow('already in use');
+      expect(users[0].email).toBe('old@example.com');
+      expect(requests[0].completedAt).toBeNull();
+    });
+  });
+
+  describe('cancelChange', () => {
+    it('cancels a pending change so the confirmation link stops working', async () => {
+      const { confirmToken, cancelToken } = await requestChange();
+
+      await service.cancelChange(cancelToken);
+
+      expect(notifications.notify).toHaveBeenCalledWith('user-1', 'EMAIL_CHANGE_CANCELLED', 'Email change cancelled', expect.any(String));
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1');
+      await expect(service.confirmChange(confirmToken)).rejects.toThrow('Invalid or expired confirmation link');
+    });
+
+    it('restores the old email after a completed change', async () => {
+      const { confirmToken, cancelToken } = await requestChange();
+      await service.confirmChange(confirmToken);
+
+      await service.cancelChange(cancelToken);
+
+      expect(users[0].email).toBe('old@example.com');
+      expect(notifications.notify).toHaveBeenCalledWith('user-1', 'EMAIL_CHANGE_REVERTED', 'Email change reverted', expect.any(String));
+      await expect(service.cancelChange(cancelToken)).rejects.toThrow('Invalid or expired cancellation link');
+    });
+
+    it('does not revert once the revert window has passed', async () => {
+      const { confirmToken, cancelToken } = await requestChange();
+      await service.confirmChange(confirmToken);
+      requests[0].cancelExpiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.cancelChange(cancelToken)).rejects.toThrow('Invalid or expired cancellation link');
+      expect(users[0].email).toBe('new@example.com');
+    });
+
+    it('does not revert when the old address was taken in the meantime', async () => {
+      const { confirmToken, cancelToken } = await requestChange();
+      await service.confirmChange(confirmToken);
+      users.push({ id: 'user-3', email: 'old@example.com' });
+
+      await expect(service.cancelChange(cancelToken)).rejects.toThrow('already in use');
+      expect(users[0].email).toBe('new@example.com');
+    });
+  });
+});
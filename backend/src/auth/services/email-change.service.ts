@@ -0,0 +1,248 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ClientInfo, UnauthorizedError, ValidationError } from '../../../shared/types';
+import * as crypto from 'crypto';
+
+@Injectable()
+export class EmailChangeService {
+  private readonly confirmExpiry: number;
+  private readonly revertWindow: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+    @InjectQueue('auth') private readonly authQueue: Queue,
+  ) {
+    this.confirmExpiry = this.configService.get<number>('security.emailChangeExpiry', 86400);
+    this.revertWindow = this.configService.get<number>('security.emailChangeRevertWindow', 7 * 86400);
+  }
+
+  /**
+   * 发起邮箱变更：向新邮箱发送确认链接，向旧邮箱发送带撤销链接的提醒
+   */
+  async requestChange(userId: string, sessionId: string, newEmail: string, clientInfo?: ClientInfo): Promise<void> {
+    // 1. 要求当前会话近期完成过重新验证，防止被盗会话直接改绑邮箱
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    // 2. 校验新邮箱
+    const normalizedEmail = (newEmail ?? '').toLowerCase().trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      throw new ValidationError('A valid email address is required', 'newEmail');
+    }
+
+    if (normalizedEmail === user.email.toLowerCase()) {
+      throw new ValidationError('The new email address must differ from the current one', 'newEmail');
+    }
+
+    const canRequest = await this.redisService.checkRateLimit(`email_change:${userId}`, 3, 3600); // 1小时内最多3次
+    if (!canRequest) {
+      throw new BadRequestException('Too many email change requests. Please try again later.');
+    }
+
+    await this.assertEmailAvailable(userId, normalizedEmail);
+
+    // 3. 同一时间只保留一个待确认的请求
+    await this.prisma.emailChangeRequest.deleteMany({
+      where: { userId, completedAt: null, cancelledAt: null },
+    });
+
+    const confirmToken = crypto.randomBytes(32).toString('base64url');
+    const cancelToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.confirmExpiry * 1000);
+    const cancelExpiresAt = new Date(expiresAt.getTime() + this.revertWindow * 1000);
+
+    const request = await this.prisma.emailChangeRequest.create({
+      data: {
+        userId,
+        oldEmail: user.email,
+        newEmail: normalizedEmail,
+        confirmTokenHash: this.hashToken(confirmToken),
+        cancelTokenHash: this.hashToken(cancelToken),
+        expiresAt,
+        cancelExpiresAt,
+      },
+    });
+
+    // 4. 发送邮件
+    await this.authQueue.add('send-email-change-confirmation', {
+      userId,
+      email: normalizedEmail,
+      nickname: user.nickname,
+      confirmToken,
+      expiresAt,
+    });
+
+    await this.authQueue.add('send-email-change-notice', {
+      userId,
+      email: user.email,
+      nickname: user.nickname,
+      newEmail: normalizedEmail,
+      cancelToken,
+      cancelExpiresAt,
+    });
+
+    // 5. 重新验证只能使用一次
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.auditService.log(userId, 'EMAIL_CHANGE_REQUESTED', {
+      resourceId: request.id,
+      oldEmail: user.email,
+      newEmail: normalizedEmail,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 新邮箱确认后完成变更，并使所有会话失效
+   */
+  async confirmChange(token: string, clientInfo?: ClientInfo): Promise<void> {
+    const request = await this.prisma.emailChangeRequest.findUnique({
+      where: { confirmTokenHash: this.hashToken(token ?? '') },
+    });
+
+    if (!request || request.completedAt || request.cancelledAt || request.expiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired confirmation link');
+    }
+
+    // 请求发出后邮箱已被其他人修改，则该请求作废
+    const user = await this.prisma.user.findUnique({ where: { id: request.userId } });
+    if (!user || user.email !== request.oldEmail) {
+      throw new BadRequestException('Invalid or expired confirmation link');
+    }
+
+    await this.assertEmailAvailable(request.userId, request.newEmail);
+
+    // 点击链接即证明拥有新邮箱，因此变更后仍为已验证状态
+    await this.prisma.user.update({
+      where: { id: request.userId },
+      data: {
+        email: request.newEmail,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    await this.prisma.emailChangeRequest.update({
+      where: { id: request.id },
+      data: {
+        completedAt: new Date(),
+        confirmTokenHash: null,
+      },
+    });
+
+    await this.tokenService.revokeAllUserTokens(request.userId);
+
+    await this.securityNotificationService.notify(
+      request.userId,
+      'EMAIL_CHANGED',
+      'Email address changed',
+      `Your sign-in email was changed to ${request.newEmail}. All sessions have been signed out.`,
+      { newEmail: request.newEmail },
+    );
+
+    await this.auditService.log(request.userId, 'EMAIL_CHANGED', {
+      resourceId: request.id,
+      oldEmail: request.oldEmail,
+      newEmail: request.newEmail,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 旧邮箱撤销：确认前直接取消；确认后在回滚期内恢复旧邮箱
+   */
+  async cancelChange(token: string, clientInfo?: ClientInfo): Promise<void> {
+    const request = await this.prisma.emailChangeRequest.findUnique({
+      where: { cancelTokenHash: this.hashToken(token ?? '') },
+    });
+
+    if (!request || request.cancelledAt || request.cancelExpiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired cancellation link');
+    }
+
+    let action = 'EMAIL_CHANGE_CANCELLED';
+
+    if (request.completedAt) {
+      // 已完成的变更：仅当账户邮箱仍是本次变更结果时回滚
+      const user = await this.prisma.user.findUnique({ where: { id: request.userId } });
+      if (!user || user.email !== request.newEmail) {
+        throw new BadRequestException('Invalid or expired cancellation link');
+      }
+
+      await this.assertEmailAvailable(request.userId, request.oldEmail);
+
+      await this.prisma.user.update({
+        where: { id: request.userId },
+        data: {
+          email: request.oldEmail,
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        },
+      });
+
+      action = 'EMAIL_CHANGE_REVERTED';
+    }
+
+    await this.prisma.emailChangeRequest.update({
+      where: { id: request.id },
+      data: {
+        cancelledAt: new Date(),
+        confirmTokenHash: null,
+        cancelTokenHash: null,
+      },
+    });
+
+    // 撤销说明账户可能已被盗用，退出所有会话
+    await this.tokenService.revokeAllUserTokens(request.userId);
+
+    await this.securityNotificationService.notify(
+      request.userId,
+      action,
+      request.completedAt ? 'Email change reverted' : 'Email change cancelled',
+      request.completedAt
+        ? `Your sign-in email was restored to ${request.oldEmail}. All sessions have been signed out.`
+        : 'A pending email change was cancelled. All sessions have been signed out.',
+    );
+
+    await this.auditService.log(request.userId, action, {
+      resourceId: request.id,
+      oldEmail: request.oldEmail,
+      newEmail: request.newEmail,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  // 私有辅助方法
+
+  private async assertEmailAvailable(userId: string, email: string): Promise<void> {
+    const owner = await this.prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (owner && owner.id !== userId) {
+      throw new ConflictException('This email address is already in use');
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+import { DEVELOPMENT_ENCRYPTION_KEY } from '../../config/configuration';
+
+describe('EncryptionService', () => {
+  const create = (settings: Record<string, string | undefined>) =>
+    new EncryptionService({ get: (key: string) => settings[key] } as unknown as ConfigService);
+
+  const PRODUCTION_KEY = 'k4GQm0mWbq1Rr2m0yq8o3ZQ3zQx5m3F0oXxQb4l1a2c=';
+
+  it('decrypts what it encrypted with the same key', () => {
+    const encrypted = create({ 'security.encryptionKey': PRODUCTION_KEY }).encrypt('totp-secret');
+
+    expect(create({ 'security.encryptionKey': PRODUCTION_KEY }).decrypt(encrypted)).toBe('totp-secret');
+    expect(() => create({ 'security.encryptionKey': `${PRODUCTION_KEY}x` }).decrypt(encrypted)).toThrow();
+  });
+
+  it('allows the development key outside production', () => {
+    expect(() => create({ 'app.nodeEnv': 'development', 'security.encryptionKey': DEVELOPMENT_ENCRYPTION_KEY })).not.toThrow();
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['the development default', DEVELOPMENT_ENCRYPTION_KEY],
+    ['too short', 'your_secure_encryption_key'],
+  ])('refuses to start in production when the key is %s', (_case, encryptionKey) => {
+    expect(() => create({ 'app.nodeEnv': 'production', 'security.encryptionKey': encryptionKey })).toThrow(/ENCRYPTION_KEY/);
+  });
+
+  it('accepts a generated key in production', () => {
+    expect(() => create({ 'app.nodeEnv': 'production', 'security.encryptionKey': PRODUCTION_KEY })).not.toThrow();
+  });
+});
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { DEVELOPMENT_ENCRYPTION_KEY } from '../../config/configuration';
+
+// 生产环境密钥的最短长度（openssl rand -base64 32 生成44个字符）
+const MIN_PRODUCTION_KEY_LENGTH = 32;
+
+@Injectable()
+export class EncryptionService {
+  private readonly key: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    const encryptionKey = this.configService.get<string>('security.encryptionKey');
+
+    // 密钥丢失或更换后已加密的签名私钥与MFA密钥都无法解密，生产环境必须显式配置固定的密钥
+    if (
+      this.configService.get<string>('app.nodeEnv') === 'production' &&
+      (!encryptionKey || encryptionKey === DEVELOPMENT_ENCRYPTION_KEY || encryptionKey.length < MIN_PRODUCTION_KEY_LENGTH)
+    ) {
+      throw new Error('ENCRYPTION_KEY must be set to a stable secret of at least 32 characters in production');
+    }
+
+    // 将任意长度的配置密钥派生为AES-256所需的32字节
+    this.key = crypto
+      .createHash('sha256')
+      .update(encryptionKey)
+      .digest();
+  }
+
+  /**
+   * AES-256-GCM加密，输出格式 v1:iv:authTag:ciphertext (base64)
+   */
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return ['v1', iv.toString('base64'), authTag.toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  /**
+   * 解密 encrypt() 的输出
+   */
+  decrypt(payload: string): string {
+    const [version, iv, authTag, encrypted] = payload.split(':');
+    if (version !== 'v1') {
+      throw new Error('Unsupported encrypted payload format');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -0,0 +1,114 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ImpersonationService } from './impersonation.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ForbiddenError, NotFoundError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const TOKENS = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 900, tokenType: 'Bearer' };
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let users: Record<string, Record<string, any>>;
+  let redisStore: Map<string, string>;
+  let tokenService: { generateTokenPair: jest.Mock; revokeSession: jest.Mock };
+  let auditService: { log: jest.Mock };
+  let notifications: { notify: jest.Mock };
+
+  beforeEach(async () => {
+    users = {
+      admin: { id: 'admin', email: 'admin@example.com', roles: ['ADMIN'], status: 'ACTIVE' },
+      learner: { id: 'learner', email: 'learner@example.com', roles: ['STUDENT'], status: 'ACTIVE' },
+      otherAdmin: { id: 'otherAdmin', email: 'root@example.com', roles: ['ADMIN'], status: 'ACTIVE' },
+      bot: { id: 'bot', email: 'bot@service.invalid', roles: [], status: 'ACTIVE', isServiceAccount: true },
+      moderator: { id: 'moderator', email: 'mod@example.com', roles: ['MODERATOR'], status: 'ACTIVE' },
+    };
+    redisStore = new Map();
+    tokenService = { generateTokenPair: jest.fn().mockResolvedValue(TOKENS), revokeSession: jest.fn() };
+    auditService = { log: jest.fn() };
+    notifications = { notify: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: PrismaService, useValue: { user: { findUnique: jest.fn(async ({ where }) => users[where.id] ?? null) } } },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn(async (key: string) => redisStore.get(key) ?? null),
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => redisStore.set(key, value)),
+            del: jest.fn(async (key: string) => redisStore.delete(key)),
+          },
+        },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuditService, useValue: auditService },
+        { provide: SecurityNotificationService, useValue: notifications },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ImpersonationService);
+  });
+
+  describe('start', () => {
+    it('issues tokens that carry the administrator as the actor', async () => {
+      const result = await service.start('admin', 'learner', 'Ticket #42');
+
+      expect(tokenService.generateTokenPair).toHaveBeenCalledWith(users.learner, expect.objectContaining({
+        impersonatorId: 'admin',
+        sessionId: result.impersonation.sessionId,
+      }));
+      await expect(service.getContext(result.impersonation.sessionId)).resolves.toEqual(expect.objectContaining({
+        actorId: 'admin',
+        subjectId: 'learner',
+        reason: 'Ticket #42',
+      }));
+      expect(auditService.log).toHaveBeenCalledWith('admin', 'IMPERSONATION_STARTED', expect.any(Object), 'impersonation');
+      expect(notifications.notify).toHaveBeenCalledWith('learner', 'IMPERSONATION_STARTED', expect.any(String), expect.any(String), {
+        sessionId: result.impersonation.sessionId,
+      });
+    });
+
+    it('is limited to administrators', async () => {
+      await expect(service.start('moderator', 'learner', 'Ticket #42')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('requires a reason', async () => {
+      await expect(service.start('admin', 'learner', '  ')).rejects.toThrow('A reason is required');
+    });
+
+    it('refuses to impersonate another administrator', async () => {
+      await expect(service.start('admin', 'otherAdmin', 'Ticket #42')).rejects.toThrow('This account cannot be impersonated');
+      expect(tokenService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('refuses to impersonate a service account', async () => {
+      await expect(service.start('admin', 'bot', 'Ticket #42')).rejects.toThrow('This account cannot be impersonated');
+    });
+
+    it('refuses deleted accounts and self-impersonation', async () => {
+      users.learner.status = 'DELETED';
+
+      await expect(service.start('admin', 'learner', 'Ticket #42')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(service.start('admin', 'admin', 'Ticket #42')).rejects.toThrow('You cannot impersonate yourself');
+    });
+  });
+
+  describe('end', () => {
+    it('revokes the impersonation session for the administrator who started it', async () => {
+      const { impersonation } = await service.start('admin', 'learner', 'Ticket #42');
+
+      await expect(service.end('otherAdmin', 'learner', impersonation.sessionId)).rejects.toThrow('No active impersonation session');
+
+      await service.end('admin', 'learner', impersonation.sessionId);
+
+      expect(tokenService.revokeSession).toHaveBeenCalledWith('learner', impersonation.sessionId, 'impersonation_ended');
+      await expect(service.getContext(impersonation.sessionId)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { sanitizeUser } from '../auth.service';
+import {
+  ClientInfo,
+  ForbiddenError,
+  ImpersonationInfo,
+  ImpersonationResult,
+  NotFoundError,
+  ValidationError,
+} from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * 代入请求的最小上下文（取自访问令牌）
+ */
+export interface ImpersonatedRequest {
+  actorId: string;
+  subjectId: string;
+  sessionId: string;
+  method: string;
+  path: string;
+  statusCode?: number;
+  blocked?: boolean;
+}
+
+/**
+ * 管理员以学习者身份登录，用于客服排查问题
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly sessionTtl: number;
+  private readonly notifySubject: boolean;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.sessionTtl = this.configService.get<number>('impersonation.sessionTtl', 3600);
+    this.notifySubject = this.configService.get<boolean>('impersonation.notifySubject', true);
+  }
+
+  /**
+   * 开始代入：签发同时携带操作者与被代入用户的令牌对
+   */
+  async start(actorId: string, subjectId: string, reason: string, clientInfo?: ClientInfo): Promise<ImpersonationResult> {
+    // 1. 校验操作者
+    const actor = await this.prisma.user.findUnique({ where: { id: actorId } });
+    if (!actor || !actor.roles.includes(UserRole.ADMIN)) {
+      throw new ForbiddenError('Only administrators can impersonate users');
+    }
+
+    if (!reason?.trim()) {
+      throw new ValidationError('A reason is required to impersonate a user', 'reason');
+    }
+
+    // 2. 校验被代入用户（不能代入自己、其他管理员或服务账户，避免权限提升）
+    if (actorId === subjectId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const subject = await this.prisma.user.findUnique({ where: { id: subjectId } });
+    if (!subject || subject.status === AccountStatus.DELETED) {
+      throw new NotFoundError('User');
+    }
+
+    if (subject.roles.includes(UserRole.ADMIN) || subject.isServiceAccount) {
+      throw new ForbiddenError('This account cannot be impersonated');
+    }
+
+    // 3. 写入代入上下文，过期后令牌随之失效
+    const sessionId = uuidv4();
+    const startedAt = new Date();
+    const impersonation: ImpersonationInfo = {
+      actorId,
+      actorEmail: actor.email,
+      subjectId,
+      sessionId,
+      reason: reason.trim(),
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + this.sessionTtl * 1000),
+    };
+
+    await this.redisService.setex(`impersonation:${sessionId}`, this.sessionTtl, JSON.stringify(impersonation));
+
+    // 4. 签发令牌
+    const tokens = await this.tokenService.generateTokenPair(subject, {
+      sessionId,
+      impersonatorId: actorId,
+      clientInfo: {
+        ...clientInfo,
+        device: `Impersonation by ${actor.email}`,
+      },
+    });
+
+    // 5. 审计与通知
+    await this.auditService.log(actorId, 'IMPERSONATION_STARTED', {
+      resourceId: subjectId,
+      sessionId,
+      reason: impersonation.reason,
+      expiresAt: impersonation.expiresAt,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'impersonation');
+
+    if (this.notifySubject) {
+      await this.securityNotificationService.notify(
+        subjectId,
+        'IMPERSONATION_STARTED',
+        'Support accessed your account',
+        'A support administrator signed in as you to help resolve an issue. Their actions are recorded.',
+        { sessionId },
+      );
+    }
+
+    return { user: sanitizeUser(subject), tokens, impersonation };
+  }
+
+  /**
+   * 结束代入会话（操作者本人或会话到期前主动退出）
+   */
+  async end(actorId: string, subjectId: string, sessionId: string, clientInfo?: ClientInfo): Promise<void> {
+    const impersonation = await this.getContext(sessionId);
+    if (!impersonation || impersonation.actorId !== actorId || impersonation.subjectId !== subjectId) {
+      throw new BadRequestException('No active impersonation session');
+    }
+
+    await this.redisService.del(`impersonation:${sessionId}`);
+    await this.tokenService.revokeSession(subjectId, sessionId, 'impersonation_ended');
+
+    await this.auditService.log(actorId, 'IMPERSONATION_ENDED', {
+      resourceId: subjectId,
+      sessionId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'impersonation');
+  }
+
+  async getContext(sessionId: string): Promise<ImpersonationInfo | null> {
+    const raw = sessionId ? await this.redisService.get(`impersonation:${sessionId}`) : null;
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * 记录代入期间的每一个请求
+   */
+  async logRequest(request: ImpersonatedRequest, clientInfo?: ClientInfo): Promise<void> {
+    await this.auditService.log(request.actorId, request.blocked ? 'IMPERSONATED_REQUEST_BLOCKED' : 'IMPERSONATED_REQUEST', {
+      resourceId: request.subjectId,
+      sessionId: request.sessionId,
+      method: request.method,
+      path: request.path,
+      statusCode: request.statusCode,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'impersonation');
+  }
+}
@@ -0,0 +1,59 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { KeyRingService } from './key-ring.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { EncryptionService } from './encryption.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('KeyRingService', () => {
+  let service: KeyRingService;
+  let prisma: { signingKey: { findMany: jest.Mock } };
+  let now: number;
+
+  beforeEach(async () => {
+    prisma = { signingKey: { findMany: jest.fn().mockResolvedValue([]) } };
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        KeyRingService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: {} },
+        { provide: EncryptionService, useValue: {} },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(KeyRingService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reloads keys at most once per interval for unknown kids', async () => {
+    await Promise.all([
+      expect(service.verify('access', tokenWithKid('access-forged-1'))).rejects.toThrow('Unknown signing key'),
+      expect(service.verify('access', tokenWithKid('access-forged-2'))).rejects.toThrow('Unknown signing key'),
+    ]);
+    await expect(service.verify('access', tokenWithKid('access-forged-3'))).rejects.toThrow('Unknown signing key');
+    expect(prisma.signingKey.findMany).toHaveBeenCalledTimes(1);
+
+    now += 10_000;
+    await expect(service.verify('access', tokenWithKid('access-forged-4'))).rejects.toThrow('Unknown signing key');
+    expect(prisma.signingKey.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not reload for kids of another purpose', async () => {
+    await expect(service.verify('access', tokenWithKid('refresh-1'))).rejects.toThrow('Unknown signing key');
+    expect(prisma.signingKey.findMany).not.toHaveBeenCalled();
+  });
+});
+
+function tokenWithKid(kid: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid, typ: 'JWT' })).toString('base64url');
+  return `${header}.e30.c2ln`;
+}
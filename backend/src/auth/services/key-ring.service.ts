@@ -0,0 +1,275 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SigningKeyStatus } from '@prisma/client';
+import {
+  SignJWT,
+  jwtVerify,
+  compactVerify,
+  decodeProtectedHeader,
+  generateKeyPair,
+  exportPKCS8,
+  exportSPKI,
+  importPKCS8,
+  importSPKI,
+  exportJWK,
+  JWK,
+  JWTPayload,
+  KeyLike,
+} from 'jose';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { EncryptionService } from './encryption.service';
+import { v4 as uuidv4 } from 'uuid';
+
+// 每种用途使用独立的密钥，令牌不能跨用途使用
+export type TokenPurpose = 'access' | 'refresh' | 'email_verification' | 'password_reset' | 'magic_link';
+
+const TOKEN_PURPOSES: TokenPurpose[] = ['access', 'refresh', 'email_verification', 'password_reset', 'magic_link'];
+
+interface LoadedKey {
+  kid: string;
+  purpose: TokenPurpose;
+  algorithm: string;
+  status: SigningKeyStatus;
+  createdAt: Date;
+  publicKey: KeyLike;
+  privateKey?: KeyLike; // 仅活动密钥需要私钥
+}
+
+@Injectable()
+export class KeyRingService implements OnModuleInit {
+  private readonly logger = new Logger(KeyRingService.name);
+  private readonly algorithm: string;
+  private readonly issuer: string;
+  private readonly audience: string;
+  private readonly rotationInterval: number;
+  private readonly retentionPeriod: number;
+  private readonly reloadInterval: number;
+  private readonly keys = new Map<string, LoadedKey>();
+  private lastLoadedAt = 0;
+  private pendingLoad: Promise<void> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly encryptionService: EncryptionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.algorithm = this.configService.get<string>('jwt.algorithm', 'RS256');
+    this.issuer = this.configService.get<string>('jwt.issuer', 'enggamehub');
+    this.audience = this.configService.get<string>('jwt.audience', 'enggamehub-users');
+    this.rotationInterval = this.configService.get<number>('jwt.keyRotationDays', 30) * 86400 * 1000;
+    this.retentionPeriod = this.configService.get<number>('jwt.keyRetentionDays', 8) * 86400 * 1000;
+    this.reloadInterval = this.configService.get<number>('jwt.keyReloadInterval', 10) * 1000;
+  }
+
+  async onModuleInit() {
+    await this.loadKeys();
+
+    // 首次启动时为每种用途生成密钥
+    for (const purpose of TOKEN_PURPOSES) {
+      if (!this.getActiveKey(purpose)) {
+        await this.rotate(purpose);
+      }
+    }
+  }
+
+  /**
+   * 使用指定用途的活动密钥签发令牌
+   */
+  async sign(purpose: TokenPurpose, payload: JWTPayload, expiresIn: string): Promise<string> {
+    const key = this.getActiveKey(purpose);
+    if (!key) {
+      throw new Error(`No active signing key for ${purpose} tokens`);
+    }
+
+    return new SignJWT(payload)
+      .setProtectedHeader({ alg: key.algorithm, kid: key.kid, typ: 'JWT' })
+      .setIssuedAt()
+      .setIssuer(this.issuer)
+      .setAudience(this.audience)
+      .setExpirationTime(expiresIn)
+      .sign(key.privateKey);
+  }
+
+  /**
+   * 验证令牌签名和声明；kid必须属于指定用途的活动或上一代密钥
+   */
+  async verify<T extends JWTPayload>(
+    purpose: TokenPurpose,
+    token: string,
+    options: { ignoreExpiration?: boolean } = {},
+  ): Promise<T> {
+    const key = await this.resolveVerificationKey(purpose, token);
+
+    if (options.ignoreExpiration) {
+      // 仅校验签名，用于撤销已过期的令牌
+      const { payload } = await compactVerify(token, key.publicKey);
+      return JSON.parse(new TextDecoder().decode(payload)) as T;
+    }
+
+    const { payload } = await jwtVerify(token, key.publicKey, {
+      issuer: this.issuer,
+      audience: this.audience,
+      algorithms: [key.algorithm],
+    });
+
+    return payload as T;
+  }
+
+  /**
+   * 导出访问令牌公钥 (JWKS)，供内部服务离线验证
+   */
+  async getJwks(): Promise<{ keys: JWK[] }> {
+    const keys = [...this.keys.values()].filter(
+      key => key.purpose === 'access' && key.status !== SigningKeyStatus.RETIRED,
+    );
+
+    return {
+      keys: await Promise.all(
+        keys.map(async key => ({
+          ...(await exportJWK(key.publicKey)),
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        })),
+      ),
+    };
+  }
+
+  /**
+   * 定时轮换到期的密钥并淘汰过了保留期的旧密钥
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async rotateDueKeys(): Promise<void> {
+    await this.loadKeys();
+
+    for (const purpose of TOKEN_PURPOSES) {
+      const active = this.getActiveKey(purpose);
+      if (!active || Date.now() - active.createdAt.getTime() >= this.rotationInterval) {
+        // 多实例部署时只允许一个实例执行轮换
+        const acquired = await this.redisService.checkRateLimit(`signing_key_rotation:${purpose}`, 1, 300);
+        if (acquired) {
+          await this.rotate(purpose);
+        }
+      }
+    }
+
+    const retired = await this.prisma.signingKey.updateMany({
+      where: {
+        status: SigningKeyStatus.PREVIOUS,
+        expiresAt: { lte: new Date() },
+      },
+      data: { status: SigningKeyStatus.RETIRED },
+    });
+
+    if (retired.count > 0) {
+      await this.loadKeys();
+    }
+  }
+
+  /**
+   * 生成新的活动密钥，原活动密钥转为上一代（保留期内仍可验证）
+   */
+  async rotate(purpose: TokenPurpose): Promise<void> {
+    const { publicKey, privateKey } = await generateKeyPair(this.algorithm, {
+      extractable: true,
+      ...(this.algorithm === 'EdDSA' ? { crv: 'Ed25519' } : { modulusLength: 2048 }),
+    });
+
+    const now = new Date();
+    const kid = `${purpose}-${uuidv4()}`;
+
+    await this.prisma.$transaction([
+      this.prisma.signingKey.updateMany({
+        where: { purpose, status: SigningKeyStatus.ACTIVE },
+        data: {
+          status: SigningKeyStatus.PREVIOUS,
+          rotatedAt: now,
+          expiresAt: new Date(now.getTime() + this.retentionPeriod),
+        },
+      }),
+      this.prisma.signingKey.create({
+        data: {
+          id: kid,
+          purpose,
+          algorithm: this.algorithm,
+          publicKey: await exportSPKI(publicKey),
+          privateKey: this.encryptionService.encrypt(await exportPKCS8(privateKey)),
+          status: SigningKeyStatus.ACTIVE,
+        },
+      }),
+    ]);
+
+    this.logger.log(`Rotated ${purpose} signing key, new kid: ${kid}`);
+    await this.loadKeys();
+  }
+
+  // 私有辅助方法
+
+  private getActiveKey(purpose: TokenPurpose): LoadedKey | undefined {
+    return [...this.keys.values()]
+      .filter(key => key.purpose === purpose && key.status === SigningKeyStatus.ACTIVE)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  private async resolveVerificationKey(purpose: TokenPurpose, token: string): Promise<LoadedKey> {
+    const { kid } = decodeProtectedHeader(token);
+    if (!kid) {
+      throw new Error('Token is missing kid header');
+    }
+
+    // 其他实例可能已经轮换了密钥，缓存未命中时重新加载；
+    // 伪造的kid不能触发频繁查询：kid须属于该用途，且两次重新加载之间至少间隔 reloadInterval
+    if (!this.keys.has(kid) && kid.startsWith(`${purpose}-`) && Date.now() - this.lastLoadedAt >= this.reloadInterval) {
+      await this.reloadKeys();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key || key.purpose !== purpose || key.status === SigningKeyStatus.RETIRED) {
+      throw new Error('Unknown signing key');
+    }
+
+    return key;
+  }
+
+  /**
+   * 合并并发的重新加载请求
+   */
+  private async reloadKeys(): Promise<void> {
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.loadKeys().finally(() => {
+        this.pendingLoad = null;
+      });
+    }
+
+    return this.pendingLoad;
+  }
+
+  private async loadKeys(): Promise<void> {
+    const records = await this.prisma.signingKey.findMany({
+      where: { status: { not: SigningKeyStatus.RETIRED } },
+    });
+
+    const loaded = await Promise.all(
+      records.map(async (record): Promise<LoadedKey> => ({
+        kid: record.id,
+        purpose: record.purpose as TokenPurpose,
+        algorithm: record.algorithm,
+        status: record.status,
+        createdAt: record.createdAt,
+        publicKey: await importSPKI(record.publicKey, record.algorithm),
+        privateKey: record.status === SigningKeyStatus.ACTIVE
+          ? await importPKCS8(this.encryptionService.decrypt(record.privateKey), record.algorithm)
+          : undefined,
+      })),
+    );
+
+    this.keys.clear();
+    for (const key of loaded) {
+      this.keys.set(key.kid, key);
+    }
+    this.lastLoadedAt = Date.now();
+  }
+}
@@ -0,0 +1,98 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { User } from '@prisma/client';
+import { LoginRiskService } from './login-risk.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const USER = { id: 'user-1', email: 'learner@example.com', nickname: 'Learner', lastLoginIp: '10.0.0.1' } as User;
+
+describe('LoginRiskService', () => {
+  let service: LoginRiskService;
+  let redisStore: Map<string, string>;
+  let attempts: Map<string, number>;
+  let prisma: { knownDevice: { findUnique: jest.Mock; count: jest.Mock } };
+  let queue: { add: jest.Mock };
+
+  beforeEach(async () => {
+    redisStore = new Map();
+    attempts = new Map();
+    prisma = {
+      knownDevice: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(1),
+      },
+    };
+    queue = { add: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LoginRiskService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn(async (key: string) => redisStore.get(key) ?? null),
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => redisStore.set(key, value)),
+            del: jest.fn(async (key: string) => redisStore.delete(key)),
+            checkRateLimit: jest.fn(async (key: string, limit: number) => {
+              attempts.set(key, (attempts.get(key) ?? 0) + 1);
+              return attempts.get(key) <= limit;
+            }),
+          },
+        },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: SecurityNotificationService, useValue: { notify: jest.fn() } },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: getQueueToken('auth'), useValue: queue },
+      ],
+    }).compile();
+
+    service = moduleRef.get(LoginRiskService);
+  });
+
+  async function startStepUp(): Promise<{ stepUpToken: string; code: string }> {
+    const assessment = await service.assess(USER, { ip: '203.0.113.9', userAgent: 'new-browser' });
+    const stepUpToken = await service.createStepUpChallenge(USER, assessment);
+    return { stepUpToken, code: queue.add.mock.calls[0][1].code };
+  }
+
+  it('requires step-up for a new device on a new IP at the default threshold', async () => {
+    const assessment = await service.assess(USER, { ip: '203.0.113.9', userAgent: 'new-browser' });
+
+    expect(assessment.signals).toEqual(['new_device', 'new_ip']);
+    expect(assessment.requiresStepUp).toBe(true);
+  });
+
+  it('does not require step-up for a new device on a familiar IP', async () => {
+    const assessment = await service.assess(USER, { ip: '10.0.0.1', userAgent: 'new-browser' });
+
+    expect(assessment.signals).toEqual(['new_device']);
+    expect(assessment.requiresStepUp).toBe(false);
+  });
+
+  it('keeps the step-up code separate from passwordless login codes', async () => {
+    const { stepUpToken, code } = await startStepUp();
+
+    expect([...redisStore.keys()].some(key => key.startsWith('login_code'))).toBe(false);
+    await expect(service.verifyStepUp(stepUpToken, code)).resolves.toBe('user-1');
+    await expect(service.verifyStepUp(stepUpToken, code)).resolves.toBeNull();
+  });
+
+  it('invalidates the challenge once its attempts are used up', async () => {
+    const { stepUpToken, code } = await startStepUp();
+    const wrongCode = code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < 5; i++) {
+      await expect(service.verifyStepUp(stepUpToken, wrongCode)).resolves.toBeNull();
+    }
+
+    await expect(service.verifyStepUp(stepUpToken, code)).resolves.toBeNull();
+    expect(redisStore.has(`login_step_up:${stepUpToken}`)).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ClientInfo, KnownDeviceInfo } from '../../../shared/types';
+import * as crypto from 'crypto';
+
+// 各风险信号的分值，累计达到 loginRisk.stepUpScore 时要求二次验证
+// 新设备与新IP单独出现时只发提醒，同时出现（默认 40 + 20）即要求二次验证
+const RISK_WEIGHTS = {
+  new_device: 40,
+  new_ip: 20,
+  ip_velocity: 20,
+  credential_stuffing_ip: 50, // 同一IP对大量账户登录失败
+  account_targeted: 40, // 同一账户从多个IP登录失败（轮换IP绕过限流）
+  credential_stuffing_wave: 20, // 全站失败次数异常，可能是分布式撞库
+  compromised_password: 30,
+};
+
+export type LoginRiskSignal = keyof typeof RISK_WEIGHTS;
+
+interface StepUpChallenge {
+  userId: string;
+  codeHash: string;
+}
+
+export interface LoginRiskAssessment {
+  score: number;
+  signals: LoginRiskSignal[];
+  newDevice: boolean;
+  requiresStepUp: boolean;
+}
+
+/**
+ * 登录风险评估：已知设备记忆、IP频率、跨账户撞库检测，以及高风险登录的邮箱验证码二次验证
+ */
+@Injectable()
+export class LoginRiskService {
+  private readonly stepUpScore: number;
+  private readonly ipVelocityMax: number;
+  private readonly ipVelocityWindow: number;
+  private readonly ipFailureMax: number;
+  private readonly accountFailureMax: number;
+  private readonly globalFailureMax: number;
+  private readonly failureWindow: number;
+  private readonly stepUpTokenTtl: number;
+  private readonly stepUpMaxAttempts: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly auditService: AuditService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+    @InjectQueue('auth') private readonly authQueue: Queue,
+  ) {
+    this.stepUpScore = this.configService.get<number>('loginRisk.stepUpScore', 50);
+    this.ipVelocityMax = this.configService.get<number>('loginRisk.ipVelocityMax', 60);
+    this.ipVelocityWindow = this.configService.get<number>('loginRisk.ipVelocityWindow', 300);
+    this.ipFailureMax = this.configService.get<number>('loginRisk.ipFailureMax', 20);
+    this.accountFailureMax = this.configService.get<number>('loginRisk.accountFailureMax', 10);
+    this.globalFailureMax = this.configService.get<number>('loginRisk.globalFailureMax', 500);
+    this.failureWindow = this.configService.get<number>('loginRisk.failureWindow', 900);
+    this.stepUpTokenTtl = this.configService.get<number>('loginRisk.stepUpTokenTtl', 600);
+    this.stepUpMaxAttempts = this.configService.get<number>('loginRisk.stepUpMaxAttempts', 5);
+  }
+
+  /**
+   * 记录一次登录尝试（无论成败），超出阈值时标记该IP
+   */
+  async recordAttempt(clientInfo?: ClientInfo): Promise<void> {
+    if (!clientInfo?.ip) {
+      return;
+    }
+
+    const withinLimit = await this.redisService.checkRateLimit(
+      `login_risk_attempts:ip:${clientInfo.ip}`,
+      this.ipVelocityMax,
+      this.ipVelocityWindow,
+    );
+    if (!withinLimit) {
+      await this.redisService.setex(`login_risk_flag:ip_velocity:${clientInfo.ip}`, this.ipVelocityWindow, '1');
+    }
+  }
+
+  /**
+   * 记录登录失败，按IP、账户和全站三个维度统计（账户不存在时同样计入IP和全站）
+   */
+  async recordFailure(userId: string | null, clientInfo?: ClientInfo): Promise<void> {
+    if (clientInfo?.ip) {
+      await this.countFailure(`ip:${clientInfo.ip}`, this.ipFailureMax, `credential_stuffing_ip:${clientInfo.ip}`);
+    }
+
+    if (userId) {
+      await this.countFailure(`account:${userId}`, this.accountFailureMax, `account_targeted:${userId}`);
+    }
+
+    await this.countFailure('global', this.globalFailureMax, 'credential_stuffing_wave');
+  }
+
+  /**
+   * 评估本次登录的风险
+   */
+  async assess(user: User, clientInfo?: ClientInfo, context: { passwordCompromised?: boolean } = {}): Promise<LoginRiskAssessment> {
+    const signals: LoginRiskSignal[] = [];
+
+    // 1. 设备与IP
+    const device = await this.prisma.knownDevice.findUnique({
+      where: { userId_fingerprint: { userId: user.id, fingerprint: this.fingerprint(clientInfo) } },
+    });
+    const hasKnownDevices = !!device || await this.prisma.knownDevice.count({ where: { userId: user.id } }) > 0;
+
+    // 首次登录没有可比对的历史，不视为新设备
+    const newDevice = !device && hasKnownDevices;
+    if (newDevice) {
+      signals.push('new_device');
+    }
+
+    if (hasKnownDevices && clientInfo?.ip && clientInfo.ip !== user.lastLoginIp && clientInfo.ip !== device?.lastIp) {
+      signals.push('new_ip');
+    }
+
+    // 2. 频率与撞库标记
+    if (clientInfo?.ip) {
+      if (await this.redisService.get(`login_risk_flag:ip_velocity:${clientInfo.ip}`)) {
+        signals.push('ip_velocity');
+      }
+      if (await this.redisService.get(`login_risk_flag:credential_stuffing_ip:${clientInfo.ip}`)) {
+        signals.push('credential_stuffing_ip');
+      }
+    }
+
+    if (await this.redisService.get(`login_risk_flag:account_targeted:${user.id}`)) {
+      signals.push('account_targeted');
+    }
+
+    if (await this.redisService.get('login_risk_flag:credential_stuffing_wave')) {
+      signals.push('credential_stuffing_wave');
+    }
+
+    // 3. 密码已出现在泄露语料中
+    if (context.passwordCompromised) {
+      signals.push('compromised_password');
+    }
+
+    const score = signals.reduce((total, signal) => total + RISK_WEIGHTS[signal], 0);
+
+    return {
+      score,
+      signals,
+      newDevice,
+      requiresStepUp: score >= this.stepUpScore,
+    };
+  }
+
+  /**
+   * 发起邮箱验证码二次验证，返回用于提交验证码的临时令牌
+   * 验证码与尝试次数绑定到该令牌，与无密码登录的验证码互不影响
+   */
+  async createStepUpChallenge(user: User, assessment: LoginRiskAssessment, clientInfo?: ClientInfo): Promise<string> {
+    const stepUpToken = crypto.randomBytes(32).toString('hex');
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    const challenge: StepUpChallenge = { userId: user.id, codeHash: this.hashStepUpCode(stepUpToken, code) };
+    await this.redisService.setex(`login_step_up:${stepUpToken}`, this.stepUpTokenTtl, JSON.stringify(challenge));
+
+    await this.authQueue.add('send-login-verification-email', {
+      userId: user.id,
+      email: user.email,
+      nickname: user.nickname,
+      code,
+      ip: clientInfo?.ip,
+      device: clientInfo?.device ?? clientInfo?.userAgent,
+    });
+
+    await this.auditService.log(user.id, 'LOGIN_STEP_UP_REQUIRED', {
+      riskScore: assessment.score,
+      riskSignals: assessment.signals,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return stepUpToken;
+  }
+
+  /**
+   * 校验二次验证码，成功时返回用户ID（临时令牌一次性使用，尝试次数用尽后作废）
+   */
+  async verifyStepUp(stepUpToken: string, code: string): Promise<string | null> {
+    const key = `login_step_up:${stepUpToken}`;
+    const raw = stepUpToken ? await this.redisService.get(key) : null;
+    if (!raw) {
+      return null;
+    }
+
+    const canAttempt = await this.redisService.checkRateLimit(
+      `login_step_up_attempts:${stepUpToken}`,
+      this.stepUpMaxAttempts,
+      this.stepUpTokenTtl,
+    );
+    if (!canAttempt) {
+      await this.redisService.del(key);
+      return null;
+    }
+
+    const challenge: StepUpChallenge = JSON.parse(raw);
+    if (!/^\d{6}$/.test(code ?? '')) {
+      return null;
+    }
+
+    const expected = Buffer.from(challenge.codeHash, 'hex');
+    const actual = Buffer.from(this.hashStepUpCode(stepUpToken, code), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await this.redisService.del(key);
+    await this.redisService.del(`login_step_up_attempts:${stepUpToken}`);
+    return challenge.userId;
+  }
+
+  /**
+   * 登录成功：记住设备，新设备登录时发送站内提醒
+   */
+  async recordSuccessfulLogin(userId: string, clientInfo?: ClientInfo): Promise<void> {
+    const fingerprint = this.fingerprint(clientInfo);
+    const now = new Date();
+
+    const existing = await this.prisma.knownDevice.findUnique({
+      where: { userId_fingerprint: { userId, fingerprint } },
+    });
+
+    if (existing) {
+      await this.prisma.knownDevice.update({
+        where: { id: existing.id },
+        data: {
+          lastIp: clientInfo?.ip ?? existing.lastIp,
+          lastSeenAt: now,
+        },
+      });
+    } else {
+      const hasKnownDevices = await this.prisma.knownDevice.count({ where: { userId } }) > 0;
+
+      await this.prisma.knownDevice.create({
+        data: {
+          userId,
+          fingerprint,
+          name: clientInfo?.device,
+          userAgent: clientInfo?.userAgent,
+          lastIp: clientInfo?.ip,
+        },
+      });
+
+      if (hasKnownDevices) {
+        await this.notifyNewSignIn(userId, clientInfo);
+      }
+    }
+
+    // 成功登录后清除账户维度的失败统计
+    await this.redisService.del(`login_risk_failures:account:${userId}`);
+    await this.redisService.del(`login_risk_flag:account_targeted:${userId}`);
+  }
+
+  async listDevices(userId: string): Promise<KnownDeviceInfo[]> {
+    const devices = await this.prisma.knownDevice.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return devices.map(device => ({
+      id: device.id,
+      name: device.name ?? undefined,
+      userAgent: device.userAgent ?? undefined,
+      lastIp: device.lastIp ?? undefined,
+      firstSeenAt: device.firstSeenAt,
+      lastSeenAt: device.lastSeenAt,
+    }));
+  }
+
+  /**
+   * 移除已知设备，该设备下次登录将重新视为新设备
+   */
+  async forgetDevice(userId: string, deviceId: string, clientInfo?: ClientInfo): Promise<void> {
+    const result = await this.prisma.knownDevice.deleteMany({
+      where: { id: deviceId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('Device not found');
+    }
+
+    await this.auditService.log(userId, 'KNOWN_DEVICE_REMOVED', {
+      resourceId: deviceId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  // 私有辅助方法
+
+  /**
+   * 优先使用客户端持久化的设备ID，缺失时退化为User-Agent
+   */
+  private fingerprint(clientInfo?: ClientInfo): string {
+    const source = clientInfo?.deviceId
+      ? `id:${clientInfo.deviceId}`
+      : `ua:${(clientInfo?.userAgent ?? 'unknown').trim().toLowerCase()}`;
+
+    return crypto.createHash('sha256').update(source).digest('hex');
+  }
+
+  private hashStepUpCode(stepUpToken: string, code: string): string {
+    return crypto.createHash('sha256').update(`${stepUpToken}:${code}`).digest('hex');
+  }
+
+  private async countFailure(scope: string, max: number, flag: string): Promise<void> {
+    const withinLimit = await this.redisService.checkRateLimit(`login_risk_failures:${scope}`, max, this.failureWindow);
+    if (!withinLimit) {
+      await this.redisService.setex(`login_risk_flag:${flag}`, this.failureWindow, '1');
+    }
+  }
+
+  private async notifyNewSignIn(userId: string, clientInfo?: ClientInfo): Promise<void> {
+    const device = clientInfo?.device ?? clientInfo?.userAgent ?? 'an unknown device';
+
+    await this.securityNotificationService.notify(
+      userId,
+      'new_sign_in',
+      'New sign-in to your account',
+      `Your account was signed in from ${device}${clientInfo?.ip ? ` (IP ${clientInfo.ip})` : ''}. ` +
+        'If this was not you, change your password and sign out of other sessions.',
+      {
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      },
+    );
+
+    await this.auditService.log(userId, 'NEW_DEVICE_SIGN_IN', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+}
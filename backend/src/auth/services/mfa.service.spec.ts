@@ -0,0 +1,101 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { PasswordService } from './password.service';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+import { EncryptionService } from './encryption.service';
+import { PhoneVerificationService } from './phone-verification.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let prisma: {
+    user: { findUnique: jest.Mock; updateMany: jest.Mock };
+    mfaBackupCode: { updateMany: jest.Mock; count: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'user-1', mfaEnabled: true, mfaSecret: 'encrypted', mfaLastUsedStep: null }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      mfaBackupCode: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        count: jest.fn().mockResolvedValue(9),
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: {} },
+        { provide: PasswordService, useValue: {} },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: TokenService, useValue: {} },
+        { provide: EncryptionService, useValue: { decrypt: jest.fn().mockReturnValue(SECRET) } },
+        { provide: PhoneVerificationService, useValue: {} },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(MfaService);
+  });
+
+  it('accepts a valid TOTP code', async () => {
+    await expect(service.verifyMfaCode('user-1', totp(SECRET))).resolves.toBe(true);
+    expect(prisma.mfaBackupCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('verifies backup codes that contain only digits', async () => {
+    prisma.mfaBackupCode.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.verifyMfaCode('user-1', '2345-6789')).resolves.toBe(true);
+    expect(prisma.mfaBackupCode.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ codeHash: sha256('23456789') }),
+    }));
+  });
+
+  it('falls back to backup codes when a TOTP-shaped code does not match', async () => {
+    await expect(service.verifyMfaCode('user-1', '000000')).resolves.toBe(false);
+    expect(prisma.mfaBackupCode.updateMany).toHaveBeenCalled();
+  });
+
+  it('generates backup codes from the unambiguous alphabet', () => {
+    const codes = Array.from({ length: 50 }, () => (service as any).generateBackupCode() as string);
+
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{4}-[a-hjkmnp-z2-9]{4}$/);
+    }
+  });
+});
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// RFC 6238，仅用于测试
+function totp(secret: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = '';
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(bits.match(/.{8}/g).map(byte => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000 / 30)));
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 1_000_000).toString().padStart(6, '0');
+}
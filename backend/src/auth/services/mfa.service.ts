@@ -0,0 +1,480 @@
+import { Injectable, Inject, BadRequestException, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { PasswordService } from './password.service';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+import { EncryptionService } from './encryption.service';
+import { PhoneVerificationService } from './phone-verification.service';
+import { ClientInfo, MfaEnrollment, MfaMethod, MfaStatus, UnauthorizedError } from '../../../shared/types';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // 去掉易混淆字符
+
+@Injectable()
+export class MfaService {
+  private readonly issuer: string;
+  private readonly digits: number;
+  private readonly period: number;
+  private readonly window: number;
+  private readonly backupCodeCount: number;
+  private readonly loginTokenTtl: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly passwordService: PasswordService,
+    private readonly auditService: AuditService,
+    private readonly tokenService: TokenService,
+    private readonly encryptionService: EncryptionService,
+    @Inject(forwardRef(() => PhoneVerificationService))
+    private readonly phoneVerificationService: PhoneVerificationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.issuer = this.configService.get<string>('mfa.issuer', 'EngGameHub');
+    this.digits = this.configService.get<number>('mfa.digits', 6);
+    this.period = this.configService.get<number>('mfa.period', 30);
+    this.window = this.configService.get<number>('mfa.window', 1);
+    this.backupCodeCount = this.configService.get<number>('mfa.backupCodeCount', 10);
+    this.loginTokenTtl = this.configService.get<number>('mfa.loginTokenTtl', 300);
+  }
+
+  /**
+   * 生成登录流程中的MFA临时令牌
+   */
+  async generateMfaToken(userId: string, excludedMethods: MfaMethod[] = []): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.redisService.setex(`mfa_token:${token}`, this.loginTokenTtl, userId);
+
+    // 第一步已使用的认证方式不能再作为第二因素
+    if (excludedMethods.length > 0) {
+      await this.redisService.setex(`mfa_token_excluded:${token}`, this.loginTokenTtl, JSON.stringify(excludedMethods));
+    }
+    return token;
+  }
+
+  /**
+   * MFA临时令牌是否允许使用该认证方式
+   */
+  async isMfaMethodAllowed(token: string, method: MfaMethod): Promise<boolean> {
+    const excluded = await this.redisService.get(`mfa_token_excluded:${token}`);
+    return !excluded || !(JSON.parse(excluded) as MfaMethod[]).includes(method);
+  }
+
+  /**
+   * 验证MFA临时令牌，返回对应的用户ID
+   */
+  async verifyMfaToken(token: string): Promise<string | null> {
+    if (!token) {
+      return null;
+    }
+
+    // 限制同一令牌的尝试次数，防止暴力破解验证码
+    const canAttempt = await this.redisService.checkRateLimit(`mfa_attempts:${token}`, 5, this.loginTokenTtl);
+    if (!canAttempt) {
+      await this.invalidateMfaToken(token);
+      return null;
+    }
+
+    return this.redisService.get(`mfa_token:${token}`);
+  }
+
+  /**
+   * 登录成功后作废MFA临时令牌
+   */
+  async invalidateMfaToken(token: string): Promise<void> {
+    await this.redisService.del(`mfa_token:${token}`);
+    await this.redisService.del(`mfa_token_excluded:${token}`);
+  }
+
+  /**
+   * 验证MFA代码（TOTP或备用恢复码；method为sms时校验短信验证码）
+   */
+  async verifyMfaCode(userId: string, code: string, clientInfo?: ClientInfo, method: MfaMethod = 'totp'): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    if (method === 'sms') {
+      return this.phoneVerificationService.verifyMfaCode(userId, code);
+    }
+
+    const normalizedCode = (code || '').replace(/[\s-]/g, '').toLowerCase();
+
+    // TOTP 格式的代码先按 TOTP 校验，失败时再尝试备用恢复码（恢复码也可能全为数字）
+    if (new RegExp(`^\\d{${this.digits}}$`).test(normalizedCode)) {
+      const secret = this.encryptionService.decrypt(user.mfaSecret);
+      if (await this.consumeTotpCode(userId, secret, normalizedCode, user.mfaLastUsedStep, clientInfo)) {
+        return true;
+      }
+    }
+
+    return this.consumeBackupCode(userId, normalizedCode, clientInfo);
+  }
+
+  /**
+   * 开始MFA注册：生成密钥、otpauth URI和二维码
+   */
+  async beginEnrollment(userId: string, clientInfo?: ClientInfo): Promise<MfaEnrollment> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+
+    const secret = this.base32Encode(crypto.randomBytes(20));
+
+    // 在确认之前仅保存待确认的密钥，mfaEnabled保持为false
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: this.encryptionService.encrypt(secret),
+        mfaLastUsedStep: null,
+      },
+    });
+
+    const otpauthUrl = this.buildOtpauthUrl(user.email, secret);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    await this.auditService.log(userId, 'MFA_ENROLL_STARTED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl,
+    };
+  }
+
+  /**
+   * 使用第一个验证码确认MFA注册，返回一次性备用恢复码
+   */
+  async confirmEnrollment(userId: string, code: string, clientInfo?: ClientInfo): Promise<string[]> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA enrollment has not been started');
+    }
+
+    const secret = this.encryptionService.decrypt(user.mfaSecret);
+    const step = this.matchTotpStep(secret, (code || '').replace(/\s/g, ''), null);
+    if (step === null) {
+      await this.auditService.log(userId, 'MFA_ENROLL_FAILED', {
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaEnabledAt: new Date(),
+        mfaLastUsedStep: step,
+      },
+    });
+
+    const backupCodes = await this.replaceBackupCodes(userId);
+
+    // 安全设置变更后使所有已签发的令牌失效
+    await this.tokenService.revokeAllUserTokens(userId);
+
+    await this.auditService.log(userId, 'MFA_ENABLED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return backupCodes;
+  }
+
+  /**
+   * 关闭MFA（需要重新验证密码）
+   */
+  async disable(userId: string, password: string, clientInfo?: ClientInfo): Promise<void> {
+    await this.reauthenticate(userId, password, 'MFA_DISABLE_FAILED', clientInfo);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaEnabledAt: null,
+          mfaLastUsedStep: null,
+          smsMfaEnabled: false,
+        },
+      }),
+      this.prisma.mfaBackupCode.deleteMany({ where: { userId } }),
+    ]);
+
+    await this.tokenService.revokeAllUserTokens(userId);
+
+    await this.auditService.log(userId, 'MFA_DISABLED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 重新生成备用恢复码（旧恢复码全部作废）
+   */
+  async regenerateBackupCodes(userId: string, password: string, clientInfo?: ClientInfo): Promise<string[]> {
+    const user = await this.reauthenticate(userId, password, 'MFA_BACKUP_CODES_REGENERATE_FAILED', clientInfo);
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    const backupCodes = await this.replaceBackupCodes(userId);
+
+    await this.auditService.log(userId, 'MFA_BACKUP_CODES_REGENERATED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return backupCodes;
+  }
+
+  /**
+   * 获取MFA状态
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const remainingBackupCodes = user.mfaEnabled
+      ? await this.prisma.mfaBackupCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt ?? undefined,
+      remainingBackupCodes,
+      smsEnabled: user.mfaEnabled && user.smsMfaEnabled,
+    };
+  }
+
+  // 私有辅助方法
+
+  private async reauthenticate(userId: string, password: string, failedAction: string, clientInfo?: ClientInfo) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const isPasswordValid = !!user.passwordHash && await this.passwordService.verifyPassword(password, user.passwordHash);
+    if (!isPasswordValid) {
+      await this.auditService.log(userId, failedAction, {
+        reason: 'invalid_password',
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new UnauthorizedError('Invalid password');
+    }
+
+    return user;
+  }
+
+  private async consumeTotpCode(
+    userId: string,
+    secret: string,
+    code: string,
+    lastUsedStep: number | null,
+    clientInfo?: ClientInfo,
+  ): Promise<boolean> {
+    const step = this.matchTotpStep(secret, code, lastUsedStep);
+    if (step === null) {
+      return false;
+    }
+
+    // 条件更新保证同一时间步的验证码只能被使用一次（并发请求也无法重放）
+    const result = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    if (result.count === 0) {
+      await this.auditService.log(userId, 'MFA_CODE_REPLAYED', {
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async consumeBackupCode(userId: string, code: string, clientInfo?: ClientInfo): Promise<boolean> {
+    const result = await this.prisma.mfaBackupCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashBackupCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    const remaining = await this.prisma.mfaBackupCode.count({ where: { userId, usedAt: null } });
+    await this.auditService.log(userId, 'MFA_BACKUP_CODE_USED', {
+      remaining,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return true;
+  }
+
+  private async replaceBackupCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.backupCodeCount }, () => this.generateBackupCode());
+
+    await this.prisma.$transaction([
+      this.prisma.mfaBackupCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaBackupCode.createMany({
+        data: codes.map(code => ({
+          userId,
+          codeHash: this.hashBackupCode(code.replace(/-/g, '')),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * 在漂移窗口内查找匹配的时间步，已使用过的时间步不再接受
+   */
+  private matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+    if (!new RegExp(`^\\d{${this.digits}}$`).test(code)) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / this.period);
+
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      const step = currentStep + offset;
+      if (lastUsedStep !== null && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expected = this.generateHotp(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * RFC 4226 HOTP (RFC 6238 TOTP 以时间步作为计数器)
+   */
+  private generateHotp(key: Buffer, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', key).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      ((hmac[offset + 1] & 0xff) << 16) |
+      ((hmac[offset + 2] & 0xff) << 8) |
+      (hmac[offset + 3] & 0xff);
+
+    return (binary % 10 ** this.digits).toString().padStart(this.digits, '0');
+  }
+
+  private buildOtpauthUrl(accountName: string, secret: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.period),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private generateBackupCode(): string {
+    // randomInt 无取模偏差
+    const chars = Array.from({ length: 8 }, () => BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+  }
+
+  private hashBackupCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase()).digest('hex');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
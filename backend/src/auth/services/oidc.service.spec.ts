@@ -0,0 +1,75 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OidcService, OidcClaims } from './oidc.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ReauthenticationRequiredError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const CLAIMS: OidcClaims = { provider: 'google', subject: 'google-123', email: 'student@gmail.com', emailVerified: true };
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let prisma: { externalIdentity: { findUnique: jest.Mock; create: jest.Mock } };
+  let reauthenticationService: { assertRecentlyAuthenticated: jest.Mock; clear: jest.Mock };
+  let securityNotificationService: { notify: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      externalIdentity: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(async ({ data }) => ({ id: 'identity-1', createdAt: new Date(), ...data })),
+      },
+    };
+    reauthenticationService = { assertRecentlyAuthenticated: jest.fn(), clear: jest.fn() };
+    securityNotificationService = { notify: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: {} },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: ReauthenticationService, useValue: reauthenticationService },
+        { provide: SecurityNotificationService, useValue: securityNotificationService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(OidcService);
+    jest.spyOn(service, 'completeAuthorization').mockResolvedValue(CLAIMS);
+  });
+
+  it('requires recent reauthentication before linking an account', async () => {
+    reauthenticationService.assertRecentlyAuthenticated.mockRejectedValue(new ReauthenticationRequiredError());
+
+    await expect(service.completeLink('user-1', 'session-1', 'google', 'code', 'state'))
+      .rejects.toBeInstanceOf(ReauthenticationRequiredError);
+    await expect(service.createLinkAuthorizationUrl('user-1', 'session-1', 'google'))
+      .rejects.toBeInstanceOf(ReauthenticationRequiredError);
+    expect(service.completeAuthorization).not.toHaveBeenCalled();
+    expect(prisma.externalIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('notifies the user and consumes the reauthentication after linking', async () => {
+    await service.completeLink('user-1', 'session-1', 'google', 'code', 'state');
+
+    expect(reauthenticationService.assertRecentlyAuthenticated).toHaveBeenCalledWith('user-1', 'session-1');
+    expect(securityNotificationService.notify).toHaveBeenCalledWith(
+      'user-1', 'EXTERNAL_IDENTITY_LINKED', 'New sign-in method added', expect.stringContaining('student@gmail.com'), expect.any(Object),
+    );
+    expect(reauthenticationService.clear).toHaveBeenCalledWith('user-1', 'session-1');
+  });
+
+  it('does not notify again when the identity was already linked to the user', async () => {
+    prisma.externalIdentity.findUnique.mockResolvedValue({ id: 'identity-1', userId: 'user-1', ...CLAIMS, createdAt: new Date() });
+
+    await service.completeLink('user-1', 'session-1', 'google', 'code', 'state');
+
+    expect(securityNotificationService.notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,346 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseClient, Issuer, generators } from 'openid-client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import {
+  ClientInfo,
+  ExternalIdentityInfo,
+  OidcAuthorization,
+  OidcProviderInfo,
+  UnauthorizedError,
+} from '../../../shared/types';
+
+interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+type OidcIntent = 'login' | 'link';
+
+interface OidcState {
+  provider: string;
+  intent: OidcIntent;
+  codeVerifier: string;
+  nonce: string;
+  userId?: string; // 关联流程中发起关联的用户
+}
+
+export interface OidcClaims {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  givenName?: string;
+  familyName?: string;
+  picture?: string;
+}
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly providers: Map<string, OidcProviderConfig>;
+  private readonly redirectUri: string;
+  private readonly stateTtl: number;
+  private readonly clients = new Map<string, Promise<BaseClient>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly auditService: AuditService,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+  ) {
+    const providers = this.configService.get<OidcProviderConfig[]>('oidc.providers', []);
+    this.providers = new Map(
+      providers
+        .filter(provider => provider.issuer && provider.clientId)
+        .map(provider => [provider.id, provider]),
+    );
+    this.redirectUri = this.configService.get<string>('oidc.redirectUri', 'http://localhost:3000/auth/oidc/callback');
+    this.stateTtl = this.configService.get<number>('oidc.stateTtl', 600);
+  }
+
+  listProviders(): OidcProviderInfo[] {
+    return [...this.providers.values()].map(provider => ({ id: provider.id, name: provider.name }));
+  }
+
+  /**
+   * 生成授权地址（授权码 + PKCE），state、nonce 和 code_verifier 暂存在Redis
+   */
+  async createAuthorizationUrl(providerId: string, intent: OidcIntent, userId?: string): Promise<OidcAuthorization> {
+    const provider = this.getProvider(providerId);
+    const client = await this.getClient(provider);
+
+    const state = generators.state();
+    const nonce = generators.nonce();
+    const codeVerifier = generators.codeVerifier();
+
+    const pending: OidcState = { provider: provider.id, intent, codeVerifier, nonce, userId };
+    await this.redisService.setex(`oidc_state:${state}`, this.stateTtl, JSON.stringify(pending));
+
+    const authorizationUrl = client.authorizationUrl({
+      scope: provider.scopes,
+      redirect_uri: this.getRedirectUri(provider.id),
+      state,
+      nonce,
+      code_challenge: generators.codeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+
+    return { authorizationUrl, state };
+  }
+
+  /**
+   * 用授权码换取并校验ID令牌，返回标准化的身份声明
+   */
+  async completeAuthorization(
+    providerId: string,
+    code: string,
+    state: string,
+    intent: OidcIntent,
+    userId?: string,
+  ): Promise<OidcClaims> {
+    const stateKey = `oidc_state:${state}`;
+    const raw = await this.redisService.get(stateKey);
+    if (!raw) {
+      throw new UnauthorizedError('Invalid or expired sign-in request');
+    }
+
+    // state 一次性使用
+    await this.redisService.del(stateKey);
+
+    const pending: OidcState = JSON.parse(raw);
+    if (pending.provider !== providerId || pending.intent !== intent || pending.userId !== userId) {
+      throw new UnauthorizedError('Invalid or expired sign-in request');
+    }
+
+    const provider = this.getProvider(providerId);
+    const client = await this.getClient(provider);
+
+    let claims: Record<string, any>;
+    try {
+      const tokenSet = await client.callback(
+        this.getRedirectUri(provider.id),
+        { code, state },
+        { code_verifier: pending.codeVerifier, state, nonce: pending.nonce },
+      );
+      claims = tokenSet.claims();
+    } catch (error) {
+      this.logger.warn(`OIDC callback failed for ${provider.id}: ${error.message}`);
+      throw new UnauthorizedError('Sign-in with identity provider failed');
+    }
+
+    return {
+      provider: provider.id,
+      subject: claims.sub,
+      email: claims.email?.toLowerCase().trim(),
+      // 部分提供方以字符串返回 email_verified
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+      givenName: claims.given_name,
+      familyName: claims.family_name,
+      picture: claims.picture,
+    };
+  }
+
+  /**
+   * 按外部身份查找已关联的用户，并更新最近使用时间
+   */
+  async findLinkedUserId(claims: OidcClaims): Promise<string | null> {
+    const identity = await this.prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider: claims.provider, subject: claims.subject } },
+    });
+
+    if (!identity) {
+      return null;
+    }
+
+    await this.prisma.externalIdentity.update({
+      where: { id: identity.id },
+      data: { lastUsedAt: new Date(), email: claims.email },
+    });
+
+    return identity.userId;
+  }
+
+  async linkIdentity(userId: string, claims: OidcClaims, clientInfo?: ClientInfo): Promise<ExternalIdentityInfo> {
+    const existing = await this.prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider: claims.provider, subject: claims.subject } },
+    });
+
+    if (existing && existing.userId !== userId) {
+      throw new ConflictException('This account is already linked to another user');
+    }
+
+    const identity = existing ?? await this.prisma.externalIdentity.create({
+      data: {
+        userId,
+        provider: claims.provider,
+        subject: claims.subject,
+        email: claims.email,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    if (!existing) {
+      await this.auditService.log(userId, 'EXTERNAL_IDENTITY_LINKED', {
+        resourceId: identity.id,
+        provider: claims.provider,
+        email: claims.email,
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+
+      // 新增的登录方式通知用户，被他人关联时可及时发现
+      const providerName = this.providers.get(claims.provider)?.name ?? claims.provider;
+      await this.securityNotificationService.notify(
+        userId,
+        'EXTERNAL_IDENTITY_LINKED',
+        'New sign-in method added',
+        `A ${providerName} account${claims.email ? ` (${claims.email})` : ''} can now be used to sign in to your account.`,
+        { provider: claims.provider, ip: clientInfo?.ip },
+      );
+    }
+
+    return this.toIdentityInfo(identity);
+  }
+
+  /**
+   * 用户主动关联外部账号的授权地址；关联后即可用该账号登录，且不受改密影响，需近期重新验证
+   */
+  async createLinkAuthorizationUrl(userId: string, sessionId: string, providerId: string): Promise<OidcAuthorization> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+    return this.createAuthorizationUrl(providerId, 'link', userId);
+  }
+
+  /**
+   * 完成用户主动发起的关联，重新验证仅可使用一次
+   */
+  async completeLink(
+    userId: string,
+    sessionId: string,
+    providerId: string,
+    code: string,
+    state: string,
+    clientInfo?: ClientInfo,
+  ): Promise<ExternalIdentityInfo> {
+    // 1. 授权往返期间重新验证可能已过期
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    // 2. 校验授权结果并关联
+    const claims = await this.completeAuthorization(providerId, code, state, 'link', userId);
+    const identity = await this.linkIdentity(userId, claims, clientInfo);
+
+    // 3. 作废本次重新验证
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    return identity;
+  }
+
+  async listIdentities(userId: string): Promise<ExternalIdentityInfo[]> {
+    const identities = await this.prisma.externalIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return identities.map(identity => this.toIdentityInfo(identity));
+  }
+
+  /**
+   * 解除关联；不允许移除最后一种登录方式
+   */
+  async unlinkIdentity(userId: string, identityId: string, clientInfo?: ClientInfo): Promise<void> {
+    const identity = await this.prisma.externalIdentity.findFirst({
+      where: { id: identityId, userId },
+    });
+
+    if (!identity) {
+      throw new NotFoundException('Linked account not found');
+    }
+
+    const [user, otherIdentities, passkeys] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { passwordHash: true } }),
+      this.prisma.externalIdentity.count({ where: { userId, id: { not: identityId } } }),
+      this.prisma.webAuthnCredential.count({ where: { userId } }),
+    ]);
+
+    if (!user?.passwordHash && otherIdentities === 0 && passkeys === 0) {
+      throw new BadRequestException('Set a password or add another sign-in method before unlinking this account');
+    }
+
+    await this.prisma.externalIdentity.delete({ where: { id: identityId } });
+
+    await this.auditService.log(userId, 'EXTERNAL_IDENTITY_UNLINKED', {
+      resourceId: identityId,
+      provider: identity.provider,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  // 私有辅助方法
+
+  private getProvider(providerId: string): OidcProviderConfig {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new NotFoundException(`Unknown identity provider: ${providerId}`);
+    }
+    return provider;
+  }
+
+  private getRedirectUri(providerId: string): string {
+    return `${this.redirectUri.replace(/\/$/, '')}/${providerId}`;
+  }
+
+  /**
+   * 首次使用时通过发现文档创建客户端；发现失败时允许下次重试
+   */
+  private getClient(provider: OidcProviderConfig): Promise<BaseClient> {
+    let client = this.clients.get(provider.id);
+
+    if (!client) {
+      client = Issuer.discover(provider.issuer).then(issuer => new issuer.Client({
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        redirect_uris: [this.getRedirectUri(provider.id)],
+        response_types: ['code'],
+        token_endpoint_auth_method: provider.clientSecret ? 'client_secret_basic' : 'none',
+      }));
+
+      client.catch(error => {
+        this.logger.error(`OIDC discovery failed for ${provider.id}: ${error.message}`);
+        this.clients.delete(provider.id);
+      });
+
+      this.clients.set(provider.id, client);
+    }
+
+    return client;
+  }
+
+  private toIdentityInfo(identity: {
+    id: string;
+    provider: string;
+    email: string | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+  }): ExternalIdentityInfo {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email ?? undefined,
+      createdAt: identity.createdAt,
+      lastUsedAt: identity.lastUsedAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { ParentalConsentService } from './parental-consent.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const OPEN_PREFERENCES = { publicProfile: true, openGameRooms: true, chatEnabled: true, gameInvitations: true };
+
+describe('ParentalConsentService', () => {
+  let service: ParentalConsentService;
+  let prisma: { user: { findUnique: jest.Mock } };
+
+  beforeEach(async () => {
+    prisma = { user: { findUnique: jest.fn() } };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ParentalConsentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: {} },
+        { provide: TokenService, useValue: {} },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: getQueueToken('auth'), useValue: { add: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ParentalConsentService);
+  });
+
+  it('keeps social features closed for minors even if their preferences were opened', async () => {
+    prisma.user.findUnique.mockResolvedValue({ isMinor: true, userPreferences: OPEN_PREFERENCES });
+
+    await expect(service.getSocialSettings('user-1')).resolves.toEqual({
+      publicProfile: false,
+      openGameRooms: false,
+      chatEnabled: false,
+      gameInvitations: false,
+    });
+    await expect(service.assertSocialFeatureAllowed('user-1', 'chatEnabled')).rejects.toThrow('chatEnabled is not available');
+  });
+
+  it('restricts an account by its current age rather than the flag set at registration', async () => {
+    const fifteenYearsAgo = new Date();
+    fifteenYearsAgo.setUTCFullYear(fifteenYearsAgo.getUTCFullYear() - 15);
+    prisma.user.findUnique.mockResolvedValue({ dateOfBirth: fifteenYearsAgo, isMinor: false, userPreferences: OPEN_PREFERENCES });
+
+    await expect(service.assertSocialFeatureAllowed('user-1', 'chatEnabled')).rejects.toThrow('chatEnabled is not available');
+  });
+
+  it('lifts the restrictions once a former minor reaches the consent age', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      dateOfBirth: new Date('2000-01-01T00:00:00Z'),
+      isMinor: true,
+      userPreferences: OPEN_PREFERENCES,
+    });
+
+    await expect(service.getSocialSettings('user-1')).resolves.toEqual(OPEN_PREFERENCES);
+  });
+
+  it('follows the stored preferences for adults', async () => {
+    prisma.user.findUnique.mockResolvedValue({ isMinor: false, userPreferences: { ...OPEN_PREFERENCES, chatEnabled: false } });
+
+    await expect(service.getSocialSettings('user-1')).resolves.toEqual({ ...OPEN_PREFERENCES, chatEnabled: false });
+    await expect(service.assertSocialFeatureAllowed('user-1', 'openGameRooms')).resolves.toBeUndefined();
+  });
+});
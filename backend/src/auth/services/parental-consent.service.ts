@@ -0,0 +1,364 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { AccountStatus, ConsentStatus, User } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import {
+  CEFRLevel,
+  ClientInfo,
+  ForbiddenError,
+  GuardianChildProgress,
+  GuardianChildSummary,
+  ModuleType,
+  NotFoundError,
+  SkillType,
+  SocialFeature,
+  SocialSettings,
+  ValidationError,
+} from '../../../shared/types';
+import * as crypto from 'crypto';
+
+// 未成年人的偏好默认值：不公开资料、不进入公开房间、不开放聊天
+export const MINOR_PREFERENCE_RESTRICTIONS = {
+  publicProfile: false,
+  openGameRooms: false,
+  chatEnabled: false,
+  gameInvitations: false,
+};
+
+const MAX_AGE = 120;
+
+@Injectable()
+export class ParentalConsentService {
+  private readonly minimumAge: number;
+  private readonly consentAge: number;
+  private readonly consentTokenTtl: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+    @InjectQueue('auth') private readonly authQueue: Queue,
+  ) {
+    this.minimumAge = this.configService.get<number>('ageGate.minimumAge', 6);
+    this.consentAge = this.configService.get<number>('ageGate.consentAge', 16);
+    this.consentTokenTtl = this.configService.get<number>('ageGate.consentTokenTtl', 7 * 86400);
+  }
+
+  /**
+   * 校验注册时填写的出生日期，返回是否需要监护人同意
+   */
+  assessAge(dateOfBirth: string | undefined): { dateOfBirth: Date; requiresConsent: boolean } {
+    const parsed = /^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth ?? '') ? new Date(`${dateOfBirth}T00:00:00Z`) : null;
+    if (!parsed || isNaN(parsed.getTime())) {
+      throw new ValidationError('A valid date of birth (YYYY-MM-DD) is required', 'dateOfBirth');
+    }
+
+    const age = this.getAge(parsed);
+    if (age < 0 || age > MAX_AGE) {
+      throw new ValidationError('Date of birth is not plausible', 'dateOfBirth');
+    }
+
+    if (age < this.minimumAge) {
+      throw new ValidationError(`You must be at least ${this.minimumAge} years old to register`, 'dateOfBirth');
+    }
+
+    return { dateOfBirth: parsed, requiresConsent: age < this.consentAge };
+  }
+
+  /**
+   * 按UTC日期计算周岁
+   */
+  getAge(dateOfBirth: Date, now: Date = new Date()): number {
+    const age = now.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+    const beforeBirthday =
+      now.getUTCMonth() < dateOfBirth.getUTCMonth() ||
+      (now.getUTCMonth() === dateOfBirth.getUTCMonth() && now.getUTCDate() < dateOfBirth.getUTCDate());
+
+    return beforeBirthday ? age - 1 : age;
+  }
+
+  /**
+   * 用户实际生效的社交功能开关：未成年人的受限项始终关闭，不受自行修改的偏好影响
+   * 是否未成年按出生日期实时计算，年满同意年龄后自动解除限制
+   */
+  async getSocialSettings(userId: string): Promise<SocialSettings> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { dateOfBirth: true, isMinor: true, userPreferences: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const preferences = user.userPreferences;
+    const settings: SocialSettings = {
+      publicProfile: preferences?.publicProfile ?? true,
+      openGameRooms: preferences?.openGameRooms ?? true,
+      chatEnabled: preferences?.chatEnabled ?? true,
+      gameInvitations: preferences?.gameInvitations ?? true,
+    };
+
+    return this.isMinor(user) ? { ...settings, ...MINOR_PREFERENCE_RESTRICTIONS } : settings;
+  }
+
+  /**
+   * 供游戏房间、聊天等社交功能的入口在放行前调用（这些模块不在本仓库中，需由其自行接入）
+   */
+  async assertSocialFeatureAllowed(userId: string, feature: SocialFeature): Promise<void> {
+    const settings = await this.getSocialSettings(userId);
+    if (!settings[feature]) {
+      throw new ForbiddenError(`${feature} is not available for this account`);
+    }
+  }
+
+  /**
+   * 向监护人发送同意请求（重复调用会使旧链接失效）
+   */
+  async requestConsent(user: Pick<User, 'id' | 'email' | 'nickname'>, guardianEmail: string): Promise<void> {
+    const normalizedEmail = guardianEmail.toLowerCase().trim();
+    const token = crypto.randomBytes(32).toString('base64url');
+    const tokenExpiresAt = new Date(Date.now() + this.consentTokenTtl * 1000);
+
+    await this.prisma.guardianConsent.upsert({
+      where: { userId: user.id },
+      create: {
+        userId: user.id,
+        guardianEmail: normalizedEmail,
+        tokenHash: this.hashToken(token),
+        tokenExpiresAt,
+      },
+      update: {
+        guardianEmail: normalizedEmail,
+        status: ConsentStatus.PENDING,
+        tokenHash: this.hashToken(token),
+        tokenExpiresAt,
+        requestedAt: new Date(),
+      },
+    });
+
+    await this.authQueue.add('send-parental-consent-email', {
+      userId: user.id,
+      nickname: user.nickname,
+      guardianEmail: normalizedEmail,
+      consentToken: token,
+      expiresAt: tokenExpiresAt,
+    });
+
+    await this.auditService.log(user.id, 'PARENTAL_CONSENT_REQUESTED', {
+      resourceId: user.id,
+      guardianEmail: normalizedEmail,
+    });
+  }
+
+  /**
+   * 重新发送同意邮件（不暴露账户是否存在）
+   */
+  async resendConsent(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase().trim();
+
+    const canSend = await this.redisService.checkRateLimit(`parental_consent_resend:${normalizedEmail}`, 3, 3600); // 1小时内最多3次
+    if (!canSend) {
+      throw new BadRequestException('Too many consent emails sent. Please try again later.');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      include: { guardianConsent: true },
+    });
+
+    if (!user || user.status !== AccountStatus.PENDING_CONSENT || !user.guardianConsent) {
+      return;
+    }
+
+    await this.requestConsent(user, user.guardianConsent.guardianEmail);
+  }
+
+  /**
+   * 监护人通过邮件链接确认同意，解除账户限制
+   */
+  async confirmConsent(token: string, clientInfo?: ClientInfo): Promise<void> {
+    const consent = await this.prisma.guardianConsent.findUnique({
+      where: { tokenHash: this.hashToken(token ?? '') },
+    });
+
+    if (!consent || consent.status !== ConsentStatus.PENDING || !consent.tokenExpiresAt || consent.tokenExpiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired consent link');
+    }
+
+    await this.prisma.guardianConsent.update({
+      where: { id: consent.id },
+      data: {
+        status: ConsentStatus.GRANTED,
+        grantedAt: new Date(),
+        revokedAt: null,
+        tokenHash: null,
+        tokenExpiresAt: null,
+      },
+    });
+
+    await this.prisma.user.updateMany({
+      where: { id: consent.userId, status: AccountStatus.PENDING_CONSENT },
+      data: {
+        status: AccountStatus.ACTIVE,
+        statusReason: null,
+        statusChangedAt: new Date(),
+        statusChangedById: null,
+      },
+    });
+
+    await this.auditService.log(consent.userId, 'PARENTAL_CONSENT_GRANTED', {
+      resourceId: consent.userId,
+      guardianEmail: consent.guardianEmail,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 监护人面板：列出由当前邮箱监护的学习者
+   */
+  async listChildren(guardianId: string): Promise<GuardianChildSummary[]> {
+    const guardianEmail = await this.getVerifiedGuardianEmail(guardianId);
+
+    const consents = await this.prisma.guardianConsent.findMany({
+      where: { guardianEmail },
+      include: { user: true },
+      orderBy: { requestedAt: 'asc' },
+    });
+
+    return consents.map(consent => this.toChildSummary(consent.user, consent));
+  }
+
+  async getChildProgress(guardianId: string, childId: string): Promise<GuardianChildProgress> {
+    const { user, consent } = await this.getChild(guardianId, childId);
+
+    const since = new Date(Date.now() - 7 * 86400 * 1000);
+    const [progress, attemptsLast7Days] = await Promise.all([
+      this.prisma.userProgress.findMany({
+        where: { userId: childId },
+        orderBy: [{ moduleType: 'asc' }, { skillType: 'asc' }],
+      }),
+      this.prisma.learningAttempt.count({
+        where: { userId: childId, createdAt: { gte: since } },
+      }),
+    ]);
+
+    return {
+      ...this.toChildSummary(user, consent),
+      progress: progress.map(entry => ({
+        moduleType: entry.moduleType as ModuleType,
+        skillType: entry.skillType as SkillType,
+        level: entry.level as CEFRLevel,
+        accuracy: entry.accuracy,
+        skillLevel: entry.skillLevel,
+        totalTimeSpent: entry.totalTimeSpent,
+      })),
+      attemptsLast7Days,
+    };
+  }
+
+  /**
+   * 监护人撤回同意：账户重新受限并立即退出所有会话
+   */
+  async revokeConsent(guardianId: string, childId: string, clientInfo?: ClientInfo): Promise<void> {
+    const { consent } = await this.getChild(guardianId, childId);
+    if (consent.status !== ConsentStatus.GRANTED) {
+      throw new BadRequestException('Consent is not currently granted');
+    }
+
+    await this.prisma.guardianConsent.update({
+      where: { id: consent.id },
+      data: { status: ConsentStatus.REVOKED, revokedAt: new Date() },
+    });
+
+    await this.prisma.user.updateMany({
+      where: { id: childId, status: AccountStatus.ACTIVE },
+      data: {
+        status: AccountStatus.PENDING_CONSENT,
+        statusReason: 'parental_consent_revoked',
+        statusChangedAt: new Date(),
+        statusChangedById: guardianId,
+      },
+    });
+
+    await this.tokenService.revokeAllUserTokens(childId);
+
+    await this.auditService.log(guardianId, 'PARENTAL_CONSENT_REVOKED', {
+      resourceId: childId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'user');
+  }
+
+  // 私有辅助方法
+
+  /**
+   * 监护关系通过邮箱匹配，要求监护人账户邮箱已验证
+   */
+  private async getVerifiedGuardianEmail(guardianId: string): Promise<string> {
+    const guardian = await this.prisma.user.findUnique({
+      where: { id: guardianId },
+      select: { email: true, emailVerified: true },
+    });
+
+    if (!guardian) {
+      throw new NotFoundError('User');
+    }
+
+    if (!guardian.emailVerified) {
+      throw new ForbiddenError('Verify your email address to access the guardian dashboard');
+    }
+
+    return guardian.email.toLowerCase();
+  }
+
+  private async getChild(guardianId: string, childId: string) {
+    const guardianEmail = await this.getVerifiedGuardianEmail(guardianId);
+
+    const consent = await this.prisma.guardianConsent.findFirst({
+      where: { userId: childId, guardianEmail },
+      include: { user: true },
+    });
+
+    if (!consent) {
+      throw new NotFoundError('Child account');
+    }
+
+    return { user: consent.user, consent };
+  }
+
+  private toChildSummary(
+    user: User,
+    consent: { status: ConsentStatus; grantedAt: Date | null },
+  ): GuardianChildSummary {
+    return {
+      userId: user.id,
+      nickname: user.nickname ?? undefined,
+      consentStatus: consent.status,
+      grantedAt: consent.grantedAt ?? undefined,
+      level: user.currentLevel as CEFRLevel,
+      totalXP: Number(user.totalXP),
+      currentStreak: user.currentStreak,
+      lastActivityAt: user.lastActivityAt ?? undefined,
+    };
+  }
+
+  /**
+   * 有出生日期时按当前年龄判断，注册时的标记只作为缺少出生日期的旧账户的后备
+   */
+  private isMinor(user: Pick<User, 'dateOfBirth' | 'isMinor'>): boolean {
+    return user.dateOfBirth ? this.getAge(user.dateOfBirth) < this.consentAge : user.isMinor;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,101 @@
+import { Test } from '@nestjs/testing';
+import { PasswordPolicyService, DEFAULT_PASSWORD_POLICY } from './password-policy.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+  let stored: Record<string, object>;
+  let prisma: {
+    userRoleAssignment: { findMany: jest.Mock };
+    systemConfig: { findUnique: jest.Mock; upsert: jest.Mock };
+    organization: { findUnique: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    stored = {};
+    prisma = {
+      userRoleAssignment: { findMany: jest.fn().mockResolvedValue([]) },
+      systemConfig: {
+        findUnique: jest.fn().mockImplementation(async ({ where }) => (stored[where.key] ? { value: stored[where.key] } : null)),
+        upsert: jest.fn(),
+      },
+      organization: { findUnique: jest.fn().mockResolvedValue({ id: 'org-1' }) },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: { get: jest.fn(), setex: jest.fn(), del: jest.fn() } },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PasswordPolicyService);
+  });
+
+  describe('getPolicyForUser', () => {
+    beforeEach(() => {
+      prisma.userRoleAssignment.findMany.mockResolvedValue([
+        { role: { organizationId: 'org-a' } },
+        { role: { organizationId: 'org-b' } },
+      ]);
+    });
+
+    it('takes the lower maximum length across organizations', async () => {
+      stored['password_policy:org-a'] = { maxLength: 64 };
+      stored['password_policy:org-b'] = { maxLength: 32 };
+
+      const policy = await service.getPolicyForUser('user-1');
+
+      expect(policy.maxLength).toBe(32);
+    });
+
+    it('never lets the maximum length drop below the merged minimum', async () => {
+      stored['password_policy:org-a'] = { minLength: 20 };
+      stored['password_policy:org-b'] = { maxLength: 16 };
+
+      const policy = await service.getPolicyForUser('user-1');
+
+      expect(policy.minLength).toBe(20);
+      expect(policy.maxLength).toBe(20);
+    });
+
+    it('takes the shortest non-zero maximum age', async () => {
+      stored['password_policy:org-a'] = { maxAgeDays: 0 };
+      stored['password_policy:org-b'] = { maxAgeDays: 90 };
+
+      const policy = await service.getPolicyForUser('user-1');
+
+      expect(policy.maxAgeDays).toBe(90);
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('stores only the fields that were set', async () => {
+      await service.updatePolicy('admin', { minLength: 12, requireNumbers: true });
+
+      expect(prisma.systemConfig.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { value: { minLength: 12, requireNumbers: true } },
+      }));
+    });
+
+    it('rejects values of the wrong type', async () => {
+      await expect(service.updatePolicy('admin', { historySize: -1 })).rejects.toThrow('historySize must be a non-negative integer');
+      await expect(service.updatePolicy('admin', { requireNumbers: 'yes' as unknown as boolean })).rejects.toThrow(
+        'requireNumbers must be a boolean',
+      );
+    });
+
+    it('returns the effective policy', async () => {
+      await expect(service.updatePolicy('admin', { maxAgeDays: 30 })).resolves.toEqual({
+        ...DEFAULT_PASSWORD_POLICY,
+        maxAgeDays: 30,
+      });
+    });
+  });
+});
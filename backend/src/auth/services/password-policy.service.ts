@@ -0,0 +1,211 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import {
+  NotFoundError,
+  PasswordPolicy,
+  UpdatePasswordPolicyDto,
+  ValidationError,
+} from '../../../shared/types';
+
+// 未配置时的默认策略
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumbers: false,
+  requireSpecialChars: false,
+  minCharacterClasses: 3,
+  preventCommonPasswords: true,
+  preventBreachedPasswords: true,
+  maxSequentialChars: 3,
+  maxRepeatingChars: 3,
+  historySize: 0,
+  maxAgeDays: 0,
+};
+
+const POLICY_CONFIG_KEY = 'password_policy';
+const POLICY_CACHE_TTL = 300; // 5分钟
+
+type PolicyFieldOfType<T> = { [K in keyof PasswordPolicy]: PasswordPolicy[K] extends T ? K : never }[keyof PasswordPolicy];
+
+const NUMERIC_FIELDS: PolicyFieldOfType<number>[] = [
+  'minLength', 'maxLength', 'minCharacterClasses', 'maxSequentialChars',
+  'maxRepeatingChars', 'historySize', 'maxAgeDays',
+];
+
+const BOOLEAN_FIELDS: PolicyFieldOfType<boolean>[] = [
+  'requireUppercase', 'requireLowercase', 'requireNumbers', 'requireSpecialChars',
+  'preventCommonPasswords', 'preventBreachedPasswords',
+];
+
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * 获取有效策略：默认值 ← 全局配置 ← 组织配置
+   */
+  async getPolicy(organizationId?: string): Promise<PasswordPolicy> {
+    const global = await this.getStoredPolicy(POLICY_CONFIG_KEY);
+    const policy = { ...DEFAULT_PASSWORD_POLICY, ...global };
+
+    if (!organizationId) {
+      return policy;
+    }
+
+    const override = await this.getStoredPolicy(`${POLICY_CONFIG_KEY}:${organizationId}`);
+    return { ...policy, ...override };
+  }
+
+  /**
+   * 获取适用于用户的策略；用户属于多个组织时取最严格的组合
+   */
+  async getPolicyForUser(userId: string): Promise<PasswordPolicy> {
+    const assignments = await this.prisma.userRoleAssignment.findMany({
+      where: { userId, role: { organizationId: { not: null } } },
+      select: { role: { select: { organizationId: true } } },
+    });
+
+    const organizationIds = [...new Set(assignments.map(assignment => assignment.role.organizationId))];
+    if (organizationIds.length === 0) {
+      return this.getPolicy();
+    }
+
+    const policies = await Promise.all(organizationIds.map(id => this.getPolicy(id)));
+    return policies.reduce((strictest, policy) => this.mergeStrictest(strictest, policy));
+  }
+
+  /**
+   * 修改全局或组织策略，只保存显式设置的字段
+   */
+  async updatePolicy(actorId: string, dto: UpdatePasswordPolicyDto, organizationId?: string): Promise<PasswordPolicy> {
+    if (organizationId) {
+      const organization = await this.prisma.organization.findUnique({ where: { id: organizationId } });
+      if (!organization) {
+        throw new NotFoundError('Organization');
+      }
+    }
+
+    const key = organizationId ? `${POLICY_CONFIG_KEY}:${organizationId}` : POLICY_CONFIG_KEY;
+    const changes = this.sanitize(dto);
+    const stored = { ...(await this.getStoredPolicy(key)), ...changes };
+
+    // 以合并后的有效策略做一致性校验
+    const effective = organizationId
+      ? { ...(await this.getPolicy()), ...stored }
+      : { ...DEFAULT_PASSWORD_POLICY, ...stored };
+    this.assertConsistent(effective);
+
+    await this.prisma.systemConfig.upsert({
+      where: { key },
+      create: {
+        key,
+        value: stored as Prisma.InputJsonObject,
+        description: organizationId ? `Password policy for organization ${organizationId}` : 'Password policy',
+        isPublic: true,
+      },
+      update: { value: stored as Prisma.InputJsonObject },
+    });
+
+    await this.redisService.del(`system_config:${key}`);
+
+    await this.auditService.log(actorId, 'PASSWORD_POLICY_UPDATED', {
+      resourceId: key,
+      organizationId,
+      changes,
+    }, 'system_config');
+
+    return effective;
+  }
+
+  // 私有辅助方法
+
+  private async getStoredPolicy(key: string): Promise<Partial<PasswordPolicy>> {
+    const cacheKey = `system_config:${key}`;
+    const cached = await this.redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const config = await this.prisma.systemConfig.findUnique({ where: { key } });
+    const value = (config?.value ?? {}) as Partial<PasswordPolicy>;
+
+    await this.redisService.setex(cacheKey, POLICY_CACHE_TTL, JSON.stringify(value));
+
+    return value;
+  }
+
+  private sanitize(dto: UpdatePasswordPolicyDto): Partial<PasswordPolicy> {
+    const result: Partial<PasswordPolicy> = {};
+
+    for (const field of NUMERIC_FIELDS) {
+      const value = dto[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new ValidationError(`${field} must be a non-negative integer`, field);
+      }
+      result[field] = value;
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+      const value = dto[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') {
+        throw new ValidationError(`${field} must be a boolean`, field);
+      }
+      result[field] = value;
+    }
+
+    return result;
+  }
+
+  private assertConsistent(policy: PasswordPolicy): void {
+    if (policy.minLength < 6) {
+      throw new ValidationError('minLength must be at least 6', 'minLength');
+    }
+
+    if (policy.maxLength < policy.minLength || policy.maxLength > 1024) {
+      throw new ValidationError('maxLength must be between minLength and 1024', 'maxLength');
+    }
+
+    if (policy.minCharacterClasses > 4) {
+      throw new ValidationError('minCharacterClasses must be between 0 and 4', 'minCharacterClasses');
+    }
+
+    if (policy.historySize > 24) {
+      throw new ValidationError('historySize must not exceed 24', 'historySize');
+    }
+  }
+
+  private mergeStrictest(a: PasswordPolicy, b: PasswordPolicy): PasswordPolicy {
+    // 0 表示不限制，取严格值时需要排除
+    const minLimit = (x: number, y: number) => (x === 0 ? y : y === 0 ? x : Math.min(x, y));
+
+    const minLength = Math.max(a.minLength, b.minLength);
+
+    return {
+      minLength,
+      // 上限取较小值，但不能低于合并后的下限，否则没有可用的密码
+      maxLength: Math.max(Math.min(a.maxLength, b.maxLength), minLength),
+      requireUppercase: a.requireUppercase || b.requireUppercase,
+      requireLowercase: a.requireLowercase || b.requireLowercase,
+      requireNumbers: a.requireNumbers || b.requireNumbers,
+      requireSpecialChars: a.requireSpecialChars || b.requireSpecialChars,
+      minCharacterClasses: Math.max(a.minCharacterClasses, b.minCharacterClasses),
+      preventCommonPasswords: a.preventCommonPasswords || b.preventCommonPasswords,
+      preventBreachedPasswords: a.preventBreachedPasswords || b.preventBreachedPasswords,
+      maxSequentialChars: minLimit(a.maxSequentialChars, b.maxSequentialChars),
+      maxRepeatingChars: minLimit(a.maxRepeatingChars, b.maxRepeatingChars),
+      historySize: Math.max(a.historySize, b.historySize),
+      maxAgeDays: minLimit(a.maxAgeDays, b.maxAgeDays),
+    };
+  }
+}
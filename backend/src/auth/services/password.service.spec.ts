@@ -0,0 +1,93 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import * as argon2 from 'argon2';
+import { PasswordService } from './password.service';
+import { PrismaService } from '../../database/database.module';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const PASSWORD = 'correct horse battery staple';
+
+// 测试使用较低的成本参数，保持用例快速
+const CONFIG: Record<string, unknown> = {
+  'security.passwordHashAlgorithm': 'argon2id',
+  'security.bcryptRounds': 4,
+  'security.argon2MemoryCost': 2048,
+  'security.argon2TimeCost': 2,
+  'security.argon2Parallelism': 1,
+};
+
+describe('PasswordService', () => {
+  let service: PasswordService;
+
+  const createService = async (overrides: Record<string, unknown> = {}) => {
+    const config = { ...CONFIG, ...overrides };
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PasswordService,
+        { provide: ConfigService, useValue: { get: (key: string, fallback?: unknown) => (key in config ? config[key] : fallback) } },
+        { provide: PrismaService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: BreachedPasswordService, useValue: { isCommonPassword: () => false } },
+      ],
+    }).compile();
+
+    return moduleRef.get(PasswordService);
+  };
+
+  beforeEach(async () => {
+    service = await createService();
+  });
+
+  describe('hashing scheme detection', () => {
+    it('hashes new passwords with argon2id', async () => {
+      const hash = await service.hashPassword(PASSWORD);
+
+      expect(hash.startsWith('$argon2id$')).toBe(true);
+      await expect(service.verifyPassword(PASSWORD, hash)).resolves.toBe(true);
+      await expect(service.verifyPassword('wrong password', hash)).resolves.toBe(false);
+    });
+
+    it('still verifies legacy bcrypt hashes', async () => {
+      const hash = await bcrypt.hash(PASSWORD, 4);
+
+      await expect(service.verifyPassword(PASSWORD, hash)).resolves.toBe(true);
+      await expect(service.verifyPassword('wrong password', hash)).resolves.toBe(false);
+    });
+
+    it('rejects hashes in an unknown format', async () => {
+      await expect(service.verifyPassword(PASSWORD, PASSWORD)).resolves.toBe(false);
+      await expect(service.verifyPassword(PASSWORD, '$argon2i$v=19$m=1024,t=2,p=1$c2FsdA$aGFzaA')).resolves.toBe(false);
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('asks to rehash bcrypt hashes once argon2id is configured', async () => {
+      const hash = await bcrypt.hash(PASSWORD, 4);
+
+      expect(service.needsRehash(hash)).toBe(true);
+    });
+
+    it('asks to rehash argon2id hashes with outdated parameters', async () => {
+      const hash = await argon2.hash(PASSWORD, { type: argon2.argon2id, memoryCost: 1024, timeCost: 2, parallelism: 1 });
+
+      expect(service.needsRehash(hash)).toBe(true);
+    });
+
+    it('keeps argon2id hashes made with the current parameters', async () => {
+      const hash = await service.hashPassword(PASSWORD);
+
+      expect(service.needsRehash(hash)).toBe(false);
+    });
+
+    it('asks to rehash bcrypt hashes below the configured cost', async () => {
+      const bcryptService = await createService({ 'security.passwordHashAlgorithm': 'bcrypt', 'security.bcryptRounds': 5 });
+
+      expect(bcryptService.needsRehash(await bcrypt.hash(PASSWORD, 4))).toBe(true);
+      expect(bcryptService.needsRehash(await bcrypt.hash(PASSWORD, 5))).toBe(false);
+    });
+  });
+});
@@ -1,92 +1,226 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
-import { ValidationError } from '../../../shared/types';
+import * as argon2 from 'argon2';
+import { PrismaService } from '../../database/database.module';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { PasswordPolicy, ValidationError } from '../../../shared/types';
+
+type PasswordHashAlgorithm = 'bcrypt' | 'argon2id';
+
+interface Argon2Options {
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+/**
+ * 根据哈希前缀识别算法（PHC/Modular Crypt格式自带算法与参数）
+ */
+function detectHashAlgorithm(hash: string): PasswordHashAlgorithm | null {
+  if (/^\$2[aby]\$\d{2}\$/.test(hash)) return 'bcrypt';
+  if (hash.startsWith('$argon2id$')) return 'argon2id';
+  return null;
+}
 
 @Injectable()
 export class PasswordService {
+  private readonly algorithm: PasswordHashAlgorithm;
   private readonly bcryptRounds: number;
+  private readonly argon2Options: Argon2Options;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly breachedPasswordService: BreachedPasswordService,
+  ) {
+    this.algorithm = this.configService.get<PasswordHashAlgorithm>('security.passwordHashAlgorithm', 'argon2id');
     this.bcryptRounds = this.configService.get<number>('security.bcryptRounds', 12);
+    this.argon2Options = {
+      memoryCost: this.configService.get<number>('security.argon2MemoryCost', 19456),
+      timeCost: this.configService.get<number>('security.argon2TimeCost', 2),
+      parallelism: this.configService.get<number>('security.argon2Parallelism', 1),
+    };
   }
 
   /**
-   * 密码强度验证
+   * 按策略验证密码强度
    */
-  validatePasswordStrength(password: string): void {
-    const minLength = 8;
-    const maxLength = 128;
-    
+  validatePasswordStrength(password: string, policy: PasswordPolicy): void {
     // 长度检查
-    if (password.length < minLength) {
-      throw new ValidationError(`Password must be at least ${minLength} characters long`, 'password');
+    if (password.length < policy.minLength) {
+      throw new ValidationError(`Password must be at least ${policy.minLength} characters long`, 'password');
     }
     
-    if (password.length > maxLength) {
-      throw new ValidationError(`Password must not exceed ${maxLength} characters`, 'password');
+    if (password.length > policy.maxLength) {
+      throw new ValidationError(`Password must not exceed ${policy.maxLength} characters`, 'password');
     }
 
     // 复杂度检查
-    const hasUpperCase = /[A-Z]/.test(password);
-    const hasLowerCase = /[a-z]/.test(password);
-    const hasNumbers = /\d/.test(password);
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
+    const characterClasses = [
+      { name: 'uppercase letter', present: /[A-Z]/.test(password), required: policy.requireUppercase },
+      { name: 'lowercase letter', present: /[a-z]/.test(password), required: policy.requireLowercase },
+      { name: 'number', present: /\d/.test(password), required: policy.requireNumbers },
+      { name: 'special character', present: /[^a-zA-Z0-9]/.test(password), required: policy.requireSpecialChars },
+    ];
 
-    const complexityChecks = [hasUpperCase, hasLowerCase, hasNumbers, hasSpecialChar];
-    const passedChecks = complexityChecks.filter(Boolean).length;
+    const missing = characterClasses.find(charClass => charClass.required && !charClass.present);
+    if (missing) {
+      throw new ValidationError(`Password must contain at least one ${missing.name}`, 'password');
+    }
 
-    if (passedChecks < 3) {
+    const passedChecks = characterClasses.filter(charClass => charClass.present).length;
+    if (passedChecks < policy.minCharacterClasses) {
       throw new ValidationError(
-        'Password must contain at least 3 of the following: uppercase letter, lowercase letter, number, special character',
+        `Password must contain at least ${policy.minCharacterClasses} of the following: uppercase letter, lowercase letter, number, special character`,
         'password'
       );
     }
 
     // 常见密码检查
-    const commonPasswords = [
-      'password', 'password123', '123456', 'qwerty', 'abc123', 
-      'admin', 'root', 'user', 'guest', 'welcome', 'letmein'
-    ];
-    
-    if (commonPasswords.includes(password.toLowerCase())) {
+    if (policy.preventCommonPasswords && this.isCommonPassword(password)) {
       throw new ValidationError('Password is too common. Please choose a more secure password', 'password');
     }
 
     // 连续字符检查
-    if (this.hasSequentialChars(password, 3)) {
-      throw new ValidationError('Password should not contain 3 or more sequential characters', 'password');
+    if (policy.maxSequentialChars > 0 && this.hasSequentialChars(password, policy.maxSequentialChars)) {
+      throw new ValidationError(
+        `Password should not contain ${policy.maxSequentialChars} or more sequential characters`,
+        'password'
+      );
     }
 
     // 重复字符检查
-    if (this.hasRepeatingChars(password, 3)) {
-      throw new ValidationError('Password should not contain 3 or more repeating characters', 'password');
+    if (policy.maxRepeatingChars > 0 && this.hasRepeatingChars(password, policy.maxRepeatingChars)) {
+      throw new ValidationError(
+        `Password should not contain ${policy.maxRepeatingChars} or more repeating characters`,
+        'password'
+      );
     }
   }
 
   /**
-   * 密码加密
+   * 校验新密码：适用策略 + 历史密码检查（userId为空表示注册）
+   */
+  async assertPasswordAllowed(password: string, userId?: string): Promise<void> {
+    const policy = userId
+      ? await this.passwordPolicyService.getPolicyForUser(userId)
+      : await this.passwordPolicyService.getPolicy();
+
+    this.validatePasswordStrength(password, policy);
+
+    if (policy.preventBreachedPasswords && await this.checkPasswordBreach(password)) {
+      throw new ValidationError(
+        'This password has appeared in a data breach. Please choose a different password',
+        'password'
+      );
+    }
+
+    if (userId && policy.historySize > 0) {
+      const history = await this.prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: policy.historySize,
+      });
+
+      for (const entry of history) {
+        if (await this.verifyPassword(password, entry.passwordHash)) {
+          throw new ValidationError(
+            `Password must not match any of your last ${policy.historySize} passwords`,
+            'password'
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 记录新密码到历史，并清理超出保留数量的记录
+   */
+  async recordPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    await this.prisma.passwordHistory.create({
+      data: { userId, passwordHash },
+    });
+
+    const { historySize } = await this.passwordPolicyService.getPolicyForUser(userId);
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: Math.max(historySize, 1),
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map(entry => entry.id) } },
+      });
+    }
+  }
+
+  /**
+   * 检查密码是否超过最长使用期限
+   */
+  async isPasswordExpired(userId: string, passwordChangedAt: Date | null): Promise<boolean> {
+    const { maxAgeDays } = await this.passwordPolicyService.getPolicyForUser(userId);
+    if (maxAgeDays <= 0 || !passwordChangedAt) {
+      return false;
+    }
+
+    return Date.now() - passwordChangedAt.getTime() > maxAgeDays * 86400 * 1000;
+  }
+
+  /**
+   * 密码加密（使用当前配置的算法和参数）
    */
   async hashPassword(password: string): Promise<string> {
     try {
-      const salt = await bcrypt.genSalt(this.bcryptRounds);
-      return await bcrypt.hash(password, salt);
+      if (this.algorithm === 'bcrypt') {
+        const salt = await bcrypt.genSalt(this.bcryptRounds);
+        return await bcrypt.hash(password, salt);
+      }
+
+      return await argon2.hash(password, { type: argon2.argon2id, ...this.argon2Options });
     } catch (error) {
       throw new Error('Failed to hash password');
     }
   }
 
   /**
-   * 密码验证
+   * 密码验证（支持 bcrypt 和 Argon2id 哈希）
    */
   async verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
     try {
-      return await bcrypt.compare(plainPassword, hashedPassword);
+      switch (detectHashAlgorithm(hashedPassword)) {
+        case 'bcrypt':
+          return await bcrypt.compare(plainPassword, hashedPassword);
+        case 'argon2id':
+          return await argon2.verify(hashedPassword, plainPassword);
+        default:
+          return false;
+      }
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * 哈希是否使用了过时的算法或参数，需要在下次验证成功后重新计算
+   */
+  needsRehash(hashedPassword: string): boolean {
+    const algorithm = detectHashAlgorithm(hashedPassword);
+    if (algorithm !== this.algorithm) {
+      return true;
+    }
+
+    if (algorithm === 'bcrypt') {
+      return bcrypt.getRounds(hashedPassword) < this.bcryptRounds;
+    }
+
+    return argon2.needsRehash(hashedPassword, this.argon2Options);
+  }
+
   /**
    * 生成随机密码
    */
@@ -209,15 +343,7 @@ export class PasswordService {
    * 检查是否为常见密码
    */
   private isCommonPassword(password: string): boolean {
-    const commonPasswords = [
-      'password', 'password123', '123456', '123456789', 'qwerty', 
-      'abc123', 'password1', 'admin', 'root', 'user', 'guest', 
-      'welcome', 'letmein', 'monkey', 'dragon', 'sunshine', 
-      'princess', 'football', 'baseball', 'freedom', 'whatever',
-      'trustno1', 'master', 'hello', 'access', 'shadow'
-    ];
-    
-    return commonPasswords.includes(password.toLowerCase());
+    return this.breachedPasswordService.isCommonPassword(password);
   }
 
   /**
@@ -228,36 +354,20 @@ export class PasswordService {
   }
 
   /**
-   * 检查密码是否曾被泄露（可选功能，需要集成HaveIBeenPwned API）
+   * 检查密码是否曾被泄露（本地HIBP格式语料，语料不可用时不阻止用户）
    */
   async checkPasswordBreach(password: string): Promise<boolean> {
     try {
-      // 这里可以集成 HaveIBeenPwned API 检查密码是否在已知泄露中
-      // 出于演示目的，这里返回false
-      return false;
+      return await this.breachedPasswordService.isBreached(password);
     } catch (error) {
-      // 如果检查服务不可用，不阻止用户使用
       return false;
     }
   }
 
   /**
-   * 密码策略配置
+   * 密码策略配置（公开接口与校验共用同一份定义）
    */
-  getPasswordPolicy() {
-    return {
-      minLength: 8,
-      maxLength: 128,
-      requireUppercase: true,
-      requireLowercase: true,
-      requireNumbers: true,
-      requireSpecialChars: true,
-      minComplexityTypes: 3,
-      preventCommonPasswords: true,
-      preventSequentialChars: true,
-      preventRepeatingChars: true,
-      maxSequentialLength: 3,
-      maxRepeatingLength: 3
-    };
+  async getPasswordPolicy(organizationId?: string): Promise<PasswordPolicy> {
+    return this.passwordPolicyService.getPolicy(organizationId);
   }
 }
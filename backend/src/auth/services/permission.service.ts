@@ -0,0 +1,158 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { v4 as uuidv4 } from 'uuid';
+
+// 内置权限注册表，启动时同步到数据库
+export const BUILT_IN_PERMISSIONS: Record<string, string> = {
+  'users:read': 'View user profiles',
+  'users:write': 'Edit user profiles',
+  'users:delete': 'Delete users',
+  'users:moderate': 'Lock, suspend or ban accounts',
+  'roles:read': 'View roles and permissions',
+  'roles:write': 'Create, edit and assign roles',
+  'questions:read': 'View questions',
+  'questions:write': 'Create and edit questions',
+  'questions:delete': 'Delete questions',
+  'questions:review': 'Review submitted questions',
+  'games:read': 'View games',
+  'games:write': 'Create and configure games',
+  'games:join': 'Join games',
+  'games:moderate': 'Moderate game rooms',
+  'learning:read': 'View learning content',
+  'learning:write': 'Record learning progress',
+  'analytics:read': 'View analytics',
+  'analytics:write': 'Manage analytics',
+  'system:read': 'View system configuration',
+  'system:write': 'Change system configuration',
+};
+
+// 系统角色的默认权限，仅在角色首次创建时写入，之后以数据库为准
+const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  [UserRole.ADMIN]: Object.keys(BUILT_IN_PERMISSIONS),
+  [UserRole.MODERATOR]: [
+    'users:read', 'users:moderate',
+    'questions:read', 'questions:review',
+    'games:read', 'games:moderate',
+  ],
+  [UserRole.TEACHER]: [
+    'users:read',
+    'questions:read', 'questions:write', 'questions:review',
+    'games:read', 'games:moderate',
+    'analytics:read',
+  ],
+  [UserRole.STUDENT]: [
+    'questions:read',
+    'games:read', 'games:join',
+    'learning:read', 'learning:write',
+  ],
+};
+
+const PERMISSIONS_VERSION_KEY = 'permissions:version';
+const PERMISSIONS_CACHE_TTL = 300; // 5分钟
+
+@Injectable()
+export class PermissionService implements OnModuleInit {
+  private readonly logger = new Logger(PermissionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async onModuleInit() {
+    await this.syncBuiltInPermissions();
+  }
+
+  /**
+   * 解析用户的有效权限：系统角色 + 分配的全局角色 + 指定组织内的自定义角色
+   */
+  async getUserPermissions(userId: string, organizationId?: string): Promise<string[]> {
+    const version = await this.getVersion();
+    const cacheKey = `user_permissions:${version}:${userId}:${organizationId ?? 'global'}`;
+
+    const cached = await this.redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { roles: true },
+    });
+
+    if (!user) {
+      return [];
+    }
+
+    const roles = await this.prisma.role.findMany({
+      where: {
+        OR: [
+          { isSystem: true, name: { in: user.roles } },
+          {
+            assignments: { some: { userId } },
+            OR: [{ organizationId: null }, ...(organizationId ? [{ organizationId }] : [])],
+          },
+        ],
+      },
+      select: { permissions: { select: { key: true } } },
+    });
+
+    const permissions = [...new Set(roles.flatMap(role => role.permissions.map(permission => permission.key)))].sort();
+
+    await this.redisService.setex(cacheKey, PERMISSIONS_CACHE_TTL, JSON.stringify(permissions));
+
+    return permissions;
+  }
+
+  async hasPermissions(userId: string, required: string[], organizationId?: string): Promise<boolean> {
+    const granted = await this.getUserPermissions(userId, organizationId);
+    return required.every(permission => granted.includes(permission));
+  }
+
+  /**
+   * 使所有权限缓存失效（角色或分配变更后调用）
+   */
+  async invalidate(): Promise<void> {
+    await this.redisService.setex(PERMISSIONS_VERSION_KEY, 30 * 86400, uuidv4());
+  }
+
+  async listPermissions() {
+    return this.prisma.permission.findMany({ orderBy: { key: 'asc' } });
+  }
+
+  /**
+   * 同步内置权限并创建缺失的系统角色
+   */
+  private async syncBuiltInPermissions(): Promise<void> {
+    for (const [key, description] of Object.entries(BUILT_IN_PERMISSIONS)) {
+      await this.prisma.permission.upsert({
+        where: { key },
+        create: { key, description },
+        update: { description },
+      });
+    }
+
+    for (const [name, permissions] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+      const existing = await this.prisma.role.findFirst({
+        where: { name, isSystem: true, organizationId: null },
+      });
+
+      if (!existing) {
+        await this.prisma.role.create({
+          data: {
+            name,
+            isSystem: true,
+            permissions: { connect: permissions.map(key => ({ key })) },
+          },
+        });
+        this.logger.log(`Created system role ${name}`);
+      }
+    }
+  }
+
+  private async getVersion(): Promise<string> {
+    return (await this.redisService.get(PERMISSIONS_VERSION_KEY)) || '0';
+  }
+}
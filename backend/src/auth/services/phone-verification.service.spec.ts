@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { PhoneVerificationService } from './phone-verification.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { SmsService } from '../../sms/sms.service';
+import { PasswordService } from './password.service';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+import { EncryptionService } from './encryption.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ReauthenticationRequiredError } from '../../../shared/types';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('PhoneVerificationService', () => {
+  let service: PhoneVerificationService;
+  let redisStore: Map<string, string>;
+  let prisma: { user: { findUnique: jest.Mock; update: jest.Mock } };
+  let sms: { send: jest.Mock };
+  let notifications: { notify: jest.Mock };
+  let queue: { add: jest.Mock };
+
+  beforeEach(async () => {
+    redisStore = new Map();
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockImplementation(async ({ where }) => (
+          where.phone ? null : { id: 'user-1', email: 'learner@example.com', phone: '+15550000001', mfaEnabled: true, phoneVerified: true }
+        )),
+        update: jest.fn(),
+      },
+    };
+    sms = { send: jest.fn() };
+    notifications = { notify: jest.fn() };
+    queue = { add: jest.fn() };
+
+    // 使用真实的 ReauthenticationService / MfaService，确认循环依赖可以解析
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PhoneVerificationService,
+        ReauthenticationService,
+        MfaService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn(async (key: string) => redisStore.get(key) ?? null),
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => redisStore.set(key, value)),
+            del: jest.fn(async (key: string) => redisStore.delete(key)),
+            checkRateLimit: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: SmsService,
+          useValue: {
+            ...sms,
+            normalizePhoneNumber: (phone: string) => phone.replace(/\s/g, ''),
+            maskPhoneNumber: (phone: string) => `***${phone.slice(-4)}`,
+          },
+        },
+        { provide: PasswordService, useValue: {} },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: TokenService, useValue: {} },
+        { provide: EncryptionService, useValue: {} },
+        { provide: SecurityNotificationService, useValue: notifications },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: getQueueToken('auth'), useValue: queue },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PhoneVerificationService);
+  });
+
+  it('requires recent reauthentication before sending a code to a new number', async () => {
+    await expect(service.startVerification('user-1', 'session-1', '+1 555 000 0002')).rejects.toBeInstanceOf(
+      ReauthenticationRequiredError,
+    );
+    expect(sms.send).not.toHaveBeenCalled();
+  });
+
+  it('requires recent reauthentication before enabling SMS MFA', async () => {
+    await expect(service.enableSmsMfa('user-1', 'session-1')).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('requires recent reauthentication before removing the phone or disabling SMS MFA', async () => {
+    await expect(service.removePhone('user-1', 'session-1')).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+    await expect(service.disableSmsMfa('user-1', 'session-1')).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('consumes the reauthentication and notifies the user when the phone is removed', async () => {
+    redisStore.set('reauth:user-1:session-1', new Date(Date.now() + 300_000).toISOString());
+
+    await service.removePhone('user-1', 'session-1');
+
+    expect(redisStore.has('reauth:user-1:session-1')).toBe(false);
+    expect(notifications.notify).toHaveBeenCalledWith('user-1', 'PHONE_REMOVED', 'Phone number removed', expect.any(String));
+    await expect(service.disableSmsMfa('user-1', 'session-1')).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+  });
+
+  it('notifies the user when a verified number replaces the previous one', async () => {
+    redisStore.set('reauth:user-1:session-1', new Date(Date.now() + 300_000).toISOString());
+    await service.startVerification('user-1', 'session-1', '+1 555 000 0002');
+    const code = (sms.send.mock.calls[0][1] as string).match(/\d{6}/)[0];
+
+    await service.confirmVerification('user-1', code);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { phone: '+15550000002', phoneVerified: true },
+    }));
+    expect(notifications.notify).toHaveBeenCalledWith(
+      'user-1',
+      'PHONE_CHANGED',
+      'Phone number changed',
+      expect.stringContaining('***0002'),
+      { phone: '***0002' },
+    );
+    expect(queue.add).toHaveBeenCalledWith('send-phone-change-notice', expect.objectContaining({
+      email: 'learner@example.com',
+      oldPhone: '***0001',
+      newPhone: '***0002',
+    }));
+  });
+});
@@ -0,0 +1,305 @@
+import { Injectable, Inject, BadRequestException, ConflictException, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { SmsService } from '../../sms/sms.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ClientInfo, SmsCodeSent, UnauthorizedError } from '../../../shared/types';
+import * as crypto from 'crypto';
+
+// verify: 绑定手机号；mfa: 登录时的短信验证码
+type SmsCodePurpose = 'verify' | 'mfa';
+
+interface StoredSmsCode {
+  codeHash: string;
+  phone: string;
+}
+
+@Injectable()
+export class PhoneVerificationService {
+  private readonly codeTtl: number;
+  private readonly codeMaxAttempts: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly smsService: SmsService,
+    private readonly auditService: AuditService,
+    // ReauthenticationService → MfaService → PhoneVerificationService 构成循环依赖
+    @Inject(forwardRef(() => ReauthenticationService))
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+    @InjectQueue('auth') private readonly authQueue: Queue,
+  ) {
+    this.codeTtl = this.configService.get<number>('sms.codeTtl', 300);
+    this.codeMaxAttempts = this.configService.get<number>('sms.codeMaxAttempts', 5);
+  }
+
+  /**
+   * 向新号码发送验证码，确认后才会绑定到账户（需近期重新验证，防止被盗会话改绑号码）
+   */
+  async startVerification(userId: string, sessionId: string, phone: string, clientInfo?: ClientInfo): Promise<SmsCodeSent> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    const normalizedPhone = this.smsService.normalizePhoneNumber(phone);
+    await this.assertPhoneAvailable(userId, normalizedPhone);
+
+    const result = await this.sendCode('verify', userId, normalizedPhone, clientInfo);
+
+    // 重新验证只能使用一次
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.auditService.log(userId, 'PHONE_VERIFICATION_STARTED', {
+      phone: result.sentTo,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return result;
+  }
+
+  /**
+   * 校验验证码并绑定手机号
+   */
+  async confirmVerification(userId: string, code: string, clientInfo?: ClientInfo): Promise<void> {
+    const phone = await this.consumeCode('verify', userId, code);
+    if (!phone) {
+      await this.auditService.log(userId, 'PHONE_VERIFICATION_FAILED', {
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new BadRequestException('Invalid or expired verification code');
+    }
+
+    // 发送后到确认前号码可能已被其他账户绑定
+    await this.assertPhoneAvailable(userId, phone);
+
+    const previous = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, nickname: true, phone: true },
+    });
+    const replaced = !!previous?.phone && previous.phone !== phone;
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        phone,
+        phoneVerified: true,
+      },
+    });
+
+    // 更换号码时通知用户（站内通知与邮件），号码被他人改绑时可及时发现
+    if (replaced) {
+      const maskedPhone = this.smsService.maskPhoneNumber(phone);
+
+      await this.securityNotificationService.notify(
+        userId,
+        'PHONE_CHANGED',
+        'Phone number changed',
+        `The phone number on your account was changed to ${maskedPhone}.`,
+        { phone: maskedPhone },
+      );
+
+      await this.authQueue.add('send-phone-change-notice', {
+        userId,
+        email: previous.email,
+        nickname: previous.nickname,
+        oldPhone: this.smsService.maskPhoneNumber(previous.phone),
+        newPhone: maskedPhone,
+      });
+    }
+
+    await this.auditService.log(userId, 'PHONE_VERIFIED', {
+      phone: this.smsService.maskPhoneNumber(phone),
+      replaced,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 解绑手机号（同时关闭短信MFA，需近期重新验证）
+   */
+  async removePhone(userId: string, sessionId: string, clientInfo?: ClientInfo): Promise<void> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        phone: null,
+        phoneVerified: false,
+        smsMfaEnabled: false,
+      },
+    });
+
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.securityNotificationService.notify(
+      userId,
+      'PHONE_REMOVED',
+      'Phone number removed',
+      'The phone number on your account was removed. SMS sign-in codes are turned off.',
+    );
+
+    await this.auditService.log(userId, 'PHONE_REMOVED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 开启短信作为备选MFA方式（需已开启MFA、验证手机号并近期重新验证）
+   */
+  async enableSmsMfa(userId: string, sessionId: string, clientInfo?: ClientInfo): Promise<void> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('Enable an authenticator app before adding SMS as a backup method');
+    }
+
+    if (!user.phone || !user.phoneVerified) {
+      throw new BadRequestException('Verify a phone number first');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { smsMfaEnabled: true },
+    });
+
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.auditService.log(userId, 'MFA_SMS_ENABLED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 关闭短信MFA（需近期重新验证，防止被盗会话削弱账户保护）
+   */
+  async disableSmsMfa(userId: string, sessionId: string, clientInfo?: ClientInfo): Promise<void> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { smsMfaEnabled: false },
+    });
+
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.securityNotificationService.notify(
+      userId,
+      'MFA_SMS_DISABLED',
+      'SMS verification turned off',
+      'SMS codes can no longer be used to verify sign-ins to your account.',
+    );
+
+    await this.auditService.log(userId, 'MFA_SMS_DISABLED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 登录MFA步骤：向已验证号码发送验证码
+   */
+  async sendMfaCode(userId: string, clientInfo?: ClientInfo): Promise<SmsCodeSent> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user?.smsMfaEnabled || !user.phone || !user.phoneVerified) {
+      throw new BadRequestException('SMS verification is not enabled for this account');
+    }
+
+    return this.sendCode('mfa', userId, user.phone, clientInfo);
+  }
+
+  /**
+   * 校验登录MFA短信验证码
+   */
+  async verifyMfaCode(userId: string, code: string): Promise<boolean> {
+    const phone = await this.consumeCode('mfa', userId, code);
+    if (!phone) {
+      return false;
+    }
+
+    // 发送后号码被更换或短信MFA被关闭时，旧验证码不再有效
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { phone: true, smsMfaEnabled: true },
+    });
+
+    return !!user?.smsMfaEnabled && user.phone === phone;
+  }
+
+  // 私有辅助方法
+
+  private async sendCode(purpose: SmsCodePurpose, userId: string, phone: string, clientInfo?: ClientInfo): Promise<SmsCodeSent> {
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const message = purpose === 'mfa'
+      ? `Your EngGameHub sign-in code is ${code}. Never share this code.`
+      : `Your EngGameHub verification code is ${code}.`;
+
+    // 先发送再保存，发送受限或失败时不覆盖仍有效的旧验证码
+    await this.smsService.send(phone, message, clientInfo);
+
+    const stored: StoredSmsCode = { codeHash: this.hashCode(code), phone };
+    await this.redisService.setex(`sms_code:${purpose}:${userId}`, this.codeTtl, JSON.stringify(stored));
+    await this.redisService.del(`sms_code_attempts:${purpose}:${userId}`);
+
+    return {
+      sentTo: this.smsService.maskPhoneNumber(phone),
+      expiresIn: this.codeTtl,
+    };
+  }
+
+  /**
+   * 校验并作废验证码，返回验证码对应的号码
+   */
+  private async consumeCode(purpose: SmsCodePurpose, userId: string, code: string): Promise<string | null> {
+    const key = `sms_code:${purpose}:${userId}`;
+    const raw = await this.redisService.get(key);
+    if (!raw) {
+      return null;
+    }
+
+    const canAttempt = await this.redisService.checkRateLimit(
+      `sms_code_attempts:${purpose}:${userId}`,
+      this.codeMaxAttempts,
+      this.codeTtl,
+    );
+    if (!canAttempt) {
+      await this.redisService.del(key);
+      return null;
+    }
+
+    const stored: StoredSmsCode = JSON.parse(raw);
+    const expected = Buffer.from(stored.codeHash, 'hex');
+    const actual = Buffer.from(this.hashCode((code || '').replace(/\s/g, '')), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await this.redisService.del(key);
+    return stored.phone;
+  }
+
+  private async assertPhoneAvailable(userId: string, phone: string): Promise<void> {
+    const owner = await this.prisma.user.findUnique({ where: { phone }, select: { id: true } });
+    if (owner && owner.id !== userId) {
+      throw new ConflictException('This phone number is already linked to another account');
+    }
+  }
+
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { PasswordService } from './password.service';
+import { MfaService } from './mfa.service';
+import { AuditService } from './audit.service';
+import {
+  ClientInfo,
+  ReauthenticateDto,
+  ReauthenticationResult,
+  ReauthenticationRequiredError,
+  UnauthorizedError,
+} from '../../../shared/types';
+
+/**
+ * 敏感操作前的重新验证，结果绑定到当前会话并在短时间内有效
+ */
+@Injectable()
+export class ReauthenticationService {
+  private readonly reauthWindow: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly passwordService: PasswordService,
+    private readonly mfaService: MfaService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {
+    this.reauthWindow = this.configService.get<number>('security.reauthWindow', 300);
+  }
+
+  async reauthenticate(
+    userId: string,
+    sessionId: string,
+    dto: ReauthenticateDto,
+    clientInfo?: ClientInfo,
+  ): Promise<ReauthenticationResult> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    // 有密码时必须使用密码；仅通过单点登录/无密码登录的账户可使用MFA验证码
+    let verified: boolean;
+    if (user.passwordHash) {
+      verified = !!dto.password && await this.passwordService.verifyPassword(dto.password, user.passwordHash);
+    } else if (user.mfaEnabled) {
+      verified = !!dto.code && await this.mfaService.verifyMfaCode(userId, dto.code, clientInfo);
+    } else {
+      throw new BadRequestException('Set a password or enable MFA to confirm sensitive changes');
+    }
+
+    if (!verified) {
+      await this.auditService.log(userId, 'REAUTHENTICATION_FAILED', {
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    const validUntil = new Date(Date.now() + this.reauthWindow * 1000);
+    await this.redisService.setex(this.key(userId, sessionId), this.reauthWindow, validUntil.toISOString());
+
+    await this.auditService.log(userId, 'REAUTHENTICATED', {
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return { validUntil };
+  }
+
+  /**
+   * 确认当前会话最近完成过重新验证
+   */
+  async assertRecentlyAuthenticated(userId: string, sessionId: string): Promise<void> {
+    const validUntil = sessionId ? await this.redisService.get(this.key(userId, sessionId)) : null;
+    if (!validUntil) {
+      throw new ReauthenticationRequiredError();
+    }
+  }
+
+  /**
+   * 敏感操作完成后作废，避免同一次验证被重复使用
+   */
+  async clear(userId: string, sessionId: string): Promise<void> {
+    await this.redisService.del(this.key(userId, sessionId));
+  }
+
+  private key(userId: string, sessionId: string): string {
+    return `reauth:${userId}:${sessionId}`;
+  }
+}
@@ -0,0 +1,164 @@
+import { Test } from '@nestjs/testing';
+import { RoleService } from './role.service';
+import { PrismaService } from '../../database/database.module';
+import { PermissionService } from './permission.service';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const EDITOR_ROLE = {
+  id: 'role-1',
+  name: 'Editor',
+  description: null,
+  isSystem: false,
+  organizationId: 'org-1',
+  permissions: [{ key: 'questions:write' }],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('RoleService', () => {
+  let service: RoleService;
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let permissionService: { getUserPermissions: jest.Mock; invalidate: jest.Mock };
+  let tokenService: { bumpTokenEpoch: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      role: {
+        findUnique: jest.fn().mockResolvedValue(EDITOR_ROLE),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([EDITOR_ROLE]),
+        create: jest.fn().mockImplementation(async ({ data }) => ({
+          ...EDITOR_ROLE,
+          name: data.name,
+          organizationId: data.organizationId ?? null,
+          permissions: data.permissions.connect,
+        })),
+        update: jest.fn().mockImplementation(async ({ data }) => ({
+          ...EDITOR_ROLE,
+          permissions: data.permissions?.set ?? EDITOR_ROLE.permissions,
+        })),
+        delete: jest.fn(),
+      },
+      permission: {
+        findMany: jest.fn().mockImplementation(async ({ where }) => where.key.in.map((key: string) => ({ key }))),
+      },
+      organization: { findUnique: jest.fn().mockResolvedValue({ id: 'org-1' }) },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'user-2' }),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      userRoleAssignment: {
+        upsert: jest.fn(),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findMany: jest.fn().mockResolvedValue([{ userId: 'user-2' }, { userId: 'user-3' }]),
+      },
+    };
+    permissionService = {
+      getUserPermissions: jest.fn().mockResolvedValue(['roles:write', 'questions:read', 'questions:write']),
+      invalidate: jest.fn(),
+    };
+    tokenService = { bumpTokenEpoch: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RoleService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PermissionService, useValue: permissionService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RoleService);
+  });
+
+  describe('token revocation', () => {
+    it('refreshes permissions without signing holders out when role permissions change', async () => {
+      await service.updateRole('admin', 'role-1', { permissions: ['questions:read'] });
+
+      expect(permissionService.invalidate).toHaveBeenCalled();
+      expect(tokenService.bumpTokenEpoch).not.toHaveBeenCalled();
+    });
+
+    it('refreshes permissions without signing holders out when a role is deleted', async () => {
+      await service.deleteRole('admin', 'role-1', 'org-1');
+
+      expect(permissionService.invalidate).toHaveBeenCalled();
+      expect(tokenService.bumpTokenEpoch).not.toHaveBeenCalled();
+    });
+
+    it('leaves tokens alone when only the description changes', async () => {
+      await service.updateRole('admin', 'role-1', { description: 'Writes questions' });
+
+      expect(tokenService.bumpTokenEpoch).not.toHaveBeenCalled();
+    });
+
+    it('revokes tokens of users who gain or lose a role', async () => {
+      await service.assignRole('admin', 'role-1', 'user-2');
+      await service.unassignRole('admin', 'role-1', 'user-3');
+
+      expect(tokenService.bumpTokenEpoch.mock.calls).toEqual([['user-2'], ['user-3']]);
+    });
+  });
+
+  describe('privilege escalation', () => {
+    it('refuses to create a role with permissions the actor lacks', async () => {
+      await expect(service.createRole('admin', { name: 'Root', permissions: ['system:write'] })).rejects.toThrow(
+        'Cannot grant permissions you do not have: system:write',
+      );
+      expect(prisma.role.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses to assign a role whose permissions the actor lacks', async () => {
+      permissionService.getUserPermissions.mockResolvedValue(['roles:write']);
+
+      await expect(service.assignRole('admin', 'role-1', 'user-2')).rejects.toThrow(
+        'Cannot grant permissions you do not have: questions:write',
+      );
+      expect(prisma.userRoleAssignment.upsert).not.toHaveBeenCalled();
+    });
+
+    it('checks the actor permissions inside the role organization', async () => {
+      await service.assignRole('admin', 'role-1', 'user-2');
+
+      expect(permissionService.getUserPermissions).toHaveBeenCalledWith('admin', 'org-1');
+    });
+
+    it('refuses organization roles for accounts created without that organization', async () => {
+      await expect(service.assertCanAssign('admin', ['role-1'])).rejects.toThrow(
+        'Organization roles require their organization',
+      );
+      await expect(service.assertCanAssign('admin', ['role-1'], 'org-2')).rejects.toThrow(
+        'Organization roles require their organization',
+      );
+      await expect(service.assertCanAssign('admin', ['role-1'], 'org-1')).resolves.toBeUndefined();
+    });
+
+    it('refuses to attach roles whose permissions the actor lacks at creation', async () => {
+      permissionService.getUserPermissions.mockResolvedValue(['users:write']);
+
+      await expect(service.assertCanAssign('admin', ['role-1'], 'org-1')).rejects.toThrow(
+        'Cannot grant permissions you do not have: questions:write',
+      );
+    });
+  });
+
+  it('rejects a duplicate global role name', async () => {
+    prisma.role.findFirst.mockResolvedValue({ id: 'role-9' });
+
+    await expect(service.createRole('admin', { name: 'Editor', permissions: [] })).rejects.toThrow(
+      'A role with this name already exists',
+    );
+    expect(prisma.role.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: null, name: 'Editor' },
+    }));
+  });
+
+  it('does not let an organization route manage roles of another organization', async () => {
+    await expect(service.updateRole('admin', 'role-1', { description: 'x' }, 'org-2')).rejects.toThrow('Role');
+    expect(prisma.role.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,336 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+import { PermissionService } from './permission.service';
+import { AuditService } from './audit.service';
+import { TokenService } from './token.service';
+import {
+  CreateOrganizationDto,
+  CreateRoleDto,
+  ForbiddenError,
+  NotFoundError,
+  RoleInfo,
+  UpdateRoleDto,
+  ValidationError,
+} from '../../../shared/types';
+
+const ROLE_INCLUDE = { permissions: { select: { key: true } } } as const;
+
+type RoleWithPermissions = Prisma.RoleGetPayload<{ include: typeof ROLE_INCLUDE }>;
+
+@Injectable()
+export class RoleService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+    private readonly auditService: AuditService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  /**
+   * 列出全局角色，或指定组织的全局+自定义角色
+   */
+  async listRoles(organizationId?: string): Promise<RoleInfo[]> {
+    const roles = await this.prisma.role.findMany({
+      where: {
+        OR: [{ organizationId: null }, ...(organizationId ? [{ organizationId }] : [])],
+      },
+      include: ROLE_INCLUDE,
+      orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+    });
+
+    return roles.map(role => this.toRoleInfo(role));
+  }
+
+  /**
+   * 创建自定义角色；只能授予操作者自身在该范围内拥有的权限
+   */
+  async createRole(actorId: string, dto: CreateRoleDto): Promise<RoleInfo> {
+    await this.assertValidPermissions(dto.permissions);
+    await this.assertCanGrant(actorId, dto.permissions, dto.organizationId);
+
+    if (dto.organizationId) {
+      const organization = await this.prisma.organization.findUnique({ where: { id: dto.organizationId } });
+      if (!organization) {
+        throw new NotFoundError('Organization');
+      }
+    } else {
+      await this.assertGlobalNameAvailable(dto.name);
+    }
+
+    try {
+      const role = await this.prisma.role.create({
+        data: {
+          name: dto.name,
+          description: dto.description,
+          organizationId: dto.organizationId,
+          permissions: { connect: dto.permissions.map(key => ({ key })) },
+        },
+        include: ROLE_INCLUDE,
+      });
+
+      await this.auditService.log(actorId, 'ROLE_CREATED', {
+        resourceId: role.id,
+        name: role.name,
+        organizationId: role.organizationId,
+        permissions: dto.permissions,
+      }, 'role');
+
+      return this.toRoleInfo(role);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('A role with this name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 修改角色；系统角色只能调整权限，不能改名
+   * 指定 organizationId 时角色必须属于该组织
+   */
+  async updateRole(actorId: string, roleId: string, dto: UpdateRoleDto, organizationId?: string): Promise<RoleInfo> {
+    const role = await this.findRole(roleId, organizationId);
+
+    if (role.isSystem && dto.name && dto.name !== role.name) {
+      throw new ForbiddenError('System roles cannot be renamed');
+    }
+
+    if (dto.permissions) {
+      await this.assertValidPermissions(dto.permissions);
+      await this.assertCanGrant(actorId, dto.permissions, role.organizationId ?? undefined);
+    }
+
+    if (!role.organizationId && dto.name && dto.name !== role.name) {
+      await this.assertGlobalNameAvailable(dto.name);
+    }
+
+    const updated = await this.prisma.role.update({
+      where: { id: roleId },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        permissions: dto.permissions
+          ? { set: dto.permissions.map(key => ({ key })) }
+          : undefined,
+      },
+      include: ROLE_INCLUDE,
+    });
+
+    // 权限守卫按用户实时计算权限，清除缓存即可生效，无需让每个持有者重新登录
+    await this.permissionService.invalidate();
+
+    const previousPermissions = role.permissions.map(permission => permission.key);
+
+    await this.auditService.log(actorId, 'ROLE_UPDATED', {
+      resourceId: roleId,
+      previousPermissions,
+      permissions: dto.permissions,
+      name: dto.name,
+    }, 'role');
+
+    return this.toRoleInfo(updated);
+  }
+
+  async deleteRole(actorId: string, roleId: string, organizationId?: string): Promise<void> {
+    const role = await this.findRole(roleId, organizationId);
+
+    if (role.isSystem) {
+      throw new ForbiddenError('System roles cannot be deleted');
+    }
+
+    await this.prisma.role.delete({ where: { id: roleId } });
+    await this.permissionService.invalidate();
+
+    await this.auditService.log(actorId, 'ROLE_DELETED', {
+      resourceId: roleId,
+      name: role.name,
+    }, 'role');
+  }
+
+  /**
+   * 为用户分配自定义角色（系统角色通过 User.roles 管理）
+   * 操作者必须拥有该角色的全部权限
+   */
+  async assignRole(actorId: string, roleId: string, userId: string, organizationId?: string): Promise<void> {
+    const role = await this.findRole(roleId, organizationId);
+
+    if (role.isSystem) {
+      throw new ValidationError('System roles are granted through the user roles field', 'roleId');
+    }
+
+    await this.assertCanGrant(
+      actorId,
+      role.permissions.map(permission => permission.key),
+      role.organizationId ?? undefined,
+    );
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    await this.prisma.userRoleAssignment.upsert({
+      where: { userId_roleId: { userId, roleId } },
+      create: { userId, roleId, assignedById: actorId },
+      update: {},
+    });
+
+    await this.permissionService.invalidate();
+    await this.revokeTokens([userId]);
+
+    await this.auditService.log(actorId, 'ROLE_ASSIGNED', {
+      resourceId: userId,
+      roleId,
+      roleName: role.name,
+    }, 'user');
+  }
+
+  /**
+   * 校验一组自定义角色可由操作者分配（用于创建时直接附带角色的账户，如服务账户）
+   * 组织角色只能在指定该组织时分配
+   */
+  async assertCanAssign(actorId: string, roleIds: string[], organizationId?: string): Promise<void> {
+    const roles = await this.prisma.role.findMany({
+      where: { id: { in: roleIds } },
+      include: ROLE_INCLUDE,
+    });
+
+    if (roles.length !== roleIds.length || roles.some(role => role.isSystem)) {
+      throw new ValidationError('Unknown or system role', 'roleIds');
+    }
+
+    if (roles.some(role => role.organizationId && role.organizationId !== organizationId)) {
+      throw new ValidationError('Organization roles require their organization', 'roleIds');
+    }
+
+    for (const role of roles) {
+      await this.assertCanGrant(
+        actorId,
+        role.permissions.map(permission => permission.key),
+        role.organizationId ?? undefined,
+      );
+    }
+  }
+
+  async unassignRole(actorId: string, roleId: string, userId: string, organizationId?: string): Promise<void> {
+    if (organizationId) {
+      await this.findRole(roleId, organizationId);
+    }
+
+    const result = await this.prisma.userRoleAssignment.deleteMany({
+      where: { userId, roleId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundError('Role assignment');
+    }
+
+    await this.permissionService.invalidate();
+    await this.revokeTokens([userId]);
+
+    await this.auditService.log(actorId, 'ROLE_UNASSIGNED', {
+      resourceId: userId,
+      roleId,
+    }, 'user');
+  }
+
+  async listOrganizations() {
+    return this.prisma.organization.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async createOrganization(actorId: string, dto: CreateOrganizationDto) {
+    if (!/^[a-z0-9-]+$/.test(dto.slug)) {
+      throw new ValidationError('Slug may only contain lowercase letters, digits and hyphens', 'slug');
+    }
+
+    const existing = await this.prisma.organization.findUnique({ where: { slug: dto.slug } });
+    if (existing) {
+      throw new ConflictException('An organization with this slug already exists');
+    }
+
+    const organization = await this.prisma.organization.create({
+      data: { name: dto.name, slug: dto.slug },
+    });
+
+    await this.auditService.log(actorId, 'ORGANIZATION_CREATED', {
+      resourceId: organization.id,
+      slug: organization.slug,
+    }, 'organization');
+
+    return organization;
+  }
+
+  private async findRole(roleId: string, organizationId?: string): Promise<RoleWithPermissions> {
+    const role = await this.prisma.role.findUnique({
+      where: { id: roleId },
+      include: ROLE_INCLUDE,
+    });
+
+    // 组织管理接口只能操作本组织的角色
+    if (!role || (organizationId && role.organizationId !== organizationId)) {
+      throw new NotFoundError('Role');
+    }
+
+    return role;
+  }
+
+  /**
+   * 数据库唯一约束中 NULL 互不相等，全局角色重名须在此检查
+   */
+  private async assertGlobalNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.role.findFirst({
+      where: { organizationId: null, name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException('A role with this name already exists');
+    }
+  }
+
+  /**
+   * 防止越权授予：操作者在该范围内必须已拥有全部权限
+   */
+  private async assertCanGrant(actorId: string, permissions: string[], organizationId?: string): Promise<void> {
+    const granted = await this.permissionService.getUserPermissions(actorId, organizationId);
+    const missing = permissions.filter(permission => !granted.includes(permission));
+
+    if (missing.length > 0) {
+      throw new ForbiddenError(`Cannot grant permissions you do not have: ${missing.join(', ')}`);
+    }
+  }
+
+  private async revokeTokens(userIds: string[]): Promise<void> {
+    for (const userId of userIds) {
+      await this.tokenService.bumpTokenEpoch(userId);
+    }
+  }
+
+  private async assertValidPermissions(permissions: string[]): Promise<void> {
+    const known = await this.prisma.permission.findMany({
+      where: { key: { in: permissions } },
+      select: { key: true },
+    });
+
+    const knownKeys = new Set(known.map(permission => permission.key));
+    const unknown = permissions.filter(key => !knownKeys.has(key));
+
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown permissions: ${unknown.join(', ')}`, 'permissions');
+    }
+  }
+
+  private toRoleInfo(role: RoleWithPermissions): RoleInfo {
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description ?? undefined,
+      isSystem: role.isSystem,
+      organizationId: role.organizationId ?? undefined,
+      permissions: role.permissions.map(permission => permission.key),
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    };
+  }
+}
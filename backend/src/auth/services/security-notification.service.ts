@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import { PrismaService } from '../../database/database.module';
+
+@Injectable()
+export class SecurityNotificationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 向用户发送安全相关的站内通知
+   */
+  async notify(userId: string, event: string, title: string, message: string, data: Record<string, any> = {}): Promise<void> {
+    await this.prisma.notification.create({
+      data: {
+        userId,
+        type: NotificationType.SYSTEM,
+        title,
+        message,
+        data: {
+          category: 'security',
+          event,
+          ...data,
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { Test } from '@nestjs/testing';
+import { SessionService } from './session.service';
+import { PrismaService } from '../../database/database.module';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let prisma: { refreshToken: { findMany: jest.Mock; groupBy: jest.Mock; findFirst: jest.Mock } };
+
+  beforeEach(async () => {
+    prisma = {
+      refreshToken: {
+        findMany: jest.fn(),
+        groupBy: jest.fn(),
+        findFirst: jest.fn(),
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: {} },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(SessionService);
+  });
+
+  it('resolves every session start time in a single query', async () => {
+    const started = new Date('2026-01-01T00:00:00Z');
+    const rotated = new Date('2026-01-02T00:00:00Z');
+    prisma.refreshToken.findMany.mockResolvedValue([
+      { sessionId: 'a', lastUsedAt: rotated, createdAt: rotated },
+      { sessionId: 'a', lastUsedAt: started, createdAt: started },
+      { sessionId: 'b', lastUsedAt: rotated, createdAt: rotated },
+    ]);
+    prisma.refreshToken.groupBy.mockResolvedValue([
+      { sessionId: 'a', _min: { createdAt: started } },
+      { sessionId: 'b', _min: { createdAt: rotated } },
+    ]);
+
+    const sessions = await service.listSessions('user-1', 'b');
+
+    expect(prisma.refreshToken.groupBy).toHaveBeenCalledTimes(1);
+    expect(prisma.refreshToken.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sessionId: { in: ['a', 'b'] } },
+    }));
+    expect(prisma.refreshToken.findFirst).not.toHaveBeenCalled();
+    expect(sessions.map(session => [session.id, session.createdAt, session.current])).toEqual([
+      ['a', started, false],
+      ['b', rotated, true],
+    ]);
+  });
+});
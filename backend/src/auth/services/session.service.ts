@@ -0,0 +1,112 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../database/database.module';
+import { TokenService } from './token.service';
+import { AuditService } from './audit.service';
+import { ClientInfo, SessionInfo } from '../../../shared/types';
+
+@Injectable()
+export class SessionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * 列出用户当前有效的会话
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: {
+        userId,
+        isRevoked: false,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    const startedAt = await this.getSessionStartTimes([...new Set(tokens.map(token => token.sessionId))]);
+
+    // 同一会话只保留最近使用的令牌
+    const sessions = new Map<string, SessionInfo>();
+    for (const token of tokens) {
+      if (sessions.has(token.sessionId)) {
+        continue;
+      }
+
+      sessions.set(token.sessionId, {
+        id: token.sessionId,
+        deviceName: token.deviceName ?? undefined,
+        userAgent: token.userAgent ?? undefined,
+        ip: token.ip ?? undefined,
+        lastUsedAt: token.lastUsedAt,
+        createdAt: startedAt.get(token.sessionId) ?? token.createdAt,
+        current: token.sessionId === currentSessionId,
+        impersonated: !!token.impersonatorId,
+      });
+    }
+
+    return [...sessions.values()];
+  }
+
+  /**
+   * 撤销指定会话
+   */
+  async revokeSession(userId: string, sessionId: string, clientInfo?: ClientInfo): Promise<void> {
+    const revoked = await this.tokenService.revokeSession(userId, sessionId);
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.auditService.log(userId, 'SESSION_REVOKED', {
+      sessionId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  /**
+   * 撤销除当前会话外的所有会话
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string, clientInfo?: ClientInfo): Promise<number> {
+    const sessions = await this.prisma.refreshToken.findMany({
+      where: {
+        userId,
+        isRevoked: false,
+        sessionId: { not: currentSessionId },
+      },
+      select: { sessionId: true },
+      distinct: ['sessionId'],
+    });
+
+    for (const { sessionId } of sessions) {
+      await this.tokenService.revokeSession(userId, sessionId);
+    }
+
+    await this.auditService.log(userId, 'OTHER_SESSIONS_REVOKED', {
+      sessionId: currentSessionId,
+      revokedCount: sessions.length,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return sessions.length;
+  }
+
+  /**
+   * 会话的开始时间为首个令牌的创建时间（令牌轮换后仍保持不变），一次查询所有会话
+   */
+  private async getSessionStartTimes(sessionIds: string[]): Promise<Map<string, Date>> {
+    if (sessionIds.length === 0) {
+      return new Map();
+    }
+
+    const groups = await this.prisma.refreshToken.groupBy({
+      by: ['sessionId'],
+      where: { sessionId: { in: sessionIds } },
+      _min: { createdAt: true },
+    });
+
+    return new Map(groups.map(group => [group.sessionId, group._min.createdAt]));
+  }
+}
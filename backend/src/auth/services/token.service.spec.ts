@@ -0,0 +1,266 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TokenService } from './token.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { KeyRingService } from './key-ring.service';
+import { PermissionService } from './permission.service';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let store: Map<string, string>;
+  let redis: { get: jest.Mock; setex: jest.Mock; del: jest.Mock; checkRateLimit: jest.Mock };
+  let prisma: {
+    refreshToken: { create: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock };
+    user: { findUnique: jest.Mock; update: jest.Mock };
+  };
+  let keyRing: { sign: jest.Mock; verify: jest.Mock };
+
+  beforeEach(async () => {
+    store = new Map();
+    redis = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      setex: jest.fn(async (key: string, _ttl: number, value: string) => {
+        store.set(key, value);
+      }),
+      del: jest.fn(async (key: string) => {
+        store.delete(key);
+      }),
+      checkRateLimit: jest.fn().mockResolvedValue(true),
+    };
+    prisma = {
+      refreshToken: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ tokensValidAfter: null }),
+        update: jest.fn(),
+      },
+    };
+    keyRing = { sign: jest.fn().mockResolvedValue('signed'), verify: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        { provide: KeyRingService, useValue: keyRing },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: redis },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: SecurityNotificationService, useValue: { notify: jest.fn() } },
+        { provide: PermissionService, useValue: { getUserPermissions: jest.fn().mockResolvedValue([]) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(TokenService);
+  });
+
+  describe('revokeSession', () => {
+    it('blocks the access tokens of a session it revoked', async () => {
+      await expect(service.revokeSession('user-1', 'session-1')).resolves.toBe(true);
+      expect(store.get('revoked_session:session-1')).toBe('true');
+    });
+
+    it('does not touch sessions that belong to someone else', async () => {
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.revokeSession('user-2', 'session-1')).resolves.toBe(false);
+      expect(store.has('revoked_session:session-1')).toBe(false);
+    });
+  });
+
+  describe('refresh token rotation', () => {
+    const client = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' };
+    const successor = { accessToken: 'next-access', refreshToken: 'next-refresh', expiresIn: 900, tokenType: 'Bearer' };
+
+    beforeEach(() => {
+      keyRing.verify.mockResolvedValue({ sub: 'user-1', type: 'refresh', jti: 'refresh-1', sid: 'session-1' });
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        id: 'refresh-1',
+        userId: 'user-1',
+        sessionId: 'session-1',
+        deviceName: null,
+        impersonatorId: null,
+        userAgent: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: 'rotated',
+        createdAt: new Date(),
+      });
+    });
+
+    it('lets only one concurrent request claim the rotation', async () => {
+      await expect(service.claimRefreshTokenRotation('refresh-1', client)).resolves.toBe(true);
+
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.claimRefreshTokenRotation('refresh-1', client)).resolves.toBe(false);
+    });
+
+    it('hands the same client the successor that was already issued', async () => {
+      await service.claimRefreshTokenRotation('refresh-1', client);
+      await service.recordRotationSuccessor('refresh-1', successor, client);
+
+      const tokenData = await service.verifyRefreshToken('token', client);
+
+      expect(tokenData?.successor).toEqual(successor);
+      expect(store.has('revoked_session:session-1')).toBe(false);
+    });
+
+    it('rejects without revoking while the successor is still being issued', async () => {
+      await service.claimRefreshTokenRotation('refresh-1', client);
+
+      await expect(service.verifyRefreshToken('token', client)).resolves.toBeNull();
+      expect(store.has('revoked_session:session-1')).toBe(false);
+    });
+
+    it('treats a replay from another IP as token theft even with the same user agent', async () => {
+      await service.claimRefreshTokenRotation('refresh-1', client);
+      await service.recordRotationSuccessor('refresh-1', successor, client);
+
+      await expect(service.verifyRefreshToken('token', { ...client, ip: '198.51.100.1' })).resolves.toBeNull();
+      expect(store.get('revoked_session:session-1')).toBe('true');
+    });
+
+    it('treats a replay without client details as token theft', async () => {
+      await service.claimRefreshTokenRotation('refresh-1', {});
+      await service.recordRotationSuccessor('refresh-1', successor, {});
+
+      await expect(service.verifyRefreshToken('token', {})).resolves.toBeNull();
+      expect(store.get('revoked_session:session-1')).toBe('true');
+    });
+
+    it('treats a replay after the grace period as token theft', async () => {
+      await expect(service.verifyRefreshToken('token', client)).resolves.toBeNull();
+      expect(store.get('revoked_session:session-1')).toBe('true');
+    });
+  });
+
+  describe('token epoch', () => {
+    const user = { id: 'user-1', email: 'learner@example.com', roles: ['STUDENT'] } as any;
+    let now: number;
+
+    beforeEach(() => {
+      // 签名后的令牌即 payload 本身，便于按 jti 取回缓存
+      keyRing.sign.mockImplementation(async (_purpose: string, payload: object) => JSON.stringify(payload));
+      keyRing.verify.mockImplementation(async (_purpose: string, token: string) => JSON.parse(token));
+      now = Math.floor(Date.now() / 1000) * 1000 + 200;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('stops accepting access tokens issued before the epoch was bumped', async () => {
+      const { accessToken } = await service.generateTokenPair(user);
+      await expect(service.verifyAccessToken(accessToken)).resolves.toBeTruthy();
+
+      now += 300; // 同一秒内
+      await service.bumpTokenEpoch('user-1');
+
+      await expect(service.verifyAccessToken(accessToken)).resolves.toBeNull();
+    });
+
+    it('keeps accepting tokens issued later in the same second as the bump', async () => {
+      await service.bumpTokenEpoch('user-1');
+
+      now += 1;
+      const { accessToken } = await service.generateTokenPair(user);
+
+      await expect(service.verifyAccessToken(accessToken)).resolves.toBeTruthy();
+    });
+
+    it('reads the epoch from the database when it is not cached', async () => {
+      const { accessToken } = await service.generateTokenPair(user);
+      prisma.user.findUnique.mockResolvedValue({ tokensValidAfter: new Date(now + 1) });
+
+      await expect(service.verifyAccessToken(accessToken)).resolves.toBeNull();
+    });
+
+    it('rejects refresh tokens created before the epoch', async () => {
+      const { refreshToken } = await service.generateTokenPair(user);
+      const record = prisma.refreshToken.create.mock.calls[0][0].data;
+      prisma.refreshToken.findUnique.mockResolvedValue({ ...record, isRevoked: false });
+
+      await expect(service.verifyRefreshToken(refreshToken)).resolves.toBeTruthy();
+
+      now += 10;
+      await service.revokeAllUserTokens('user-1');
+
+      await expect(service.verifyRefreshToken(refreshToken)).resolves.toBeNull();
+    });
+  });
+
+  describe('login codes', () => {
+    let attempts: Map<string, number>;
+
+    beforeEach(() => {
+      attempts = new Map();
+      redis.checkRateLimit.mockImplementation(async (key: string, limit: number) => {
+        attempts.set(key, (attempts.get(key) ?? 0) + 1);
+        return attempts.get(key) <= limit;
+      });
+      redis.del.mockImplementation(async (key: string) => {
+        store.delete(key);
+        attempts.delete(key);
+      });
+    });
+
+    it('gives every new code a fresh set of attempts', async () => {
+      await service.generateLoginCode('user-1');
+      for (let i = 0; i < 5; i++) {
+        await service.verifyLoginCode('user-1', 'abcdef');
+      }
+
+      const code = await service.generateLoginCode('user-1');
+
+      await expect(service.verifyLoginCode('user-1', code)).resolves.toBe(true);
+    });
+
+    it('invalidates the code once its attempts are used up', async () => {
+      const code = await service.generateLoginCode('user-1');
+      for (let i = 0; i < 5; i++) {
+        await service.verifyLoginCode('user-1', 'abcdef');
+      }
+
+      await expect(service.verifyLoginCode('user-1', code)).resolves.toBe(false);
+    });
+
+    it('locks out codes after repeated failures, even across new codes', async () => {
+      for (let round = 0; round < 2; round++) {
+        await service.generateLoginCode('user-1');
+        for (let i = 0; i < 5; i++) {
+          await service.verifyLoginCode('user-1', 'abcdef');
+        }
+      }
+
+      const code = await service.generateLoginCode('user-1');
+
+      await expect(service.verifyLoginCode('user-1', code)).resolves.toBe(false);
+    });
+  });
+
+  it('records when a session is used, at most once per interval', async () => {
+    keyRing.verify.mockResolvedValue({ sub: 'user-1', jti: 'jti-1', sid: 'session-1', iat: Math.floor(Date.now() / 1000) });
+    store.set('access_token:jti-1', '{}');
+
+    await expect(service.verifyAccessToken('token')).resolves.toBeTruthy();
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', isRevoked: false },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+
+    prisma.refreshToken.updateMany.mockClear();
+    redis.checkRateLimit.mockResolvedValue(false);
+
+    await expect(service.verifyAccessToken('token')).resolves.toBeTruthy();
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,26 @@
 import { Injectable } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { JWTPayload } from 'jose';
 import { PrismaService } from '../../database/database.module';
 import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { KeyRingService } from './key-ring.service';
+import { PermissionService } from './permission.service';
 import { User } from '@prisma/client';
-import { AuthTokens, UnauthorizedError } from '../../../shared/types';
+import { AuthTokens, ClientInfo, UnauthorizedError } from '../../../shared/types';
 import { v4 as uuidv4 } from 'uuid';
 import * as crypto from 'crypto';
 
-interface JwtPayload {
+export interface JwtPayload extends JWTPayload {
   sub: string; // user id
   email: string;
   roles: string[];
   permissions?: string[];
   type?: string;
   jti?: string; // JWT ID
+  sid?: string; // session id
+  act?: { sub: string }; // 代入会话的实际操作者（RFC 8693 actor claim）
   iat?: number;
   exp?: number;
 }
@@ -24,35 +30,66 @@ interface TokenData {
   email?: string;
   type: string;
   jti?: string;
+  sessionId?: string;
+  deviceName?: string;
+  impersonatorId?: string;
+  successor?: AuthTokens; // 宽限期内重复提交已轮换的令牌时，返回已签发的后继令牌
+}
+
+// 刷新令牌轮换记录，宽限期内有效
+interface RefreshRotation {
+  ip?: string;
+  userAgent?: string;
+  tokens?: AuthTokens; // 后继令牌签发完成前为空
+}
+
+interface TokenPairOptions {
+  sessionId?: string; // 刷新时沿用原会话
+  clientInfo?: ClientInfo;
+  impersonatorId?: string; // 管理员代入：令牌同时携带操作者与被代入用户
 }
 
 @Injectable()
 export class TokenService {
   private readonly accessTokenExpiry: string;
   private readonly refreshTokenExpiry: string;
-  private readonly jwtSecret: string;
-  private readonly issuer: string;
-  private readonly audience: string;
+  private readonly refreshReuseGracePeriod: number;
+  private readonly magicLinkExpiry: string;
+  private readonly loginCodeTtl: number;
+  private readonly loginCodeMaxAttempts: number;
+  private readonly loginCodeLockoutThreshold: number;
+  private readonly loginCodeLockoutWindow: number;
+  private readonly sessionTouchInterval: number;
 
   constructor(
-    private readonly jwtService: JwtService,
+    private readonly keyRingService: KeyRingService,
     private readonly configService: ConfigService,
     private readonly prisma: PrismaService,
     private readonly redisService: RedisService,
+    private readonly auditService: AuditService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly permissionService: PermissionService,
   ) {
     this.accessTokenExpiry = this.configService.get<string>('jwt.accessTokenExpiry', '15m');
     this.refreshTokenExpiry = this.configService.get<string>('jwt.refreshTokenExpiry', '7d');
-    this.jwtSecret = this.configService.get<string>('jwt.secret');
-    this.issuer = this.configService.get<string>('jwt.issuer', 'enggamehub');
-    this.audience = this.configService.get<string>('jwt.audience', 'enggamehub-users');
+    this.refreshReuseGracePeriod = this.configService.get<number>('jwt.refreshReuseGracePeriod', 10);
+    this.magicLinkExpiry = this.configService.get<string>('passwordless.magicLinkExpiry', '15m');
+    this.loginCodeTtl = this.configService.get<number>('passwordless.codeTtl', 600);
+    this.loginCodeMaxAttempts = this.configService.get<number>('passwordless.codeMaxAttempts', 5);
+    this.loginCodeLockoutThreshold = this.configService.get<number>('passwordless.codeLockoutThreshold', 10);
+    this.loginCodeLockoutWindow = this.configService.get<number>('passwordless.codeLockoutWindow', 3600);
+    this.sessionTouchInterval = this.configService.get<number>('jwt.sessionTouchInterval', 60);
   }
 
   /**
    * 生成访问令牌和刷新令牌对
    */
-  async generateTokenPair(user: User): Promise<AuthTokens> {
+  async generateTokenPair(user: User, options: TokenPairOptions = {}): Promise<AuthTokens> {
     const jti = uuidv4();
+    const issuedAt = Date.now(); // 毫秒，用于与令牌纪元比较（JWT的iat只精确到秒）
+    const sessionId = options.sessionId || uuidv4();
     const permissions = await this.getUserPermissions(user);
+    const act = options.impersonatorId ? { sub: options.impersonatorId } : undefined;
 
     // JWT payload
     const payload: JwtPayload = {
@@ -61,30 +98,25 @@ export class TokenService {
       roles: user.roles,
       permissions,
       jti,
+      sid: sessionId,
+      act,
     };
 
     // 生成访问令牌
-    const accessToken = await this.jwtService.signAsync(payload, {
-      expiresIn: this.accessTokenExpiry,
-      issuer: this.issuer,
-      audience: this.audience,
-      jwtid: jti,
-    });
+    const accessToken = await this.keyRingService.sign('access', payload, this.accessTokenExpiry);
 
     // 生成刷新令牌
     const refreshTokenId = uuidv4();
-    const refreshToken = await this.jwtService.signAsync(
+    const refreshToken = await this.keyRingService.sign(
+      'refresh',
       {
         sub: user.id,
         type: 'refresh',
         jti: refreshTokenId,
+        sid: sessionId,
+        act,
       },
-      {
-        expiresIn: this.refreshTokenExpiry,
-        issuer: this.issuer,
-        audience: this.audience,
-        jwtid: refreshTokenId,
-      }
+      this.refreshTokenExpiry
     );
 
     // 计算过期时间
@@ -97,7 +129,13 @@ export class TokenService {
         id: refreshTokenId,
         token: refreshToken,
         userId: user.id,
-        expiresAt: new Date(Date.now() + refreshExpiresIn * 1000),
+        sessionId,
+        deviceName: options.clientInfo?.device,
+        userAgent: options.clientInfo?.userAgent,
+        ip: options.clientInfo?.ip,
+        impersonatorId: options.impersonatorId,
+        expiresAt: new Date(issuedAt + refreshExpiresIn * 1000),
+        createdAt: new Date(issuedAt),
       },
     });
 
@@ -110,6 +148,9 @@ export class TokenService {
         email: user.email,
         roles: user.roles,
         permissions,
+        sessionId,
+        impersonatorId: options.impersonatorId,
+        issuedAt,
       })
     );
 
@@ -126,11 +167,7 @@ export class TokenService {
    */
   async verifyAccessToken(token: string): Promise<JwtPayload | null> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
-        secret: this.jwtSecret,
-        issuer: this.issuer,
-        audience: this.audience,
-      });
+      const payload = await this.keyRingService.verify<JwtPayload>('access', token);
 
       // 检查令牌是否被撤销 (黑名单检查)
       const isRevoked = await this.isTokenRevoked(payload.jti);
@@ -138,6 +175,16 @@ export class TokenService {
         return null;
       }
 
+      // 检查所属会话是否已被撤销
+      if (payload.sid && await this.isSessionRevoked(payload.sid)) {
+        return null;
+      }
+
+      // 代入会话到期或被结束后立即失效
+      if (payload.act && !(await this.isImpersonationActive(payload.sid))) {
+        return null;
+      }
+
       // 检查Redis缓存中的令牌信息
       const cachedToken = await this.redisService.get(`access_token:${payload.jti}`);
       if (!cachedToken) {
@@ -145,6 +192,15 @@ export class TokenService {
         return null;
       }
 
+      // 检查用户令牌纪元：纪元之前签发的令牌全部失效（改密、封禁、角色/MFA变更等）
+      // 缓存中缺少签发时间时按iat所在秒的起点计算，宁可误拒也不放行
+      const { issuedAt } = JSON.parse(cachedToken);
+      if (await this.isBeforeTokenEpoch(payload.sub, issuedAt ?? (payload.iat ?? 0) * 1000)) {
+        return null;
+      }
+
+      await this.touchSession(payload.sid);
+
       return payload;
     } catch (error) {
       return null;
@@ -154,48 +210,104 @@ export class TokenService {
   /**
    * 验证刷新令牌
    */
-  async verifyRefreshToken(token: string): Promise<TokenData | null> {
+  async verifyRefreshToken(token: string, clientInfo?: ClientInfo): Promise<TokenData | null> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
-        secret: this.jwtSecret,
-        issuer: this.issuer,
-        audience: this.audience,
-      });
+      const payload = await this.keyRingService.verify<JwtPayload>('refresh', token);
 
       if (payload.type !== 'refresh') {
         return null;
       }
 
+      // 代入会话不能通过刷新延长
+      if (payload.act && !(await this.isImpersonationActive(payload.sid))) {
+        return null;
+      }
+
       // 检查数据库中的刷新令牌
       const refreshToken = await this.prisma.refreshToken.findUnique({
-        where: { 
-          id: payload.jti,
-          isRevoked: false,
-        },
+        where: { id: payload.jti },
       });
 
       if (!refreshToken || refreshToken.expiresAt < new Date()) {
         return null;
       }
 
+      if (await this.isBeforeTokenEpoch(payload.sub, refreshToken.createdAt.getTime())) {
+        return null;
+      }
+
+      let successor: AuthTokens | undefined;
+      if (refreshToken.isRevoked) {
+        // 已轮换的令牌被再次使用：宽限期内同一客户端的并发请求返回同一后继令牌，否则视为令牌泄露
+        if (refreshToken.revokedReason !== 'rotated') {
+          return null;
+        }
+
+        const rotation = await this.getReusableRotation(refreshToken.id, clientInfo);
+        if (!rotation) {
+          await this.handleRefreshTokenReuse(refreshToken, clientInfo);
+          return null;
+        }
+
+        // 后继令牌尚未签发完成或会话已被撤销时直接拒绝，不分叉令牌家族
+        if (!rotation.tokens || await this.isSessionRevoked(refreshToken.sessionId)) {
+          return null;
+        }
+        successor = rotation.tokens;
+      }
+
       return {
         userId: payload.sub,
         email: payload.email,
         type: 'refresh',
         jti: payload.jti,
+        sessionId: refreshToken.sessionId,
+        deviceName: refreshToken.deviceName ?? undefined,
+        impersonatorId: refreshToken.impersonatorId ?? undefined,
+        successor,
       };
     } catch (error) {
       return null;
     }
   }
 
+  /**
+   * 将刷新令牌标记为已轮换；并发请求中只有一个能成功，其余应返回后继令牌或拒绝
+   */
+  async claimRefreshTokenRotation(refreshTokenId: string, clientInfo?: ClientInfo): Promise<boolean> {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: {
+        id: refreshTokenId,
+        isRevoked: false,
+      },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: 'rotated',
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await this.saveRotation(refreshTokenId, { ip: clientInfo?.ip, userAgent: clientInfo?.userAgent });
+    return true;
+  }
+
+  /**
+   * 记录轮换后签发的令牌对，供宽限期内同一客户端的并发刷新复用
+   */
+  async recordRotationSuccessor(refreshTokenId: string, tokens: AuthTokens, clientInfo?: ClientInfo): Promise<void> {
+    await this.saveRotation(refreshTokenId, { ip: clientInfo?.ip, userAgent: clientInfo?.userAgent, tokens });
+  }
+
   /**
    * 撤销刷新令牌
    */
-  async revokeRefreshToken(token: string): Promise<void> {
+  async revokeRefreshToken(token: string, reason: string = 'revoked'): Promise<void> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
-        secret: this.jwtSecret,
+      const payload = await this.keyRingService.verify<JwtPayload>('refresh', token, {
         ignoreExpiration: true, // 允许过期的令牌被撤销
       });
 
@@ -205,7 +317,11 @@ export class TokenService {
             id: payload.jti,
             isRevoked: false,
           },
-          data: { isRevoked: true },
+          data: {
+            isRevoked: true,
+            revokedAt: new Date(),
+            revokedReason: reason,
+          },
         });
       }
     } catch (error) {
@@ -213,6 +329,153 @@ export class TokenService {
     }
   }
 
+  /**
+   * 解析刷新令牌所属会话（允许已过期的令牌）
+   */
+  async getSessionIdFromRefreshToken(token: string): Promise<string | null> {
+    try {
+      const payload = await this.keyRingService.verify<JwtPayload>('refresh', token, {
+        ignoreExpiration: true,
+      });
+
+      const refreshToken = await this.prisma.refreshToken.findUnique({
+        where: { id: payload.jti },
+        select: { sessionId: true },
+      });
+
+      return refreshToken?.sessionId ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 撤销单个会话（刷新令牌及其已签发的访问令牌）
+   */
+  async revokeSession(userId: string, sessionId: string, reason: string = 'session_revoked'): Promise<boolean> {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: {
+        userId,
+        sessionId,
+        isRevoked: false,
+      },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await this.redisService.setex(
+      `revoked_session:${sessionId}`,
+      this.parseExpiryToSeconds(this.accessTokenExpiry),
+      'true'
+    );
+
+    return true;
+  }
+
+  private async isSessionRevoked(sessionId: string): Promise<boolean> {
+    const isRevoked = await this.redisService.get(`revoked_session:${sessionId}`);
+    return isRevoked === 'true';
+  }
+
+  /**
+   * 记录会话最近使用时间；同一会话在节流间隔内只写一次
+   */
+  private async touchSession(sessionId?: string): Promise<void> {
+    if (!sessionId) {
+      return;
+    }
+
+    const shouldRecord = await this.redisService.checkRateLimit(
+      `session_touch:${sessionId}`,
+      1,
+      this.sessionTouchInterval,
+    );
+    if (!shouldRecord) {
+      return;
+    }
+
+    await this.prisma.refreshToken.updateMany({
+      where: { sessionId, isRevoked: false },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  /**
+   * 代入会话上下文由 ImpersonationService 写入，过期即视为结束
+   */
+  private async isImpersonationActive(sessionId?: string): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    return !!(await this.redisService.get(`impersonation:${sessionId}`));
+  }
+
+  private async saveRotation(refreshTokenId: string, rotation: RefreshRotation): Promise<void> {
+    await this.redisService.setex(
+      `refresh_rotation:${refreshTokenId}`,
+      this.refreshReuseGracePeriod,
+      JSON.stringify(rotation),
+    );
+  }
+
+  /**
+   * 宽限期内（轮换记录未过期）且与轮换请求来自同一IP和客户端时，返回轮换记录
+   */
+  private async getReusableRotation(refreshTokenId: string, clientInfo?: ClientInfo): Promise<RefreshRotation | null> {
+    if (!clientInfo?.ip || !clientInfo?.userAgent) {
+      return null;
+    }
+
+    const cached = await this.redisService.get(`refresh_rotation:${refreshTokenId}`);
+    if (!cached) {
+      return null;
+    }
+
+    const rotation: RefreshRotation = JSON.parse(cached);
+    if (rotation.ip !== clientInfo.ip || rotation.userAgent !== clientInfo.userAgent) {
+      return null;
+    }
+
+    return rotation;
+  }
+
+  /**
+   * 检测到刷新令牌重用：撤销整个令牌家族并通知用户
+   */
+  private async handleRefreshTokenReuse(
+    refreshToken: { id: string; userId: string; sessionId: string; deviceName: string | null },
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    await this.revokeSession(refreshToken.userId, refreshToken.sessionId, 'reuse_detected');
+
+    await this.auditService.log(refreshToken.userId, 'REFRESH_TOKEN_REUSE_DETECTED', {
+      sessionId: refreshToken.sessionId,
+      refreshTokenId: refreshToken.id,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    await this.securityNotificationService.notify(
+      refreshToken.userId,
+      'refresh_token_reuse',
+      'Suspicious sign-in activity',
+      `A previously used sign-in token was presented again${refreshToken.deviceName ? ` for "${refreshToken.deviceName}"` : ''}. ` +
+        'We signed that device out to protect your account. If this was not you, please change your password.',
+      {
+        sessionId: refreshToken.sessionId,
+        ip: clientInfo?.ip,
+      },
+    );
+  }
+
   /**
    * 撤销用户所有刷新令牌
    */
@@ -223,11 +486,15 @@ export class TokenService {
         userId,
         isRevoked: false,
       },
-      data: { isRevoked: true },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: 'revoke_all',
+      },
     });
 
-    // 将用户加入访问令牌黑名单
-    await this.addUserToBlacklist(userId);
+    // 推进令牌纪元，使已签发的访问令牌立即失效
+    await this.bumpTokenEpoch(userId);
   }
 
   /**
@@ -241,11 +508,7 @@ export class TokenService {
       jti: uuidv4(),
     };
 
-    const token = await this.jwtService.signAsync(payload, {
-      expiresIn: '24h', // 24小时过期
-      issuer: this.issuer,
-      audience: this.audience,
-    });
+    const token = await this.keyRingService.sign('email_verification', payload, '24h'); // 24小时过期
 
     // 缓存验证令牌
     await this.redisService.setex(
@@ -262,11 +525,7 @@ export class TokenService {
    */
   async verifyEmailToken(token: string): Promise<TokenData | null> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
-        secret: this.jwtSecret,
-        issuer: this.issuer,
-        audience: this.audience,
-      });
+      const payload = await this.keyRingService.verify<JwtPayload>('email_verification', token);
 
       if (payload.type !== 'email_verification') {
         return null;
@@ -302,11 +561,7 @@ export class TokenService {
       jti: uuidv4(),
     };
 
-    const token = await this.jwtService.signAsync(payload, {
-      expiresIn: '1h', // 1小时过期
-      issuer: this.issuer,
-      audience: this.audience,
-    });
+    const token = await this.keyRingService.sign('password_reset', payload, '1h'); // 1小时过期
 
     // 缓存重置令牌（覆盖之前的令牌）
     await this.redisService.setex(
@@ -323,11 +578,7 @@ export class TokenService {
    */
   async verifyPasswordResetToken(token: string): Promise<TokenData | null> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
-        secret: this.jwtSecret,
-        issuer: this.issuer,
-        audience: this.audience,
-      });
+      const payload = await this.keyRingService.verify<JwtPayload>('password_reset', token);
 
       if (payload.type !== 'password_reset') {
         return null;
@@ -352,6 +603,128 @@ export class TokenService {
     }
   }
 
+  /**
+   * 生成无密码登录链接令牌
+   */
+  async generateMagicLinkToken(userId: string, email: string): Promise<string> {
+    const payload = {
+      sub: userId,
+      email,
+      type: 'magic_link',
+      jti: uuidv4(),
+    };
+
+    const token = await this.keyRingService.sign('magic_link', payload, this.magicLinkExpiry);
+
+    // 缓存登录令牌（覆盖之前的令牌）
+    await this.redisService.setex(
+      `magic_link:${userId}`,
+      this.parseExpiryToSeconds(this.magicLinkExpiry),
+      token
+    );
+
+    return token;
+  }
+
+  /**
+   * 验证无密码登录链接令牌（一次性）
+   */
+  async verifyMagicLinkToken(token: string): Promise<TokenData | null> {
+    try {
+      const payload = await this.keyRingService.verify<JwtPayload>('magic_link', token);
+
+      if (payload.type !== 'magic_link') {
+        return null;
+      }
+
+      // 检查缓存中的令牌
+      const cachedToken = await this.redisService.get(`magic_link:${payload.sub}`);
+      if (cachedToken !== token) {
+        return null;
+      }
+
+      // 删除已使用的令牌
+      await this.redisService.del(`magic_link:${payload.sub}`);
+
+      return {
+        userId: payload.sub,
+        email: payload.email,
+        type: 'magic_link',
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 生成6位邮箱登录验证码，仅缓存其哈希
+   */
+  async generateLoginCode(userId: string): Promise<string> {
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    await this.redisService.setex(`login_code:${userId}`, this.loginCodeTtl, this.hashLoginCode(userId, code));
+
+    // 单码尝试次数随新验证码重新计数，跨验证码的累计失败次数不受影响
+    await this.redisService.del(`login_code_attempts:${userId}`);
+
+    return code;
+  }
+
+  /**
+   * 验证邮箱登录验证码（一次性，限制尝试次数，累计失败过多时锁定）
+   */
+  async verifyLoginCode(userId: string, code: string): Promise<boolean> {
+    // 累计失败达到阈值后锁定，反复申请新验证码无法绕过
+    const failures = parseInt((await this.redisService.get(`login_code_failures:${userId}`)) ?? '0', 10);
+    if (failures >= this.loginCodeLockoutThreshold) {
+      await this.redisService.del(`login_code:${userId}`);
+      return false;
+    }
+
+    const canAttempt = await this.redisService.checkRateLimit(
+      `login_code_attempts:${userId}`,
+      this.loginCodeMaxAttempts,
+      this.loginCodeTtl
+    );
+    if (!canAttempt) {
+      // 尝试次数用尽，作废当前验证码
+      await this.redisService.del(`login_code:${userId}`);
+      return false;
+    }
+
+    const cachedHash = await this.redisService.get(`login_code:${userId}`);
+    if (!cachedHash || !/^\d{6}$/.test(code)) {
+      await this.recordLoginCodeFailure(userId, failures);
+      return false;
+    }
+
+    const expected = Buffer.from(cachedHash, 'hex');
+    const actual = Buffer.from(this.hashLoginCode(userId, code), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      await this.recordLoginCodeFailure(userId, failures);
+      return false;
+    }
+
+    // 删除已使用的验证码
+    await this.redisService.del(`login_code:${userId}`);
+    await this.redisService.del(`login_code_attempts:${userId}`);
+    await this.redisService.del(`login_code_failures:${userId}`);
+
+    return true;
+  }
+
+  private hashLoginCode(userId: string, code: string): string {
+    return crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+  }
+
+  private async recordLoginCodeFailure(userId: string, previousFailures: number): Promise<void> {
+    await this.redisService.setex(
+      `login_code_failures:${userId}`,
+      this.loginCodeLockoutWindow,
+      String(previousFailures + 1),
+    );
+  }
+
   /**
    * 检查令牌是否被撤销
    */
@@ -369,48 +742,58 @@ export class TokenService {
   }
 
   /**
-   * 将用户加入黑名单（撤销所有访问令牌）
+   * 推进用户令牌纪元：此刻之前签发的所有令牌失效
+   * 纪元持久化在数据库中，Redis仅作缓存
+   */
+  async bumpTokenEpoch(userId: string): Promise<void> {
+    // 纪元精确到毫秒，与令牌的签发时间比较，同一秒内纪元之后签发的新令牌仍然有效
+    const epoch = Date.now();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { tokensValidAfter: new Date(epoch) },
+    });
+
+    await this.redisService.setex(
+      `token_epoch_ms:${userId}`,
+      this.parseExpiryToSeconds(this.accessTokenExpiry),
+      String(epoch)
+    );
+  }
+
+  /**
+   * 令牌签发时间（毫秒）是否早于用户令牌纪元
    */
-  private async addUserToBlacklist(userId: string): Promise<void> {
-    const blacklistKey = `user_blacklist:${userId}`;
-    await this.redisService.setex(blacklistKey, 86400, 'true'); // 24小时黑名单
+  private async isBeforeTokenEpoch(userId: string, issuedAt: number): Promise<boolean> {
+    return issuedAt < (await this.getTokenEpoch(userId));
   }
 
   /**
-   * 获取用户权限
+   * 获取用户令牌纪元（毫秒），优先读取缓存
    */
-  private async getUserPermissions(user: User): Promise<string[]> {
-    const permissions: string[] = [];
-
-    // 基于角色的权限映射
-    if (user.roles.includes('ADMIN')) {
-      permissions.push(
-        'users:read', 'users:write', 'users:delete',
-        'questions:read', 'questions:write', 'questions:delete', 'questions:review',
-        'games:read', 'games:write', 'games:moderate',
-        'analytics:read', 'analytics:write',
-        'system:read', 'system:write'
-      );
+  private async getTokenEpoch(userId: string): Promise<number> {
+    const cacheKey = `token_epoch_ms:${userId}`;
+    const cached = await this.redisService.get(cacheKey);
+    if (cached !== null && cached !== undefined) {
+      return parseInt(cached, 10) || 0;
     }
 
-    if (user.roles.includes('TEACHER')) {
-      permissions.push(
-        'users:read',
-        'questions:read', 'questions:write', 'questions:review',
-        'games:read', 'games:moderate',
-        'analytics:read'
-      );
-    }
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { tokensValidAfter: true },
+    });
 
-    if (user.roles.includes('STUDENT')) {
-      permissions.push(
-        'questions:read',
-        'games:read', 'games:join',
-        'learning:read', 'learning:write'
-      );
-    }
+    const epoch = user?.tokensValidAfter ? user.tokensValidAfter.getTime() : 0;
+    await this.redisService.setex(cacheKey, this.parseExpiryToSeconds(this.accessTokenExpiry), String(epoch));
+
+    return epoch;
+  }
 
-    return [...new Set(permissions)]; // 去重
+  /**
+   * 获取用户权限（签发时快照，路由鉴权以 PermissionsGuard 实时解析为准）
+   */
+  private async getUserPermissions(user: User): Promise<string[]> {
+    return this.permissionService.getUserPermissions(user.id);
   }
 
   /**
@@ -0,0 +1,45 @@
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
+
+/**
+ * 平台认证器录制的断言（rpId localhost，origin http://localhost:3000，签名计数 1）
+ */
+
+export const CREDENTIAL_ID = 'bzKbvOotHCudMIXEvbfVSQ';
+
+// COSE 格式的 ES256 公钥
+export const CREDENTIAL_PUBLIC_KEY = Buffer.from(
+  'pQECAyYgASFYIEGtugE/uvxJLP1mhrI9xyCTV8FbmDCSPC+a+DxMszu9IlggDR7Qwg3Opmk07DYLxKg16qJC0V/vt1Y6rUUnT8fzHlA=',
+  'base64',
+);
+
+export const CHALLENGE = 'zhyqiK0sCBcVG0Fg0knnu2GlOc4sgZsB-5OwIT-uaqE';
+
+// flags 0x05：用户在场 + 用户已验证
+export const USER_VERIFIED_ASSERTION: AuthenticationResponseJSON = {
+  id: CREDENTIAL_ID,
+  rawId: CREDENTIAL_ID,
+  type: 'public-key',
+  clientExtensionResults: {},
+  authenticatorAttachment: 'platform',
+  response: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiemh5cWlLMHNDQmNWRzBGZzBrbm51MkdsT2M0c2dac0ItNU93SVQtdWFxRSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAAAQ',
+    signature: 'MEYCIQDsVqZSQc20kIBDFnWyjoPxhLaq786wC3iEYWTmfYmKuAIhAMlG68fbVvv5zsC9WzZzN19DLvs89gypZB3z1wAzHbX5',
+  },
+};
+
+// flags 0x01：仅用户在场
+export const USER_PRESENT_ASSERTION: AuthenticationResponseJSON = {
+  id: CREDENTIAL_ID,
+  rawId: CREDENTIAL_ID,
+  type: 'public-key',
+  clientExtensionResults: {},
+  authenticatorAttachment: 'platform',
+  response: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiemh5cWlLMHNDQmNWRzBGZzBrbm51MkdsT2M0c2dac0ItNU93SVQtdWFxRSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MBAAAAAQ',
+    signature: 'MEYCIQDP47Rh8g1Y5L3Hv8tv7NfJG5cV_qXLT10A858f-DygGQIhAKwMkSadCCP7M05UIb4inkhIhdCsoWtksDezm5Tj2Ze6',
+  },
+};
@@ -0,0 +1,150 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { verifyRegistrationResponse } from '@simplewebauthn/server';
+import type { RegistrationResponseJSON } from '@simplewebauthn/types';
+import { WebAuthnService } from './webauthn.service';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ReauthenticationRequiredError } from '../../../shared/types';
+import {
+  CHALLENGE,
+  CREDENTIAL_ID,
+  CREDENTIAL_PUBLIC_KEY,
+  USER_PRESENT_ASSERTION,
+  USER_VERIFIED_ASSERTION,
+} from './webauthn.fixtures';
+
+jest.mock('../../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+jest.mock('@simplewebauthn/server', () => ({
+  ...jest.requireActual('@simplewebauthn/server'),
+  verifyRegistrationResponse: jest.fn(),
+}));
+
+const REGISTRATION_RESPONSE = {
+  id: 'new-credential',
+  rawId: 'new-credential',
+  type: 'public-key',
+  response: { clientDataJSON: '', attestationObject: '', transports: ['internal'] },
+  clientExtensionResults: {},
+} as RegistrationResponseJSON;
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    webAuthnCredential: { findUnique: jest.Mock; update: jest.Mock; create: jest.Mock };
+  };
+  let auditService: { log: jest.Mock };
+  let reauthenticationService: { assertRecentlyAuthenticated: jest.Mock; clear: jest.Mock };
+  let securityNotificationService: { notify: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      user: { findUnique: jest.fn() },
+      webAuthnCredential: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'credential-1',
+          userId: 'user-1',
+          credentialId: CREDENTIAL_ID,
+          publicKey: CREDENTIAL_PUBLIC_KEY,
+          counter: BigInt(0),
+          transports: ['internal'],
+        }),
+        update: jest.fn(),
+        create: jest.fn().mockImplementation(async ({ data }) => ({ id: 'credential-2', createdAt: new Date(), ...data })),
+      },
+    };
+    auditService = { log: jest.fn() };
+    reauthenticationService = { assertRecentlyAuthenticated: jest.fn(), clear: jest.fn() };
+    securityNotificationService = { notify: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(JSON.stringify({ challenge: CHALLENGE })),
+            del: jest.fn(),
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+        { provide: ReauthenticationService, useValue: reauthenticationService },
+        { provide: SecurityNotificationService, useValue: securityNotificationService },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(WebAuthnService);
+  });
+
+  it('reports user verification from the authenticator flags', async () => {
+    await expect(service.verifyAuthentication('challenge-1', USER_VERIFIED_ASSERTION)).resolves.toEqual({
+      userId: 'user-1',
+      userVerified: true,
+    });
+    expect(prisma.webAuthnCredential.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ counter: BigInt(1) }),
+    }));
+  });
+
+  it('accepts a presence-only assertion without marking it as user-verified', async () => {
+    await expect(service.verifyAuthentication('challenge-1', USER_PRESENT_ASSERTION)).resolves.toEqual({
+      userId: 'user-1',
+      userVerified: false,
+    });
+  });
+
+  it('rejects an assertion with a tampered signature', async () => {
+    const tampered = {
+      ...USER_VERIFIED_ASSERTION,
+      response: { ...USER_VERIFIED_ASSERTION.response, signature: USER_PRESENT_ASSERTION.response.signature },
+    };
+
+    await expect(service.verifyAuthentication('challenge-1', tampered)).rejects.toThrow('Passkey verification failed');
+    expect(auditService.log).toHaveBeenCalledWith('user-1', 'PASSKEY_AUTH_FAILED', expect.anything());
+    expect(prisma.webAuthnCredential.update).not.toHaveBeenCalled();
+  });
+
+  describe('registration', () => {
+    it('requires recent reauthentication before issuing registration options', async () => {
+      reauthenticationService.assertRecentlyAuthenticated.mockRejectedValue(new ReauthenticationRequiredError());
+
+      await expect(service.generateRegistrationOptions('user-1', 'session-1')).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('requires recent reauthentication before saving a passkey', async () => {
+      reauthenticationService.assertRecentlyAuthenticated.mockRejectedValue(new ReauthenticationRequiredError());
+
+      await expect(service.verifyRegistration('user-1', 'session-1', REGISTRATION_RESPONSE))
+        .rejects.toBeInstanceOf(ReauthenticationRequiredError);
+      expect(prisma.webAuthnCredential.create).not.toHaveBeenCalled();
+    });
+
+    it('consumes the reauthentication and notifies the user when a passkey is added', async () => {
+      (verifyRegistrationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credentialID: new Uint8Array([1, 2, 3]),
+          credentialPublicKey: new Uint8Array([4, 5, 6]),
+          counter: 0,
+          credentialDeviceType: 'multiDevice',
+          credentialBackedUp: true,
+        },
+      });
+
+      await service.verifyRegistration('user-1', 'session-1', REGISTRATION_RESPONSE, 'Laptop');
+
+      expect(prisma.webAuthnCredential.create).toHaveBeenCalled();
+      expect(reauthenticationService.clear).toHaveBeenCalledWith('user-1', 'session-1');
+      expect(securityNotificationService.notify).toHaveBeenCalledWith(
+        'user-1', 'PASSKEY_REGISTERED', 'New passkey added', expect.stringContaining('Laptop'), expect.any(Object),
+      );
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  UserVerificationRequirement,
+} from '@simplewebauthn/types';
+import { PrismaService } from '../../database/database.module';
+import { RedisService } from '../../redis/redis.service';
+import { AuditService } from './audit.service';
+import { ReauthenticationService } from './reauthentication.service';
+import { SecurityNotificationService } from './security-notification.service';
+import { ClientInfo, PasskeyChallenge, PasskeyInfo, UnauthorizedError } from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface AuthenticationChallenge {
+  challenge: string;
+  userId?: string; // 为空表示可发现凭据（无用户名登录）
+}
+
+export interface PasskeyAssertion {
+  userId: string;
+  userVerified: boolean; // 认证器是否验证了用户（生物识别/PIN），否则仅证明持有设备
+}
+
+@Injectable()
+export class WebAuthnService {
+  private readonly rpName: string;
+  private readonly rpId: string;
+  private readonly origins: string[];
+  private readonly challengeTtl: number;
+  private readonly userVerification: UserVerificationRequirement;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly auditService: AuditService,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly securityNotificationService: SecurityNotificationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.rpName = this.configService.get<string>('webauthn.rpName', 'EngGameHub');
+    this.rpId = this.configService.get<string>('webauthn.rpId', 'localhost');
+    this.origins = this.configService.get<string[]>('webauthn.origins', ['http://localhost:3000']);
+    this.challengeTtl = this.configService.get<number>('webauthn.challengeTtl', 300);
+    this.userVerification = this.configService.get<UserVerificationRequirement>('webauthn.userVerification', 'preferred');
+  }
+
+  /**
+   * 生成通行密钥注册选项
+   * 通行密钥登录可跳过密码与MFA，注册前需近期重新验证，防止被盗会话留下长期登录方式
+   */
+  async generateRegistrationOptions(userId: string, sessionId: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { webAuthnCredentials: true },
+    });
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: this.rpName,
+      rpID: this.rpId,
+      userID: user.uuid,
+      userName: user.email,
+      userDisplayName: user.nickname || user.email,
+      attestationType: 'none',
+      // 避免同一个认证器重复注册
+      excludeCredentials: user.webAuthnCredentials.map(credential => ({
+        id: isoBase64URL.toBuffer(credential.credentialId),
+        type: 'public-key',
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'required', // 可发现凭据，支持无用户名登录
+        userVerification: this.userVerification,
+      },
+    });
+
+    await this.redisService.setex(`webauthn_registration:${userId}`, this.challengeTtl, options.challenge);
+
+    return options;
+  }
+
+  /**
+   * 验证注册响应并保存凭据，完成后作废重新验证并通知用户
+   */
+  async verifyRegistration(
+    userId: string,
+    sessionId: string,
+    response: RegistrationResponseJSON,
+    name?: string,
+    clientInfo?: ClientInfo,
+  ): Promise<PasskeyInfo> {
+    await this.reauthenticationService.assertRecentlyAuthenticated(userId, sessionId);
+
+    const challengeKey = `webauthn_registration:${userId}`;
+    const expectedChallenge = await this.redisService.get(challengeKey);
+    if (!expectedChallenge) {
+      throw new BadRequestException('Registration challenge expired. Please try again.');
+    }
+
+    // 挑战一次性使用
+    await this.redisService.del(challengeKey);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpId,
+        requireUserVerification: this.userVerification === 'required',
+      });
+    } catch (error) {
+      await this.auditService.log(userId, 'PASSKEY_REGISTER_FAILED', {
+        reason: error.message,
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new BadRequestException('Passkey registration could not be verified');
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      throw new BadRequestException('Passkey registration could not be verified');
+    }
+
+    const { credentialID, credentialPublicKey, counter, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const credential = await this.prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        credentialId: isoBase64URL.fromBuffer(credentialID),
+        publicKey: Buffer.from(credentialPublicKey),
+        counter: BigInt(counter),
+        transports: response.response.transports ?? [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name: name?.trim() || null,
+      },
+    });
+
+    await this.reauthenticationService.clear(userId, sessionId);
+
+    await this.securityNotificationService.notify(
+      userId,
+      'PASSKEY_REGISTERED',
+      'New passkey added',
+      `A passkey${credential.name ? ` named "${credential.name}"` : ''} was added to your account and can be used to sign in.`,
+      { credentialId: credential.id, ip: clientInfo?.ip },
+    );
+
+    await this.auditService.log(userId, 'PASSKEY_REGISTERED', {
+      resourceId: credential.id,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+
+    return this.toPasskeyInfo(credential);
+  }
+
+  /**
+   * 生成认证选项；指定userId时仅允许该用户的凭据（用于MFA步骤）
+   */
+  async generateAuthenticationOptions(
+    userId?: string,
+  ): Promise<PasskeyChallenge<PublicKeyCredentialRequestOptionsJSON>> {
+    let allowCredentials;
+
+    if (userId) {
+      const credentials = await this.prisma.webAuthnCredential.findMany({ where: { userId } });
+      if (credentials.length === 0) {
+        throw new BadRequestException('No passkeys registered');
+      }
+
+      allowCredentials = credentials.map(credential => ({
+        id: isoBase64URL.toBuffer(credential.credentialId),
+        type: 'public-key' as const,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      }));
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.rpId,
+      allowCredentials,
+      userVerification: this.userVerification,
+    });
+
+    const challengeId = uuidv4();
+    const challengeData: AuthenticationChallenge = { challenge: options.challenge, userId };
+    await this.redisService.setex(
+      `webauthn_authentication:${challengeId}`,
+      this.challengeTtl,
+      JSON.stringify(challengeData),
+    );
+
+    return { challengeId, options };
+  }
+
+  /**
+   * 验证认证响应，返回凭据所属用户ID及是否完成了用户验证
+   */
+  async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    clientInfo?: ClientInfo,
+  ): Promise<PasskeyAssertion> {
+    const challengeKey = `webauthn_authentication:${challengeId}`;
+    const cached = await this.redisService.get(challengeKey);
+    if (!cached) {
+      throw new UnauthorizedError('Authentication challenge expired');
+    }
+
+    await this.redisService.del(challengeKey);
+    const challengeData: AuthenticationChallenge = JSON.parse(cached);
+
+    const credential = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: response.id },
+    });
+    if (!credential || (challengeData.userId && credential.userId !== challengeData.userId)) {
+      throw new UnauthorizedError('Unknown passkey');
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challengeData.challenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpId,
+        authenticator: {
+          credentialID: isoBase64URL.toBuffer(credential.credentialId),
+          credentialPublicKey: new Uint8Array(credential.publicKey),
+          counter: Number(credential.counter),
+          transports: credential.transports as AuthenticatorTransportFuture[],
+        },
+        requireUserVerification: this.userVerification === 'required',
+      });
+    } catch (error) {
+      verification = { verified: false };
+    }
+
+    if (!verification.verified) {
+      await this.auditService.log(credential.userId, 'PASSKEY_AUTH_FAILED', {
+        resourceId: credential.id,
+        ip: clientInfo?.ip,
+        userAgent: clientInfo?.userAgent,
+      });
+      throw new UnauthorizedError('Passkey verification failed');
+    }
+
+    await this.prisma.webAuthnCredential.update({
+      where: { id: credential.id },
+      data: {
+        counter: BigInt(verification.authenticationInfo.newCounter),
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return {
+      userId: credential.userId,
+      userVerified: verification.authenticationInfo.userVerified === true,
+    };
+  }
+
+  /**
+   * 用户是否已注册通行密钥
+   */
+  async hasPasskeys(userId: string): Promise<boolean> {
+    const count = await this.prisma.webAuthnCredential.count({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * 列出用户的通行密钥
+   */
+  async listCredentials(userId: string): Promise<PasskeyInfo[]> {
+    const credentials = await this.prisma.webAuthnCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return credentials.map(credential => this.toPasskeyInfo(credential));
+  }
+
+  /**
+   * 删除通行密钥
+   */
+  async removeCredential(userId: string, credentialId: string, clientInfo?: ClientInfo): Promise<void> {
+    const result = await this.prisma.webAuthnCredential.deleteMany({
+      where: { id: credentialId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    await this.auditService.log(userId, 'PASSKEY_REMOVED', {
+      resourceId: credentialId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    });
+  }
+
+  private toPasskeyInfo(credential: {
+    id: string;
+    name: string | null;
+    deviceType: string;
+    backedUp: boolean;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+  }): PasskeyInfo {
+    return {
+      id: credential.id,
+      name: credential.name ?? undefined,
+      deviceType: credential.deviceType,
+      backedUp: credential.backedUp,
+      lastUsedAt: credential.lastUsedAt ?? undefined,
+      createdAt: credential.createdAt,
+    };
+  }
+}
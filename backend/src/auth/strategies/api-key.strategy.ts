@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { ApiKeyService, ApiKeyPrincipal } from '../services/api-key.service';
+import { UnauthorizedError } from '../../../shared/types';
+
+/**
+ * API密钥认证：Authorization: ApiKey <key> 或 X-API-Key 请求头
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private readonly apiKeyService: ApiKeyService) {
+    super();
+  }
+
+  async validate(request: Request): Promise<ApiKeyPrincipal> {
+    const rawKey = this.extractKey(request);
+    if (!rawKey) {
+      throw new UnauthorizedError('API key required');
+    }
+
+    const principal = await this.apiKeyService.validateKey(rawKey, {
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
+    if (!principal) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    return principal;
+  }
+
+  private extractKey(request: Request): string | null {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('ApiKey ')) {
+      return authorization.slice('ApiKey '.length).trim();
+    }
+
+    const header = request.headers['x-api-key'];
+    return typeof header === 'string' ? header.trim() : null;
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { JwtPayload, TokenService } from '../services/token.service';
+import { UnauthorizedError } from '../../../shared/types';
+
+/**
+ * 访问令牌认证：Authorization: Bearer <token>
+ * 签名由 KeyRingService 按 kid 校验，撤销、会话与令牌纪元检查由 TokenService 完成
+ */
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
+  constructor(private readonly tokenService: TokenService) {
+    super();
+  }
+
+  async validate(request: Request): Promise<JwtPayload> {
+    const token = this.extractToken(request);
+    if (!token) {
+      throw new UnauthorizedError('Access token required');
+    }
+
+    const payload = await this.tokenService.verifyAccessToken(token);
+    if (!payload) {
+      throw new UnauthorizedError('Invalid or expired access token');
+    }
+
+    return payload;
+  }
+
+  private extractToken(request: Request): string | null {
+    const authorization = request.headers.authorization;
+    if (!authorization?.startsWith('Bearer ')) {
+      return null;
+    }
+
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+}
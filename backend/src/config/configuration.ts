@@ -1,3 +1,6 @@
+// 仅供本地开发的加密密钥，生产环境启动时会拒绝（见 EncryptionService）
+export const DEVELOPMENT_ENCRYPTION_KEY = 'your-32-character-encryption-key!';
+
 export default () => ({
   // 应用配置
   app: {
@@ -38,11 +41,16 @@ export default () => ({
 
   // JWT配置
   jwt: {
-    secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production',
+    algorithm: process.env.JWT_ALGORITHM || 'RS256', // RS256 或 EdDSA
+    keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS, 10) || 30,
+    keyRetentionDays: parseInt(process.env.JWT_KEY_RETENTION_DAYS, 10) || 8, // 需长于刷新令牌有效期
+    keyReloadInterval: parseInt(process.env.JWT_KEY_RELOAD_INTERVAL, 10) || 10, // 秒，遇到未知kid时重新加载密钥的最短间隔
     accessTokenExpiry: process.env.JWT_ACCESS_TOKEN_EXPIRY || '15m',
     refreshTokenExpiry: process.env.JWT_REFRESH_TOKEN_EXPIRY || '7d',
     issuer: process.env.JWT_ISSUER || 'enggamehub',
     audience: process.env.JWT_AUDIENCE || 'enggamehub-users',
+    refreshReuseGracePeriod: parseInt(process.env.JWT_REFRESH_REUSE_GRACE_PERIOD, 10) || 10, // 秒，容忍同一客户端的并发刷新
+    sessionTouchInterval: parseInt(process.env.JWT_SESSION_TOUCH_INTERVAL, 10) || 60, // 秒，会话最近使用时间的写入间隔
   },
 
   // AI服务配置
@@ -65,12 +73,126 @@ export default () => ({
 
   // 安全配置
   security: {
+    passwordHashAlgorithm: process.env.PASSWORD_HASH_ALGORITHM || 'argon2id', // argon2id 或 bcrypt
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS, 10) || 12,
+    argon2MemoryCost: parseInt(process.env.ARGON2_MEMORY_COST, 10) || 19456, // KiB
+    argon2TimeCost: parseInt(process.env.ARGON2_TIME_COST, 10) || 2,
+    argon2Parallelism: parseInt(process.env.ARGON2_PARALLELISM, 10) || 1,
     rateLimitTtl: parseInt(process.env.RATE_LIMIT_TTL, 10) || 60,
     rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX, 10) || 100,
     corsOrigin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
-    encryptionKey: process.env.ENCRYPTION_KEY || 'your-32-character-encryption-key!',
+    encryptionKey: process.env.ENCRYPTION_KEY || DEVELOPMENT_ENCRYPTION_KEY, // 签名私钥与MFA密钥用其加密，部署后不能更换
     csrfSecret: process.env.CSRF_SECRET || 'csrf-secret-key',
+    maxFailedLoginAttempts: parseInt(process.env.MAX_FAILED_LOGIN_ATTEMPTS, 10) || 5,
+    lockoutDuration: parseInt(process.env.LOCKOUT_DURATION, 10) || 900, // 15分钟
+    breachCorpusPath: process.env.BREACH_CORPUS_PATH || 'data/pwned-passwords', // HIBP格式的SHA-1分片目录
+    breachMinOccurrences: parseInt(process.env.BREACH_MIN_OCCURRENCES, 10) || 1,
+    reauthWindow: parseInt(process.env.REAUTH_WINDOW, 10) || 300, // 秒，敏感操作前重新验证的有效期
+    emailChangeExpiry: parseInt(process.env.EMAIL_CHANGE_EXPIRY, 10) || 86400, // 新邮箱确认链接有效期（秒）
+    emailChangeRevertWindow: parseInt(process.env.EMAIL_CHANGE_REVERT_WINDOW, 10) || 7 * 86400, // 旧邮箱可回滚的期限（秒）
+  },
+
+  // 多因素认证配置
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'EngGameHub',
+    digits: parseInt(process.env.MFA_DIGITS, 10) || 6,
+    period: parseInt(process.env.MFA_PERIOD, 10) || 30, // 秒
+    window: parseInt(process.env.MFA_WINDOW, 10) || 1, // 允许前后各1个时间步的时钟漂移
+    backupCodeCount: parseInt(process.env.MFA_BACKUP_CODE_COUNT, 10) || 10,
+    loginTokenTtl: parseInt(process.env.MFA_LOGIN_TOKEN_TTL, 10) || 300, // 5分钟
+  },
+
+  // WebAuthn / Passkey配置
+  webauthn: {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'EngGameHub',
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    origins: process.env.WEBAUTHN_ORIGINS?.split(',') || process.env.FRONTEND_URLS?.split(',') || ['http://localhost:3000'],
+    challengeTtl: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL, 10) || 300, // 5分钟
+    userVerification: process.env.WEBAUTHN_USER_VERIFICATION || 'preferred', // required, preferred, discouraged
+  },
+
+  // API密钥配置
+  apiKeys: {
+    maxPerUser: parseInt(process.env.API_KEY_MAX_PER_USER, 10) || 10,
+    maxLifetimeDays: parseInt(process.env.API_KEY_MAX_LIFETIME_DAYS, 10) || 365,
+    usageRecordInterval: parseInt(process.env.API_KEY_USAGE_RECORD_INTERVAL, 10) || 60, // 秒，同一密钥 lastUsedAt 的更新节流
+  },
+
+  // 登录风险评估配置（窗口均为秒）
+  loginRisk: {
+    stepUpScore: parseInt(process.env.LOGIN_RISK_STEP_UP_SCORE, 10) || 50, // 达到该分数时要求邮箱验证码二次验证
+    ipVelocityMax: parseInt(process.env.LOGIN_RISK_IP_VELOCITY_MAX, 10) || 60, // 同一IP的登录尝试（学校出口IP共享，阈值不宜过低）
+    ipVelocityWindow: parseInt(process.env.LOGIN_RISK_IP_VELOCITY_WINDOW, 10) || 300,
+    ipFailureMax: parseInt(process.env.LOGIN_RISK_IP_FAILURE_MAX, 10) || 20, // 同一IP针对任意账户的失败次数
+    accountFailureMax: parseInt(process.env.LOGIN_RISK_ACCOUNT_FAILURE_MAX, 10) || 10, // 同一账户来自任意IP的失败次数
+    globalFailureMax: parseInt(process.env.LOGIN_RISK_GLOBAL_FAILURE_MAX, 10) || 500, // 全站失败次数（分布式撞库）
+    failureWindow: parseInt(process.env.LOGIN_RISK_FAILURE_WINDOW, 10) || 900,
+    stepUpTokenTtl: parseInt(process.env.LOGIN_RISK_STEP_UP_TTL, 10) || 600,
+    stepUpMaxAttempts: parseInt(process.env.LOGIN_RISK_STEP_UP_MAX_ATTEMPTS, 10) || 5, // 每个二次验证令牌的验证码尝试次数
+  },
+
+  // 管理员代入用户配置
+  impersonation: {
+    sessionTtl: parseInt(process.env.IMPERSONATION_SESSION_TTL, 10) || 3600, // 秒，代入会话最长时长，刷新不会延长
+    notifySubject: process.env.IMPERSONATION_NOTIFY_SUBJECT !== 'false', // 向被代入用户发送站内通知
+  },
+
+  // 无密码登录配置
+  passwordless: {
+    magicLinkExpiry: process.env.MAGIC_LINK_EXPIRY || '15m',
+    codeTtl: parseInt(process.env.LOGIN_CODE_TTL, 10) || 600, // 10分钟
+    codeMaxAttempts: parseInt(process.env.LOGIN_CODE_MAX_ATTEMPTS, 10) || 5,
+    // 跨验证码累计的失败次数上限，达到后在锁定窗口内拒绝所有验证码
+    codeLockoutThreshold: parseInt(process.env.LOGIN_CODE_LOCKOUT_THRESHOLD, 10) || 10,
+    codeLockoutWindow: parseInt(process.env.LOGIN_CODE_LOCKOUT_WINDOW, 10) || 3600, // 1小时
+  },
+
+  // OIDC单点登录配置
+  // OIDC_PROVIDERS=google,school，每个提供方读取 OIDC_<ID>_ISSUER / _CLIENT_ID / _CLIENT_SECRET / _NAME / _SCOPES
+  oidc: {
+    redirectUri: process.env.OIDC_REDIRECT_URI || 'http://localhost:3000/auth/oidc/callback', // 前端回调页，提供方ID会附加在路径末尾
+    stateTtl: parseInt(process.env.OIDC_STATE_TTL, 10) || 600, // 10分钟
+    signupTokenTtl: parseInt(process.env.OIDC_SIGNUP_TOKEN_TTL, 10) || 900, // 首次登录补充资料的时限，15分钟
+    providers: (process.env.OIDC_PROVIDERS?.split(',') || [])
+      .map(id => id.trim())
+      .filter(Boolean)
+      .map(id => {
+        const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+        return {
+          id,
+          name: process.env[`${prefix}NAME`] || id,
+          issuer: process.env[`${prefix}ISSUER`],
+          clientId: process.env[`${prefix}CLIENT_ID`],
+          clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+          scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+        };
+      }),
+  },
+
+  // 年龄限制与监护人同意配置
+  ageGate: {
+    minimumAge: parseInt(process.env.MINIMUM_REGISTRATION_AGE, 10) || 6,
+    consentAge: parseInt(process.env.PARENTAL_CONSENT_AGE, 10) || 16, // 低于此年龄需监护人同意（GDPR第8条，各成员国13-16岁）
+    consentTokenTtl: parseInt(process.env.PARENTAL_CONSENT_TOKEN_TTL, 10) || 7 * 86400, // 7天
+  },
+
+  // 隐私与数据保护（GDPR）配置
+  privacy: {
+    exportDir: process.env.DATA_EXPORT_DIR || './uploads/exports',
+    exportTtlHours: parseInt(process.env.DATA_EXPORT_TTL_HOURS, 10) || 48,
+    maxExportsPerDay: parseInt(process.env.DATA_EXPORT_MAX_PER_DAY, 10) || 3,
+    deletionCoolingOffDays: parseInt(process.env.ACCOUNT_DELETION_COOLING_OFF_DAYS, 10) || 14,
+  },
+
+  // 题库导入导出配置
+  questionBank: {
+    workDir: process.env.QUESTION_BANK_DIR || './uploads/question-bank',
+    maxImportSize: parseInt(process.env.QUESTION_IMPORT_MAX_SIZE, 10) || 5 * 1024 * 1024, // 5MB
+    maxImportRows: parseInt(process.env.QUESTION_IMPORT_MAX_ROWS, 10) || 5000,
+    syncImportMaxBytes: parseInt(process.env.QUESTION_IMPORT_SYNC_MAX_BYTES, 10) || 64 * 1024, // 超过此大小放入队列处理
+    exportTtlHours: parseInt(process.env.QUESTION_EXPORT_TTL_HOURS, 10) || 24,
+    maxQtiEntrySize: parseInt(process.env.QUESTION_QTI_MAX_ENTRY_SIZE, 10) || 5 * 1024 * 1024, // 单个条目解压后上限
+    maxQtiPackageSize: parseInt(process.env.QUESTION_QTI_MAX_PACKAGE_SIZE, 10) || 50 * 1024 * 1024, // 整包解压后上限
   },
 
   // 文件存储配置
@@ -105,12 +227,25 @@ export default () => ({
 
   // 短信服务配置
   sms: {
-    provider: process.env.SMS_PROVIDER || 'twilio', // twilio, aws-sns
+    provider: process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? 'twilio' : 'console'), // twilio, console
+    allowedCountries: process.env.SMS_ALLOWED_COUNTRIES?.split(',').map(code => code.trim().toUpperCase()).filter(Boolean) || [], // ISO国家代码，为空表示不限制
+    codeTtl: parseInt(process.env.SMS_CODE_TTL, 10) || 300, // 5分钟
+    codeMaxAttempts: parseInt(process.env.SMS_CODE_MAX_ATTEMPTS, 10) || 5,
+    rateLimit: {
+      perNumber: parseInt(process.env.SMS_RATE_LIMIT_PER_NUMBER, 10) || 5,
+      perIp: parseInt(process.env.SMS_RATE_LIMIT_PER_IP, 10) || 20,
+      window: parseInt(process.env.SMS_RATE_LIMIT_WINDOW, 10) || 3600, // 秒
+      cooldown: parseInt(process.env.SMS_RESEND_COOLDOWN, 10) || 60, // 秒
+    },
     twilio: {
+      baseUrl: process.env.TWILIO_BASE_URL || 'https://api.twilio.com',
       accountSid: process.env.TWILIO_ACCOUNT_SID,
       authToken: process.env.TWILIO_AUTH_TOKEN,
       fromNumber: process.env.TWILIO_FROM_NUMBER,
     },
+    console: {
+      outputFile: process.env.SMS_CONSOLE_OUTPUT_FILE, // 本地开发时可将短信追加到文件
+    },
   },
 
   // 监控配置
@@ -7,12 +7,14 @@ import { WinstonModule } from 'nest-winston';
 import * as winston from 'winston';
 import helmet from 'helmet';
 import compression from 'compression';
+import multipart from '@fastify/multipart';
 import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { SecurityMiddleware } from './common/middleware/security.middleware';
 import { MetricsService } from './common/services/metrics.service';
+import { KeyRingService } from './auth/services/key-ring.service';
 
 async function bootstrap() {
   // Winston Logger配置
@@ -79,6 +81,14 @@ async function bootstrap() {
   // 压缩中间件
   await app.register(compression);
 
+  // 文件上传（题库导入）
+  await app.register(multipart, {
+    limits: {
+      files: 1,
+      fileSize: configService.get<number>('questionBank.maxImportSize', 5 * 1024 * 1024),
+    },
+  });
+
   // CORS配置
   app.enableCors({
     origin: configService.get<string>('FRONTEND_URLS')?.split(',') || ['http://localhost:3000'],
@@ -135,6 +145,13 @@ async function bootstrap() {
     res.send(await metricsService.getMetrics());
   });
 
+  // JWT公钥端点，供其他服务验证访问令牌
+  const keyRingService = app.get(KeyRingService);
+  app.getHttpAdapter().get('/.well-known/jwks.json', async (req, res) => {
+    res.header('Cache-Control', 'public, max-age=300');
+    res.send(await keyRingService.getJwks());
+  });
+
   // 健康检查端点
   app.getHttpAdapter().get('/health', (req, res) => {
     res.send({
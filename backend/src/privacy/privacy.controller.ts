@@ -0,0 +1,74 @@
+import { Controller, Get, Post, Body, Param, Res, UseGuards, HttpCode, HttpStatus, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Response } from 'express';
+import { createReadStream } from 'fs';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { NoImpersonation } from '../auth/decorators/no-impersonation.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ClientInfoParam } from '../auth/decorators/client-info.decorator';
+import { PrivacyService } from './privacy.service';
+import { CancelAccountDeletionDto, ClientInfo, RequestAccountDeletionDto } from '../../../shared/types';
+
+@ApiTags('users')
+@NoImpersonation()
+@Controller('privacy')
+export class PrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Get('exports')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '列出我的数据导出' })
+  async listExports(@CurrentUser('sub') userId: string) {
+    return this.privacyService.listExports(userId);
+  }
+
+  @Post('exports')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '申请导出个人数据' })
+  async requestExport(@CurrentUser('sub') userId: string, @ClientInfoParam() clientInfo: ClientInfo) {
+    return this.privacyService.requestExport(userId, clientInfo);
+  }
+
+  @Get('exports/:id/download')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: '下载数据导出归档' })
+  async downloadExport(
+    @CurrentUser('sub') userId: string,
+    @Param('id') exportId: string,
+    @ClientInfoParam() clientInfo: ClientInfo,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { filePath, fileName } = await this.privacyService.getExportFile(userId, exportId, clientInfo);
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    });
+
+    return new StreamableFile(createReadStream(filePath));
+  }
+
+  @Post('deletion')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '申请删除账户（冷静期后擦除）' })
+  async requestDeletion(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: RequestAccountDeletionDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.privacyService.requestDeletion(userId, dto, clientInfo);
+  }
+
+  @Post('deletion/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '通过邮件链接撤销账户删除' })
+  async cancelDeletion(@Body() dto: CancelAccountDeletionDto, @ClientInfoParam() clientInfo: ClientInfo) {
+    await this.privacyService.cancelDeletion(dto.token, clientInfo);
+    return { success: true };
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { PrivacyController } from './privacy.controller';
+import { PrivacyService } from './privacy.service';
+import { PrivacyQueueProcessor } from './processors/privacy-queue.processor';
+import { AuthModule } from '../auth/auth.module';
+import { RedisModule } from '../redis/redis.module';
+
+@Module({
+  imports: [
+    // 导出生成与账户擦除耗时较长，放入独立队列
+    BullModule.registerQueue(
+      {
+        name: 'privacy',
+        defaultJobOptions: {
+          removeOnComplete: 10,
+          removeOnFail: 5,
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+        },
+      },
+      // 邮件仍由认证队列发送
+      { name: 'auth' },
+    ),
+
+    AuthModule,
+    RedisModule,
+  ],
+  controllers: [PrivacyController],
+  providers: [PrivacyService, PrivacyQueueProcessor],
+  exports: [PrivacyService],
+})
+export class PrivacyModule {}
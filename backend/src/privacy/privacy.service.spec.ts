@@ -0,0 +1,239 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as AdmZip from 'adm-zip';
+import { PrivacyService } from './privacy.service';
+import { PrismaService } from '../database/database.module';
+import { RedisService } from '../redis/redis.service';
+import { PasswordService } from '../auth/services/password.service';
+import { TokenService } from '../auth/services/token.service';
+import { AuditService } from '../auth/services/audit.service';
+import { PermissionService } from '../auth/services/permission.service';
+import { UnauthorizedError } from '../../../shared/types';
+
+jest.mock('../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+const DAY = 86400 * 1000;
+
+// 每个模型提供擦除与导出用到的方法，调用结果原样交给 $transaction
+function model() {
+  return {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findFirst: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+  };
+}
+
+describe('PrivacyService', () => {
+  let service: PrivacyService;
+  let prisma: Record<string, any>;
+  let user: Record<string, any>;
+  let redisStore: Map<string, string>;
+  let tokenService: { revokeAllUserTokens: jest.Mock };
+  let authQueue: { add: jest.Mock };
+  let exportDir: string;
+
+  beforeEach(async () => {
+    exportDir = await fs.mkdtemp(path.join(os.tmpdir(), 'privacy-exports-'));
+    user = {
+      id: 'user-1',
+      email: 'learner@example.com',
+      nickname: 'Learner',
+      passwordHash: 'hash',
+      status: 'ACTIVE',
+      deletionRequestedAt: null,
+      deletionScheduledFor: null,
+    };
+
+    prisma = new Proxy({} as Record<string, any>, {
+      get: (target, name: string) => {
+        if (!(name in target)) {
+          target[name] = name === '$transaction' ? jest.fn(async (operations: unknown[]) => operations) : model();
+        }
+        return target[name];
+      },
+    });
+    prisma.user.findUnique.mockImplementation(async ({ select }) => (select ? { id: user.id, email: user.email, totalXP: BigInt(120) } : user));
+    redisStore = new Map();
+    tokenService = { revokeAllUserTokens: jest.fn() };
+    authQueue = { add: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PrivacyService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn(async (key: string) => redisStore.get(key) ?? null),
+            setex: jest.fn(async (key: string, _ttl: number, value: string) => redisStore.set(key, value)),
+            del: jest.fn(async (key: string) => redisStore.delete(key)),
+            checkRateLimit: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: PasswordService,
+          useValue: { verifyPassword: jest.fn(async (password: string) => password === 'correct password') },
+        },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: PermissionService, useValue: { invalidate: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string, fallback?: unknown) => (key === 'privacy.exportDir' ? exportDir : fallback) },
+        },
+        { provide: getQueueToken('privacy'), useValue: { add: jest.fn() } },
+        { provide: getQueueToken('auth'), useValue: authQueue },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PrivacyService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(exportDir, { recursive: true, force: true });
+  });
+
+  describe('generateExport', () => {
+    it('writes the user data to a zip archive and emails the user', async () => {
+      prisma.dataExport.update.mockResolvedValue({ id: 'export-1', userId: 'user-1', user: { email: user.email, nickname: user.nickname } });
+      prisma.learningAttempt.findMany.mockResolvedValue([{ id: 'attempt-1', isCorrect: true }]);
+
+      await service.generateExport('export-1');
+
+      const archive = new AdmZip(path.join(exportDir, 'export-1.zip'));
+      const manifest = JSON.parse(archive.readAsText('manifest.json'));
+      expect(manifest.files).toEqual(expect.arrayContaining(['profile.json', 'learning-attempts.json', 'devices.json']));
+      expect(JSON.parse(archive.readAsText('profile.json'))).toEqual({ id: 'user-1', email: user.email, totalXP: '120' });
+      expect(JSON.parse(archive.readAsText('learning-attempts.json'))).toEqual([{ id: 'attempt-1', isCorrect: true }]);
+
+      expect(prisma.dataExport.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'READY', fileSize: expect.any(Number) }),
+      }));
+      expect(authQueue.add).toHaveBeenCalledWith('send-data-export-ready-email', expect.objectContaining({ exportId: 'export-1' }));
+    });
+
+    it('marks the export as failed and rethrows for the queue to retry', async () => {
+      prisma.dataExport.update.mockResolvedValue({ id: 'export-1', userId: 'user-1', user: {} });
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.generateExport('export-1')).rejects.toThrow();
+      expect(prisma.dataExport.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'FAILED' }),
+      }));
+    });
+  });
+
+  describe('requestDeletion', () => {
+    it('deactivates the account for the cooling-off period and signs it out', async () => {
+      const before = Date.now();
+
+      const { scheduledFor } = await service.requestDeletion('user-1', { password: 'correct password' });
+
+      expect(scheduledFor.getTime()).toBeGreaterThanOrEqual(before + 14 * DAY);
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'PENDING_DELETION', deletionScheduledFor: scheduledFor }),
+      }));
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1');
+      expect(authQueue.add).toHaveBeenCalledWith('send-account-deletion-scheduled-email', expect.objectContaining({
+        cancelToken: expect.any(String),
+      }));
+    });
+
+    it('requires the current password', async () => {
+      await expect(service.requestDeletion('user-1', { password: 'wrong password' })).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    const requestAndGetToken = async () => {
+      await service.requestDeletion('user-1', { password: 'correct password' });
+      return authQueue.add.mock.calls.find(([name]) => name === 'send-account-deletion-scheduled-email')[1].cancelToken;
+    };
+
+    it('restores the account with the emailed link', async () => {
+      const token = await requestAndGetToken();
+
+      await service.cancelDeletion(token);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: 'user-1', status: 'PENDING_DELETION' }),
+        data: expect.objectContaining({ status: 'ACTIVE', deletionScheduledFor: null }),
+      }));
+    });
+
+    it('accepts each link only once', async () => {
+      const token = await requestAndGetToken();
+      await service.cancelDeletion(token);
+
+      await expect(service.cancelDeletion(token)).rejects.toThrow('Invalid or expired cancellation link');
+    });
+
+    it('refuses the link once the account is no longer pending deletion', async () => {
+      const token = await requestAndGetToken();
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelDeletion(token)).rejects.toThrow('Invalid or expired cancellation link');
+    });
+  });
+
+  describe('eraseAccount', () => {
+    beforeEach(() => {
+      user.status = 'PENDING_DELETION';
+      user.deletionScheduledFor = new Date(Date.now() - 1000);
+    });
+
+    it('deletes personal data and anonymizes the retained user row', async () => {
+      const filePath = path.join(exportDir, 'export-1.zip');
+      await fs.writeFile(filePath, 'zip');
+      prisma.dataExport.findMany.mockResolvedValue([{ id: 'export-1', filePath }]);
+
+      await service.eraseAccount('user-1');
+
+      await expect(fs.stat(filePath)).rejects.toMatchObject({ code: 'ENOENT' });
+      for (const table of ['learningAttempt', 'refreshToken', 'webAuthnCredential', 'externalIdentity', 'knownDevice']) {
+        expect(prisma[table].deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      }
+      expect(prisma.auditLog.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ ip: null, userAgent: null }),
+      }));
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({
+          email: 'deleted-user-1@erased.invalid',
+          passwordHash: null,
+          nickname: null,
+          phone: null,
+          dateOfBirth: null,
+          roles: [],
+          status: 'DELETED',
+        }),
+      }));
+      expect(authQueue.add).toHaveBeenCalledWith('send-account-deletion-completed-email', { email: user.email, nickname: user.nickname });
+    });
+
+    it('leaves an account alone when the deletion was cancelled', async () => {
+      user.status = 'ACTIVE';
+
+      await service.eraseAccount('user-1');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('waits until the cooling-off period has ended', async () => {
+      user.deletionScheduledFor = new Date(Date.now() + DAY);
+
+      await service.eraseAccount('user-1');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,584 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { AccountStatus, DataExport, DataExportStatus, Prisma, SubscriptionType } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { RedisService } from '../redis/redis.service';
+import { PasswordService } from '../auth/services/password.service';
+import { TokenService } from '../auth/services/token.service';
+import { AuditService } from '../auth/services/audit.service';
+import { PermissionService } from '../auth/services/permission.service';
+import {
+  AccountDeletionInfo,
+  ClientInfo,
+  DataExportInfo,
+  NotFoundError,
+  RequestAccountDeletionDto,
+  UnauthorizedError,
+} from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as archiver from 'archiver';
+
+// 导出的用户字段（不含密码哈希、MFA密钥等凭据）
+const EXPORTED_USER_FIELDS: Prisma.UserSelect = {
+  id: true,
+  uuid: true,
+  email: true,
+  emailVerified: true,
+  emailVerifiedAt: true,
+  nickname: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+  phone: true,
+  phoneVerified: true,
+  dateOfBirth: true,
+  isMinor: true,
+  currentLevel: true,
+  totalXP: true,
+  currentStreak: true,
+  maxStreak: true,
+  subscriptionType: true,
+  subscriptionExpiry: true,
+  roles: true,
+  mfaEnabled: true,
+  status: true,
+  lastLoginAt: true,
+  lastLoginIp: true,
+  lastActivityAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class PrivacyService {
+  private readonly logger = new Logger(PrivacyService.name);
+  private readonly exportDir: string;
+  private readonly exportTtlHours: number;
+  private readonly maxExportsPerDay: number;
+  private readonly coolingOffDays: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly passwordService: PasswordService,
+    private readonly tokenService: TokenService,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
+    private readonly configService: ConfigService,
+    @InjectQueue('privacy') private readonly privacyQueue: Queue,
+    @InjectQueue('auth') private readonly authQueue: Queue,
+  ) {
+    this.exportDir = this.configService.get<string>('privacy.exportDir', './uploads/exports');
+    this.exportTtlHours = this.configService.get<number>('privacy.exportTtlHours', 48);
+    this.maxExportsPerDay = this.configService.get<number>('privacy.maxExportsPerDay', 3);
+    this.coolingOffDays = this.configService.get<number>('privacy.deletionCoolingOffDays', 14);
+  }
+
+  /**
+   * 申请导出个人数据（异步生成，完成后邮件通知）
+   */
+  async requestExport(userId: string, clientInfo?: ClientInfo): Promise<DataExportInfo> {
+    // 1. 已有进行中的导出时直接返回
+    const inProgress = await this.prisma.dataExport.findFirst({
+      where: {
+        userId,
+        status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+      },
+    });
+    if (inProgress) {
+      return this.toDataExportInfo(inProgress);
+    }
+
+    // 2. 频率限制
+    const canExport = await this.redisService.checkRateLimit(`data_export:${userId}`, this.maxExportsPerDay, 86400);
+    if (!canExport) {
+      throw new BadRequestException('Too many data exports requested. Please try again tomorrow.');
+    }
+
+    // 3. 创建导出记录并入队
+    const dataExport = await this.prisma.dataExport.create({
+      data: { userId },
+    });
+
+    await this.privacyQueue.add('generate-export', { exportId: dataExport.id });
+
+    // 4. 记录审计日志
+    await this.auditService.log(userId, 'DATA_EXPORT_REQUESTED', {
+      resourceId: dataExport.id,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'privacy');
+
+    return this.toDataExportInfo(dataExport);
+  }
+
+  async listExports(userId: string): Promise<DataExportInfo[]> {
+    const exports = await this.prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return exports.map(dataExport => this.toDataExportInfo(dataExport));
+  }
+
+  /**
+   * 获取可下载的导出文件
+   */
+  async getExportFile(userId: string, exportId: string, clientInfo?: ClientInfo): Promise<{ filePath: string; fileName: string }> {
+    const dataExport = await this.prisma.dataExport.findFirst({
+      where: { id: exportId, userId },
+    });
+
+    if (!dataExport || dataExport.status !== DataExportStatus.READY || !dataExport.filePath) {
+      throw new NotFoundError('Data export');
+    }
+
+    if (dataExport.expiresAt && dataExport.expiresAt <= new Date()) {
+      throw new NotFoundError('Data export');
+    }
+
+    await this.auditService.log(userId, 'DATA_EXPORT_DOWNLOADED', {
+      resourceId: dataExport.id,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'privacy');
+
+    return {
+      filePath: dataExport.filePath,
+      fileName: `enggamehub-data-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+    };
+  }
+
+  /**
+   * 生成导出归档（由队列处理器调用）
+   */
+  async generateExport(exportId: string): Promise<void> {
+    const dataExport = await this.prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: DataExportStatus.PROCESSING, error: null },
+      include: { user: { select: { email: true, nickname: true } } },
+    });
+
+    try {
+      const files = await this.collectUserData(dataExport.userId);
+
+      await fs.mkdir(this.exportDir, { recursive: true });
+      const filePath = path.join(this.exportDir, `${exportId}.zip`);
+      const fileSize = await this.writeArchive(filePath, {
+        'manifest.json': {
+          exportId,
+          userId: dataExport.userId,
+          generatedAt: new Date(),
+          files: Object.keys(files),
+        },
+        ...files,
+      });
+
+      const expiresAt = new Date(Date.now() + this.exportTtlHours * 3600 * 1000);
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: DataExportStatus.READY,
+          filePath,
+          fileSize,
+          completedAt: new Date(),
+          expiresAt,
+        },
+      });
+
+      await this.authQueue.add('send-data-export-ready-email', {
+        userId: dataExport.userId,
+        email: dataExport.user.email,
+        nickname: dataExport.user.nickname,
+        exportId,
+        expiresAt,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to generate data export ${exportId}: ${error.message}`);
+
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: { status: DataExportStatus.FAILED, error: error.message },
+      });
+
+      // 交给队列重试
+      throw error;
+    }
+  }
+
+  /**
+   * 定时删除已过期的导出文件
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredExports(): Promise<void> {
+    const expired = await this.prisma.dataExport.findMany({
+      where: {
+        status: DataExportStatus.READY,
+        expiresAt: { lte: new Date() },
+      },
+    });
+
+    for (const dataExport of expired) {
+      await this.removeExportFile(dataExport);
+      await this.prisma.dataExport.update({
+        where: { id: dataExport.id },
+        data: { status: DataExportStatus.EXPIRED, filePath: null },
+      });
+    }
+  }
+
+  /**
+   * 申请删除账户：立即停用，冷静期结束后擦除
+   */
+  async requestDeletion(userId: string, dto: RequestAccountDeletionDto, clientInfo?: ClientInfo): Promise<AccountDeletionInfo> {
+    // 1. 重新验证身份（仅通过单点登录/无密码登录的账户依靠冷静期内的撤销邮件）
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.passwordHash) {
+      const isPasswordValid = !!dto.password && await this.passwordService.verifyPassword(dto.password, user.passwordHash);
+      if (!isPasswordValid) {
+        await this.auditService.log(userId, 'ACCOUNT_DELETION_REQUEST_FAILED', {
+          reason: 'invalid_password',
+          ip: clientInfo?.ip,
+          userAgent: clientInfo?.userAgent,
+        }, 'privacy');
+        throw new UnauthorizedError('Invalid password');
+      }
+    }
+
+    if (user.status !== AccountStatus.ACTIVE) {
+      throw new BadRequestException('Account cannot be deleted in its current state');
+    }
+
+    // 2. 生成撤销令牌（仅保存哈希）
+    const cancelToken = crypto.randomBytes(32).toString('base64url');
+    const requestedAt = new Date();
+    const scheduledFor = new Date(requestedAt.getTime() + this.coolingOffDays * 86400 * 1000);
+
+    await this.redisService.setex(
+      `account_deletion_cancel:${this.hashToken(cancelToken)}`,
+      this.coolingOffDays * 86400,
+      userId,
+    );
+
+    // 3. 停用账户并切断所有会话
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        status: AccountStatus.PENDING_DELETION,
+        statusReason: 'user_requested',
+        statusChangedAt: requestedAt,
+        statusChangedById: userId,
+        statusExpiresAt: null,
+        deletionRequestedAt: requestedAt,
+        deletionScheduledFor: scheduledFor,
+      },
+    });
+
+    await this.tokenService.revokeAllUserTokens(userId);
+
+    // 4. 发送确认邮件（含撤销链接）
+    await this.authQueue.add('send-account-deletion-scheduled-email', {
+      userId,
+      email: user.email,
+      nickname: user.nickname,
+      cancelToken,
+      scheduledFor,
+    });
+
+    // 5. 记录审计日志
+    await this.auditService.log(userId, 'ACCOUNT_DELETION_REQUESTED', {
+      resourceId: userId,
+      reason: dto.reason,
+      scheduledFor,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'privacy');
+
+    return { requestedAt, scheduledFor };
+  }
+
+  /**
+   * 冷静期内通过邮件链接撤销删除
+   */
+  async cancelDeletion(token: string, clientInfo?: ClientInfo): Promise<void> {
+    const key = `account_deletion_cancel:${this.hashToken(token)}`;
+    const userId = await this.redisService.get(key);
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired cancellation link');
+    }
+
+    const result = await this.prisma.user.updateMany({
+      where: { id: userId, status: AccountStatus.PENDING_DELETION, deletionScheduledFor: { not: null } },
+      data: {
+        status: AccountStatus.ACTIVE,
+        statusReason: null,
+        statusChangedAt: new Date(),
+        statusChangedById: userId,
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      },
+    });
+
+    await this.redisService.del(key);
+
+    if (result.count === 0) {
+      throw new BadRequestException('Invalid or expired cancellation link');
+    }
+
+    await this.auditService.log(userId, 'ACCOUNT_DELETION_CANCELLED', {
+      resourceId: userId,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'privacy');
+  }
+
+  /**
+   * 定时将冷静期已结束的账户加入擦除队列
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleDueDeletions(): Promise<void> {
+    const due = await this.prisma.user.findMany({
+      where: {
+        status: AccountStatus.PENDING_DELETION,
+        deletionScheduledFor: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      // 固定jobId，避免重复入队
+      await this.privacyQueue.add('erase-account', { userId: id }, { jobId: `erase-account:${id}` });
+    }
+  }
+
+  /**
+   * 擦除账户：删除个人数据，必须保留的记录（题目作者、对战结果、审计日志）改为指向匿名占位账户
+   */
+  async eraseAccount(userId: string): Promise<void> {
+    // 1. 再次确认仍在等待删除（冷静期内可能已撤销或被管理员恢复）
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (
+      !user ||
+      user.status !== AccountStatus.PENDING_DELETION ||
+      !user.deletionScheduledFor ||
+      user.deletionScheduledFor > new Date()
+    ) {
+      return;
+    }
+
+    // 2. 删除导出归档文件
+    const exports = await this.prisma.dataExport.findMany({ where: { userId } });
+    for (const dataExport of exports) {
+      await this.removeExportFile(dataExport);
+    }
+
+    // 3. 删除个人数据并匿名化保留的记录
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.learningAttempt.deleteMany({ where: { userId } }),
+      this.prisma.userProgress.deleteMany({ where: { userId } }),
+      this.prisma.userPreferences.deleteMany({ where: { userId } }),
+      this.prisma.userAchievement.deleteMany({ where: { userId } }),
+      this.prisma.notification.deleteMany({ where: { userId } }),
+      this.prisma.refreshToken.deleteMany({ where: { userId } }),
+      this.prisma.mfaBackupCode.deleteMany({ where: { userId } }),
+      this.prisma.webAuthnCredential.deleteMany({ where: { userId } }),
+      this.prisma.apiKey.deleteMany({ where: { userId } }),
+      this.prisma.passwordHistory.deleteMany({ where: { userId } }),
+      this.prisma.externalIdentity.deleteMany({ where: { userId } }),
+      this.prisma.userRoleAssignment.deleteMany({ where: { userId } }),
+      this.prisma.guardianConsent.deleteMany({ where: { userId } }),
+      this.prisma.dataExport.deleteMany({ where: { userId } }),
+      this.prisma.emailChangeRequest.deleteMany({ where: { userId } }),
+      this.prisma.knownDevice.deleteMany({ where: { userId } }),
+      this.prisma.questionReviewComment.deleteMany({ where: { authorId: userId } }),
+      this.prisma.auditLog.updateMany({
+        where: { userId },
+        data: { ip: null, userAgent: null, details: Prisma.DbNull },
+      }),
+      // 用户行本身保留为匿名占位，供题目、对战记录和审计日志引用
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          uuid: uuidv4(),
+          email: `deleted-${userId}@erased.invalid`,
+          emailVerified: false,
+          emailVerifiedAt: null,
+          passwordHash: null,
+          passwordChangedAt: null,
+          passwordCompromisedAt: null,
+          nickname: null,
+          firstName: null,
+          lastName: null,
+          avatarUrl: null,
+          phone: null,
+          phoneVerified: false,
+          dateOfBirth: null,
+          isMinor: false,
+          totalXP: 0,
+          currentStreak: 0,
+          maxStreak: 0,
+          subscriptionType: SubscriptionType.FREE,
+          subscriptionExpiry: null,
+          roles: [],
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaEnabledAt: null,
+          mfaLastUsedStep: null,
+          smsMfaEnabled: false,
+          status: AccountStatus.DELETED,
+          statusReason: null,
+          statusChangedAt: now,
+          statusChangedById: null,
+          statusExpiresAt: null,
+          failedLoginAttempts: 0,
+          tokensValidAfter: now,
+          lastLoginAt: null,
+          lastLoginIp: null,
+          lastActivityAt: null,
+          deletionScheduledFor: null,
+          deletedAt: now,
+        },
+      }),
+    ]);
+
+    await this.permissionService.invalidate();
+
+    // 4. 发送最终确认邮件（发往擦除前的地址）
+    await this.authQueue.add('send-account-deletion-completed-email', {
+      email: user.email,
+      nickname: user.nickname,
+    });
+
+    // 5. 记录审计日志（不含个人信息）
+    await this.auditService.log(userId, 'ACCOUNT_DELETED', {
+      resourceId: userId,
+      requestedAt: user.deletionRequestedAt,
+    }, 'privacy');
+  }
+
+  // 私有辅助方法
+
+  private async collectUserData(userId: string): Promise<Record<string, unknown>> {
+    const [
+      profile,
+      preferences,
+      learningAttempts,
+      progress,
+      gameSessions,
+      achievements,
+      notifications,
+      auditLogs,
+      externalIdentities,
+      guardianConsent,
+      knownDevices,
+    ] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: EXPORTED_USER_FIELDS }),
+      this.prisma.userPreferences.findUnique({ where: { userId } }),
+      this.prisma.learningAttempt.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.userProgress.findMany({ where: { userId } }),
+      this.prisma.gameSession.findMany({
+        where: { userId },
+        include: { participations: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.userAchievement.findMany({ where: { userId }, include: { achievement: true } }),
+      this.prisma.notification.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.auditLog.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.externalIdentity.findMany({
+        where: { userId },
+        select: { provider: true, email: true, createdAt: true, lastUsedAt: true },
+      }),
+      this.prisma.guardianConsent.findUnique({
+        where: { userId },
+        select: { guardianEmail: true, status: true, requestedAt: true, grantedAt: true, revokedAt: true },
+      }),
+      this.prisma.knownDevice.findMany({
+        where: { userId },
+        select: { name: true, userAgent: true, lastIp: true, firstSeenAt: true, lastSeenAt: true },
+      }),
+    ]);
+
+    if (!profile) {
+      throw new NotFoundError('User');
+    }
+
+    return {
+      'profile.json': profile,
+      'preferences.json': preferences,
+      'learning-attempts.json': learningAttempts,
+      'progress.json': progress,
+      'game-sessions.json': gameSessions,
+      'achievements.json': achievements,
+      'notifications.json': notifications,
+      'audit-logs.json': auditLogs,
+      'linked-accounts.json': externalIdentities,
+      'guardian-consent.json': guardianConsent,
+      'devices.json': knownDevices,
+    };
+  }
+
+  /**
+   * 将各数据集写为JSON文件并打包成zip，返回文件大小
+   */
+  private async writeArchive(filePath: string, files: Record<string, unknown>): Promise<number> {
+    const output = createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    const closed = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+    for (const [name, data] of Object.entries(files)) {
+      // BigInt（如 totalXP）无法直接序列化
+      const json = JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+      archive.append(json, { name });
+    }
+
+    await archive.finalize();
+    await closed;
+
+    return archive.pointer();
+  }
+
+  private async removeExportFile(dataExport: DataExport): Promise<void> {
+    if (!dataExport.filePath) {
+      return;
+    }
+
+    try {
+      await fs.unlink(dataExport.filePath);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error(`Failed to remove data export ${dataExport.id}: ${error.message}`);
+      }
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toDataExportInfo(dataExport: DataExport): DataExportInfo {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      fileSize: dataExport.fileSize ?? undefined,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt ?? undefined,
+      expiresAt: dataExport.expiresAt ?? undefined,
+    };
+  }
+}
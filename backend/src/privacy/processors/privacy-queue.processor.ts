@@ -0,0 +1,23 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { PrivacyService } from '../privacy.service';
+
+@Processor('privacy')
+export class PrivacyQueueProcessor {
+  private readonly logger = new Logger(PrivacyQueueProcessor.name);
+
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Process('generate-export')
+  async handleGenerateExport(job: Job<{ exportId: string }>) {
+    this.logger.log(`Generating data export ${job.data.exportId}`);
+    await this.privacyService.generateExport(job.data.exportId);
+  }
+
+  @Process('erase-account')
+  async handleEraseAccount(job: Job<{ userId: string }>) {
+    this.logger.log(`Erasing account ${job.data.userId}`);
+    await this.privacyService.eraseAccount(job.data.userId);
+  }
+}
@@ -0,0 +1,23 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { QuestionBankService } from '../question-bank.service';
+
+@Processor('questions')
+export class QuestionBankProcessor {
+  private readonly logger = new Logger(QuestionBankProcessor.name);
+
+  constructor(private readonly questionBankService: QuestionBankService) {}
+
+  @Process('process-import')
+  async handleProcessImport(job: Job<{ importId: string }>) {
+    this.logger.log(`Processing question import ${job.data.importId}`);
+    await this.questionBankService.processImport(job.data.importId);
+  }
+
+  @Process('generate-export')
+  async handleGenerateExport(job: Job<{ exportId: string }>) {
+    this.logger.log(`Generating question export ${job.data.exportId}`);
+    await this.questionBankService.generateExport(job.data.exportId);
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Controller, Get, Post, Body, Param, Query, Req, UseGuards, BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes } from '@nestjs/swagger';
+import { FastifyRequest } from 'fastify';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ClientInfoParam } from '../auth/decorators/client-info.decorator';
+import { QuestionBankService } from './question-bank.service';
+import { QUESTION_BANK_JSON_SCHEMA } from './question-bank.schema';
+import { ClientInfo, QuestionImportDto } from '../../../shared/types';
+
+@ApiTags('questions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('questions')
+export class QuestionBankController {
+  constructor(private readonly questionBankService: QuestionBankService) {}
+
+  @Get('import/schema')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '获取 JSON 题库文件的 JSON Schema' })
+  getImportSchema() {
+    return QUESTION_BANK_JSON_SCHEMA;
+  }
+
+  @Post('import')
+  @RequirePermissions('questions:write')
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: '导入题库文件（CSV / JSON / QTI 2.1，dryRun 时仅返回校验报告）' })
+  async importQuestions(
+    @CurrentUser('sub') userId: string,
+    @Query() dto: QuestionImportDto,
+    @Req() request: FastifyRequest,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    const file = await request.file();
+    if (!file) {
+      throw new BadRequestException('An import file is required');
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await file.toBuffer();
+    } catch {
+      throw new BadRequestException('Import file is too large');
+    }
+
+    return this.questionBankService.requestImport(userId, { fileName: file.filename, buffer }, dto, clientInfo);
+  }
+
+  @Get('imports')
+  @RequirePermissions('questions:write')
+  @ApiOperation({ summary: '列出我的导入记录' })
+  async listImports(@CurrentUser('sub') userId: string) {
+    return this.questionBankService.listImports(userId);
+  }
+
+  @Get('imports/:importId')
+  @RequirePermissions('questions:write')
+  @ApiOperation({ summary: '查询导入状态与校验报告' })
+  async getImport(@CurrentUser('sub') userId: string, @Param('importId') importId: string) {
+    return this.questionBankService.getImport(userId, importId);
+  }
+}
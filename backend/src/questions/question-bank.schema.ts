@@ -0,0 +1,171 @@
+import { CEFRLevel, ModuleType, QuestionKind, SkillType } from '../../../shared/types';
+import { QUESTION_KINDS } from './question-content.service';
+
+// 按 content.kind 约束题型专属字段
+function contentFor(kind: QuestionKind, required: string[], properties: Record<string, unknown>) {
+  return {
+    if: { properties: { kind: { const: kind } }, required: ['kind'] },
+    then: { required, properties },
+  };
+}
+
+// 按 content.kind 约束答案结构，kind 为 undefined 时匹配旧格式题目
+function answerFor(kind: QuestionKind | undefined, schema: Record<string, unknown>) {
+  const condition = kind
+    ? { properties: { kind: { const: kind } }, required: ['kind'] }
+    : { not: { required: ['kind'] } };
+
+  return {
+    if: { properties: { content: condition } },
+    then: { properties: { correctAnswer: schema } },
+  };
+}
+
+/**
+ * JSON 题库文件的 JSON Schema（draft-07），与 shared/types 中的 QuestionBankFile / CreateQuestionDto 保持一致
+ * 导出的 JSON 文件同样符合此格式，可直接重新导入
+ */
+export const QUESTION_BANK_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://enggamehub.com/schemas/question-bank.json',
+  title: 'EngGameHub question bank',
+  type: 'object',
+  required: ['version', 'questions'],
+  properties: {
+    version: { const: 1 },
+    questions: {
+      type: 'array',
+      items: { $ref: '#/definitions/question' },
+    },
+  },
+  definitions: {
+    question: {
+      type: 'object',
+      required: ['moduleType', 'level', 'skillType', 'difficulty', 'content', 'correctAnswer', 'explanation'],
+      properties: {
+        moduleType: { enum: Object.values(ModuleType) },
+        level: { enum: Object.values(CEFRLevel) },
+        skillType: { enum: Object.values(SkillType) },
+        difficulty: { type: 'number', minimum: 1, maximum: 10 },
+        content: { $ref: '#/definitions/content' },
+        correctAnswer: { description: 'Shape depends on content.kind' },
+        explanation: { type: 'string', minLength: 1 },
+        tags: { type: 'array', items: { type: 'string' }, default: [] },
+        estimatedTime: { type: 'integer', minimum: 1, default: 30, description: 'Seconds' },
+      },
+      // 答案结构随题型变化；未指定 kind 时按选择题（有 options）或简答题处理
+      allOf: [
+        answerFor(undefined, { $ref: '#/definitions/acceptedAnswers' }),
+        answerFor('multiple_choice', { $ref: '#/definitions/acceptedAnswers' }),
+        answerFor('short_answer', { $ref: '#/definitions/acceptedAnswers' }),
+        answerFor('cloze', {
+          type: 'object',
+          description: 'Gap id → accepted answers',
+          minProperties: 1,
+          additionalProperties: { $ref: '#/definitions/acceptedAnswers' },
+        }),
+        answerFor('ordering', {
+          type: 'array',
+          description: 'Item ids in the correct order',
+          minItems: 2,
+          uniqueItems: true,
+          items: { type: 'string' },
+        }),
+        answerFor('matching', {
+          type: 'object',
+          description: 'Left item id → right item id',
+          minProperties: 1,
+          additionalProperties: { type: 'string' },
+        }),
+        answerFor('sentence_transformation', { $ref: '#/definitions/acceptedAnswers' }),
+        answerFor('error_spotting', {
+          type: 'object',
+          required: ['segmentId'],
+          properties: {
+            segmentId: { type: 'string' },
+            correction: { $ref: '#/definitions/acceptedAnswers' },
+          },
+        }),
+        answerFor('dictation', { type: 'string', minLength: 1 }),
+      ],
+    },
+    acceptedAnswers: {
+      oneOf: [
+        { type: 'string', minLength: 1 },
+        { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+      ],
+    },
+    item: {
+      type: 'object',
+      required: ['id', 'text'],
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        text: { type: 'string', minLength: 1 },
+      },
+    },
+    content: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        kind: { enum: QUESTION_KINDS },
+        text: { type: 'string', minLength: 1, description: 'Instructions shown above the question' },
+        audioUrl: { type: 'string', format: 'uri' },
+        imageUrl: { type: 'string', format: 'uri' },
+        timeLimit: { type: 'integer', minimum: 1, description: 'Seconds' },
+        grading: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            typoTolerance: { type: 'integer', minimum: 0, maximum: 5, description: 'Allowed edit distance; derived from answer length when omitted' },
+            caseSensitive: { type: 'boolean', default: false },
+            ignorePunctuation: { type: 'boolean', default: true },
+            equivalentSpellings: { type: 'boolean', default: true, description: 'Treat British and American spellings as equal' },
+            expandContractions: { type: 'boolean', default: true },
+            partialCredit: { type: 'boolean', default: true },
+          },
+        },
+      },
+      allOf: [
+        contentFor('multiple_choice', ['options'], {
+          options: { type: 'array', minItems: 2, uniqueItems: true, items: { type: 'string', minLength: 1 } },
+          multiple: { type: 'boolean', default: false },
+        }),
+        contentFor('cloze', ['passage', 'gaps'], {
+          passage: { type: 'string', minLength: 1, description: 'Gaps are marked as {{gapId}}' },
+          gaps: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['id'],
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                options: { type: 'array', items: { type: 'string', minLength: 1 } },
+              },
+            },
+          },
+        }),
+        contentFor('ordering', ['items'], {
+          items: { type: 'array', minItems: 2, items: { $ref: '#/definitions/item' } },
+        }),
+        contentFor('matching', ['left', 'right'], {
+          left: { type: 'array', minItems: 2, items: { $ref: '#/definitions/item' } },
+          right: { type: 'array', minItems: 2, items: { $ref: '#/definitions/item' } },
+        }),
+        contentFor('sentence_transformation', ['sourceSentence'], {
+          sourceSentence: { type: 'string', minLength: 1 },
+          keyword: { type: 'string', minLength: 1 },
+          stem: { type: 'string' },
+          maxWords: { type: 'integer', minimum: 1 },
+        }),
+        contentFor('error_spotting', ['segments'], {
+          segments: { type: 'array', minItems: 2, items: { $ref: '#/definitions/item' } },
+          requireCorrection: { type: 'boolean', default: false },
+        }),
+        contentFor('dictation', ['audioUrl'], {
+          maxPlays: { type: 'integer', minimum: 1 },
+        }),
+      ],
+    },
+  },
+};
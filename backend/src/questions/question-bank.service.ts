@@ -0,0 +1,554 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { Prisma, QuestionBankJobStatus, QuestionExport, QuestionImport } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { AuditService } from '../auth/services/audit.service';
+import { QuestionsService } from './questions.service';
+import { ParsedQuestionRow, QuestionFormatService } from './question-format.service';
+import {
+  ClientInfo,
+  CreateQuestionDto,
+  NotFoundError,
+  QuestionBankFormat,
+  QuestionExportDto,
+  QuestionExportInfo,
+  QuestionImportDefaults,
+  QuestionImportDto,
+  QuestionImportInfo,
+  QuestionImportReport,
+} from '../../../shared/types';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const FORMATS: QuestionBankFormat[] = ['CSV', 'JSON', 'QTI'];
+
+export interface QuestionImportUpload {
+  fileName: string;
+  buffer: Buffer;
+}
+
+// 源文件缺失时与 Prisma 默认值一致
+const ROW_DEFAULTS: Partial<CreateQuestionDto> = {
+  tags: [],
+  estimatedTime: 30,
+};
+
+/**
+ * 题库批量导入导出：小文件同步处理，大文件与导出放入 questions 队列
+ * 导入的题目一律进入待审核状态
+ */
+@Injectable()
+export class QuestionBankService {
+  private readonly logger = new Logger(QuestionBankService.name);
+  private readonly importDir: string;
+  private readonly exportDir: string;
+  private readonly maxImportSize: number;
+  private readonly maxImportRows: number;
+  private readonly syncImportMaxBytes: number;
+  private readonly exportTtlHours: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly questionFormatService: QuestionFormatService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+    @InjectQueue('questions') private readonly questionsQueue: Queue,
+  ) {
+    const workDir = this.configService.get<string>('questionBank.workDir', './uploads/question-bank');
+    this.importDir = path.join(workDir, 'imports');
+    this.exportDir = path.join(workDir, 'exports');
+    this.maxImportSize = this.configService.get<number>('questionBank.maxImportSize', 5 * 1024 * 1024);
+    this.maxImportRows = this.configService.get<number>('questionBank.maxImportRows', 5000);
+    this.syncImportMaxBytes = this.configService.get<number>('questionBank.syncImportMaxBytes', 64 * 1024);
+    this.exportTtlHours = this.configService.get<number>('questionBank.exportTtlHours', 24);
+  }
+
+  /**
+   * 上传题库文件：小文件直接校验/导入并返回报告，大文件入队后通过 getImport 查询结果
+   */
+  async requestImport(
+    userId: string,
+    upload: QuestionImportUpload,
+    dto: QuestionImportDto,
+    clientInfo?: ClientInfo,
+  ): Promise<QuestionImportInfo> {
+    // 1. 校验上传
+    const format = this.parseFormat(dto.format);
+    if (!upload.buffer.length) {
+      throw new BadRequestException('An import file is required');
+    }
+
+    if (upload.buffer.length > this.maxImportSize) {
+      throw new BadRequestException(`Import files cannot exceed ${Math.floor(this.maxImportSize / 1024)} KB`);
+    }
+
+    // 2. 保存源文件并创建导入记录
+    const defaults: QuestionImportDefaults = {
+      moduleType: dto.moduleType || undefined,
+      level: dto.level || undefined,
+      skillType: dto.skillType || undefined,
+    };
+
+    const questionImport = await this.prisma.questionImport.create({
+      data: {
+        userId,
+        format,
+        dryRun: String(dto.dryRun) === 'true',
+        fileName: path.basename(upload.fileName || 'upload'),
+        defaults: defaults as Prisma.InputJsonValue,
+      },
+    });
+
+    await fs.mkdir(this.importDir, { recursive: true });
+    const filePath = path.join(this.importDir, questionImport.id);
+    await fs.writeFile(filePath, upload.buffer);
+    await this.prisma.questionImport.update({
+      where: { id: questionImport.id },
+      data: { filePath },
+    });
+
+    await this.auditService.log(userId, 'QUESTION_IMPORT_REQUESTED', {
+      resourceId: questionImport.id,
+      format,
+      dryRun: questionImport.dryRun,
+      fileSize: upload.buffer.length,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'question');
+
+    // 3. 小文件同步处理，大文件交给队列
+    if (upload.buffer.length <= this.syncImportMaxBytes) {
+      await this.processImport(questionImport.id);
+    } else {
+      await this.questionsQueue.add('process-import', { importId: questionImport.id });
+    }
+
+    return this.getImport(userId, questionImport.id);
+  }
+
+  async listImports(userId: string): Promise<QuestionImportInfo[]> {
+    const imports = await this.prisma.questionImport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return imports.map(questionImport => this.toImportInfo(questionImport));
+  }
+
+  async getImport(userId: string, importId: string): Promise<QuestionImportInfo> {
+    const questionImport = await this.prisma.questionImport.findFirst({
+      where: { id: importId, userId },
+    });
+
+    if (!questionImport) {
+      throw new NotFoundError('Question import');
+    }
+
+    return this.toImportInfo(questionImport);
+  }
+
+  /**
+   * 校验并导入（由队列处理器或小文件同步调用）
+   * 存在任何错误时整个文件不导入；重复条目跳过；未知标签仅作提示
+   */
+  async processImport(importId: string): Promise<void> {
+    const questionImport = await this.prisma.questionImport.update({
+      where: { id: importId },
+      data: { status: QuestionBankJobStatus.PROCESSING, error: null },
+    });
+
+    try {
+      // 1. 解析文件
+      const buffer = await fs.readFile(questionImport.filePath);
+      let rows: ParsedQuestionRow[];
+      try {
+        rows = this.questionFormatService.parse(questionImport.format, buffer);
+      } catch (error) {
+        // 文件本身无法解析，重试无意义
+        await this.finishImport(questionImport, QuestionBankJobStatus.FAILED, { error: error.message });
+        return;
+      }
+
+      if (rows.length > this.maxImportRows) {
+        await this.finishImport(questionImport, QuestionBankJobStatus.FAILED, {
+          error: `Import files cannot contain more than ${this.maxImportRows} questions`,
+        });
+        return;
+      }
+
+      // 2. 逐行校验、查重与标签检查
+      const defaults = (questionImport.defaults ?? {}) as QuestionImportDefaults;
+      const { report, accepted } = await this.buildReport(rows, defaults);
+
+      // 3. 仅校验时返回报告
+      if (questionImport.dryRun) {
+        await this.finishImport(questionImport, QuestionBankJobStatus.COMPLETED, { report });
+        return;
+      }
+
+      if (report.errors.length > 0) {
+        await this.finishImport(questionImport, QuestionBankJobStatus.FAILED, {
+          report,
+          error: 'The file contains invalid questions. Nothing was imported.',
+        });
+        return;
+      }
+
+      // 4. 写入题目（待审核）
+      const importedCount = await this.questionsService.createMany(questionImport.userId, accepted);
+      await this.finishImport(questionImport, QuestionBankJobStatus.COMPLETED, { report, importedCount });
+
+      await this.auditService.log(questionImport.userId, 'QUESTIONS_IMPORTED', {
+        resourceId: importId,
+        format: questionImport.format,
+        importedCount,
+        skippedDuplicates: report.duplicates.length,
+      }, 'question');
+    } catch (error) {
+      this.logger.error(`Failed to process question import ${importId}: ${error.message}`);
+
+      await this.prisma.questionImport.update({
+        where: { id: importId },
+        data: { status: QuestionBankJobStatus.FAILED, error: error.message },
+      });
+
+      // 交给队列重试
+      throw error;
+    }
+  }
+
+  /**
+   * 申请导出题库（异步生成）；范围与列表接口一致
+   */
+  async requestExport(userId: string, dto: QuestionExportDto, clientInfo?: ClientInfo): Promise<QuestionExportInfo> {
+    const format = this.parseFormat(dto.format);
+    const filters: Omit<QuestionExportDto, 'format'> = {
+      moduleType: dto.moduleType,
+      level: dto.level,
+      skillType: dto.skillType,
+      reviewStatus: dto.reviewStatus,
+      tag: dto.tag,
+      mine: dto.mine,
+    };
+
+    const questionExport = await this.prisma.questionExport.create({
+      data: {
+        userId,
+        format,
+        filters: filters as Prisma.InputJsonValue,
+      },
+    });
+
+    await this.questionsQueue.add('generate-export', { exportId: questionExport.id });
+
+    await this.auditService.log(userId, 'QUESTION_EXPORT_REQUESTED', {
+      resourceId: questionExport.id,
+      format,
+      ip: clientInfo?.ip,
+      userAgent: clientInfo?.userAgent,
+    }, 'question');
+
+    return this.toExportInfo(questionExport);
+  }
+
+  async listExports(userId: string): Promise<QuestionExportInfo[]> {
+    const exports = await this.prisma.questionExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return exports.map(questionExport => this.toExportInfo(questionExport));
+  }
+
+  async getExportFile(userId: string, exportId: string): Promise<{ filePath: string; fileName: string; contentType: string }> {
+    const questionExport = await this.prisma.questionExport.findFirst({
+      where: { id: exportId, userId },
+    });
+
+    if (!questionExport || questionExport.status !== QuestionBankJobStatus.COMPLETED || !questionExport.filePath) {
+      throw new NotFoundError('Question export');
+    }
+
+    if (questionExport.expiresAt && questionExport.expiresAt <= new Date()) {
+      throw new NotFoundError('Question export');
+    }
+
+    const { extension, contentType } = this.questionFormatService.fileType(questionExport.format);
+
+    return {
+      filePath: questionExport.filePath,
+      fileName: `questions-${questionExport.createdAt.toISOString().slice(0, 10)}.${extension}`,
+      contentType,
+    };
+  }
+
+  /**
+   * 生成导出文件（由队列处理器调用）
+   */
+  async generateExport(exportId: string): Promise<void> {
+    const questionExport = await this.prisma.questionExport.update({
+      where: { id: exportId },
+      data: { status: QuestionBankJobStatus.PROCESSING, error: null },
+    });
+
+    try {
+      const filters = (questionExport.filters ?? {}) as Omit<QuestionExportDto, 'format'>;
+      const where = await this.questionsService.buildListFilter(questionExport.userId, filters);
+      const questions = await this.prisma.question.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      // CSV 与 QTI 无法表示的题型不导出
+      const dtos = questions
+        .map(question => this.questionsService.toDto(question))
+        .filter(dto => this.questionFormatService.supports(questionExport.format, dto.content.kind));
+      const buffer = this.questionFormatService.serialize(questionExport.format, dtos);
+
+      await fs.mkdir(this.exportDir, { recursive: true });
+      const { extension } = this.questionFormatService.fileType(questionExport.format);
+      const filePath = path.join(this.exportDir, `${exportId}.${extension}`);
+      await fs.writeFile(filePath, buffer);
+
+      await this.prisma.questionExport.update({
+        where: { id: exportId },
+        data: {
+          status: QuestionBankJobStatus.COMPLETED,
+          filePath,
+          fileSize: buffer.length,
+          questionCount: dtos.length,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + this.exportTtlHours * 3600 * 1000),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to generate question export ${exportId}: ${error.message}`);
+
+      await this.prisma.questionExport.update({
+        where: { id: exportId },
+        data: { status: QuestionBankJobStatus.FAILED, error: error.message },
+      });
+
+      // 交给队列重试
+      throw error;
+    }
+  }
+
+  /**
+   * 定时删除过期的导出文件和残留的导入源文件
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredFiles(): Promise<void> {
+    const expired = await this.prisma.questionExport.findMany({
+      where: {
+        status: QuestionBankJobStatus.COMPLETED,
+        expiresAt: { lte: new Date() },
+      },
+    });
+
+    for (const questionExport of expired) {
+      await this.removeFile(questionExport.filePath);
+      await this.prisma.questionExport.update({
+        where: { id: questionExport.id },
+        data: { status: QuestionBankJobStatus.EXPIRED, filePath: null },
+      });
+    }
+
+    // 多次重试仍失败的导入
+    const staleImports = await this.prisma.questionImport.findMany({
+      where: {
+        filePath: { not: null },
+        createdAt: { lte: new Date(Date.now() - 24 * 3600 * 1000) },
+      },
+    });
+
+    for (const questionImport of staleImports) {
+      await this.removeFile(questionImport.filePath);
+      await this.prisma.questionImport.update({
+        where: { id: questionImport.id },
+        data: { filePath: null },
+      });
+    }
+  }
+
+  // 私有辅助方法
+
+  private async buildReport(
+    rows: ParsedQuestionRow[],
+    defaults: QuestionImportDefaults,
+  ): Promise<{ report: QuestionImportReport; accepted: CreateQuestionDto[] }> {
+    const report: QuestionImportReport = {
+      totalRows: rows.length,
+      validRows: 0,
+      errors: [],
+      duplicates: [],
+      unknownTags: [],
+    };
+    const accepted: CreateQuestionDto[] = [];
+
+    const existing = await this.findExistingQuestions(rows);
+    const knownTags = await this.findKnownTags();
+    const seen = new Map<string, number>();
+
+    for (const row of rows) {
+      const dto = { ...ROW_DEFAULTS, ...this.compactDefaults(defaults), ...row.dto } as CreateQuestionDto;
+
+      // 1. 字段错误
+      const errors = [
+        ...row.issues,
+        ...this.questionsService.findValidationErrors(dto)
+          .filter(error => !row.issues.some(issue => issue.field === error.field))
+          .map(error => ({ row: row.row, ...error })),
+      ];
+      if (errors.length > 0) {
+        report.errors.push(...errors);
+        continue;
+      }
+
+      report.validRows++;
+
+      // 2. 未知标签（提示可能的拼写错误）
+      const unknown = dto.tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag && !knownTags.has(tag));
+      if (unknown.length > 0) {
+        report.unknownTags.push({ row: row.row, tags: [...new Set(unknown)] });
+      }
+
+      // 3. 重复：文件内或题库中已有相同模块与题干的题目
+      const key = this.duplicateKey(dto.moduleType, dto.content.text);
+      if (seen.has(key)) {
+        report.duplicates.push({ row: row.row, duplicateOfRow: seen.get(key) });
+        continue;
+      }
+      if (existing.has(key)) {
+        report.duplicates.push({ row: row.row, duplicateOfQuestionId: existing.get(key) });
+        continue;
+      }
+
+      seen.set(key, row.row);
+      accepted.push(dto);
+    }
+
+    return { report, accepted };
+  }
+
+  private async findExistingQuestions(rows: ParsedQuestionRow[]): Promise<Map<string, string>> {
+    const texts = [...new Set(
+      rows
+        .map(row => row.dto.content?.text)
+        .filter((text): text is string => typeof text === 'string')
+        .map(text => this.normalizeText(text)),
+    )];
+    if (texts.length === 0) {
+      return new Map();
+    }
+
+    const matches = await this.prisma.$queryRaw<{ id: string; moduleType: string; text: string }[]>`
+      SELECT id, "moduleType"::text AS "moduleType", regexp_replace(lower(trim(content->>'text')), '\\s+', ' ', 'g') AS text
+      FROM questions
+      WHERE regexp_replace(lower(trim(content->>'text')), '\\s+', ' ', 'g') = ANY(${texts})
+    `;
+
+    const existing = new Map<string, string>();
+    for (const match of matches) {
+      existing.set(this.duplicateKey(match.moduleType, match.text), match.id);
+    }
+
+    return existing;
+  }
+
+  private async findKnownTags(): Promise<Set<string>> {
+    const rows = await this.prisma.$queryRaw<{ tag: string }[]>`
+      SELECT DISTINCT unnest(tags) AS tag FROM questions
+    `;
+
+    return new Set(rows.map(row => row.tag));
+  }
+
+  private duplicateKey(moduleType: string, text: string): string {
+    return `${moduleType.toLowerCase()}:${this.normalizeText(text)}`;
+  }
+
+  private normalizeText(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private compactDefaults(defaults: QuestionImportDefaults): QuestionImportDefaults {
+    return Object.fromEntries(Object.entries(defaults).filter(([, value]) => !!value));
+  }
+
+  private parseFormat(format?: string): QuestionBankFormat {
+    const normalized = format?.toUpperCase() as QuestionBankFormat;
+    if (!FORMATS.includes(normalized)) {
+      throw new BadRequestException(`Format must be one of: ${FORMATS.join(', ')}`);
+    }
+    return normalized;
+  }
+
+  private async finishImport(
+    questionImport: QuestionImport,
+    status: QuestionBankJobStatus,
+    result: { report?: QuestionImportReport; importedCount?: number; error?: string },
+  ): Promise<void> {
+    await this.removeFile(questionImport.filePath);
+
+    await this.prisma.questionImport.update({
+      where: { id: questionImport.id },
+      data: {
+        status,
+        report: result.report as unknown as Prisma.InputJsonValue,
+        importedCount: result.importedCount ?? 0,
+        error: result.error ?? null,
+        filePath: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  private async removeFile(filePath: string | null): Promise<void> {
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error(`Failed to remove question bank file ${filePath}: ${error.message}`);
+      }
+    }
+  }
+
+  private toImportInfo(questionImport: QuestionImport): QuestionImportInfo {
+    return {
+      id: questionImport.id,
+      format: questionImport.format,
+      status: questionImport.status,
+      dryRun: questionImport.dryRun,
+      fileName: questionImport.fileName,
+      report: (questionImport.report as unknown as QuestionImportReport) ?? undefined,
+      importedCount: questionImport.importedCount,
+      error: questionImport.error ?? undefined,
+      createdAt: questionImport.createdAt,
+      completedAt: questionImport.completedAt ?? undefined,
+    };
+  }
+
+  private toExportInfo(questionExport: QuestionExport): QuestionExportInfo {
+    return {
+      id: questionExport.id,
+      format: questionExport.format,
+      status: questionExport.status,
+      questionCount: questionExport.questionCount ?? undefined,
+      fileSize: questionExport.fileSize ?? undefined,
+      createdAt: questionExport.createdAt,
+      completedAt: questionExport.completedAt ?? undefined,
+      expiresAt: questionExport.expiresAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { Test } from '@nestjs/testing';
+import { QuestionContentService } from './question-content.service';
+import { CEFRLevel, ModuleType, Question, TypedQuestionBody } from '../../../shared/types';
+
+describe('QuestionContentService', () => {
+  let service: QuestionContentService;
+
+  const fields = (body: unknown) => service.validate(body as Partial<TypedQuestionBody>).map(error => error.field);
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [QuestionContentService],
+    }).compile();
+
+    service = moduleRef.get(QuestionContentService);
+  });
+
+  describe('normalize', () => {
+    it('treats legacy questions with options as multiple choice', () => {
+      const body = service.normalize({ text: 'Pick two', options: ['a', 'b', 'c'] }, ['a', 'b']);
+
+      expect(body.content).toEqual(expect.objectContaining({ kind: 'multiple_choice', multiple: true }));
+    });
+
+    it('treats other legacy questions as short answer', () => {
+      expect(service.normalize({ text: 'Past of go?' }, 'went').content.kind).toBe('short_answer');
+    });
+  });
+
+  describe('validate', () => {
+    it('rejects unknown kinds and missing text', () => {
+      expect(fields({ content: { kind: 'essay', text: 'Write' }, correctAnswer: 'x' })).toEqual(['content.kind']);
+      expect(fields({ content: { kind: 'short_answer', text: ' ' }, correctAnswer: 'went' })).toEqual(['content.text']);
+    });
+
+    it('checks multiple choice answers against the options', () => {
+      const content = { kind: 'multiple_choice', text: 'Pick one', options: ['went', 'goed'] };
+
+      expect(fields({ content, correctAnswer: 'went' })).toEqual([]);
+      expect(fields({ content, correctAnswer: 'gone' })).toEqual(['correctAnswer']);
+      expect(fields({ content, correctAnswer: ['went', 'goed'] })).toEqual(['correctAnswer']);
+      expect(fields({ content: { ...content, multiple: true }, correctAnswer: ['went', 'goed'] })).toEqual([]);
+      expect(fields({ content: { ...content, options: ['went', 'went'] }, correctAnswer: 'went' })).toEqual(['content.options']);
+    });
+
+    it('requires an accepted answer for short answers', () => {
+      expect(fields({ content: { kind: 'short_answer', text: 'Past of go?' }, correctAnswer: [] })).toEqual(['correctAnswer']);
+    });
+
+    it('matches cloze gap markers to the defined gaps and their answers', () => {
+      const content = {
+        kind: 'cloze',
+        text: 'Fill the gaps',
+        passage: 'She {{g1}} to school and {{g2}} home.',
+        gaps: [{ id: 'g1' }, { id: 'g2', options: ['walked', 'walks'] }],
+      };
+
+      expect(fields({ content, correctAnswer: { g1: 'went', g2: 'walked' } })).toEqual([]);
+      expect(fields({ content, correctAnswer: { g1: 'went', g2: 'ran' } })).toEqual(['correctAnswer.g2']);
+      expect(fields({ content, correctAnswer: { g1: 'went' } })).toEqual(['correctAnswer.g2']);
+      expect(fields({ content: { ...content, passage: 'She {{g1}} to school.' }, correctAnswer: { g1: 'went', g2: 'walked' } }))
+        .toEqual(['content.passage']);
+    });
+
+    it('requires ordering answers to be a permutation of the items', () => {
+      const content = { kind: 'ordering', text: 'Order', items: [{ id: 'a', text: 'I' }, { id: 'b', text: 'am' }] };
+
+      expect(fields({ content, correctAnswer: ['a', 'b'] })).toEqual([]);
+      expect(fields({ content, correctAnswer: ['a', 'a'] })).toEqual(['correctAnswer']);
+      expect(fields({ content, correctAnswer: ['a'] })).toEqual(['correctAnswer']);
+    });
+
+    it('requires every left item to be matched to a distinct right item', () => {
+      const content = {
+        kind: 'matching',
+        text: 'Match',
+        left: [{ id: 'l1', text: 'cat' }, { id: 'l2', text: 'dog' }],
+        right: [{ id: 'r1', text: 'gato' }, { id: 'r2', text: 'perro' }],
+      };
+
+      expect(fields({ content, correctAnswer: { l1: 'r1', l2: 'r2' } })).toEqual([]);
+      expect(fields({ content, correctAnswer: { l1: 'r1', l2: 'r1' } })).toEqual(['correctAnswer']);
+      expect(fields({ content, correctAnswer: { l1: 'r1' } })).toEqual(['correctAnswer']);
+    });
+
+    it('enforces the keyword and word limit of sentence transformations', () => {
+      const content = {
+        kind: 'sentence_transformation',
+        text: 'Rewrite using the keyword',
+        sourceSentence: 'It is possible that he forgot.',
+        keyword: 'might',
+        maxWords: 4,
+      };
+
+      expect(fields({ content, correctAnswer: 'He might have forgotten' })).toEqual([]);
+      expect(fields({ content, correctAnswer: 'He may have forgotten' })).toEqual(['correctAnswer']);
+      expect(fields({ content, correctAnswer: 'He might well have forgotten' })).toEqual(['correctAnswer']);
+    });
+
+    it('requires error spotting answers to name a segment and, when asked, a correction', () => {
+      const content = {
+        kind: 'error_spotting',
+        text: 'Find the error',
+        segments: [{ id: 's1', text: 'She' }, { id: 's2', text: 'go' }],
+        requireCorrection: true,
+      };
+
+      expect(fields({ content, correctAnswer: { segmentId: 's2', correction: 'goes' } })).toEqual([]);
+      expect(fields({ content, correctAnswer: { segmentId: 's3', correction: 'goes' } })).toEqual(['correctAnswer.segmentId']);
+      expect(fields({ content, correctAnswer: { segmentId: 's2' } })).toEqual(['correctAnswer.correction']);
+    });
+
+    it('requires dictation audio and transcript', () => {
+      expect(fields({ content: { kind: 'dictation', text: 'Listen', maxPlays: 0 }, correctAnswer: '' }))
+        .toEqual(['content.audioUrl', 'content.maxPlays', 'correctAnswer']);
+    });
+
+    it('bounds the typo tolerance in grading settings', () => {
+      const content = { kind: 'short_answer', text: 'Spell it', grading: { typoTolerance: 6, caseSensitive: 'yes' } };
+
+      expect(fields({ content, correctAnswer: 'necessary' })).toEqual(['content.grading.typoTolerance', 'content.grading.caseSensitive']);
+    });
+  });
+
+  describe('toRenderData', () => {
+    const question = (content: Record<string, unknown>, correctAnswer: unknown) => ({
+      id: 'question-1',
+      moduleType: ModuleType.GRAMMAR,
+      level: CEFRLevel.B1,
+      difficulty: 3,
+      content,
+      correctAnswer,
+      explanation: 'Because',
+      metadata: { revisionId: 'revision-1' },
+    }) as unknown as Question;
+
+    it('strips the answer and explanation', () => {
+      const render = service.toRenderData(question({ kind: 'short_answer', text: 'Past of go?', timeLimit: 30 }, 'went'));
+
+      expect(render).toEqual({
+        questionId: 'question-1',
+        revisionId: 'revision-1',
+        moduleType: ModuleType.GRAMMAR,
+        level: CEFRLevel.B1,
+        content: { kind: 'short_answer', text: 'Past of go?', timeLimit: 30 },
+        timeLimit: 30,
+      });
+      expect(JSON.stringify(render)).not.toContain('went');
+      expect(JSON.stringify(render)).not.toContain('Because');
+    });
+
+    it('keeps every option and item when shuffling', () => {
+      const items = [{ id: 'a', text: 'I' }, { id: 'b', text: 'am' }, { id: 'c', text: 'here' }];
+      const render = service.toRenderData(question({ kind: 'ordering', text: 'Order', items }, ['a', 'b', 'c']));
+
+      expect(render.content).toEqual(expect.objectContaining({ items: expect.arrayContaining(items) }));
+      expect((render.content as { items: unknown[] }).items).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,398 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import {
+  ClozeContent,
+  DictationContent,
+  ErrorSpottingContent,
+  MatchingContent,
+  MultipleChoiceContent,
+  OrderingContent,
+  Question,
+  QuestionContent,
+  QuestionGradingSettings,
+  QuestionItem,
+  QuestionKind,
+  QuestionRenderData,
+  SentenceTransformationContent,
+  TypedQuestionBody,
+} from '../../../shared/types';
+
+export interface QuestionFieldError {
+  field: string;
+  message: string;
+}
+
+export const QUESTION_KINDS: QuestionKind[] = [
+  'multiple_choice',
+  'short_answer',
+  'cloze',
+  'ordering',
+  'matching',
+  'sentence_transformation',
+  'error_spotting',
+  'dictation',
+];
+
+// 完形填空空位标记：{{gapId}}
+const GAP_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// 过大的容错距离会让错误答案也被判为正确
+const MAX_TYPO_TOLERANCE = 5;
+
+/**
+ * 题型相关逻辑：旧格式兼容、按题型校验内容与答案、生成前端渲染数据
+ */
+@Injectable()
+export class QuestionContentService {
+  /**
+   * 未指定 kind 的旧格式题目：有选项视为单选/多选，否则视为简答
+   */
+  normalize(content: unknown, correctAnswer: unknown): TypedQuestionBody {
+    const raw = (content ?? {}) as Record<string, any>;
+    if (raw.kind) {
+      return { content: raw, correctAnswer } as TypedQuestionBody;
+    }
+
+    if (Array.isArray(raw.options) && raw.options.length > 0) {
+      return {
+        content: { ...raw, kind: 'multiple_choice', multiple: Array.isArray(correctAnswer) && correctAnswer.length > 1 },
+        correctAnswer,
+      } as TypedQuestionBody;
+    }
+
+    return { content: { ...raw, kind: 'short_answer' }, correctAnswer } as TypedQuestionBody;
+  }
+
+  /**
+   * 按题型校验内容与答案，返回全部字段错误
+   */
+  validate(body: Partial<TypedQuestionBody>): QuestionFieldError[] {
+    const errors: QuestionFieldError[] = [];
+    const content = body.content;
+
+    if (!content || typeof content !== 'object') {
+      return [{ field: 'content', message: 'Question content is required' }];
+    }
+
+    if (!QUESTION_KINDS.includes(content.kind)) {
+      return [{ field: 'content.kind', message: `Question kind must be one of: ${QUESTION_KINDS.join(', ')}` }];
+    }
+
+    if (!this.isText(content.text)) {
+      errors.push({ field: 'content.text', message: 'Question text is required' });
+    }
+
+    if (content.grading !== undefined) {
+      this.validateGradingSettings(content.grading, errors);
+    }
+
+    const answer = body.correctAnswer as unknown;
+
+    switch (content.kind) {
+      case 'multiple_choice':
+        this.validateMultipleChoice(content, answer, errors);
+        break;
+      case 'short_answer':
+        this.validateAcceptedAnswers(answer, 'correctAnswer', errors);
+        break;
+      case 'cloze':
+        this.validateCloze(content, answer, errors);
+        break;
+      case 'ordering':
+        this.validateOrdering(content, answer, errors);
+        break;
+      case 'matching':
+        this.validateMatching(content, answer, errors);
+        break;
+      case 'sentence_transformation':
+        this.validateSentenceTransformation(content, answer, errors);
+        break;
+      case 'error_spotting':
+        this.validateErrorSpotting(content, answer, errors);
+        break;
+      case 'dictation':
+        this.validateDictation(content, answer, errors);
+        break;
+    }
+
+    return errors;
+  }
+
+  /**
+   * 生成发送给客户端的渲染数据：去掉答案与解析，并打乱选项、排序条目和连线右侧
+   */
+  toRenderData(question: Question): QuestionRenderData {
+    const content = this.shuffleContent(question.content);
+
+    return {
+      questionId: question.id,
+      revisionId: question.metadata.revisionId,
+      moduleType: question.moduleType,
+      level: question.level,
+      content,
+      timeLimit: content.timeLimit,
+    };
+  }
+
+  // 各题型校验
+
+  private validateMultipleChoice(content: MultipleChoiceContent, answer: unknown, errors: QuestionFieldError[]): void {
+    if (!Array.isArray(content.options) || content.options.length < 2 || !content.options.every(option => this.isText(option))) {
+      errors.push({ field: 'content.options', message: 'At least two non-empty options are required' });
+      return;
+    }
+
+    if (new Set(content.options).size !== content.options.length) {
+      errors.push({ field: 'content.options', message: 'Options must be unique' });
+    }
+
+    const answers = this.toList(answer);
+    if (!answers || answers.length === 0) {
+      errors.push({ field: 'correctAnswer', message: 'A correct answer is required' });
+    } else if (answers.some(item => !content.options.includes(item))) {
+      errors.push({ field: 'correctAnswer', message: 'Correct answers must be among the options' });
+    } else if (!content.multiple && answers.length > 1) {
+      errors.push({ field: 'correctAnswer', message: 'Single-choice questions have exactly one correct answer' });
+    }
+  }
+
+  private validateCloze(content: ClozeContent, answer: unknown, errors: QuestionFieldError[]): void {
+    if (!this.isText(content.passage)) {
+      errors.push({ field: 'content.passage', message: 'Cloze passage is required' });
+      return;
+    }
+
+    const gapIds = this.checkItemIds(content.gaps, 'content.gaps', errors, 1);
+    if (!gapIds) {
+      return;
+    }
+
+    // 文中标记与空位定义一一对应
+    const markers = [...content.passage.matchAll(GAP_PATTERN)].map(match => match[1]);
+    if (markers.length !== new Set(markers).size) {
+      errors.push({ field: 'content.passage', message: 'Each gap can only appear once in the passage' });
+    }
+    if (markers.length !== gapIds.length || markers.some(id => !gapIds.includes(id))) {
+      errors.push({ field: 'content.passage', message: 'Gap markers in the passage must match the defined gaps' });
+    }
+
+    if (!this.isRecord(answer)) {
+      errors.push({ field: 'correctAnswer', message: 'Answers must map each gap id to its accepted answers' });
+      return;
+    }
+
+    for (const gap of content.gaps) {
+      const accepted = this.toList(answer[gap.id]);
+      if (!accepted || accepted.length === 0) {
+        errors.push({ field: `correctAnswer.${gap.id}`, message: 'Every gap needs an answer' });
+      } else if (gap.options?.length && accepted.some(item => !gap.options.includes(item))) {
+        errors.push({ field: `correctAnswer.${gap.id}`, message: 'Gap answers must be among the gap options' });
+      }
+    }
+  }
+
+  private validateOrdering(content: OrderingContent, answer: unknown, errors: QuestionFieldError[]): void {
+    const itemIds = this.checkItemIds(content.items, 'content.items', errors, 2);
+    if (!itemIds) {
+      return;
+    }
+
+    const order = this.toList(answer);
+    const isPermutation = Array.isArray(answer) && !!order &&
+      order.length === itemIds.length &&
+      new Set(order).size === order.length &&
+      order.every(id => itemIds.includes(id));
+
+    if (!isPermutation) {
+      errors.push({ field: 'correctAnswer', message: 'Answer must list every item id exactly once' });
+    }
+  }
+
+  private validateMatching(content: MatchingContent, answer: unknown, errors: QuestionFieldError[]): void {
+    const leftIds = this.checkItemIds(content.left, 'content.left', errors, 2);
+    const rightIds = this.checkItemIds(content.right, 'content.right', errors, 2);
+    if (!leftIds || !rightIds) {
+      return;
+    }
+
+    if (rightIds.length < leftIds.length) {
+      errors.push({ field: 'content.right', message: 'The right column needs at least as many items as the left' });
+    }
+
+    if (!this.isRecord(answer)) {
+      errors.push({ field: 'correctAnswer', message: 'Answers must map each left item id to a right item id' });
+      return;
+    }
+
+    const targets = leftIds.map(id => answer[id]);
+    if (targets.some(target => typeof target !== 'string' || !rightIds.includes(target))) {
+      errors.push({ field: 'correctAnswer', message: 'Every left item must be matched to a right item' });
+    } else if (new Set(targets).size !== targets.length) {
+      errors.push({ field: 'correctAnswer', message: 'Each right item can only be matched once' });
+    }
+  }
+
+  private validateSentenceTransformation(
+    content: SentenceTransformationContent,
+    answer: unknown,
+    errors: QuestionFieldError[],
+  ): void {
+    if (!this.isText(content.sourceSentence)) {
+      errors.push({ field: 'content.sourceSentence', message: 'Source sentence is required' });
+    }
+
+    const answers = this.validateAcceptedAnswers(answer, 'correctAnswer', errors);
+    if (!answers) {
+      return;
+    }
+
+    if (content.keyword) {
+      const keyword = new RegExp(`\\b${this.escapeRegExp(content.keyword.trim())}\\b`, 'i');
+      if (answers.some(item => !keyword.test(item))) {
+        errors.push({ field: 'correctAnswer', message: 'Every accepted answer must contain the keyword' });
+      }
+    }
+
+    if (content.maxWords !== undefined) {
+      if (!Number.isInteger(content.maxWords) || content.maxWords < 1) {
+        errors.push({ field: 'content.maxWords', message: 'Word limit must be a positive integer' });
+      } else if (answers.some(item => item.trim().split(/\s+/).length > content.maxWords)) {
+        errors.push({ field: 'correctAnswer', message: `Accepted answers cannot exceed ${content.maxWords} words` });
+      }
+    }
+  }
+
+  private validateErrorSpotting(content: ErrorSpottingContent, answer: unknown, errors: QuestionFieldError[]): void {
+    const segmentIds = this.checkItemIds(content.segments, 'content.segments', errors, 2);
+    if (!segmentIds) {
+      return;
+    }
+
+    if (!this.isRecord(answer) || typeof answer.segmentId !== 'string' || !segmentIds.includes(answer.segmentId)) {
+      errors.push({ field: 'correctAnswer.segmentId', message: 'Answer must identify one of the segments' });
+      return;
+    }
+
+    if (content.requireCorrection) {
+      this.validateAcceptedAnswers(answer.correction, 'correctAnswer.correction', errors);
+    }
+  }
+
+  private validateDictation(content: DictationContent, answer: unknown, errors: QuestionFieldError[]): void {
+    if (!this.isText(content.audioUrl)) {
+      errors.push({ field: 'content.audioUrl', message: 'Dictation requires an audio recording' });
+    }
+
+    if (content.maxPlays !== undefined && (!Number.isInteger(content.maxPlays) || content.maxPlays < 1)) {
+      errors.push({ field: 'content.maxPlays', message: 'Play limit must be a positive integer' });
+    }
+
+    if (!this.isText(answer)) {
+      errors.push({ field: 'correctAnswer', message: 'The dictated text is required' });
+    }
+  }
+
+  private validateGradingSettings(grading: QuestionGradingSettings, errors: QuestionFieldError[]): void {
+    if (!this.isRecord(grading)) {
+      errors.push({ field: 'content.grading', message: 'Grading settings must be an object' });
+      return;
+    }
+
+    const { typoTolerance, ...flags } = grading;
+    if (typoTolerance !== undefined && (!Number.isInteger(typoTolerance) || typoTolerance < 0 || typoTolerance > MAX_TYPO_TOLERANCE)) {
+      errors.push({
+        field: 'content.grading.typoTolerance',
+        message: `Typo tolerance must be an integer between 0 and ${MAX_TYPO_TOLERANCE}`,
+      });
+    }
+
+    for (const [key, value] of Object.entries(flags)) {
+      if (typeof value !== 'boolean') {
+        errors.push({ field: `content.grading.${key}`, message: 'Grading options must be true or false' });
+      }
+    }
+  }
+
+  // 私有辅助方法
+
+  private validateAcceptedAnswers(answer: unknown, field: string, errors: QuestionFieldError[]): string[] | null {
+    const answers = this.toList(answer);
+    if (!answers || answers.length === 0) {
+      errors.push({ field, message: 'At least one accepted answer is required' });
+      return null;
+    }
+    return answers;
+  }
+
+  /**
+   * 校验条目列表（非空文本、ID唯一），通过时返回ID列表
+   */
+  private checkItemIds(
+    items: Array<{ id: string; text?: string }> | undefined,
+    field: string,
+    errors: QuestionFieldError[],
+    minItems: number,
+  ): string[] | null {
+    if (!Array.isArray(items) || items.length < minItems) {
+      errors.push({ field, message: `At least ${minItems} item${minItems > 1 ? 's are' : ' is'} required` });
+      return null;
+    }
+
+    const ids = items.map(item => item?.id);
+    if (ids.some(id => !this.isText(id)) || new Set(ids).size !== ids.length) {
+      errors.push({ field, message: 'Every item needs a unique id' });
+      return null;
+    }
+
+    if (items.some(item => 'text' in item && !this.isText(item.text))) {
+      errors.push({ field, message: 'Items cannot be empty' });
+      return null;
+    }
+
+    return ids;
+  }
+
+  private shuffleContent(content: QuestionContent): QuestionContent {
+    switch (content.kind) {
+      case 'multiple_choice':
+        return { ...content, options: this.shuffle(content.options) };
+      case 'ordering':
+        return { ...content, items: this.shuffle(content.items) };
+      case 'matching':
+        return { ...content, right: this.shuffle(content.right) };
+      case 'cloze':
+        return {
+          ...content,
+          gaps: content.gaps.map(gap => (gap.options ? { ...gap, options: this.shuffle(gap.options) } : gap)),
+        };
+      default:
+        return content;
+    }
+  }
+
+  private shuffle<T extends string | QuestionItem>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private toList(value: unknown): string[] | null {
+    const list = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+    return list.every(item => this.isText(item)) ? (list as string[]) : null;
+  }
+
+  private isText(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
+  private isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
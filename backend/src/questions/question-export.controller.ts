@@ -0,0 +1,52 @@
+import { Controller, Get, Post, Body, Param, UseGuards, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { createReadStream } from 'fs';
+import { ApiKeyAuthGuard } from '../auth/guards/api-key-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ClientInfoParam } from '../auth/decorators/client-info.decorator';
+import { QuestionBankService } from './question-bank.service';
+import { ClientInfo, QuestionExportDto } from '../../../shared/types';
+
+/**
+ * 题库导出接口（只读取题库），集成方可使用仅含 questions:read 的API密钥调用
+ * 导出范围与列表接口相同：审核人可导出全部题目，其他用户仅限自己创建的
+ */
+@ApiTags('questions')
+@ApiBearerAuth()
+@UseGuards(ApiKeyAuthGuard, PermissionsGuard)
+@Controller('questions')
+export class QuestionExportController {
+  constructor(private readonly questionBankService: QuestionBankService) {}
+
+  @Post('export')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '申请导出题库' })
+  async exportQuestions(
+    @CurrentUser('sub') userId: string,
+    @Body() dto: QuestionExportDto,
+    @ClientInfoParam() clientInfo: ClientInfo,
+  ) {
+    return this.questionBankService.requestExport(userId, dto, clientInfo);
+  }
+
+  @Get('exports')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '列出我的导出记录' })
+  async listExports(@CurrentUser('sub') userId: string) {
+    return this.questionBankService.listExports(userId);
+  }
+
+  @Get('exports/:exportId/download')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '下载导出文件' })
+  async downloadExport(@CurrentUser('sub') userId: string, @Param('exportId') exportId: string) {
+    const { filePath, fileName, contentType } = await this.questionBankService.getExportFile(userId, exportId);
+
+    return new StreamableFile(createReadStream(filePath), {
+      type: contentType,
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
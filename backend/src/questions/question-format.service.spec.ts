@@ -0,0 +1,54 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as AdmZip from 'adm-zip';
+import { QuestionFormatService } from './question-format.service';
+import { CEFRLevel, CreateQuestionDto, ModuleType, SkillType } from '../../../shared/types';
+
+const QUESTION: CreateQuestionDto = {
+  moduleType: ModuleType.GRAMMAR,
+  level: CEFRLevel.B1,
+  skillType: SkillType.WRITING,
+  difficulty: 3,
+  explanation: 'Past simple',
+  tags: ['verbs'],
+  estimatedTime: 30,
+  content: { kind: 'short_answer', text: 'Yesterday I ___ (go) to school.' },
+  correctAnswer: 'went',
+};
+
+describe('QuestionFormatService', () => {
+  const create = (settings: Record<string, number> = {}) =>
+    new QuestionFormatService({
+      get: (key: string, fallback?: unknown) => settings[key] ?? fallback,
+    } as unknown as ConfigService);
+
+  it('reads back an exported QTI package', () => {
+    const service = create();
+    const [row] = service.parse('QTI', service.serialize('QTI', [QUESTION]));
+
+    expect(row.issues).toEqual([]);
+    expect(row.dto).toMatchObject({ level: 'B1', content: { kind: 'short_answer' }, correctAnswer: 'went' });
+  });
+
+  it('rejects QTI entries whose uncompressed size exceeds the entry limit', () => {
+    const zip = new AdmZip();
+    zip.addFile('imsmanifest.xml', Buffer.alloc(64 * 1024, ' '));
+
+    expect(() => create({ 'questionBank.maxQtiEntrySize': 1024 }).parse('QTI', zip.toBuffer()))
+      .toThrow(BadRequestException);
+  });
+
+  it('rejects QTI packages whose total uncompressed size exceeds the package limit', () => {
+    const qtiPackage = create().serialize('QTI', [QUESTION, QUESTION, QUESTION]);
+    const service = create({ 'questionBank.maxQtiPackageSize': 2 * 1024 });
+
+    expect(() => service.parse('QTI', qtiPackage)).toThrow(BadRequestException);
+  });
+
+  it('passes unknown enum values through for validation instead of coercing them', () => {
+    const csv = 'moduleType,level,skillType,text,correctAnswer\nchess,z9,juggling,Question?,answer\n';
+    const [row] = create().parse('CSV', Buffer.from(csv));
+
+    expect(row.dto).toMatchObject({ moduleType: 'chess', level: 'Z9', skillType: 'juggling' });
+  });
+});
@@ -0,0 +1,637 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as zlib from 'zlib';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { stringify as stringifyCsv } from 'csv-stringify/sync';
+import { XMLParser } from 'fast-xml-parser';
+import * as AdmZip from 'adm-zip';
+import {
+  CreateQuestionDto,
+  QuestionBankFile,
+  QuestionBankFormat,
+  QuestionImportIssue,
+  QuestionKind,
+} from '../../../shared/types';
+
+/**
+ * 解析出的单个条目，字段类型错误记录在 issues 中，内容校验由 QuestionsService 完成
+ */
+export interface ParsedQuestionRow {
+  row: number;
+  dto: Partial<CreateQuestionDto>;
+  issues: QuestionImportIssue[];
+}
+
+export interface QuestionBankFileType {
+  extension: string;
+  contentType: string;
+}
+
+const FILE_TYPES: Record<QuestionBankFormat, QuestionBankFileType> = {
+  CSV: { extension: 'csv', contentType: 'text/csv' },
+  JSON: { extension: 'json', contentType: 'application/json' },
+  QTI: { extension: 'zip', contentType: 'application/zip' },
+};
+
+// CSV 与 QTI 只能表示选择题和简答题，其他题型仅支持 JSON
+const FLAT_KINDS: QuestionKind[] = ['multiple_choice', 'short_answer'];
+
+// CSV 列，多值字段（options、correctAnswer、tags）以 | 分隔
+export const CSV_COLUMNS = [
+  'moduleType',
+  'level',
+  'skillType',
+  'difficulty',
+  'text',
+  'options',
+  'correctAnswer',
+  'explanation',
+  'tags',
+  'estimatedTime',
+  'audioUrl',
+  'imageUrl',
+  'timeLimit',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const LIST_SEPARATOR = '|';
+const QTI_ITEM_TYPE = 'imsqti_item_xmlv2p1';
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const METADATA_NAMESPACE = 'https://enggamehub.com/xsd/question-metadata';
+
+// preserveOrder 模式下的 XML 节点：{ 标签名: 子节点[], ':@': 属性 } 或 { '#text': 文本 }
+type XmlNode = Record<string, any>;
+
+/**
+ * 题库文件格式转换：CSV、JSON（QuestionBankFile）与 IMS QTI 2.1
+ */
+@Injectable()
+export class QuestionFormatService {
+  private readonly xmlParser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: false,
+  });
+
+  private readonly maxQtiEntrySize: number;
+  private readonly maxQtiPackageSize: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxQtiEntrySize = this.configService.get<number>('questionBank.maxQtiEntrySize', 5 * 1024 * 1024);
+    this.maxQtiPackageSize = this.configService.get<number>('questionBank.maxQtiPackageSize', 50 * 1024 * 1024);
+  }
+
+  parse(format: QuestionBankFormat, buffer: Buffer): ParsedQuestionRow[] {
+    switch (format) {
+      case 'CSV':
+        return this.parseCsvFile(buffer);
+      case 'JSON':
+        return this.parseJsonFile(buffer);
+      case 'QTI':
+        return this.parseQtiPackage(buffer);
+      default:
+        throw new BadRequestException('Unsupported import format');
+    }
+  }
+
+  serialize(format: QuestionBankFormat, questions: CreateQuestionDto[]): Buffer {
+    switch (format) {
+      case 'CSV':
+        return this.toCsv(questions);
+      case 'JSON':
+        return this.toJson(questions);
+      case 'QTI':
+        return this.toQtiPackage(questions);
+      default:
+        throw new BadRequestException('Unsupported export format');
+    }
+  }
+
+  fileType(format: QuestionBankFormat): QuestionBankFileType {
+    return FILE_TYPES[format];
+  }
+
+  /**
+   * 该格式能否表示此题型
+   */
+  supports(format: QuestionBankFormat, kind: QuestionKind): boolean {
+    return format === 'JSON' || FLAT_KINDS.includes(kind);
+  }
+
+  // CSV
+
+  private parseCsvFile(buffer: Buffer): ParsedQuestionRow[] {
+    let records: Record<string, string>[];
+    try {
+      records = parseCsv(buffer, {
+        columns: (header: string[]) => header.map(column => column.trim()),
+        bom: true,
+        skip_empty_lines: true,
+        relax_column_count: true,
+        trim: true,
+      });
+    } catch (error) {
+      throw new BadRequestException(`Invalid CSV file: ${error.message}`);
+    }
+
+    const columns = records.length > 0 ? Object.keys(records[0]) : [];
+    const missing = ['text', 'correctAnswer'].filter(column => !columns.includes(column));
+    if (records.length > 0 && missing.length > 0) {
+      throw new BadRequestException(`Missing CSV columns: ${missing.join(', ')}`);
+    }
+
+    // 第1行为表头
+    return records.map((record, index) => {
+      const row = index + 2;
+      const issues: QuestionImportIssue[] = [];
+      const cell = (column: CsvColumn) => record[column] || undefined;
+      const number = (column: CsvColumn) => this.parseNumber(cell(column), row, column, issues);
+
+      // 有选项为选择题（多个答案时为多选），否则为简答题
+      const options = this.splitList(cell('options'));
+      const answers = this.splitList(cell('correctAnswer'));
+      const content = {
+        kind: options?.length ? 'multiple_choice' : 'short_answer',
+        text: cell('text'),
+        options,
+        multiple: options?.length && answers?.length > 1 ? true : undefined,
+        audioUrl: cell('audioUrl'),
+        imageUrl: cell('imageUrl'),
+        timeLimit: number('timeLimit'),
+      };
+
+      return {
+        row,
+        issues,
+        dto: this.compact({
+          moduleType: cell('moduleType')?.toLowerCase() as CreateQuestionDto['moduleType'],
+          level: cell('level')?.toUpperCase() as CreateQuestionDto['level'],
+          skillType: cell('skillType')?.toLowerCase() as CreateQuestionDto['skillType'],
+          difficulty: number('difficulty'),
+          content: this.compact(content) as CreateQuestionDto['content'],
+          correctAnswer: answers?.length === 1 ? answers[0] : answers,
+          explanation: cell('explanation'),
+          tags: this.splitList(cell('tags')),
+          estimatedTime: number('estimatedTime'),
+        }) as Partial<CreateQuestionDto>, // content 与 correctAnswer 的配对由 findValidationErrors 校验
+      };
+    });
+  }
+
+  private toCsv(questions: CreateQuestionDto[]): Buffer {
+    const records = questions.map(question => ({
+      moduleType: question.moduleType,
+      level: question.level,
+      skillType: question.skillType,
+      difficulty: question.difficulty,
+      text: question.content.text,
+      options: this.optionsOf(question).join(LIST_SEPARATOR) || undefined,
+      correctAnswer: this.answersOf(question).join(LIST_SEPARATOR),
+      explanation: question.explanation,
+      tags: question.tags.join(LIST_SEPARATOR),
+      estimatedTime: question.estimatedTime,
+      audioUrl: question.content.audioUrl,
+      imageUrl: question.content.imageUrl,
+      timeLimit: question.content.timeLimit,
+    }));
+
+    // 带 BOM，便于 Excel 正确识别 UTF-8
+    return Buffer.from('\uFEFF' + stringifyCsv(records, { header: true, columns: [...CSV_COLUMNS] }), 'utf8');
+  }
+
+  // JSON
+
+  private parseJsonFile(buffer: Buffer): ParsedQuestionRow[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new BadRequestException(`Invalid JSON file: ${error.message}`);
+    }
+
+    // 兼容直接提交题目数组
+    const questions = Array.isArray(data) ? data : (data as QuestionBankFile)?.questions;
+    if (!Array.isArray(questions)) {
+      throw new BadRequestException('JSON file must contain a "questions" array');
+    }
+
+    return questions.map((item, index) => {
+      const row = index + 1;
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return { row, dto: {}, issues: [{ row, message: 'Each question must be an object' }] };
+      }
+
+      const { moduleType, level, skillType, difficulty, content, correctAnswer, explanation, tags, estimatedTime } = item;
+      const issues: QuestionImportIssue[] = [];
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+        issues.push({ row, field: 'tags', message: 'Tags must be an array of strings' });
+      }
+
+      return {
+        row,
+        issues,
+        dto: this.compact({
+          moduleType,
+          level,
+          skillType,
+          difficulty,
+          content,
+          correctAnswer,
+          explanation,
+          tags: issues.length ? undefined : tags,
+          estimatedTime,
+        }),
+      };
+    });
+  }
+
+  private toJson(questions: CreateQuestionDto[]): Buffer {
+    const file: QuestionBankFile = { version: 1, questions };
+    return Buffer.from(JSON.stringify(file, null, 2), 'utf8');
+  }
+
+  // QTI 2.1
+
+  /**
+   * 支持 QTI 内容包（zip，含 imsmanifest.xml）或单个 assessmentItem XML
+   * 仅支持 choiceInteraction（选择题）与 textEntryInteraction（简答题）
+   */
+  private parseQtiPackage(buffer: Buffer): ParsedQuestionRow[] {
+    const items: { xml: string; metadata: Record<string, string> }[] = [];
+
+    if (buffer.subarray(0, 2).toString() === 'PK') {
+      let zip: AdmZip;
+      try {
+        zip = new AdmZip(buffer);
+      } catch (error) {
+        throw new BadRequestException(`Invalid QTI package: ${error.message}`);
+      }
+
+      const manifestEntry = zip.getEntry('imsmanifest.xml');
+      if (!manifestEntry) {
+        throw new BadRequestException('QTI package is missing imsmanifest.xml');
+      }
+
+      // 解压前后都按大小限制读取，防止压缩炸弹
+      const budget = { remaining: this.maxQtiPackageSize };
+      const manifest = this.parseXml(this.readZipEntry(manifestEntry, budget));
+      for (const resource of this.findAll(manifest, 'resource')) {
+        if (!this.attr(resource, 'type')?.startsWith(QTI_ITEM_TYPE)) {
+          continue;
+        }
+
+        const href = this.attr(resource, 'href');
+        const entry = href ? zip.getEntry(href) : null;
+        const [metadata] = this.findAll(this.children(resource), 'question');
+        items.push({
+          xml: entry ? this.readZipEntry(entry, budget) : '',
+          metadata: metadata?.[':@'] ?? {},
+        });
+      }
+    } else {
+      items.push({ xml: buffer.toString('utf8'), metadata: {} });
+    }
+
+    return items.map((item, index) => this.parseQtiItem(index + 1, item.xml, item.metadata));
+  }
+
+  /**
+   * 读取压缩包条目：先按声明的解压大小检查单个条目与整包上限，解压时再限制实际输出
+   */
+  private readZipEntry(entry: AdmZip.IZipEntry, budget: { remaining: number }): string {
+    const limit = Math.min(this.maxQtiEntrySize, budget.remaining);
+    if (entry.header.size > limit) {
+      throw new BadRequestException(`QTI package entry ${entry.entryName} exceeds the size limit`);
+    }
+
+    let data: Buffer;
+    try {
+      switch (entry.header.method) {
+        case 0: // STORED
+          data = entry.getCompressedData();
+          break;
+        case 8: // DEFLATED
+          data = zlib.inflateRawSync(entry.getCompressedData(), { maxOutputLength: limit });
+          break;
+        default:
+          throw new Error(`unsupported compression method ${entry.header.method}`);
+      }
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new BadRequestException(`QTI package entry ${entry.entryName} exceeds the size limit`);
+      }
+      throw new BadRequestException(`Invalid QTI package entry ${entry.entryName}: ${error.message}`);
+    }
+
+    if (data.length > limit) {
+      throw new BadRequestException(`QTI package entry ${entry.entryName} exceeds the size limit`);
+    }
+
+    budget.remaining -= data.length;
+    return data.toString('utf8');
+  }
+
+  private parseQtiItem(row: number, xml: string, metadata: Record<string, string>): ParsedQuestionRow {
+    const issues: QuestionImportIssue[] = [];
+
+    let nodes: XmlNode[];
+    try {
+      nodes = this.parseXml(xml);
+    } catch (error) {
+      return { row, dto: {}, issues: [{ row, message: `Invalid item XML: ${error.message}` }] };
+    }
+
+    const [item] = this.findAll(nodes, 'assessmentItem');
+    if (!item) {
+      return { row, dto: {}, issues: [{ row, message: 'Item file does not contain an assessmentItem' }] };
+    }
+
+    // 1. 标准答案（textEntry 的备选答案写在 mapping 中）
+    const [declaration] = this.findAll(this.children(item), 'responseDeclaration');
+    const correctValues = this.findAll(this.findAll(this.children(declaration), 'correctResponse'), 'value')
+      .map(value => this.textOf(this.children(value)).trim());
+    const mappedValues = this.findAll(this.children(declaration), 'mapEntry')
+      .map(entry => this.attr(entry, 'mapKey'))
+      .filter((value): value is string => !!value);
+
+    // 2. 题干与交互
+    const [body] = this.findAll(this.children(item), 'itemBody');
+    const [choice] = this.findAll(this.children(body), 'choiceInteraction');
+    const [textEntry] = this.findAll(this.children(body), 'textEntryInteraction');
+    const [image] = this.findAll(this.children(body), 'img');
+    const [audio] = this.findAll(this.children(body), 'object');
+
+    const content: Record<string, any> = {
+      text: '',
+      imageUrl: image ? this.attr(image, 'src') : undefined,
+      audioUrl: audio ? this.attr(audio, 'data') : undefined,
+    };
+    let correctAnswer: string | string[] | undefined;
+
+    if (choice) {
+      const choices = this.findAll(this.children(choice), 'simpleChoice').map(simpleChoice => ({
+        identifier: this.attr(simpleChoice, 'identifier'),
+        text: this.textOf(this.children(simpleChoice)).trim(),
+      }));
+      const [prompt] = this.findAll(this.children(choice), 'prompt');
+
+      content.kind = 'multiple_choice';
+      content.text = prompt ? this.textOf(this.children(prompt)).trim() : this.textOf(this.children(body), ['choiceInteraction']).trim();
+      content.options = choices.map(option => option.text);
+
+      const answers = correctValues.map(value => choices.find(option => option.identifier === value)?.text);
+      const known = answers.filter((answer): answer is string => answer !== undefined);
+      if (known.length !== answers.length) {
+        issues.push({ row, field: 'correctAnswer', message: 'Correct response refers to an unknown choice' });
+      }
+      const multiple = this.attr(declaration, 'cardinality') === 'multiple';
+      content.multiple = multiple || undefined;
+      correctAnswer = multiple ? known : known[0];
+    } else if (textEntry) {
+      content.kind = 'short_answer';
+      content.text = this.textOf(this.children(body)).trim();
+      const answers = [...new Set([...correctValues, ...mappedValues])];
+      correctAnswer = answers.length === 1 ? answers[0] : answers;
+    } else {
+      issues.push({ row, message: 'Only choiceInteraction and textEntryInteraction items are supported' });
+    }
+
+    // 3. 解析与元数据（本系统导出的包在清单中附带模块、级别等信息）
+    const explanation = this.findAll(this.children(item), 'modalFeedback')
+      .map(feedback => this.textOf(this.children(feedback)).trim())
+      .join('\n');
+
+    return {
+      row,
+      issues,
+      dto: this.compact({
+        moduleType: metadata.moduleType as CreateQuestionDto['moduleType'],
+        level: metadata.level as CreateQuestionDto['level'],
+        skillType: metadata.skillType as CreateQuestionDto['skillType'],
+        difficulty: this.parseNumber(metadata.difficulty, row, 'difficulty', issues),
+        content: this.compact(content) as CreateQuestionDto['content'],
+        correctAnswer,
+        explanation: explanation || undefined,
+        tags: this.splitList(metadata.tags),
+        estimatedTime: this.parseNumber(metadata.estimatedTime, row, 'estimatedTime', issues),
+      }) as Partial<CreateQuestionDto>, // content 与 correctAnswer 的配对由 findValidationErrors 校验
+    };
+  }
+
+  private toQtiPackage(questions: CreateQuestionDto[]): Buffer {
+    const zip = new AdmZip();
+    const resources: string[] = [];
+
+    questions.forEach((question, index) => {
+      const identifier = `item-${String(index + 1).padStart(5, '0')}`;
+      const href = `items/${identifier}.xml`;
+
+      zip.addFile(href, Buffer.from(this.toQtiItem(identifier, question), 'utf8'));
+      resources.push(
+        `    <resource identifier="${identifier}" type="${QTI_ITEM_TYPE}" href="${href}">\n` +
+        '      <metadata>\n' +
+        `        <egh:question moduleType="${this.escapeXml(question.moduleType)}" level="${this.escapeXml(question.level)}"` +
+        ` skillType="${this.escapeXml(question.skillType)}" difficulty="${question.difficulty}"` +
+        ` estimatedTime="${question.estimatedTime}" tags="${this.escapeXml(question.tags.join(LIST_SEPARATOR))}"/>\n` +
+        '      </metadata>\n' +
+        `      <file href="${href}"/>\n` +
+        '    </resource>',
+      );
+    });
+
+    const manifest = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:egh="${METADATA_NAMESPACE}" identifier="MANIFEST-${Date.now()}">`,
+      '  <metadata>',
+      '    <schema>QTIv2.1 Package</schema>',
+      '    <schemaversion>1.0.0</schemaversion>',
+      '  </metadata>',
+      '  <organizations/>',
+      '  <resources>',
+      ...resources,
+      '  </resources>',
+      '</manifest>',
+    ].join('\n');
+    zip.addFile('imsmanifest.xml', Buffer.from(manifest, 'utf8'));
+
+    return zip.toBuffer();
+  }
+
+  private toQtiItem(identifier: string, question: CreateQuestionDto): string {
+    const answers = this.answersOf(question);
+    const options = this.optionsOf(question);
+    const media = [
+      question.content.imageUrl ? `    <p><img src="${this.escapeXml(question.content.imageUrl)}" alt=""/></p>` : null,
+      question.content.audioUrl ? `    <p><object data="${this.escapeXml(question.content.audioUrl)}" type="audio/mpeg"/></p>` : null,
+    ].filter(Boolean);
+
+    let declaration: string;
+    let interaction: string;
+
+    if (options.length > 0) {
+      const multiple = question.content.kind === 'multiple_choice' && (question.content.multiple || answers.length > 1);
+      const choiceId = (option: string) => `CHOICE_${options.indexOf(option) + 1}`;
+      declaration = [
+        `  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">`,
+        '    <correctResponse>',
+        ...answers.map(answer => `      <value>${choiceId(answer)}</value>`),
+        '    </correctResponse>',
+        '  </responseDeclaration>',
+      ].join('\n');
+      interaction = [
+        `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+        `      <prompt>${this.escapeXml(question.content.text)}</prompt>`,
+        ...options.map(option => `      <simpleChoice identifier="${choiceId(option)}">${this.escapeXml(option)}</simpleChoice>`),
+        '    </choiceInteraction>',
+      ].join('\n');
+    } else {
+      // 多个可接受答案以 mapping 表示
+      declaration = [
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+        '    <correctResponse>',
+        `      <value>${this.escapeXml(answers[0])}</value>`,
+        '    </correctResponse>',
+        ...(answers.length > 1
+          ? [
+            '    <mapping defaultValue="0">',
+            ...answers.map(answer => `      <mapEntry mapKey="${this.escapeXml(answer)}" mappedValue="1"/>`),
+            '    </mapping>',
+          ]
+          : []),
+        '  </responseDeclaration>',
+      ].join('\n');
+      interaction = [
+        `    <p>${this.escapeXml(question.content.text)}</p>`,
+        '    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>',
+      ].join('\n');
+    }
+
+    const responseTemplate = options.length > 0 || answers.length === 1 ? 'match_correct' : 'map_response';
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+      `  identifier="${identifier}" title="${this.escapeXml(question.content.text.slice(0, 80))}" adaptive="false" timeDependent="false">`,
+      declaration,
+      '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+      '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+      '  <itemBody>',
+      ...media,
+      interaction,
+      '  </itemBody>',
+      `  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/${responseTemplate}"/>`,
+      `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="hide">${this.escapeXml(question.explanation)}</modalFeedback>`,
+      '</assessmentItem>',
+    ].join('\n');
+  }
+
+  // 私有辅助方法
+
+  private optionsOf(question: CreateQuestionDto): string[] {
+    return question.content.kind === 'multiple_choice' ? question.content.options : [];
+  }
+
+  /**
+   * 选择题与简答题的答案列表（CSV 与 QTI 只处理这两种题型）
+   */
+  private answersOf(question: CreateQuestionDto): string[] {
+    return [question.correctAnswer].flat().filter((answer): answer is string => typeof answer === 'string');
+  }
+
+  private parseXml(xml: string): XmlNode[] {
+    return this.xmlParser.parse(xml);
+  }
+
+  private tagOf(node: XmlNode): string | undefined {
+    return Object.keys(node).find(key => key !== ':@');
+  }
+
+  private children(node?: XmlNode): XmlNode[] {
+    const tag = node ? this.tagOf(node) : undefined;
+    return tag && Array.isArray(node[tag]) ? node[tag] : [];
+  }
+
+  private attr(node: XmlNode | undefined, name: string): string | undefined {
+    return node?.[':@']?.[name];
+  }
+
+  /**
+   * 深度优先查找指定标签（不进入已匹配节点的子树）
+   */
+  private findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+    const found: XmlNode[] = [];
+    for (const node of nodes) {
+      if (this.tagOf(node) === tag) {
+        found.push(node);
+      } else {
+        found.push(...this.findAll(this.children(node), tag));
+      }
+    }
+    return found;
+  }
+
+  /**
+   * 提取纯文本，填空交互以 ___ 表示
+   */
+  private textOf(nodes: XmlNode[], skip: string[] = []): string {
+    return nodes
+      .map(node => {
+        const tag = this.tagOf(node);
+        if (tag === '#text') {
+          return String(node['#text']);
+        }
+        if (tag === 'textEntryInteraction') {
+          return '___';
+        }
+        if (!tag || skip.includes(tag)) {
+          return '';
+        }
+        return this.textOf(this.children(node), skip);
+      })
+      .join('')
+      .replace(/\s+/g, ' ');
+  }
+
+  private parseNumber(value: string | undefined, row: number, field: string, issues: QuestionImportIssue[]): number | undefined {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+      issues.push({ row, field, message: `"${value}" is not a number` });
+      return undefined;
+    }
+
+    return parsed;
+  }
+
+  private splitList(value?: string): string[] | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+  }
+
+  /**
+   * 去掉值为 undefined 的字段，以便与导入默认值合并
+   */
+  private compact<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
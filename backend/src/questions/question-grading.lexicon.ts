@@ -0,0 +1,172 @@
+/**
+ * 判分时的等价词表：缩写展开与英式/美式拼写
+ * 所有键均为小写，比较前双方都按此表转换
+ */
+
+// 不规则的否定缩写，其余 n't 按规则展开
+const IRREGULAR_NEGATIONS: Record<string, string> = {
+  "can't": 'can not',
+  cannot: 'can not',
+  "won't": 'will not',
+  "shan't": 'shall not',
+  "ain't": 'is not',
+};
+
+// 's 跟在这些词后为 is/has 的缩写，其他情况视为所有格
+const S_CONTRACTION_HOSTS = new Set([
+  'he', 'she', 'it', 'that', 'there', 'here', 'what', 'who', 'where', 'when', 'why', 'how', 'this',
+]);
+
+const REGULAR_SUFFIXES: Array<[string, string[]]> = [
+  ["n't", ['not']],
+  ["'re", ['are']],
+  ["'ve", ['have']],
+  ["'ll", ['will']],
+  ["'m", ['am']],
+  ["'d", ['would', 'had']],
+];
+
+/**
+ * 单词的全部展开形式（有歧义时返回多个，如 he's → he is / he has），不是缩写时返回 null
+ */
+export function expandContraction(word: string): string[] | null {
+  if (IRREGULAR_NEGATIONS[word]) {
+    return [IRREGULAR_NEGATIONS[word]];
+  }
+
+  if (word === "let's") {
+    return ['let us'];
+  }
+
+  if (word.endsWith("'s") && S_CONTRACTION_HOSTS.has(word.slice(0, -2))) {
+    const host = word.slice(0, -2);
+    return [`${host} is`, `${host} has`];
+  }
+
+  for (const [suffix, expansions] of REGULAR_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length > suffix.length) {
+      const host = word.slice(0, -suffix.length);
+      return expansions.map(expansion => `${host} ${expansion}`);
+    }
+  }
+
+  return null;
+}
+
+// 英式词干 → 美式词干，按规则派生常见词形
+const OUR_STEMS = [
+  'arbour', 'ardour', 'armour', 'behaviour', 'candour', 'clamour', 'colour', 'endeavour', 'favour', 'fervour',
+  'flavour', 'harbour', 'honour', 'humour', 'labour', 'neighbour', 'odour', 'parlour', 'rancour', 'rigour',
+  'rumour', 'saviour', 'savour', 'splendour', 'tumour', 'valour', 'vapour', 'vigour',
+];
+
+const ISE_STEMS = [
+  'agonis', 'apologis', 'authoris', 'capitalis', 'categoris', 'civilis', 'criticis', 'emphasis', 'familiaris',
+  'finalis', 'globalis', 'harmonis', 'hospitalis', 'idealis', 'legalis', 'localis', 'maximis', 'memoris',
+  'minimis', 'mobilis', 'modernis', 'normalis', 'organis', 'personalis', 'prioritis', 'realis', 'recognis',
+  'socialis', 'specialis', 'standardis', 'summaris', 'symbolis', 'sympathis', 'utilis', 'visualis',
+];
+
+const RE_STEMS = ['calib', 'cent', 'fib', 'lit', 'lust', 'met', 'sab', 'scept', 'somb', 'spect', 'theat'];
+
+const DOUBLE_L_STEMS = [
+  'cancel', 'channel', 'counsel', 'dial', 'duel', 'equal', 'fuel', 'label', 'level', 'marvel', 'model',
+  'panel', 'pedal', 'quarrel', 'signal', 'tunnel', 'travel',
+];
+
+const WORDS: Record<string, string> = {
+  aeroplane: 'airplane',
+  aeroplanes: 'airplanes',
+  ageing: 'aging',
+  aluminium: 'aluminum',
+  analyse: 'analyze',
+  analysed: 'analyzed',
+  analysing: 'analyzing',
+  burnt: 'burned',
+  catalogue: 'catalog',
+  catalogues: 'catalogs',
+  cheque: 'check',
+  cheques: 'checks',
+  cosy: 'cozy',
+  defence: 'defense',
+  dialogue: 'dialog',
+  dialogues: 'dialogs',
+  doughnut: 'donut',
+  doughnuts: 'donuts',
+  dreamt: 'dreamed',
+  enrol: 'enroll',
+  enrolment: 'enrollment',
+  fulfil: 'fulfill',
+  fulfilment: 'fulfillment',
+  grey: 'gray',
+  jewellery: 'jewelry',
+  judgement: 'judgment',
+  kerb: 'curb',
+  learnt: 'learned',
+  licence: 'license',
+  manoeuvre: 'maneuver',
+  mould: 'mold',
+  moustache: 'mustache',
+  mum: 'mom',
+  offence: 'offense',
+  paralyse: 'paralyze',
+  plough: 'plow',
+  practise: 'practice',
+  practised: 'practiced',
+  practising: 'practicing',
+  pretence: 'pretense',
+  programme: 'program',
+  programmes: 'programs',
+  pyjamas: 'pajamas',
+  sceptical: 'skeptical',
+  skilful: 'skillful',
+  smelt: 'smelled',
+  spelt: 'spelled',
+  spoilt: 'spoiled',
+  storey: 'story',
+  storeys: 'stories',
+  tyre: 'tire',
+  tyres: 'tires',
+  whisky: 'whiskey',
+  woollen: 'woolen',
+};
+
+function buildSpellingMap(): Map<string, string> {
+  const map = new Map(Object.entries(WORDS));
+  const add = (british: string, american: string, suffixes: string[]) => {
+    for (const suffix of suffixes) {
+      map.set(british + suffix, american + suffix);
+    }
+  };
+
+  // colour → color, colours, coloured, colourful ...
+  for (const stem of OUR_STEMS) {
+    add(stem, stem.replace(/our$/, 'or'), ['', 's', 'ed', 'ing', 'ful', 'less', 'able', 'ite', 'ites', 'ism']);
+  }
+
+  // organise → organize, organisation → organization ...
+  for (const stem of ISE_STEMS) {
+    add(stem, stem.replace(/is$/, 'iz'), ['e', 'es', 'ed', 'ing', 'er', 'ers', 'ation', 'ations']);
+  }
+
+  // centre → center, theatres → theaters
+  for (const stem of RE_STEMS) {
+    add(`${stem}re`, `${stem}er`, ['', 's']);
+  }
+
+  // travelled → traveled, cancelling → canceling
+  for (const stem of DOUBLE_L_STEMS) {
+    add(`${stem}l`, stem, ['ed', 'ing', 'er', 'ers']);
+  }
+
+  return map;
+}
+
+const SPELLING_MAP = buildSpellingMap();
+
+/**
+ * 英式拼写转为美式，其他单词原样返回
+ */
+export function toAmericanSpelling(word: string): string {
+  return SPELLING_MAP.get(word) ?? word;
+}
@@ -0,0 +1,142 @@
+import { Test } from '@nestjs/testing';
+import { QuestionGradingService, GradableQuestion } from './question-grading.service';
+import { QuestionContentService } from './question-content.service';
+import { QuestionsService } from './questions.service';
+import { PrismaService } from '../database/database.module';
+import { NotFoundError } from '../../../shared/types';
+
+jest.mock('../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('QuestionGradingService', () => {
+  let service: QuestionGradingService;
+  let prisma: {
+    questionRevision: { findFirst: jest.Mock };
+    question: { findUnique: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      questionRevision: { findFirst: jest.fn() },
+      question: { findUnique: jest.fn() },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        QuestionGradingService,
+        QuestionContentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: QuestionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(QuestionGradingService);
+  });
+
+  describe('typo tolerance', () => {
+    const shortAnswer = (correctAnswer: string | string[], grading = {}): GradableQuestion => ({
+      questionId: 'q-1',
+      explanation: '',
+      content: { kind: 'short_answer', text: 'Translate', grading },
+      correctAnswer,
+    });
+
+    it('accepts a misspelling within the automatic tolerance and explains it', () => {
+      const grade = service.grade(shortAnswer('necessary'), 'neccessary');
+
+      expect(grade).toMatchObject({ isCorrect: true, score: 100 });
+      expect(grade.feedback).toEqual([expect.objectContaining({ code: 'typo', expected: 'necessary' })]);
+    });
+
+    it('rejects misspellings beyond the tolerance', () => {
+      const grade = service.grade(shortAnswer('necessary'), 'nesesary');
+
+      expect(grade).toMatchObject({ isCorrect: false, score: 0 });
+      expect(grade.feedback[0].code).toBe('incorrect');
+    });
+
+    it('does not tolerate typos in answers of four characters or fewer', () => {
+      expect(service.grade(shortAnswer('cat'), 'cut').isCorrect).toBe(false);
+    });
+
+    it('uses the tolerance configured on the question', () => {
+      expect(service.grade(shortAnswer('necessary', { typoTolerance: 0 }), 'neccessary').isCorrect).toBe(false);
+      expect(service.grade(shortAnswer('necessary', { typoTolerance: 2 }), 'nesesary').isCorrect).toBe(true);
+    });
+
+    it('treats case, punctuation, contractions and British spelling as equivalent', () => {
+      const grade = service.grade(shortAnswer('I do not like the colour grey.'), "i don't like the color gray");
+
+      expect(grade).toMatchObject({ isCorrect: true, feedback: [] });
+    });
+
+    it('accepts alternative answers', () => {
+      expect(service.grade(shortAnswer(['autumn', 'fall']), 'Fall').isCorrect).toBe(true);
+    });
+  });
+
+  describe('partial credit', () => {
+    const ordering = (grading = {}): GradableQuestion => ({
+      questionId: 'q-2',
+      explanation: '',
+      content: {
+        kind: 'ordering',
+        text: 'Put the words in order',
+        items: [{ id: 'a', text: 'I' }, { id: 'b', text: 'like' }, { id: 'c', text: 'green' }, { id: 'd', text: 'tea' }],
+        grading,
+      },
+      correctAnswer: ['a', 'b', 'c', 'd'],
+    });
+
+    const matching: GradableQuestion = {
+      questionId: 'q-3',
+      explanation: '',
+      content: {
+        kind: 'matching',
+        text: 'Match the opposites',
+        left: [{ id: 'hot', text: 'hot' }, { id: 'big', text: 'big' }],
+        right: [{ id: 'cold', text: 'cold' }, { id: 'small', text: 'small' }, { id: 'tall', text: 'tall' }],
+      },
+      correctAnswer: { hot: 'cold', big: 'small' },
+    };
+
+    it('scores ordering by the items already in sequence', () => {
+      const grade = service.grade(ordering(), ['a', 'b', 'd', 'c']);
+
+      expect(grade).toMatchObject({ isCorrect: false, score: 75 });
+      expect(grade.feedback).toEqual([expect.objectContaining({ code: 'misplaced' })]);
+    });
+
+    it('gives no credit for a partly correct order when partial credit is disabled', () => {
+      expect(service.grade(ordering({ partialCredit: false }), ['a', 'b', 'd', 'c']).score).toBe(0);
+    });
+
+    it('scores matching per correct pair and reports wrong and missing pairs', () => {
+      expect(service.grade(matching, { hot: 'cold', big: 'tall' })).toMatchObject({ score: 50 });
+      expect(service.grade(matching, { hot: 'cold' }).feedback).toEqual([
+        expect.objectContaining({ code: 'missing', target: 'big', expected: 'small' }),
+      ]);
+    });
+  });
+
+  describe('gradeSubmission', () => {
+    it('grades against the revision that was served', async () => {
+      prisma.questionRevision.findFirst.mockResolvedValue({
+        id: 'rev-1',
+        questionId: 'q-1',
+        content: { kind: 'short_answer', text: 'Capital of France?' },
+        correctAnswer: 'Paris',
+        explanation: null,
+      });
+
+      await expect(service.gradeSubmission('q-1', 'rev-1', 'paris'))
+        .resolves.toMatchObject({ revisionId: 'rev-1', isCorrect: true });
+      expect(prisma.questionRevision.findFirst).toHaveBeenCalledWith({ where: { id: 'rev-1', questionId: 'q-1' } });
+    });
+
+    it('does not grade against unpublished drafts', async () => {
+      prisma.question.findUnique.mockResolvedValue({ id: 'q-1', currentRevision: null, reviewStatus: 'PENDING' });
+
+      await expect(service.gradeSubmission('q-1', undefined, 'paris')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,726 @@
+import { Injectable } from '@nestjs/common';
+import { Question as QuestionRecord, QuestionRevision, ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { QuestionsService } from './questions.service';
+import { QuestionContentService } from './question-content.service';
+import { expandContraction, toAmericanSpelling } from './question-grading.lexicon';
+import {
+  AnswerGrade,
+  ClozeContent,
+  ErrorSpottingContent,
+  GradingFeedback,
+  MatchingContent,
+  MultipleChoiceContent,
+  NotFoundError,
+  OrderingContent,
+  QuestionAnswerMap,
+  QuestionGradingSettings,
+  SentenceTransformationContent,
+  TypedQuestionBody,
+  ValidationError,
+} from '../../../shared/types';
+
+/**
+ * 判分所需的题目内容：当前题目或作答时的修订快照
+ */
+export type GradableQuestion = TypedQuestionBody & {
+  questionId: string;
+  revisionId?: string;
+  explanation: string;
+};
+
+type GradingSettings = Required<Omit<QuestionGradingSettings, 'typoTolerance'>> & Pick<QuestionGradingSettings, 'typoTolerance'>;
+
+// 得分比例（0-1）与扣分原因
+interface PartialGrade {
+  credit: number;
+  feedback: GradingFeedback[];
+}
+
+interface TextMatch {
+  answer: string;
+  distance: number;
+}
+
+const DEFAULT_SETTINGS: GradingSettings = {
+  caseSensitive: false,
+  ignorePunctuation: true,
+  equivalentSpellings: true,
+  expandContractions: true,
+  partialCredit: true,
+};
+
+// 单词（可含词内撇号，如 don't）或单个标点
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+const WORD_PATTERN = /^[\p{L}\p{N}]/u;
+
+// 缩写有歧义时（he's、I'd）生成多种展开形式，限制组合数量
+const MAX_VARIANTS = 16;
+
+/**
+ * 统一判分：各题型在此实现评分规则，游戏与练习提交答案时都经由此处
+ * 文本比较前统一大小写、空白、标点、缩写与英美拼写，并按题目设置容忍拼写错误
+ */
+@Injectable()
+export class QuestionGradingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly questionContentService: QuestionContentService,
+  ) {}
+
+  /**
+   * 按作答时下发的修订判分；未记录修订时使用当前已发布的版本，不会按未审核的草稿判分
+   */
+  async gradeSubmission(questionId: string, revisionId: string | undefined, response: unknown): Promise<AnswerGrade> {
+    if (revisionId) {
+      const revision = await this.prisma.questionRevision.findFirst({ where: { id: revisionId, questionId } });
+      if (!revision) {
+        throw new NotFoundError('Question revision');
+      }
+      return this.grade(this.fromRevision(revision), response);
+    }
+
+    const question = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      include: { currentRevision: true },
+    });
+
+    if (question?.currentRevision) {
+      return this.grade(this.fromRevision(question.currentRevision), response);
+    }
+
+    // 修订功能上线前审核通过的题目没有快照
+    if (question?.reviewStatus === ReviewStatus.APPROVED) {
+      return this.grade(this.fromRecord(question), response);
+    }
+
+    throw new NotFoundError('Question');
+  }
+
+  /**
+   * 按题目当前草稿判分（作者调试判分设置时使用）
+   */
+  async gradeDraft(actorId: string, questionId: string, response: unknown): Promise<AnswerGrade> {
+    const question = await this.questionsService.getAccessible(actorId, questionId);
+    return this.grade(this.fromRecord(question), response);
+  }
+
+  grade(question: GradableQuestion, response: unknown): AnswerGrade {
+    const { content } = question;
+    const settings: GradingSettings = { ...DEFAULT_SETTINGS, ...content.grading };
+    const answer = question.correctAnswer as unknown;
+
+    let result: PartialGrade;
+    switch (content.kind) {
+      case 'multiple_choice':
+        result = this.gradeMultipleChoice(content, answer as QuestionAnswerMap['multiple_choice'], response, settings);
+        break;
+      case 'short_answer':
+        result = this.gradeText(this.toList(answer as QuestionAnswerMap['short_answer']), this.expectString(response), settings);
+        break;
+      case 'cloze':
+        result = this.gradeCloze(content, answer as QuestionAnswerMap['cloze'], response, settings);
+        break;
+      case 'ordering':
+        result = this.gradeOrdering(content, answer as QuestionAnswerMap['ordering'], response);
+        break;
+      case 'matching':
+        result = this.gradeMatching(content, answer as QuestionAnswerMap['matching'], response);
+        break;
+      case 'sentence_transformation':
+        result = this.gradeSentenceTransformation(
+          content, answer as QuestionAnswerMap['sentence_transformation'], response, settings,
+        );
+        break;
+      case 'error_spotting':
+        result = this.gradeErrorSpotting(content, answer as QuestionAnswerMap['error_spotting'], response, settings);
+        break;
+      case 'dictation':
+        result = this.gradeDictation(answer as QuestionAnswerMap['dictation'], response, settings);
+        break;
+    }
+
+    // 不给部分分时，未全对即为 0 分
+    const credit = settings.partialCredit || result.credit === 1 ? result.credit : 0;
+    const score = Math.round(Math.min(1, Math.max(0, credit)) * 100);
+
+    return {
+      questionId: question.questionId,
+      revisionId: question.revisionId,
+      isCorrect: score === 100,
+      score,
+      feedback: result.feedback,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation,
+    };
+  }
+
+  // 各题型判分
+
+  private gradeMultipleChoice(
+    content: MultipleChoiceContent,
+    answer: QuestionAnswerMap['multiple_choice'],
+    response: unknown,
+    settings: GradingSettings,
+  ): PartialGrade {
+    const expected = this.toList(answer);
+    const selected = [...new Set(typeof response === 'string' ? [response] : this.expectStringArray(response))];
+    const wrong = selected.filter(option => !expected.includes(option));
+    const missing = expected.filter(option => !selected.includes(option));
+
+    const feedback: GradingFeedback[] = [
+      ...wrong.map(option => ({
+        code: 'incorrect' as const,
+        target: option,
+        received: option,
+        message: `"${option}" is not a correct option`,
+      })),
+      ...missing.map(option => ({
+        code: 'missing' as const,
+        target: option,
+        expected: option,
+        message: content.multiple ? `"${option}" is also correct` : `The correct option is "${option}"`,
+      })),
+    ];
+
+    // 多选题：选对的减去选错的，按正确选项数计分
+    const hits = selected.length - wrong.length;
+    const credit = content.multiple && settings.partialCredit
+      ? Math.max(0, (hits - wrong.length) / expected.length)
+      : Number(feedback.length === 0);
+
+    return { credit, feedback };
+  }
+
+  private gradeText(accepted: string[], response: string, settings: GradingSettings, target?: string): PartialGrade {
+    const match = this.matchText(response, accepted, settings, true);
+
+    if (!match) {
+      return {
+        credit: 0,
+        feedback: [{
+          code: 'incorrect',
+          target,
+          expected: accepted[0],
+          received: response,
+          message: 'The answer does not match any accepted answer',
+        }],
+      };
+    }
+
+    return { credit: 1, feedback: this.typoFeedback(match, response, target) };
+  }
+
+  private gradeCloze(
+    content: ClozeContent,
+    answer: QuestionAnswerMap['cloze'],
+    response: unknown,
+    settings: GradingSettings,
+  ): PartialGrade {
+    const filled = this.expectRecord(response);
+    const feedback: GradingFeedback[] = [];
+    let correct = 0;
+
+    for (const gap of content.gaps) {
+      const accepted = this.toList(answer[gap.id]);
+      const received = filled[gap.id];
+
+      if (typeof received !== 'string' || !received.trim()) {
+        feedback.push({ code: 'missing', target: gap.id, expected: accepted[0], message: `Gap ${gap.id} was left empty` });
+        continue;
+      }
+
+      // 下拉选择的空位不做拼写容错
+      const match = this.matchText(received, accepted, settings, !gap.options?.length);
+      if (match) {
+        correct++;
+        feedback.push(...this.typoFeedback(match, received, gap.id));
+      } else {
+        feedback.push({
+          code: 'incorrect',
+          target: gap.id,
+          expected: accepted[0],
+          received,
+          message: `"${received}" is not correct for gap ${gap.id}`,
+        });
+      }
+    }
+
+    return { credit: correct / content.gaps.length, feedback };
+  }
+
+  /**
+   * 排序题：按最长公共子序列计分，不在其中的条目视为位置错误
+   */
+  private gradeOrdering(
+    content: OrderingContent,
+    answer: QuestionAnswerMap['ordering'],
+    response: unknown,
+  ): PartialGrade {
+    const order = this.expectStringArray(response);
+    const itemIds = content.items.map(item => item.id);
+    if (new Set(order).size !== order.length || order.some(id => !itemIds.includes(id))) {
+      throw new ValidationError('Answer must list each item at most once', 'answer');
+    }
+
+    const inOrder = new Set(this.longestCommonSubsequence(answer, order));
+    const textOf = (id: string) => content.items.find(item => item.id === id)?.text ?? id;
+
+    const feedback: GradingFeedback[] = answer
+      .filter(id => !inOrder.has(id))
+      .map(id => ({
+        code: 'misplaced' as const,
+        target: id,
+        expected: String(answer.indexOf(id) + 1),
+        received: order.includes(id) ? String(order.indexOf(id) + 1) : undefined,
+        message: `"${textOf(id)}" belongs in position ${answer.indexOf(id) + 1}`,
+      }));
+
+    return { credit: inOrder.size / answer.length, feedback };
+  }
+
+  private gradeMatching(
+    content: MatchingContent,
+    answer: QuestionAnswerMap['matching'],
+    response: unknown,
+  ): PartialGrade {
+    const pairs = this.expectRecord(response);
+    const rightText = (id: string) => content.right.find(item => item.id === id)?.text ?? id;
+    const feedback: GradingFeedback[] = [];
+    let correct = 0;
+
+    for (const left of content.left) {
+      const expected = answer[left.id];
+      const received = pairs[left.id];
+
+      if (received === expected) {
+        correct++;
+      } else if (typeof received !== 'string') {
+        feedback.push({
+          code: 'missing',
+          target: left.id,
+          expected: rightText(expected),
+          message: `"${left.text}" was not matched`,
+        });
+      } else {
+        feedback.push({
+          code: 'incorrect',
+          target: left.id,
+          expected: rightText(expected),
+          received: rightText(received),
+          message: `"${left.text}" matches "${rightText(expected)}"`,
+        });
+      }
+    }
+
+    return { credit: correct / content.left.length, feedback };
+  }
+
+  private gradeSentenceTransformation(
+    content: SentenceTransformationContent,
+    answer: QuestionAnswerMap['sentence_transformation'],
+    response: unknown,
+    settings: GradingSettings,
+  ): PartialGrade {
+    let completion = this.expectString(response).trim();
+
+    // 学生可能把题目给出的句子开头一并写上
+    const stem = content.stem?.trim();
+    if (stem && completion.toLowerCase().startsWith(stem.toLowerCase())) {
+      completion = completion.slice(stem.length).trim();
+    }
+
+    // 关键词必须原样出现
+    if (content.keyword) {
+      const keyword = new RegExp(`(^|[^\\p{L}])${this.escapeRegExp(content.keyword.trim())}(?![\\p{L}])`, 'iu');
+      if (!keyword.test(completion)) {
+        return {
+          credit: 0,
+          feedback: [{
+            code: 'keyword_missing',
+            expected: content.keyword,
+            received: completion,
+            message: `The answer must use the word "${content.keyword}" without changing it`,
+          }],
+        };
+      }
+    }
+
+    // 缩写按两个词计算（don't = do not）
+    if (content.maxWords) {
+      const wordCount = this.variants(completion, { ...settings, expandContractions: true })[0]
+        .split(' ')
+        .filter(word => WORD_PATTERN.test(word)).length;
+      if (wordCount > content.maxWords) {
+        return {
+          credit: 0,
+          feedback: [{
+            code: 'too_many_words',
+            received: String(wordCount),
+            expected: String(content.maxWords),
+            message: `The answer uses ${wordCount} words; the limit is ${content.maxWords}`,
+          }],
+        };
+      }
+    }
+
+    return this.gradeText(this.toList(answer), completion, settings);
+  }
+
+  /**
+   * 找错题：片段选对得分；要求改正时改正错误得一半分
+   */
+  private gradeErrorSpotting(
+    content: ErrorSpottingContent,
+    answer: QuestionAnswerMap['error_spotting'],
+    response: unknown,
+    settings: GradingSettings,
+  ): PartialGrade {
+    const submitted = this.expectRecord(response);
+    if (typeof submitted.segmentId !== 'string') {
+      throw new ValidationError('Answer must identify a segment', 'answer.segmentId');
+    }
+
+    const segmentText = (id: string) => content.segments.find(segment => segment.id === id)?.text ?? id;
+
+    if (submitted.segmentId !== answer.segmentId) {
+      return {
+        credit: 0,
+        feedback: [{
+          code: 'incorrect',
+          target: submitted.segmentId,
+          expected: segmentText(answer.segmentId),
+          received: segmentText(submitted.segmentId),
+          message: `The error is in "${segmentText(answer.segmentId)}"`,
+        }],
+      };
+    }
+
+    if (!content.requireCorrection) {
+      return { credit: 1, feedback: [] };
+    }
+
+    const corrections = this.toList(answer.correction);
+    const correction = typeof submitted.correction === 'string' ? submitted.correction.trim() : '';
+    if (!correction) {
+      return {
+        credit: 0.5,
+        feedback: [{
+          code: 'correction_required',
+          target: answer.segmentId,
+          expected: corrections[0],
+          message: 'The error was found but not corrected',
+        }],
+      };
+    }
+
+    const match = this.matchText(correction, corrections, settings, true);
+    if (!match) {
+      return {
+        credit: 0.5,
+        feedback: [{
+          code: 'incorrect',
+          target: answer.segmentId,
+          expected: corrections[0],
+          received: correction,
+          message: `The error was found, but "${correction}" is not the right correction`,
+        }],
+      };
+    }
+
+    return { credit: 1, feedback: this.typoFeedback(match, correction, answer.segmentId) };
+  }
+
+  /**
+   * 听写：逐词对齐，按漏写、多写与写错的词数扣分，单词内的小拼写错误不扣分
+   */
+  private gradeDictation(
+    answer: QuestionAnswerMap['dictation'],
+    response: unknown,
+    settings: GradingSettings,
+  ): PartialGrade {
+    const expectedForms = this.variants(answer, settings);
+    const received = this.variants(this.expectString(response), settings);
+    if (expectedForms.some(form => received.includes(form))) {
+      return { credit: 1, feedback: [] };
+    }
+
+    const [expected] = expectedForms;
+    const expectedWords = expected.split(' ').filter(Boolean);
+    const receivedWords = received[0].split(' ').filter(Boolean);
+    const feedback: GradingFeedback[] = [];
+    let errors = 0;
+
+    for (const step of this.alignWords(expectedWords, receivedWords, settings)) {
+      if (step.expected !== undefined && step.received !== undefined) {
+        if (step.expected === step.received) {
+          continue;
+        }
+        if (this.withinTolerance(step.expected, step.received, settings)) {
+          feedback.push({
+            code: 'typo',
+            expected: step.expected,
+            received: step.received,
+            message: `"${step.received}" is misspelt; it should be "${step.expected}"`,
+          });
+          continue;
+        }
+        errors++;
+        feedback.push({
+          code: 'incorrect',
+          expected: step.expected,
+          received: step.received,
+          message: `"${step.received}" should be "${step.expected}"`,
+        });
+      } else if (step.expected !== undefined) {
+        errors++;
+        feedback.push({ code: 'missing', expected: step.expected, message: `"${step.expected}" is missing` });
+      } else {
+        errors++;
+        feedback.push({ code: 'extra', received: step.received, message: `"${step.received}" is not in the recording` });
+      }
+    }
+
+    return { credit: Math.max(0, 1 - errors / expectedWords.length), feedback };
+  }
+
+  // 文本比较
+
+  /**
+   * 与可接受答案逐一比较：先比较归一化后的形式，再按容错距离比较，返回最接近的答案
+   */
+  private matchText(response: string, accepted: string[], settings: GradingSettings, allowTypos: boolean): TextMatch | null {
+    const received = this.variants(response, settings);
+    let best: TextMatch | null = null;
+
+    for (const answer of accepted) {
+      const expected = this.variants(answer, settings);
+      if (expected.some(form => received.includes(form))) {
+        return { answer, distance: 0 };
+      }
+
+      const tolerance = allowTypos ? this.typoTolerance(answer, settings) : 0;
+      if (tolerance === 0) {
+        continue;
+      }
+
+      for (const expectedForm of expected) {
+        for (const receivedForm of received) {
+          const distance = this.editDistance([...expectedForm], [...receivedForm]);
+          if (distance <= tolerance && (!best || distance < best.distance)) {
+            best = { answer, distance };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 归一化文本，返回全部等价形式：统一引号与大小写，按词切分，展开缩写、转为美式拼写，可选去掉标点
+   */
+  private variants(text: string, settings: GradingSettings): string[] {
+    let value = text.normalize('NFKC')
+      .replace(/[\u2018\u2019\u02BC`\u00B4]/g, "'")
+      .replace(/[\u201C\u201D]/g, '"');
+    if (!settings.caseSensitive) {
+      value = value.toLowerCase();
+    }
+
+    let forms: string[][] = [[]];
+    for (const token of value.match(TOKEN_PATTERN) ?? []) {
+      if (!WORD_PATTERN.test(token)) {
+        if (!settings.ignorePunctuation) {
+          forms = forms.map(form => [...form, token]);
+        }
+        continue;
+      }
+
+      const expansions = (settings.expandContractions && expandContraction(token.toLowerCase())) || [token];
+      const words = expansions.map(expansion => expansion
+        .split(' ')
+        .map((word, index) => {
+          const cased = index === 0 ? this.matchCase(token, word) : word;
+          const american = settings.equivalentSpellings ? toAmericanSpelling(cased.toLowerCase()) : cased.toLowerCase();
+          const spelled = american === cased.toLowerCase() ? cased : this.matchCase(cased, american);
+          // 剩余的撇号（所有格等）不影响比较
+          return settings.ignorePunctuation ? spelled.replace(/'/g, '') : spelled;
+        })
+        .join(' '));
+
+      forms = forms.flatMap(form => words.map(word => [...form, word])).slice(0, MAX_VARIANTS);
+    }
+
+    return [...new Set(forms.map(form => form.join(' ')))];
+  }
+
+  /**
+   * 未设置时按答案长度确定：4个字符以内不容错，10个以内容许1处，更长容许2处
+   */
+  private typoTolerance(answer: string, settings: GradingSettings): number {
+    if (settings.typoTolerance !== undefined) {
+      return settings.typoTolerance;
+    }
+
+    const length = answer.replace(/\s/g, '').length;
+    return length <= 4 ? 0 : length <= 10 ? 1 : 2;
+  }
+
+  private withinTolerance(expected: string, received: string, settings: GradingSettings): boolean {
+    const tolerance = this.typoTolerance(expected, settings);
+    return tolerance > 0 && this.editDistance([...expected], [...received]) <= tolerance;
+  }
+
+  private typoFeedback(match: TextMatch, received: string, target?: string): GradingFeedback[] {
+    if (match.distance === 0) {
+      return [];
+    }
+
+    return [{
+      code: 'typo',
+      target,
+      expected: match.answer,
+      received,
+      message: `Accepted with a spelling mistake; the correct spelling is "${match.answer}"`,
+    }];
+  }
+
+  // 序列算法
+
+  /**
+   * Levenshtein 编辑距离
+   */
+  private editDistance<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (equals(a[i - 1], b[j - 1]) ? 0 : 1);
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * 逐词对齐（编辑距离回溯），容错范围内的拼写错误视为同一个词
+   */
+  private alignWords(
+    expected: string[],
+    received: string[],
+    settings: GradingSettings,
+  ): Array<{ expected?: string; received?: string }> {
+    const same = (x: string, y: string) => x === y || this.withinTolerance(x, y, settings);
+    const cost: number[][] = Array.from({ length: expected.length + 1 }, (_, i) =>
+      Array.from({ length: received.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+    for (let i = 1; i <= expected.length; i++) {
+      for (let j = 1; j <= received.length; j++) {
+        cost[i][j] = Math.min(
+          cost[i - 1][j] + 1,
+          cost[i][j - 1] + 1,
+          cost[i - 1][j - 1] + (same(expected[i - 1], received[j - 1]) ? 0 : 1),
+        );
+      }
+    }
+
+    const steps: Array<{ expected?: string; received?: string }> = [];
+    let i = expected.length;
+    let j = received.length;
+    while (i > 0 || j > 0) {
+      if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (same(expected[i - 1], received[j - 1]) ? 0 : 1)) {
+        steps.push({ expected: expected[--i], received: received[--j] });
+      } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+        steps.push({ expected: expected[--i] });
+      } else {
+        steps.push({ received: received[--j] });
+      }
+    }
+
+    return steps.reverse();
+  }
+
+  private longestCommonSubsequence(a: string[], b: string[]): string[] {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const sequence: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        sequence.push(a[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return sequence;
+  }
+
+  // 私有辅助方法
+
+  private fromRevision(revision: QuestionRevision): GradableQuestion {
+    return {
+      ...this.questionContentService.normalize(revision.content, revision.correctAnswer),
+      questionId: revision.questionId,
+      revisionId: revision.id,
+      explanation: revision.explanation ?? '',
+    };
+  }
+
+  private fromRecord(question: QuestionRecord): GradableQuestion {
+    return {
+      ...this.questionContentService.normalize(question.content, question.correctAnswer),
+      questionId: question.id,
+      explanation: question.explanation ?? '',
+    };
+  }
+
+  private toList(value: string | string[] | undefined): string[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+  }
+
+  private matchCase(original: string, replacement: string): string {
+    return /^\p{Lu}/u.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+  }
+
+  private expectString(response: unknown): string {
+    if (typeof response !== 'string') {
+      throw new ValidationError('Answer must be text for this question type', 'answer');
+    }
+    return response;
+  }
+
+  private expectStringArray(response: unknown): string[] {
+    if (!Array.isArray(response) || response.some(item => typeof item !== 'string')) {
+      throw new ValidationError('Answer must be a list for this question type', 'answer');
+    }
+    return response;
+  }
+
+  private expectRecord(response: unknown): Record<string, unknown> {
+    if (typeof response !== 'object' || response === null || Array.isArray(response)) {
+      throw new ValidationError('Answer must be an object for this question type', 'answer');
+    }
+    return response as Record<string, unknown>;
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
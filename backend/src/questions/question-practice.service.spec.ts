@@ -0,0 +1,88 @@
+import { Test } from '@nestjs/testing';
+import { QuestionPracticeService } from './question-practice.service';
+import { QuestionsService } from './questions.service';
+import { QuestionGradingService } from './question-grading.service';
+import { PrismaService } from '../database/database.module';
+import { ValidationError } from '../../../shared/types';
+
+jest.mock('../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('QuestionPracticeService', () => {
+  let service: QuestionPracticeService;
+  let prisma: { learningAttempt: { create: jest.Mock } };
+  let questionsService: { assertServable: jest.Mock };
+  let questionGradingService: { gradeSubmission: jest.Mock };
+
+  const grade = {
+    questionId: 'q-1',
+    revisionId: 'rev-2',
+    isCorrect: false,
+    score: 50,
+    feedback: [{ code: 'incorrect', target: 'big', message: '"big" matches "small"' }],
+    correctAnswer: { hot: 'cold', big: 'small' },
+    explanation: '',
+  };
+
+  beforeEach(async () => {
+    prisma = { learningAttempt: { create: jest.fn().mockResolvedValue({ id: 'attempt-1' }) } };
+    questionsService = {
+      assertServable: jest.fn().mockResolvedValue([{ id: 'q-1', moduleType: 'vocabulary', metadata: { revisionId: 'rev-2' } }]),
+    };
+    questionGradingService = { gradeSubmission: jest.fn().mockResolvedValue(grade) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        QuestionPracticeService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: QuestionsService, useValue: questionsService },
+        { provide: QuestionGradingService, useValue: questionGradingService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(QuestionPracticeService);
+  });
+
+  it('grades against the served revision and records the attempt', async () => {
+    const answer = { hot: 'cold', big: 'tall' };
+
+    await expect(service.submitAnswer('user-1', 'q-1', { answer, revisionId: 'rev-1', sessionId: 's-1', responseTime: 4200 }))
+      .resolves.toMatchObject({ attemptId: 'attempt-1', score: 50 });
+
+    expect(questionsService.assertServable).toHaveBeenCalledWith(['q-1']);
+    expect(questionGradingService.gradeSubmission).toHaveBeenCalledWith('q-1', 'rev-1', answer);
+    expect(prisma.learningAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        questionId: 'q-1',
+        revisionId: 'rev-2',
+        userAnswer: answer,
+        isCorrect: false,
+        score: 50,
+        feedback: grade.feedback,
+        responseTime: 4200,
+        sessionId: 's-1',
+        moduleType: 'VOCABULARY',
+      }),
+    });
+  });
+
+  it('falls back to the published revision when the client does not send one', async () => {
+    await service.submitAnswer('user-1', 'q-1', { answer: 'x', sessionId: 's-1', responseTime: 0 });
+
+    expect(questionGradingService.gradeSubmission).toHaveBeenCalledWith('q-1', 'rev-2', 'x');
+  });
+
+  it('does not grade or record questions that are not servable', async () => {
+    questionsService.assertServable.mockRejectedValue(new ValidationError('Only approved questions can be used', 'questionIds'));
+
+    await expect(service.submitAnswer('user-1', 'q-1', { answer: 'x', sessionId: 's-1', responseTime: 10 }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(questionGradingService.gradeSubmission).not.toHaveBeenCalled();
+    expect(prisma.learningAttempt.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects negative response times', async () => {
+    await expect(service.submitAnswer('user-1', 'q-1', { answer: 'x', sessionId: 's-1', responseTime: -1 }))
+      .rejects.toBeInstanceOf(ValidationError);
+  });
+});
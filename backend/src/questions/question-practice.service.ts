@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { ModuleType as DbModuleType, Prisma } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { QuestionsService } from './questions.service';
+import { QuestionGradingService } from './question-grading.service';
+import { PracticeAttemptResult, SubmitPracticeAnswerDto, ValidationError } from '../../../shared/types';
+
+/**
+ * 单人练习：提交答案后经 QuestionGradingService 判分并记录 LearningAttempt
+ */
+@Injectable()
+export class QuestionPracticeService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly questionGradingService: QuestionGradingService,
+  ) {}
+
+  async submitAnswer(userId: string, questionId: string, dto: SubmitPracticeAnswerDto): Promise<PracticeAttemptResult> {
+    if (!dto.sessionId) {
+      throw new ValidationError('Session ID is required', 'sessionId');
+    }
+    if (!Number.isInteger(dto.responseTime) || dto.responseTime < 0) {
+      throw new ValidationError('Response time must be a non-negative integer', 'responseTime');
+    }
+
+    // 1. 只能作答已发布的题目
+    const [question] = await this.questionsService.assertServable([questionId]);
+
+    // 2. 按下发时的修订判分，客户端未回传时使用当前发布的修订
+    const revisionId = dto.revisionId ?? question.metadata.revisionId;
+    const grade = await this.questionGradingService.gradeSubmission(questionId, revisionId, dto.answer);
+
+    // 3. 记录作答
+    const attempt = await this.prisma.learningAttempt.create({
+      data: {
+        userId,
+        questionId,
+        revisionId: grade.revisionId ?? null,
+        userAnswer: dto.answer as Prisma.InputJsonValue,
+        isCorrect: grade.isCorrect,
+        score: grade.score,
+        feedback: grade.feedback as unknown as Prisma.InputJsonValue,
+        responseTime: dto.responseTime,
+        sessionId: dto.sessionId,
+        moduleType: question.moduleType.toUpperCase() as DbModuleType,
+      },
+    });
+
+    return { attemptId: attempt.id, ...grade };
+  }
+}
@@ -0,0 +1,221 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { NotificationType, ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { AuditService } from '../auth/services/audit.service';
+import { QuestionsService } from './questions.service';
+import { QuestionRevisionService } from './question-revision.service';
+import {
+  ForbiddenError,
+  NotFoundError,
+  PaginatedResult,
+  Question,
+  QuestionReviewCommentInfo,
+  ReviewDecision,
+  ReviewQuestionDto,
+  ValidationError,
+} from '../../../shared/types';
+
+const REVIEW_DECISIONS: ReviewDecision[] = ['APPROVED', 'REJECTED', 'NEEDS_REVISION'];
+const QUEUE_PAGE_SIZE = 20;
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * 题目审核流程：待审队列、审核结论（通过/驳回/需修改）与作者、审核人之间的讨论
+ */
+@Injectable()
+export class QuestionReviewService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly questionRevisionService: QuestionRevisionService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * 待审队列，按提交时间先后排列，不包含审核人自己创建的题目
+   */
+  async getQueue(reviewerId: string, page = 1): Promise<PaginatedResult<Question>> {
+    const currentPage = Math.max(1, Number(page) || 1);
+    const where = {
+      reviewStatus: ReviewStatus.PENDING,
+      createdById: { not: reviewerId },
+    };
+
+    const [questions, total] = await Promise.all([
+      this.prisma.question.findMany({
+        where,
+        orderBy: { updatedAt: 'asc' },
+        skip: (currentPage - 1) * QUEUE_PAGE_SIZE,
+        take: QUEUE_PAGE_SIZE,
+      }),
+      this.prisma.question.count({ where }),
+    ]);
+
+    return {
+      items: questions.map(question => this.questionsService.toQuestion(question)),
+      meta: {
+        page: currentPage,
+        limit: QUEUE_PAGE_SIZE,
+        total,
+        totalPages: Math.ceil(total / QUEUE_PAGE_SIZE),
+      },
+    };
+  }
+
+  /**
+   * 提交审核结论
+   */
+  async review(reviewerId: string, questionId: string, dto: ReviewQuestionDto): Promise<Question> {
+    // 1. 校验结论
+    if (!REVIEW_DECISIONS.includes(dto.decision)) {
+      throw new ValidationError('Unknown review decision', 'decision');
+    }
+
+    const notes = dto.notes?.trim();
+    if (dto.decision !== 'APPROVED' && !notes) {
+      throw new ValidationError('Notes are required when rejecting or requesting revision', 'notes');
+    }
+
+    // 2. 作者不能审核自己的题目
+    const question = await this.prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+
+    if (question.createdById === reviewerId) {
+      throw new ForbiddenError('You cannot review your own question');
+    }
+
+    // 3. 仅待审状态可审核；条件更新防止两名审核人同时给出结论
+    await this.prisma.$transaction(async tx => {
+      const result = await tx.question.updateMany({
+        where: { id: questionId, reviewStatus: ReviewStatus.PENDING },
+        data: {
+          reviewStatus: dto.decision,
+          reviewedById: reviewerId,
+          reviewNotes: notes ?? null,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (result.count === 0) {
+        throw new ConflictException('Question is not awaiting review');
+      }
+
+      // 4. 通过时发布新的修订快照
+      if (dto.decision === 'APPROVED') {
+        await this.questionRevisionService.publish(tx, questionId, reviewerId);
+      }
+    });
+
+    // 5. 结论同时记入讨论记录
+    await this.prisma.questionReviewComment.create({
+      data: {
+        questionId,
+        authorId: reviewerId,
+        body: notes ?? 'Approved',
+        decision: dto.decision,
+      },
+    });
+
+    // 6. 通知作者
+    await this.notifyAuthor(question.createdById, questionId, dto.decision, notes);
+
+    await this.auditService.log(reviewerId, 'QUESTION_REVIEWED', {
+      resourceId: questionId,
+      decision: dto.decision,
+    }, 'question');
+
+    return this.questionsService.get(reviewerId, questionId);
+  }
+
+  async listComments(actorId: string, questionId: string): Promise<QuestionReviewCommentInfo[]> {
+    await this.questionsService.getAccessible(actorId, questionId);
+
+    const comments = await this.prisma.questionReviewComment.findMany({
+      where: { questionId },
+      include: { author: { select: { nickname: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return comments.map(comment => ({
+      id: comment.id,
+      authorId: comment.authorId,
+      authorNickname: comment.author.nickname ?? undefined,
+      body: comment.body,
+      decision: comment.decision ?? undefined,
+      createdAt: comment.createdAt,
+    }));
+  }
+
+  /**
+   * 作者或审核人在题目下留言
+   */
+  async addComment(actorId: string, questionId: string, body: string): Promise<QuestionReviewCommentInfo> {
+    const text = body?.trim();
+    if (!text) {
+      throw new ValidationError('Comment cannot be empty', 'body');
+    }
+
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new BadRequestException(`Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    const question = await this.questionsService.getAccessible(actorId, questionId);
+
+    const comment = await this.prisma.questionReviewComment.create({
+      data: { questionId, authorId: actorId, body: text },
+      include: { author: { select: { nickname: true } } },
+    });
+
+    // 审核人留言时提醒作者
+    if (question.createdById !== actorId) {
+      await this.prisma.notification.create({
+        data: {
+          userId: question.createdById,
+          type: NotificationType.SYSTEM,
+          title: 'New comment on your question',
+          message: text,
+          data: {
+            category: 'question_review',
+            event: 'comment',
+            questionId,
+          },
+        },
+      });
+    }
+
+    return {
+      id: comment.id,
+      authorId: comment.authorId,
+      authorNickname: comment.author.nickname ?? undefined,
+      body: comment.body,
+      createdAt: comment.createdAt,
+    };
+  }
+
+  // 私有辅助方法
+
+  private async notifyAuthor(authorId: string, questionId: string, decision: ReviewDecision, notes?: string): Promise<void> {
+    const titles: Record<ReviewDecision, string> = {
+      APPROVED: 'Your question was approved',
+      REJECTED: 'Your question was rejected',
+      NEEDS_REVISION: 'Your question needs revision',
+    };
+
+    await this.prisma.notification.create({
+      data: {
+        userId: authorId,
+        type: NotificationType.SYSTEM,
+        title: titles[decision],
+        message: notes ?? 'It is now available in games and practice sessions.',
+        data: {
+          category: 'question_review',
+          event: 'decision',
+          questionId,
+          decision,
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma, Question as QuestionRecord, QuestionRevision, ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { AuditService } from '../auth/services/audit.service';
+import { QuestionsService } from './questions.service';
+import { QuestionContentService } from './question-content.service';
+import {
+  CEFRLevel,
+  ModuleType,
+  NotFoundError,
+  Question,
+  QuestionFieldChange,
+  QuestionRevisionDiff,
+  QuestionRevisionInfo,
+  SkillType,
+} from '../../../shared/types';
+
+// 修订快照与题目共有的内容字段，用于生成快照和比较差异
+type QuestionSnapshot = Pick<
+  QuestionRecord,
+  'moduleType' | 'level' | 'skillType' | 'difficulty' | 'content' | 'correctAnswer' | 'explanation' | 'hints' | 'tags' | 'estimatedTime'
+>;
+
+/**
+ * 题目版本历史：审核通过时发布不可变快照，支持版本比较与经审核的回滚
+ */
+@Injectable()
+export class QuestionRevisionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly questionContentService: QuestionContentService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async listRevisions(actorId: string, questionId: string): Promise<QuestionRevisionInfo[]> {
+    await this.questionsService.getAccessible(actorId, questionId);
+
+    const revisions = await this.prisma.questionRevision.findMany({
+      where: { questionId },
+      orderBy: { version: 'desc' },
+    });
+
+    return revisions.map(revision => this.toRevisionInfo(revision));
+  }
+
+  async getRevision(actorId: string, questionId: string, version: number): Promise<QuestionRevisionInfo> {
+    await this.questionsService.getAccessible(actorId, questionId);
+    return this.toRevisionInfo(await this.findRevision(questionId, version));
+  }
+
+  /**
+   * 比较两个修订版本；未指定目标版本时与当前待审内容比较
+   */
+  async diff(actorId: string, questionId: string, from: number, to?: number): Promise<QuestionRevisionDiff> {
+    const question = await this.questionsService.getAccessible(actorId, questionId);
+
+    const before = await this.findRevision(questionId, from);
+    const after = to === undefined ? question : await this.findRevision(questionId, to);
+
+    const changes: QuestionFieldChange[] = [];
+    this.diffValues('', this.toSnapshot(before), this.toSnapshot(after), changes);
+
+    return {
+      questionId,
+      from,
+      to: to ?? 'draft',
+      changes,
+    };
+  }
+
+  /**
+   * 回滚到历史版本：将快照内容作为新的待审内容提交，审核通过后发布为新版本
+   */
+  async rollback(actorId: string, questionId: string, version: number): Promise<Question> {
+    const question = await this.questionsService.getAccessible(actorId, questionId);
+    const revision = await this.findRevision(questionId, version);
+
+    if (question.reviewStatus === ReviewStatus.APPROVED && question.version === version) {
+      throw new BadRequestException('This version is already published');
+    }
+
+    // 复用作者修改流程（作者校验、内容校验与审计）
+    const updated = await this.questionsService.update(actorId, questionId, {
+      moduleType: revision.moduleType.toLowerCase() as ModuleType,
+      level: revision.level as CEFRLevel,
+      skillType: revision.skillType.toLowerCase() as SkillType,
+      difficulty: revision.difficulty,
+      ...this.questionContentService.normalize(revision.content, revision.correctAnswer),
+      explanation: revision.explanation ?? '',
+      tags: revision.tags,
+      estimatedTime: revision.estimatedTime,
+    }, { rollbackFrom: version });
+
+    // 在讨论记录中说明，审核人可据此比较差异
+    await this.prisma.questionReviewComment.create({
+      data: {
+        questionId,
+        authorId: actorId,
+        body: `Requested rollback to version ${version}`,
+      },
+    });
+
+    await this.auditService.log(actorId, 'QUESTION_ROLLBACK_REQUESTED', {
+      resourceId: questionId,
+      version,
+    }, 'question');
+
+    return updated;
+  }
+
+  /**
+   * 发布当前内容为新修订（在审核事务内调用）
+   */
+  async publish(tx: Prisma.TransactionClient, questionId: string, approverId: string): Promise<QuestionRevision> {
+    const question = await tx.question.findUniqueOrThrow({ where: { id: questionId } });
+    const latest = await tx.questionRevision.findFirst({
+      where: { questionId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? 0) + 1;
+
+    const snapshot = this.toSnapshot(question);
+    const revision = await tx.questionRevision.create({
+      data: {
+        ...snapshot,
+        content: snapshot.content as Prisma.InputJsonValue,
+        correctAnswer: snapshot.correctAnswer as Prisma.InputJsonValue,
+        hints: snapshot.hints ?? Prisma.DbNull,
+        questionId,
+        version,
+        approvedById: approverId,
+        rolledBackFrom: question.pendingRollbackFrom,
+      },
+    });
+
+    await tx.question.update({
+      where: { id: questionId },
+      data: {
+        version,
+        currentRevisionId: revision.id,
+        pendingRollbackFrom: null,
+      },
+    });
+
+    return revision;
+  }
+
+  // 私有辅助方法
+
+  private async findRevision(questionId: string, version: number): Promise<QuestionRevision> {
+    const revision = await this.prisma.questionRevision.findUnique({
+      where: { questionId_version: { questionId, version } },
+    });
+
+    if (!revision) {
+      throw new NotFoundError('Question revision');
+    }
+
+    return revision;
+  }
+
+  private toSnapshot(source: QuestionSnapshot): QuestionSnapshot {
+    return {
+      moduleType: source.moduleType,
+      level: source.level,
+      skillType: source.skillType,
+      difficulty: source.difficulty,
+      content: source.content,
+      correctAnswer: source.correctAnswer,
+      explanation: source.explanation,
+      hints: source.hints,
+      tags: source.tags,
+      estimatedTime: source.estimatedTime,
+    };
+  }
+
+  /**
+   * 逐字段比较，对象递归展开为路径，数组与标量整体比较
+   */
+  private diffValues(path: string, before: unknown, after: unknown, changes: QuestionFieldChange[]): void {
+    if (this.isPlainObject(before) && this.isPlainObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      for (const key of keys) {
+        this.diffValues(path ? `${path}.${key}` : key, before[key], after[key], changes);
+      }
+      return;
+    }
+
+    if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) {
+      return;
+    }
+
+    if (before === undefined || before === null) {
+      changes.push({ path, kind: 'added', after });
+    } else if (after === undefined || after === null) {
+      changes.push({ path, kind: 'removed', before });
+    } else {
+      changes.push({ path, kind: 'changed', before, after });
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private toRevisionInfo(revision: QuestionRevision): QuestionRevisionInfo {
+    return {
+      id: revision.id,
+      questionId: revision.questionId,
+      version: revision.version,
+      moduleType: revision.moduleType.toLowerCase() as ModuleType,
+      level: revision.level as CEFRLevel,
+      skillType: revision.skillType.toLowerCase() as SkillType,
+      difficulty: revision.difficulty,
+      ...this.questionContentService.normalize(revision.content, revision.correctAnswer),
+      explanation: revision.explanation ?? '',
+      tags: revision.tags,
+      estimatedTime: revision.estimatedTime,
+      approvedBy: revision.approvedById,
+      rolledBackFrom: revision.rolledBackFrom ?? undefined,
+      publishedAt: revision.publishedAt,
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  Controller, Get, Post, Patch, Delete, Body, Param, Query, UseGuards, HttpCode, HttpStatus, ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { QuestionsService } from './questions.service';
+import { QuestionReviewService } from './question-review.service';
+import { QuestionRevisionService } from './question-revision.service';
+import { QuestionGradingService } from './question-grading.service';
+import { QuestionPracticeService } from './question-practice.service';
+import {
+  CreateQuestionDto,
+  GradeAnswerDto,
+  QuestionCommentDto,
+  QuestionQuery,
+  ReviewQuestionDto,
+  SubmitPracticeAnswerDto,
+  UpdateQuestionDto,
+} from '../../../shared/types';
+
+@ApiTags('questions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('questions')
+export class QuestionsController {
+  constructor(
+    private readonly questionsService: QuestionsService,
+    private readonly questionReviewService: QuestionReviewService,
+    private readonly questionRevisionService: QuestionRevisionService,
+    private readonly questionGradingService: QuestionGradingService,
+    private readonly questionPracticeService: QuestionPracticeService,
+  ) {}
+
+  @Post()
+  @RequirePermissions('questions:write')
+  @ApiOperation({ summary: '创建题目（提交审核）' })
+  async create(@CurrentUser('sub') userId: string, @Body() dto: CreateQuestionDto) {
+    return this.questionsService.create(userId, dto);
+  }
+
+  @Get()
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '列出题目（审核人可见全部，其他用户仅自己创建的）' })
+  async list(@CurrentUser('sub') userId: string, @Query() query: QuestionQuery) {
+    return this.questionsService.list(userId, query);
+  }
+
+  @Get('review/queue')
+  @RequirePermissions('questions:review')
+  @ApiOperation({ summary: '待审核题目队列' })
+  async getReviewQueue(@CurrentUser('sub') userId: string, @Query('page') page?: number) {
+    return this.questionReviewService.getQueue(userId, page);
+  }
+
+  @Get(':id')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '获取题目详情' })
+  async get(@CurrentUser('sub') userId: string, @Param('id') id: string) {
+    return this.questionsService.get(userId, id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('questions:write')
+  @ApiOperation({ summary: '修改题目（修改后重新进入审核）' })
+  async update(@CurrentUser('sub') userId: string, @Param('id') id: string, @Body() dto: UpdateQuestionDto) {
+    return this.questionsService.update(userId, id, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('questions:delete')
+  @ApiOperation({ summary: '删除未被使用过的题目' })
+  async remove(@CurrentUser('sub') userId: string, @Param('id') id: string) {
+    await this.questionsService.remove(userId, id);
+    return { success: true };
+  }
+
+  @Post(':id/review')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('questions:review')
+  @ApiOperation({ summary: '提交审核结论（通过/驳回/需修改）' })
+  async review(@CurrentUser('sub') userId: string, @Param('id') id: string, @Body() dto: ReviewQuestionDto) {
+    return this.questionReviewService.review(userId, id, dto);
+  }
+
+  @Post(':id/grade')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '按当前草稿试答判分（调试判分设置）' })
+  async gradeDraft(@CurrentUser('sub') userId: string, @Param('id') id: string, @Body() dto: GradeAnswerDto) {
+    return this.questionGradingService.gradeDraft(userId, id, dto.answer);
+  }
+
+  @Post(':id/attempts')
+  @RequirePermissions('learning:write')
+  @ApiOperation({ summary: '单人练习提交答案（判分并记录作答）' })
+  async submitAttempt(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @Body() dto: SubmitPracticeAnswerDto,
+  ) {
+    return this.questionPracticeService.submitAnswer(userId, id, dto);
+  }
+
+  @Get(':id/comments')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '查看审核意见与讨论' })
+  async listComments(@CurrentUser('sub') userId: string, @Param('id') id: string) {
+    return this.questionReviewService.listComments(userId, id);
+  }
+
+  @Post(':id/comments')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '在题目下留言' })
+  async addComment(@CurrentUser('sub') userId: string, @Param('id') id: string, @Body() dto: QuestionCommentDto) {
+    return this.questionReviewService.addComment(userId, id, dto.body);
+  }
+
+  @Get(':id/revisions')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '列出已发布的修订版本' })
+  async listRevisions(@CurrentUser('sub') userId: string, @Param('id') id: string) {
+    return this.questionRevisionService.listRevisions(userId, id);
+  }
+
+  @Get(':id/revisions/diff')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '比较两个修订版本（省略 to 时与当前待审内容比较）' })
+  async diffRevisions(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ) {
+    return this.questionRevisionService.diff(userId, id, from, to);
+  }
+
+  @Get(':id/revisions/:version')
+  @RequirePermissions('questions:read')
+  @ApiOperation({ summary: '获取指定修订版本' })
+  async getRevision(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.questionRevisionService.getRevision(userId, id, version);
+  }
+
+  @Post(':id/revisions/:version/rollback')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('questions:write')
+  @ApiOperation({ summary: '回滚到历史版本（提交审核，通过后发布为新版本）' })
+  async rollback(
+    @CurrentUser('sub') userId: string,
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.questionRevisionService.rollback(userId, id, version);
+  }
+}
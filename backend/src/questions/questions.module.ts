@@ -0,0 +1,52 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { QuestionsController } from './questions.controller';
+import { QuestionBankController } from './question-bank.controller';
+import { QuestionExportController } from './question-export.controller';
+import { QuestionsService } from './questions.service';
+import { QuestionReviewService } from './question-review.service';
+import { QuestionRevisionService } from './question-revision.service';
+import { QuestionBankService } from './question-bank.service';
+import { QuestionFormatService } from './question-format.service';
+import { QuestionContentService } from './question-content.service';
+import { QuestionGradingService } from './question-grading.service';
+import { QuestionPracticeService } from './question-practice.service';
+import { QuestionBankProcessor } from './processors/question-bank.processor';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    // 大文件导入与导出在独立队列中处理
+    BullModule.registerQueue({
+      name: 'questions',
+      defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 5,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+      },
+    }),
+
+    AuthModule,
+  ],
+  // 静态路由（imports、exports）先于 :id 注册
+  controllers: [QuestionBankController, QuestionExportController, QuestionsController],
+  providers: [
+    QuestionsService,
+    QuestionContentService,
+    QuestionGradingService,
+    QuestionPracticeService,
+    QuestionReviewService,
+    QuestionRevisionService,
+    QuestionBankService,
+    QuestionFormatService,
+    QuestionBankProcessor,
+  ],
+  // 游戏与学习模块通过 QuestionsService 取题，只会拿到已审核通过的题目；提交的答案统一由 QuestionGradingService 判分
+  exports: [QuestionsService, QuestionGradingService],
+})
+export class QuestionsModule {}
@@ -0,0 +1,142 @@
+import { Test } from '@nestjs/testing';
+import { QuestionsService } from './questions.service';
+import { PrismaService } from '../database/database.module';
+import { PermissionService } from '../auth/services/permission.service';
+import { AuditService } from '../auth/services/audit.service';
+import { QuestionContentService } from './question-content.service';
+import { CEFRLevel, ModuleType, ReviewStatus, SkillType } from '../../../shared/types';
+
+jest.mock('../database/database.module', () => ({ PrismaService: class PrismaService {} }));
+
+describe('QuestionsService', () => {
+  let service: QuestionsService;
+  let prisma: { question: { findMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock } };
+
+  beforeEach(async () => {
+    prisma = {
+      question: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        update: jest.fn().mockImplementation(async ({ data }) => ({ ...questionRecord({ text: 'Edited' }, data.reviewStatus) })),
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        QuestionsService,
+        QuestionContentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PermissionService, useValue: { hasPermissions: jest.fn().mockResolvedValue(true) } },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(QuestionsService);
+  });
+
+  it('maps shared enums to database enums when selecting servable questions', async () => {
+    await service.findServable({
+      moduleType: ModuleType.GRAMMAR,
+      level: CEFRLevel.B1,
+      skillType: SkillType.READING,
+      limit: 10,
+    });
+
+    expect(prisma.question.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        OR: [
+          { currentRevision: { is: expect.objectContaining({ moduleType: 'GRAMMAR', level: 'B1', skillType: 'READING' }) } },
+          expect.objectContaining({ currentRevisionId: null, reviewStatus: 'APPROVED', moduleType: 'GRAMMAR', level: 'B1' }),
+        ],
+      }),
+    }));
+  });
+
+  it('serves the published revision while an edit is pending review', async () => {
+    prisma.question.findMany.mockResolvedValue([{
+      ...questionRecord({ text: 'Edited prompt' }, 'PENDING'),
+      currentRevisionId: 'revision-2',
+      currentRevision: {
+        ...questionRecord({ text: 'Published prompt' }, 'APPROVED'),
+        id: 'revision-2',
+        questionId: 'question-1',
+        version: 2,
+      },
+    }]);
+
+    const [served] = await service.assertServable(['question-1']);
+
+    expect(served.content.text).toBe('Published prompt');
+    expect(served.metadata).toEqual(expect.objectContaining({ revisionId: 'revision-2', version: 2, reviewStatus: 'APPROVED' }));
+  });
+
+  it('rejects questions that were never published', async () => {
+    prisma.question.findMany.mockResolvedValue([]);
+
+    await expect(service.assertServable(['question-1'])).rejects.toThrow('Only approved questions can be used');
+  });
+
+  describe('update', () => {
+    it('lets the author edit a published question again after a rejected edit', async () => {
+      prisma.question.findUnique.mockResolvedValue({
+        ...questionRecord({ text: 'Rejected edit' }, 'REJECTED'),
+        currentRevisionId: 'revision-2',
+      });
+
+      const question = await service.update('author-1', 'question-1', { explanation: 'Past simple of go' });
+
+      expect(question.metadata.reviewStatus).toBe('PENDING');
+      expect(prisma.question.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ reviewStatus: 'PENDING' }),
+      }));
+    });
+
+    it('refuses to resubmit a rejected question that was never published', async () => {
+      prisma.question.findUnique.mockResolvedValue({
+        ...questionRecord({ text: 'Rejected' }, 'REJECTED'),
+        currentRevisionId: null,
+      });
+
+      await expect(service.update('author-1', 'question-1', { explanation: 'Again' }))
+        .rejects.toThrow('Rejected questions cannot be resubmitted');
+      expect(prisma.question.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('drops filter values that are not database enum members', async () => {
+    const filter = await service.buildListFilter('user-1', {
+      moduleType: 'cooking' as ModuleType,
+      reviewStatus: 'approved' as ReviewStatus,
+    });
+
+    expect(filter.moduleType).toBeUndefined();
+    expect(filter.reviewStatus).toBe('APPROVED');
+  });
+});
+
+function questionRecord(content: { text: string }, reviewStatus: string) {
+  return {
+    id: 'question-1',
+    moduleType: 'GRAMMAR',
+    level: 'B1',
+    skillType: 'GRAMMAR',
+    difficulty: 3,
+    content: { kind: 'short_answer', ...content },
+    correctAnswer: 'went',
+    explanation: 'Past simple',
+    hints: null,
+    tags: [],
+    estimatedTime: 30,
+    version: 2,
+    reviewStatus,
+    createdById: 'author-1',
+    reviewedById: null,
+    reviewNotes: null,
+    reviewedAt: null,
+    usageCount: 0,
+    correctRate: 0,
+    avgResponseTime: 0,
+    difficultyRating: 0,
+    updatedAt: new Date(),
+  };
+}
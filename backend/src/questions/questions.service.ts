@@ -0,0 +1,438 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Prisma,
+  CEFRLevel as DbCEFRLevel,
+  ModuleType as DbModuleType,
+  Question as QuestionRecord,
+  QuestionRevision,
+  ReviewStatus,
+  SkillType as DbSkillType,
+} from '@prisma/client';
+import { PrismaService } from '../database/database.module';
+import { PermissionService } from '../auth/services/permission.service';
+import { AuditService } from '../auth/services/audit.service';
+import { QuestionContentService, QuestionFieldError } from './question-content.service';
+import {
+  CEFRLevel,
+  CreateQuestionDto,
+  ForbiddenError,
+  ModuleType,
+  NotFoundError,
+  PaginatedResult,
+  Question,
+  QuestionQuery,
+  QuestionRenderData,
+  SkillType,
+  UpdateQuestionDto,
+  ValidationError,
+} from '../../../shared/types';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * 出题时的筛选条件，结果只包含已审核通过的题目
+ */
+export interface ServableQuestionCriteria {
+  moduleType?: ModuleType;
+  level?: CEFRLevel;
+  skillType?: SkillType;
+  tags?: string[];
+  excludeIds?: string[];
+  limit: number;
+}
+
+@Injectable()
+export class QuestionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+    private readonly auditService: AuditService,
+    private readonly questionContentService: QuestionContentService,
+  ) {}
+
+  /**
+   * 创建题目，进入待审核状态
+   */
+  async create(authorId: string, dto: CreateQuestionDto): Promise<Question> {
+    const body = this.questionContentService.normalize(dto.content, dto.correctAnswer);
+    this.validate({ ...dto, ...body });
+
+    const question = await this.prisma.question.create({
+      data: {
+        moduleType: this.toDbEnum(DbModuleType, dto.moduleType),
+        level: this.toDbEnum(DbCEFRLevel, dto.level),
+        skillType: this.toDbEnum(DbSkillType, dto.skillType),
+        difficulty: dto.difficulty,
+        content: body.content as unknown as Prisma.InputJsonValue,
+        correctAnswer: body.correctAnswer as Prisma.InputJsonValue,
+        explanation: dto.explanation,
+        tags: this.normalizeTags(dto.tags),
+        estimatedTime: dto.estimatedTime,
+        reviewStatus: ReviewStatus.PENDING,
+        createdById: authorId,
+      },
+    });
+
+    await this.auditService.log(authorId, 'QUESTION_CREATED', {
+      resourceId: question.id,
+    }, 'question');
+
+    return this.toQuestion(question);
+  }
+
+  /**
+   * 编辑视图：审核人可查看全部题目，其他用户只能看到自己创建的
+   */
+  async list(actorId: string, query: QuestionQuery): Promise<PaginatedResult<Question>> {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.limit) || 20));
+    const where = await this.buildListFilter(actorId, query);
+
+    const [questions, total] = await Promise.all([
+      this.prisma.question.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.question.count({ where }),
+    ]);
+
+    return {
+      items: questions.map(question => this.toQuestion(question)),
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * 列表与导出共用的筛选条件（含可见范围）
+   */
+  async buildListFilter(actorId: string, query: Omit<QuestionQuery, 'page' | 'limit'>): Promise<Prisma.QuestionWhereInput> {
+    const canReview = await this.permissionService.hasPermissions(actorId, ['questions:review']);
+
+    return {
+      moduleType: this.toDbEnum(DbModuleType, query.moduleType),
+      level: this.toDbEnum(DbCEFRLevel, query.level),
+      skillType: this.toDbEnum(DbSkillType, query.skillType),
+      reviewStatus: this.toDbEnum(ReviewStatus, query.reviewStatus),
+      tags: query.tag ? { has: query.tag.toLowerCase() } : undefined,
+      createdById: !canReview || String(query.mine) === 'true' ? actorId : undefined,
+    };
+  }
+
+  async get(actorId: string, questionId: string): Promise<Question> {
+    const question = await this.getAccessible(actorId, questionId);
+    return this.toQuestion(question);
+  }
+
+  /**
+   * 作者修改题目：修改后重新进入待审核
+   * 已发布的内容保存在修订快照中，不受此处修改影响，新内容通过前继续按已发布的修订出题
+   * 已发布题目的某次修改被驳回后，作者仍可继续修改重新提交
+   */
+  async update(
+    actorId: string,
+    questionId: string,
+    dto: UpdateQuestionDto,
+    options: { rollbackFrom?: number } = {},
+  ): Promise<Question> {
+    const existing = await this.prisma.question.findUnique({ where: { id: questionId } });
+    if (!existing) {
+      throw new NotFoundError('Question');
+    }
+
+    if (existing.createdById !== actorId) {
+      throw new ForbiddenError('Only the author can edit this question');
+    }
+
+    // 被驳回的仅是这次修改，已发布的题目本身仍然有效
+    if (existing.reviewStatus === ReviewStatus.REJECTED && !existing.currentRevisionId) {
+      throw new BadRequestException('Rejected questions cannot be resubmitted. Create a new question instead.');
+    }
+
+    // 内容与答案按题型成对校验，只修改其一时与现有的另一半合并
+    const merged = { ...this.toDto(existing), ...dto };
+    const body = this.questionContentService.normalize(merged.content, merged.correctAnswer);
+    this.validate({ ...merged, ...body });
+    const bodyChanged = dto.content !== undefined || dto.correctAnswer !== undefined;
+
+    const question = await this.prisma.question.update({
+      where: { id: questionId },
+      data: {
+        moduleType: this.toDbEnum(DbModuleType, dto.moduleType),
+        level: this.toDbEnum(DbCEFRLevel, dto.level),
+        skillType: this.toDbEnum(DbSkillType, dto.skillType),
+        difficulty: dto.difficulty,
+        content: bodyChanged ? body.content as unknown as Prisma.InputJsonValue : undefined,
+        correctAnswer: bodyChanged ? body.correctAnswer as Prisma.InputJsonValue : undefined,
+        explanation: dto.explanation,
+        tags: dto.tags ? this.normalizeTags(dto.tags) : undefined,
+        estimatedTime: dto.estimatedTime,
+        reviewStatus: ReviewStatus.PENDING,
+        pendingRollbackFrom: options.rollbackFrom ?? null,
+      },
+    });
+
+    await this.auditService.log(actorId, 'QUESTION_UPDATED', {
+      resourceId: questionId,
+      previousStatus: existing.reviewStatus,
+      rollbackFrom: options.rollbackFrom,
+    }, 'question');
+
+    return this.toQuestion(question);
+  }
+
+  /**
+   * 删除题目（作者或审核人）；已被作答或用于游戏的题目不能删除
+   */
+  async remove(actorId: string, questionId: string): Promise<void> {
+    const question = await this.getAccessible(actorId, questionId);
+
+    const [attempts, gameUses] = await Promise.all([
+      this.prisma.learningAttempt.count({ where: { questionId } }),
+      this.prisma.gameQuestion.count({ where: { questionId } }),
+    ]);
+    if (attempts > 0 || gameUses > 0) {
+      throw new BadRequestException('This question has already been used and cannot be deleted');
+    }
+
+    await this.prisma.question.delete({ where: { id: question.id } });
+
+    await this.auditService.log(actorId, 'QUESTION_DELETED', {
+      resourceId: questionId,
+    }, 'question');
+  }
+
+  /**
+   * 为游戏和学习会话选题，只返回已发布（审核通过）的内容
+   * 游戏与学习模块必须经由此处（或 assertServable）取题，不得直接查询 Question 表
+   * 写入 GameQuestion / LearningAttempt 时需同时保存 metadata.revisionId，判分时据此使用作答时的版本
+   * 返回值含答案，下发客户端前须经 toRenderData 转换
+   */
+  async findServable(criteria: ServableQuestionCriteria): Promise<Question[]> {
+    const contentFilter = {
+      moduleType: this.toDbEnum(DbModuleType, criteria.moduleType),
+      level: this.toDbEnum(DbCEFRLevel, criteria.level),
+      skillType: this.toDbEnum(DbSkillType, criteria.skillType),
+      tags: criteria.tags?.length ? { hasSome: criteria.tags } : undefined,
+    };
+
+    // 按已发布修订的内容筛选；修改中的题目（待审核）继续使用已发布的修订
+    const questions = await this.prisma.question.findMany({
+      where: {
+        id: criteria.excludeIds?.length ? { notIn: criteria.excludeIds } : undefined,
+        OR: [
+          { currentRevision: { is: contentFilter } },
+          { currentRevisionId: null, reviewStatus: ReviewStatus.APPROVED, ...contentFilter },
+        ],
+      },
+      include: { currentRevision: true },
+      orderBy: [{ usageCount: 'asc' }, { updatedAt: 'desc' }],
+      take: Math.min(criteria.limit, MAX_PAGE_SIZE),
+    });
+
+    return questions.map(question => this.toServedQuestion(question));
+  }
+
+  /**
+   * 校验题目均已发布并返回已发布的内容（用于客户端指定题目ID的场景，如自定义房间）
+   */
+  async assertServable(questionIds: string[]): Promise<Question[]> {
+    const ids = [...new Set(questionIds)];
+    const published = await this.prisma.question.findMany({
+      where: {
+        id: { in: ids },
+        OR: [{ currentRevisionId: { not: null } }, { reviewStatus: ReviewStatus.APPROVED }],
+      },
+      include: { currentRevision: true },
+    });
+
+    if (published.length !== ids.length) {
+      throw new ValidationError('Only approved questions can be used', 'questionIds');
+    }
+
+    return published.map(question => this.toServedQuestion(question));
+  }
+
+  /**
+   * 发送给客户端前转换为渲染数据（不含答案，选项已打乱）
+   */
+  toRenderData(question: Question): QuestionRenderData {
+    return this.questionContentService.toRenderData(question);
+  }
+
+  /**
+   * 审核人可访问全部题目，其他用户只能访问自己创建的
+   */
+  async getAccessible(actorId: string, questionId: string): Promise<QuestionRecord> {
+    const question = await this.prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      throw new NotFoundError('Question');
+    }
+
+    if (question.createdById !== actorId) {
+      const canReview = await this.permissionService.hasPermissions(actorId, ['questions:review']);
+      if (!canReview) {
+        throw new NotFoundError('Question');
+      }
+    }
+
+    return question;
+  }
+
+  toQuestion(question: QuestionRecord): Question {
+    return {
+      ...this.questionContentService.normalize(question.content, question.correctAnswer),
+      id: question.id,
+      moduleType: question.moduleType.toLowerCase() as ModuleType,
+      level: question.level as CEFRLevel,
+      difficulty: question.difficulty,
+      explanation: question.explanation ?? '',
+      metadata: {
+        tags: question.tags,
+        skillType: question.skillType.toLowerCase() as SkillType,
+        estimatedTime: question.estimatedTime,
+        createdBy: question.createdById,
+        reviewedBy: question.reviewedById ?? undefined,
+        version: question.version,
+        reviewStatus: question.reviewStatus,
+        reviewNotes: question.reviewNotes ?? undefined,
+        reviewedAt: question.reviewedAt ?? undefined,
+        revisionId: question.currentRevisionId ?? undefined,
+      },
+      analytics: {
+        totalAttempts: question.usageCount,
+        correctAttempts: Math.round(question.usageCount * question.correctRate),
+        avgResponseTime: question.avgResponseTime,
+        difficultyRating: question.difficultyRating,
+        lastUpdated: question.updatedAt,
+      },
+    };
+  }
+
+  toDto(question: QuestionRecord): CreateQuestionDto {
+    const { metadata, ...rest } = this.toQuestion(question);
+    return {
+      moduleType: rest.moduleType,
+      level: rest.level,
+      difficulty: rest.difficulty,
+      ...this.questionContentService.normalize(rest.content, rest.correctAnswer),
+      explanation: rest.explanation,
+      tags: metadata.tags,
+      skillType: metadata.skillType,
+      estimatedTime: metadata.estimatedTime,
+    };
+  }
+
+  /**
+   * 校验题目内容，返回全部字段错误（批量导入逐行报告时使用）
+   */
+  findValidationErrors(dto: Partial<CreateQuestionDto>): QuestionFieldError[] {
+    const errors: QuestionFieldError[] = [];
+
+    if (!Object.values(ModuleType).includes(dto.moduleType)) {
+      errors.push({ field: 'moduleType', message: 'Unknown module type' });
+    }
+
+    if (!Object.values(CEFRLevel).includes(dto.level)) {
+      errors.push({ field: 'level', message: 'Unknown CEFR level' });
+    }
+
+    if (!Object.values(SkillType).includes(dto.skillType)) {
+      errors.push({ field: 'skillType', message: 'Unknown skill type' });
+    }
+
+    if (typeof dto.difficulty !== 'number' || dto.difficulty < 1 || dto.difficulty > 10) {
+      errors.push({ field: 'difficulty', message: 'Difficulty must be between 1 and 10' });
+    }
+
+    // 内容与答案按题型校验（未指定题型的旧格式先归一化）
+    errors.push(...this.questionContentService.validate(
+      this.questionContentService.normalize(dto.content, dto.correctAnswer),
+    ));
+
+    if (!dto.explanation?.trim()) {
+      errors.push({ field: 'explanation', message: 'An explanation is required' });
+    }
+
+    if (!Number.isInteger(dto.estimatedTime) || dto.estimatedTime <= 0) {
+      errors.push({ field: 'estimatedTime', message: 'Estimated time must be a positive number of seconds' });
+    }
+
+    return errors;
+  }
+
+  /**
+   * 批量创建已校验的题目（导入使用），全部进入待审核状态
+   */
+  async createMany(authorId: string, dtos: CreateQuestionDto[]): Promise<number> {
+    const result = await this.prisma.question.createMany({
+      data: dtos.map(dto => {
+        const body = this.questionContentService.normalize(dto.content, dto.correctAnswer);
+        return {
+          moduleType: this.toDbEnum(DbModuleType, dto.moduleType),
+          level: this.toDbEnum(DbCEFRLevel, dto.level),
+          skillType: this.toDbEnum(DbSkillType, dto.skillType),
+          difficulty: dto.difficulty,
+          content: body.content as unknown as Prisma.InputJsonValue,
+          correctAnswer: body.correctAnswer as Prisma.InputJsonValue,
+          explanation: dto.explanation,
+          tags: this.normalizeTags(dto.tags),
+          estimatedTime: dto.estimatedTime,
+          reviewStatus: ReviewStatus.PENDING,
+          createdById: authorId,
+        };
+      }),
+    });
+
+    return result.count;
+  }
+
+  // 私有辅助方法
+
+  private validate(dto: CreateQuestionDto): void {
+    const [error] = this.findValidationErrors(dto);
+    if (error) {
+      throw new ValidationError(error.message, error.field);
+    }
+  }
+
+  /**
+   * 出题使用已发布修订的内容；修订功能上线前审核通过的题目没有快照，使用题目本身
+   */
+  private toServedQuestion(question: QuestionRecord & { currentRevision: QuestionRevision | null }): Question {
+    const { currentRevision: revision, ...record } = question;
+    if (!revision) {
+      return this.toQuestion(record);
+    }
+
+    return this.toQuestion({
+      ...record,
+      moduleType: revision.moduleType,
+      level: revision.level,
+      skillType: revision.skillType,
+      difficulty: revision.difficulty,
+      content: revision.content,
+      correctAnswer: revision.correctAnswer,
+      explanation: revision.explanation,
+      hints: revision.hints,
+      tags: revision.tags,
+      estimatedTime: revision.estimatedTime,
+      version: revision.version,
+      reviewStatus: ReviewStatus.APPROVED,
+      currentRevisionId: revision.id,
+    });
+  }
+
+  /**
+   * 共享类型转换为数据库枚举：模块/技能在共享类型中为小写，数据库枚举为大写；未知取值返回 undefined
+   */
+  private toDbEnum<E extends Record<string, string>>(dbEnum: E, value?: string): E[keyof E] | undefined {
+    const key = value?.toUpperCase();
+    return key && Object.prototype.hasOwnProperty.call(dbEnum, key) ? dbEnum[key as keyof E] : undefined;
+  }
+
+  private normalizeTags(tags: string[] = []): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+}
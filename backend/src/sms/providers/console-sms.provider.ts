@@ -0,0 +1,25 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { SmsProvider } from '../sms-provider.interface';
+
+/**
+ * 本地开发用：短信输出到日志，并可追加到文件（JSON Lines）
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(ConsoleSmsProvider.name);
+  private readonly outputFile?: string;
+
+  constructor(configService: ConfigService) {
+    this.outputFile = configService.get<string>('sms.console.outputFile');
+  }
+
+  async send(to: string, body: string): Promise<void> {
+    this.logger.log(`SMS to ${to}: ${body}`);
+
+    if (this.outputFile) {
+      const line = JSON.stringify({ to, body, sentAt: new Date() });
+      await fs.appendFile(this.outputFile, `${line}\n`, 'utf8');
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SmsProvider } from '../sms-provider.interface';
+import { AppError } from '../../../../shared/types';
+
+/**
+ * Twilio Messages API（兼容同一接口的其他服务商可通过 baseUrl 切换）
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(TwilioSmsProvider.name);
+  private readonly baseUrl: string;
+  private readonly accountSid: string;
+  private readonly authToken: string;
+  private readonly fromNumber: string;
+
+  constructor(configService: ConfigService) {
+    this.baseUrl = configService.get<string>('sms.twilio.baseUrl', 'https://api.twilio.com');
+    this.accountSid = configService.get<string>('sms.twilio.accountSid');
+    this.authToken = configService.get<string>('sms.twilio.authToken');
+    this.fromNumber = configService.get<string>('sms.twilio.fromNumber');
+  }
+
+  async send(to: string, body: string): Promise<void> {
+    const url = `${this.baseUrl}/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+
+    try {
+      await axios.post(
+        url,
+        new URLSearchParams({ To: to, From: this.fromNumber, Body: body }).toString(),
+        {
+          auth: { username: this.accountSid, password: this.authToken },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: 10000,
+        },
+      );
+    } catch (error) {
+      const detail = error.response?.data?.message ?? error.message;
+      this.logger.error(`Failed to send SMS via Twilio: ${detail}`);
+      throw new AppError('Failed to send SMS', 502, 'SMS_DELIVERY_FAILED');
+    }
+  }
+}
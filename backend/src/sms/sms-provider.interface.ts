@@ -0,0 +1,8 @@
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+/**
+ * 短信发送通道，号码为E.164格式
+ */
+export interface SmsProvider {
+  send(to: string, body: string): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { SmsService } from './sms.service';
+import { SMS_PROVIDER } from './sms-provider.interface';
+import { TwilioSmsProvider } from './providers/twilio-sms.provider';
+import { ConsoleSmsProvider } from './providers/console-sms.provider';
+import { RedisModule } from '../redis/redis.module';
+
+@Module({
+  imports: [RedisModule],
+  providers: [
+    {
+      provide: SMS_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('sms.provider') === 'twilio'
+          ? new TwilioSmsProvider(configService)
+          : new ConsoleSmsProvider(configService),
+    },
+    SmsService,
+  ],
+  exports: [SmsService],
+})
+export class SmsModule {}
@@ -0,0 +1,90 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import { RedisService } from '../redis/redis.service';
+import { SMS_PROVIDER, SmsProvider } from './sms-provider.interface';
+import { ClientInfo, ValidationError } from '../../../shared/types';
+
+interface SmsRateLimits {
+  perNumber: number;
+  perIp: number;
+  window: number; // 秒
+  cooldown: number; // 同一号码两次发送的最小间隔（秒）
+}
+
+@Injectable()
+export class SmsService {
+  private readonly allowedCountries: string[];
+  private readonly rateLimits: SmsRateLimits;
+
+  constructor(
+    @Inject(SMS_PROVIDER) private readonly provider: SmsProvider,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.allowedCountries = this.configService.get<string[]>('sms.allowedCountries', []);
+    this.rateLimits = {
+      perNumber: this.configService.get<number>('sms.rateLimit.perNumber', 5),
+      perIp: this.configService.get<number>('sms.rateLimit.perIp', 20),
+      window: this.configService.get<number>('sms.rateLimit.window', 3600),
+      cooldown: this.configService.get<number>('sms.rateLimit.cooldown', 60),
+    };
+  }
+
+  /**
+   * 规范化为E.164格式，并检查号码所属国家是否在允许列表中
+   */
+  normalizePhoneNumber(phone: string): string {
+    const parsed = parsePhoneNumberFromString(phone ?? '');
+    if (!parsed || !parsed.isValid()) {
+      throw new ValidationError('Enter a valid phone number in international format (e.g. +14155550123)', 'phone');
+    }
+
+    if (this.allowedCountries.length > 0 && (!parsed.country || !this.allowedCountries.includes(parsed.country))) {
+      throw new ValidationError('SMS is not available for phone numbers in this country', 'phone');
+    }
+
+    return parsed.number;
+  }
+
+  /**
+   * 发送短信（按号码和IP限流，防止短信轰炸和费用滥用）
+   */
+  async send(phone: string, body: string, clientInfo?: ClientInfo): Promise<void> {
+    const to = this.normalizePhoneNumber(phone);
+
+    const cooledDown = await this.redisService.checkRateLimit(`sms_cooldown:${to}`, 1, this.rateLimits.cooldown);
+    if (!cooledDown) {
+      throw new BadRequestException('Please wait before requesting another code.');
+    }
+
+    const withinNumberLimit = await this.redisService.checkRateLimit(
+      `sms_number:${to}`,
+      this.rateLimits.perNumber,
+      this.rateLimits.window,
+    );
+    if (!withinNumberLimit) {
+      throw new BadRequestException('Too many messages sent to this number. Please try again later.');
+    }
+
+    if (clientInfo?.ip) {
+      const withinIpLimit = await this.redisService.checkRateLimit(
+        `sms_ip:${clientInfo.ip}`,
+        this.rateLimits.perIp,
+        this.rateLimits.window,
+      );
+      if (!withinIpLimit) {
+        throw new BadRequestException('Too many SMS requests. Please try again later.');
+      }
+    }
+
+    await this.provider.send(to, body);
+  }
+
+  /**
+   * 展示用的号码掩码，如 +86*******1234
+   */
+  maskPhoneNumber(phone: string): string {
+    return phone.length <= 6 ? phone : `${phone.slice(0, 3)}${'*'.repeat(phone.length - 7)}${phone.slice(-4)}`;
+  }
+}
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { devtools } from 'zustand/middleware';
-import { User, AuthTokens, GameRoom, Question, LearningAttempt } from '../../shared/types';
+import { User, AuthTokens, GameRoom, QuestionRenderData, LearningAttempt, ImpersonationInfo } from '../../shared/types';
 
 // 认证状态
 interface AuthState {
@@ -9,6 +9,8 @@ interface AuthState {
   tokens: AuthTokens | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  impersonation: ImpersonationInfo | null; // 非空时界面应显示代入提示条
+  impersonatorSession: { user: User; tokens: AuthTokens } | null; // 代入前管理员自己的会话，结束后恢复
   
   // Actions
   setUser: (user: User | null) => void;
@@ -17,6 +19,8 @@ interface AuthState {
   login: (user: User, tokens: AuthTokens) => void;
   logout: () => void;
   updateUser: (updates: Partial<User>) => void;
+  startImpersonation: (user: User, tokens: AuthTokens, impersonation: ImpersonationInfo) => void;
+  endImpersonation: () => void;
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -27,6 +31,8 @@ export const useAuthStore = create<AuthState>()(
         tokens: null,
         isAuthenticated: false,
         isLoading: true,
+        impersonation: null,
+        impersonatorSession: null,
 
         setUser: (user) => set({ user, isAuthenticated: !!user }),
         
@@ -46,6 +52,8 @@ export const useAuthStore = create<AuthState>()(
           tokens: null,
           isAuthenticated: false,
           isLoading: false,
+          impersonation: null,
+          impersonatorSession: null,
         }),
         
         updateUser: (updates) => {
@@ -54,6 +62,28 @@ export const useAuthStore = create<AuthState>()(
             set({ user: { ...user, ...updates } });
           }
         },
+
+        startImpersonation: (user, tokens, impersonation) => {
+          const { user: adminUser, tokens: adminTokens } = get();
+          set({
+            user,
+            tokens,
+            isAuthenticated: true,
+            impersonation,
+            impersonatorSession: adminUser && adminTokens ? { user: adminUser, tokens: adminTokens } : null,
+          });
+        },
+
+        endImpersonation: () => {
+          const { impersonatorSession } = get();
+          set({
+            user: impersonatorSession?.user ?? null,
+            tokens: impersonatorSession?.tokens ?? null,
+            isAuthenticated: !!impersonatorSession,
+            impersonation: null,
+            impersonatorSession: null,
+          });
+        },
       }),
       {
         name: 'auth-storage',
@@ -62,6 +92,8 @@ export const useAuthStore = create<AuthState>()(
           user: state.user,
           tokens: state.tokens,
           isAuthenticated: state.isAuthenticated,
+          impersonation: state.impersonation,
+          impersonatorSession: state.impersonatorSession,
         }),
       }
     ),
@@ -72,7 +104,7 @@ export const useAuthStore = create<AuthState>()(
 // 游戏状态
 interface GameState {
   currentRoom: GameRoom | null;
-  currentQuestion: Question | null;
+  currentQuestion: QuestionRenderData | null;
   currentQuestionIndex: number;
   totalQuestions: number;
   timeRemaining: number;
@@ -83,7 +115,7 @@ interface GameState {
   
   // Actions
   setCurrentRoom: (room: GameRoom | null) => void;
-  setCurrentQuestion: (question: Question | null, index: number) => void;
+  setCurrentQuestion: (question: QuestionRenderData | null, index: number) => void;
   setTimeRemaining: (time: number) => void;
   updateScore: (points: number) => void;
   updateStreak: (correct: boolean) => void;
@@ -368,6 +400,7 @@ export const usePerformanceStore = create<PerformanceState>()(
 export const useAuthUser = () => useAuthStore(state => state.user);
 export const useAuthTokens = () => useAuthStore(state => state.tokens);
 export const useIsAuthenticated = () => useAuthStore(state => state.isAuthenticated);
+export const useImpersonation = () => useAuthStore(state => state.impersonation);
 
 export const useCurrentRoom = () => useGameStore(state => state.currentRoom);
 export const useGameScore = () => useGameStore(state => state.score);
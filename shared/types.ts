@@ -2,7 +2,8 @@
 export enum UserRole {
   STUDENT = 'student',
   TEACHER = 'teacher',
-  ADMIN = 'admin'
+  ADMIN = 'admin',
+  MODERATOR = 'moderator'
 }
 
 export enum CEFRLevel {
@@ -60,24 +61,180 @@ export interface User {
   updatedAt: Date;
 }
 
-export interface Question {
+// 题目的 content 与 correctAnswer 由 TypedQuestionBody 按题型成对约束
+export type Question = {
   id: string;
   moduleType: ModuleType;
   level: CEFRLevel;
   difficulty: number; // 1-10
-  content: QuestionContent;
-  correctAnswer: string | string[];
   explanation: string;
   metadata: QuestionMetadata;
   analytics: QuestionAnalytics;
-}
+} & TypedQuestionBody;
+
+// 题型：content.kind 区分，每种题型有独立的内容与答案结构
+export type QuestionKind =
+  | 'multiple_choice'
+  | 'short_answer'
+  | 'cloze'
+  | 'ordering'
+  | 'matching'
+  | 'sentence_transformation'
+  | 'error_spotting'
+  | 'dictation';
 
-export interface QuestionContent {
+// 各题型共有的题干（说明文字）与多媒体
+interface QuestionContentBase {
   text: string;
-  options?: string[];
   audioUrl?: string;
   imageUrl?: string;
-  timeLimit?: number;
+  timeLimit?: number; // seconds
+  grading?: QuestionGradingSettings;
+}
+
+// 判分设置，未设置的项使用默认值
+export interface QuestionGradingSettings {
+  typoTolerance?: number; // 允许的拼写错误（编辑距离），默认按答案长度自动确定，0 为不容错
+  caseSensitive?: boolean; // 默认 false
+  ignorePunctuation?: boolean; // 默认 true
+  equivalentSpellings?: boolean; // 英式/美式拼写视为相同，默认 true
+  expandContractions?: boolean; // 缩写与完整形式视为相同（don't = do not），默认 true
+  partialCredit?: boolean; // 多选、完形、排序、连线、听写按比例给分，默认 true
+}
+
+export interface QuestionItem {
+  id: string;
+  text: string;
+}
+
+export interface MultipleChoiceContent extends QuestionContentBase {
+  kind: 'multiple_choice';
+  options: string[];
+  multiple?: boolean; // 多选题
+}
+
+export interface ShortAnswerContent extends QuestionContentBase {
+  kind: 'short_answer';
+}
+
+export interface ClozeContent extends QuestionContentBase {
+  kind: 'cloze';
+  passage: string; // 空位以 {{gapId}} 标记，如 "She {{1}} to school every day."
+  gaps: Array<{ id: string; options?: string[] }>; // 提供 options 时为下拉选择，否则为自由填写
+}
+
+export interface OrderingContent extends QuestionContentBase {
+  kind: 'ordering';
+  items: QuestionItem[]; // 正确顺序见答案，展示前由服务端打乱
+}
+
+export interface MatchingContent extends QuestionContentBase {
+  kind: 'matching';
+  left: QuestionItem[];
+  right: QuestionItem[]; // 可多于左侧（干扰项）
+}
+
+export interface SentenceTransformationContent extends QuestionContentBase {
+  kind: 'sentence_transformation';
+  sourceSentence: string;
+  keyword?: string; // 必须使用且不能变形的关键词
+  stem?: string; // 改写句的开头，答案为其后需要填写的部分
+  maxWords?: number;
+}
+
+export interface ErrorSpottingContent extends QuestionContentBase {
+  kind: 'error_spotting';
+  segments: QuestionItem[]; // 句子切分后的片段，学生选出有误的一段
+  requireCorrection?: boolean; // 是否需要写出改正
+}
+
+export interface DictationContent extends QuestionContentBase {
+  kind: 'dictation';
+  audioUrl: string;
+  maxPlays?: number;
+}
+
+export type QuestionContent =
+  | MultipleChoiceContent
+  | ShortAnswerContent
+  | ClozeContent
+  | OrderingContent
+  | MatchingContent
+  | SentenceTransformationContent
+  | ErrorSpottingContent
+  | DictationContent;
+
+export type QuestionContentOf<K extends QuestionKind> = Extract<QuestionContent, { kind: K }>;
+
+// 各题型的标准答案
+export interface QuestionAnswerMap {
+  multiple_choice: string | string[]; // 选项文本，多选时为数组
+  short_answer: string | string[]; // 可接受的答案
+  cloze: Record<string, string | string[]>; // 空位ID → 可接受的答案
+  ordering: string[]; // 条目ID的正确顺序
+  matching: Record<string, string>; // 左侧ID → 右侧ID
+  sentence_transformation: string | string[]; // 可接受的改写部分
+  error_spotting: { segmentId: string; correction?: string | string[] };
+  dictation: string;
+}
+
+export type QuestionAnswer = QuestionAnswerMap[QuestionKind];
+
+export type TypedQuestionBody = {
+  [K in QuestionKind]: { content: QuestionContentOf<K>; correctAnswer: QuestionAnswerMap[K] };
+}[QuestionKind];
+
+// 学生提交的作答
+export interface QuestionResponseMap {
+  multiple_choice: string | string[];
+  short_answer: string;
+  cloze: Record<string, string>; // 空位ID → 作答
+  ordering: string[]; // 条目ID顺序
+  matching: Record<string, string>; // 左侧ID → 右侧ID
+  sentence_transformation: string;
+  error_spotting: { segmentId: string; correction?: string };
+  dictation: string;
+}
+
+export type QuestionResponse = QuestionResponseMap[QuestionKind];
+
+// 判分结果
+export type GradingFeedbackCode =
+  | 'typo' // 容错范围内的拼写错误，仍判为正确
+  | 'incorrect'
+  | 'missing'
+  | 'extra'
+  | 'misplaced'
+  | 'keyword_missing'
+  | 'too_many_words'
+  | 'correction_required';
+
+export interface GradingFeedback {
+  code: GradingFeedbackCode;
+  target?: string; // 空位、条目、片段ID或选项
+  expected?: string;
+  received?: string;
+  message: string;
+}
+
+export interface AnswerGrade {
+  questionId: string;
+  revisionId?: string;
+  isCorrect: boolean; // 得满分
+  score: number; // 0-100
+  feedback: GradingFeedback[]; // 扣分原因（以及被容错的拼写错误）
+  correctAnswer: QuestionAnswer;
+  explanation: string;
+}
+
+// 游戏与学习界面的渲染数据：不含答案与解析，前端按 content.kind 选择渲染组件
+export interface QuestionRenderData {
+  questionId: string;
+  revisionId?: string;
+  moduleType: ModuleType;
+  level: CEFRLevel;
+  content: QuestionContent; // 排序、连线与选项已打乱
+  timeLimit?: number; // seconds
 }
 
 export interface QuestionMetadata {
@@ -87,6 +244,55 @@ export interface QuestionMetadata {
   createdBy: string;
   reviewedBy?: string;
   version: number;
+  reviewStatus: ReviewStatus;
+  reviewNotes?: string;
+  reviewedAt?: Date;
+  revisionId?: string; // 当前发布的修订，记录答题时需一并保存
+}
+
+// 题目审核：PENDING → APPROVED / REJECTED / NEEDS_REVISION，作者修改后回到 PENDING
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'NEEDS_REVISION';
+
+export type ReviewDecision = Exclude<ReviewStatus, 'PENDING'>;
+
+export interface QuestionReviewCommentInfo {
+  id: string;
+  authorId: string;
+  authorNickname?: string;
+  body: string;
+  decision?: ReviewStatus;
+  createdAt: Date;
+}
+
+// 题目修订：每次审核通过生成的不可变快照
+export type QuestionRevisionInfo = {
+  id: string;
+  questionId: string;
+  version: number;
+  moduleType: ModuleType;
+  level: CEFRLevel;
+  skillType: SkillType;
+  difficulty: number;
+  explanation: string;
+  tags: string[];
+  estimatedTime: number;
+  approvedBy: string;
+  rolledBackFrom?: number;
+  publishedAt: Date;
+} & TypedQuestionBody;
+
+export interface QuestionFieldChange {
+  path: string; // 如 content.options、correctAnswer
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface QuestionRevisionDiff {
+  questionId: string;
+  from: number;
+  to: number | 'draft'; // draft 表示当前待审内容
+  changes: QuestionFieldChange[];
 }
 
 export interface QuestionAnalytics {
@@ -120,12 +326,14 @@ export interface LearningAttempt {
   id: string;
   userId: string;
   questionId: string;
+  revisionId?: string;
   moduleType: ModuleType;
-  userAnswer: string;
-  correctAnswer: string;
+  userAnswer: QuestionResponse;
+  correctAnswer: QuestionAnswer;
   isCorrect: boolean;
   responseTime: number; // milliseconds
-  score: number;
+  score: number; // 0-100
+  feedback?: GradingFeedback[];
   aiFeedback?: string;
   sessionId: string;
   createdAt: Date;
@@ -142,6 +350,217 @@ export interface AuthResult {
   tokens?: AuthTokens;
   requiresMfa?: boolean;
   mfaToken?: string;
+  mfaMethods?: MfaMethod[];
+  passwordCompromised?: boolean; // 密码出现在泄露语料中，客户端应引导修改
+  consentRequired?: boolean; // 未成年人注册后须等待监护人确认
+  stepUpRequired?: boolean; // 高风险登录，须提交发送到邮箱的验证码
+  stepUpToken?: string;
+  signupRequired?: boolean; // 首次单点登录，须补充出生日期后才能创建账户
+  signupToken?: string;
+}
+
+// MFA
+export type MfaMethod = 'totp' | 'passkey' | 'sms';
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  remainingBackupCodes: number;
+  smsEnabled: boolean;
+}
+
+export interface SmsCodeSent {
+  sentTo: string; // 掩码后的号码
+  expiresIn: number; // 秒
+}
+
+// 设备会话
+export interface SessionInfo {
+  id: string;
+  deviceName?: string;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  createdAt: Date;
+  current: boolean;
+  impersonated?: boolean; // 管理员代入产生的会话
+}
+
+export interface KnownDeviceInfo {
+  id: string;
+  name?: string;
+  userAgent?: string;
+  lastIp?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+// Passkey (WebAuthn)
+export interface PasskeyInfo {
+  id: string;
+  name?: string;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+export interface PasskeyChallenge<T = any> {
+  challengeId: string;
+  options: T;
+}
+
+// 单点登录 (OIDC)
+export interface OidcProviderInfo {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+export interface ExternalIdentityInfo {
+  id: string;
+  provider: string;
+  email?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+// 密码策略
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  minCharacterClasses: number; // 四类字符中至少包含几类
+  preventCommonPasswords: boolean;
+  preventBreachedPasswords: boolean; // 对照本地泄露密码语料
+  maxSequentialChars: number; // 出现该长度及以上的连续字符（abc、321）即拒绝，0 表示不限制
+  maxRepeatingChars: number; // 出现该长度及以上的重复字符（aaa）即拒绝，0 表示不限制
+  historySize: number; // 禁止重复使用最近N个密码，0 表示不限制
+  maxAgeDays: number; // 0 表示永不过期
+}
+
+// API密钥与服务账户
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string; // 明文密钥，仅返回一次
+}
+
+export interface ServiceAccountInfo {
+  id: string;
+  name: string;
+  roles: string[]; // 分配的自定义角色名称
+  ownerId?: string;
+  createdAt: Date;
+}
+
+// 个人数据导出与账户删除
+export type DataExportStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED' | 'EXPIRED';
+
+export interface DataExportInfo {
+  id: string;
+  status: DataExportStatus;
+  fileSize?: number;
+  createdAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface AccountDeletionInfo {
+  requestedAt: Date;
+  scheduledFor: Date; // 冷静期结束时间，此前可通过邮件链接撤销
+}
+
+// 监护人同意
+export type ConsentStatus = 'PENDING' | 'GRANTED' | 'REVOKED';
+
+export interface GuardianChildSummary {
+  userId: string;
+  nickname?: string;
+  consentStatus: ConsentStatus;
+  grantedAt?: Date;
+  level: CEFRLevel;
+  totalXP: number;
+  currentStreak: number;
+  lastActivityAt?: Date;
+}
+
+// 社交功能开关（未成年人始终关闭，游戏与聊天模块据此判断）
+export interface SocialSettings {
+  publicProfile: boolean;
+  openGameRooms: boolean;
+  chatEnabled: boolean;
+  gameInvitations: boolean;
+}
+
+export type SocialFeature = keyof SocialSettings;
+
+export interface GuardianChildProgress extends GuardianChildSummary {
+  progress: {
+    moduleType: ModuleType;
+    skillType: SkillType;
+    level: CEFRLevel;
+    accuracy: number;
+    skillLevel: number;
+    totalTimeSpent: number; // 秒
+  }[];
+  attemptsLast7Days: number;
+}
+
+// 管理员代入
+export interface ImpersonationInfo {
+  actorId: string;
+  actorEmail: string;
+  subjectId: string;
+  sessionId: string;
+  reason: string;
+  startedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ImpersonationResult {
+  user: User;
+  tokens: AuthTokens;
+  impersonation: ImpersonationInfo;
+}
+
+// 角色与权限
+export interface PermissionInfo {
+  key: string;
+  description: string;
+}
+
+export interface RoleInfo {
+  id: string;
+  name: string;
+  description?: string;
+  isSystem: boolean;
+  organizationId?: string;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // DTOs (Data Transfer Objects)
@@ -149,7 +568,10 @@ export interface RegisterDto {
   email: string;
   password: string;
   nickname: string;
+  dateOfBirth: string; // ISO日期（YYYY-MM-DD）
+  guardianEmail?: string; // 未满需监护人同意的年龄时必填
   agreeToTerms: boolean;
+  clientInfo?: ClientInfo;
 }
 
 export interface LoginDto {
@@ -163,21 +585,289 @@ export interface LoginDto {
   };
 }
 
-export interface CreateQuestionDto {
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+  device?: string;
+  deviceId?: string; // 客户端持久化的设备标识，用于识别已知设备
+}
+
+export interface ConfirmMfaDto {
+  code: string;
+}
+
+export interface PasswordConfirmDto {
+  password: string;
+}
+
+export interface ReauthenticateDto {
+  password?: string;
+  code?: string; // 未设置密码时使用MFA验证码或备用恢复码
+}
+
+export interface ReauthenticationResult {
+  validUntil: Date;
+}
+
+export interface ChangeEmailDto {
+  newEmail: string;
+}
+
+export interface EmailChangeTokenDto {
+  token: string;
+}
+
+export interface StepUpVerifyDto {
+  stepUpToken: string;
+  code: string;
+}
+
+export interface StartImpersonationDto {
+  reason: string; // 工单号或说明，写入审计日志
+}
+
+export type RestrictedAccountStatus = 'LOCKED' | 'SUSPENDED' | 'BANNED' | 'PENDING_DELETION' | 'PENDING_CONSENT';
+
+export interface ApplyAccountStatusDto {
+  status: RestrictedAccountStatus;
+  reason: string;
+  expiresAt?: string; // ISO时间，仅LOCKED/SUSPENDED有效
+}
+
+export interface LiftAccountStatusDto {
+  reason: string;
+}
+
+export interface RegisterPasskeyDto {
+  response: any; // RegistrationResponseJSON
+  name?: string;
+}
+
+export interface PasskeyLoginDto {
+  challengeId: string;
+  response: any; // AuthenticationResponseJSON
+}
+
+export interface PasskeyMfaDto extends PasskeyLoginDto {
+  mfaToken: string;
+}
+
+export interface StartPhoneVerificationDto {
+  phone: string; // 国际格式，如 +8613812345678
+}
+
+export interface ConfirmPhoneVerificationDto {
+  code: string;
+}
+
+export interface SmsMfaChallengeDto {
+  mfaToken: string;
+}
+
+export interface SmsMfaVerifyDto {
+  mfaToken: string;
+  code: string;
+}
+
+export type PasswordlessMethod = 'link' | 'code';
+
+export interface PasswordlessLoginRequestDto {
+  email: string;
+  method: PasswordlessMethod;
+}
+
+export interface MagicLinkLoginDto {
+  token: string;
+}
+
+export interface EmailCodeLoginDto {
+  email: string;
+  code: string;
+}
+
+export interface OidcCallbackDto {
+  code: string;
+  state: string;
+}
+
+export interface CompleteOidcSignupDto {
+  signupToken: string;
+  dateOfBirth: string; // ISO日期（YYYY-MM-DD）
+  guardianEmail?: string; // 未满需监护人同意的年龄时必填
+}
+
+export type UpdatePasswordPolicyDto = Partial<PasswordPolicy>;
+
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+export interface CreateServiceAccountDto {
+  name: string;
+  roleIds?: string[]; // 分配的自定义角色
+  organizationId?: string; // 分配组织角色时必填
+}
+
+export interface ParentalConsentDto {
+  token: string;
+}
+
+export interface ResendParentalConsentDto {
+  email: string; // 未成年人账户邮箱
+}
+
+export interface RequestAccountDeletionDto {
+  password?: string; // 设置了密码的账户必填
+  reason?: string;
+}
+
+export interface CancelAccountDeletionDto {
+  token: string;
+}
+
+export interface CreateRoleDto {
+  name: string;
+  description?: string;
+  organizationId?: string;
+  permissions: string[];
+}
+
+export interface UpdateRoleDto {
+  name?: string;
+  description?: string;
+  permissions?: string[];
+}
+
+export interface CreateOrganizationDto {
+  name: string;
+  slug: string;
+}
+
+// 未指定 content.kind 的旧格式题目按有无 options 视为单选/简答
+export type CreateQuestionDto = {
   moduleType: ModuleType;
   level: CEFRLevel;
   difficulty: number;
-  content: QuestionContent;
-  correctAnswer: string | string[];
   explanation: string;
   tags: string[];
   skillType: SkillType;
   estimatedTime: number;
+} & TypedQuestionBody;
+
+export type UpdateQuestionDto = Partial<CreateQuestionDto>;
+
+export interface QuestionQuery {
+  moduleType?: ModuleType;
+  level?: CEFRLevel;
+  skillType?: SkillType;
+  reviewStatus?: ReviewStatus;
+  tag?: string;
+  mine?: boolean; // 仅列出自己创建的题目
+  page?: number;
+  limit?: number;
+}
+
+export interface ReviewQuestionDto {
+  decision: ReviewDecision;
+  notes?: string; // REJECTED 与 NEEDS_REVISION 必填
+}
+
+export interface QuestionCommentDto {
+  body: string;
+}
+
+// 作者按当前草稿试答，用于调试判分设置
+export interface GradeAnswerDto {
+  answer: QuestionResponse;
+}
+
+// 单人练习提交答案，revisionId 取自下发的 QuestionRenderData
+export interface SubmitPracticeAnswerDto {
+  answer: QuestionResponse;
+  revisionId?: string;
+  sessionId: string;
+  responseTime: number; // milliseconds
+}
+
+export interface PracticeAttemptResult extends AnswerGrade {
+  attemptId: string;
+}
+
+// 题库导入导出（CSV / JSON / QTI 2.1）
+export type QuestionBankFormat = 'CSV' | 'JSON' | 'QTI';
+export type QuestionBankJobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED';
+
+// JSON 导入导出文件，questions 中每一项与 CreateQuestionDto 相同（JSON Schema 见 GET /questions/import/schema）
+export interface QuestionBankFile {
+  version: 1;
+  questions: CreateQuestionDto[];
+}
+
+// 源文件未提供模块、级别、技能时使用的默认值（常见于其他工具导出的 QTI 包）
+export interface QuestionImportDefaults {
+  moduleType?: ModuleType;
+  level?: CEFRLevel;
+  skillType?: SkillType;
+}
+
+export interface QuestionImportDto extends QuestionImportDefaults {
+  format: QuestionBankFormat;
+  dryRun?: boolean;
+}
+
+export interface QuestionImportIssue {
+  row: number; // CSV 为表格行号（含表头），JSON 与 QTI 为条目序号（从1开始）
+  field?: string;
+  message: string;
+}
+
+export interface QuestionImportDuplicate {
+  row: number;
+  duplicateOfRow?: number; // 与文件内前面的条目重复
+  duplicateOfQuestionId?: string; // 与题库中已有题目重复
+}
+
+export interface QuestionImportReport {
+  totalRows: number;
+  validRows: number;
+  errors: QuestionImportIssue[]; // 存在错误时整个文件不会导入
+  duplicates: QuestionImportDuplicate[]; // 导入时跳过
+  unknownTags: { row: number; tags: string[] }[]; // 题库中尚未使用过的标签，仅作提示
+}
+
+export interface QuestionImportInfo {
+  id: string;
+  format: QuestionBankFormat;
+  status: QuestionBankJobStatus;
+  dryRun: boolean;
+  fileName: string;
+  report?: QuestionImportReport;
+  importedCount: number;
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface QuestionExportDto extends Omit<QuestionQuery, 'page' | 'limit'> {
+  format: QuestionBankFormat;
+}
+
+export interface QuestionExportInfo {
+  id: string;
+  format: QuestionBankFormat;
+  status: QuestionBankJobStatus;
+  questionCount?: number;
+  fileSize?: number;
+  createdAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
 }
 
 export interface GameAnswerDto {
   questionId: string;
-  answer: string;
+  answer: QuestionResponse;
   responseTime: number;
 }
 
@@ -208,6 +898,11 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   meta: PaginationMeta;
 }
 
+export interface PaginatedResult<T> {
+  items: T[];
+  meta: PaginationMeta;
+}
+
 // Performance & Monitoring Types
 export interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -263,7 +958,7 @@ export interface GameStartEvent extends SocketEvent {
   type: 'game:start';
   payload: {
     roomId: string;
-    questions: Question[];
+    questions: QuestionRenderData[];
   };
 }
 
@@ -377,3 +1072,35 @@ export class ForbiddenError extends AppError {
     this.name = 'ForbiddenError';
   }
 }
+
+export class ImpersonationForbiddenError extends AppError {
+  constructor(message: string = 'This action is not available while impersonating a user') {
+    super(message, 403, 'IMPERSONATION_FORBIDDEN');
+    this.name = 'ImpersonationForbiddenError';
+  }
+}
+
+export class ReauthenticationRequiredError extends AppError {
+  constructor(message: string = 'Recent re-authentication required') {
+    super(message, 403, 'REAUTHENTICATION_REQUIRED');
+    this.name = 'ReauthenticationRequiredError';
+  }
+}
+
+export class PasswordExpiredError extends AppError {
+  constructor(message: string = 'Password has expired. Reset your password to sign in.') {
+    super(message, 403, 'PASSWORD_EXPIRED');
+    this.name = 'PasswordExpiredError';
+  }
+}
+
+export class AccountRestrictedError extends AppError {
+  constructor(
+    public status: RestrictedAccountStatus,
+    public reason?: string,
+    public until?: Date
+  ) {
+    super(`Account is ${status.toLowerCase().replace('_', ' ')}`, 403, `ACCOUNT_${status}`);
+    this.name = 'AccountRestrictedError';
+  }
+}